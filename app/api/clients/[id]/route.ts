@@ -56,6 +56,7 @@ export async function GET(
     // Map database columns to frontend format
     const mappedClient = {
       ...client,
+      priceListId: client.pricelistid,
       quotes: (client.quotes || []).map((quote: any) => ({
         id: quote.id,
         title: quote.title,
@@ -83,7 +84,7 @@ export async function PUT(
   try {
     const { id } = await params;
     const body = await request.json();
-    const { name, email, phone, address, source, expectedDealValue } = body;
+    const { name, email, phone, address, state, gstin, source, expectedDealValue, priceListId } = body;
 
     // Get the authorization token from the request header
     const authHeader = request.headers.get('authorization');
@@ -124,7 +125,10 @@ export async function PUT(
       email,
       phone,
       address,
+      state: state || null,
+      gstin: gstin ? gstin.trim().toUpperCase() : null,
       source: source || 'Other',
+      pricelistid: priceListId || null,
       updatedat: new Date().toISOString(),
     };
 
@@ -154,8 +158,11 @@ export async function PUT(
         email: { from: currentClient.email, to: email },
         phone: { from: currentClient.phone, to: phone },
         address: { from: currentClient.address, to: address },
+        state: { from: currentClient.state, to: state },
+        gstin: { from: currentClient.gstin, to: gstin },
         source: { from: currentClient.source, to: source },
         expectedDealValue: { from: currentClient.expecteddealvalue, to: expectedDealValue },
+        priceListId: { from: currentClient.pricelistid, to: priceListId || null },
       }
     };
 
@@ -167,7 +174,7 @@ export async function PUT(
         changes: changes,
       });
 
-    return NextResponse.json(updatedClient);
+    return NextResponse.json({ ...updatedClient, priceListId: updatedClient.pricelistid });
   } catch (error) {
     console.error('Error updating client:', error);
     return NextResponse.json(
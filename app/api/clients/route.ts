@@ -47,8 +47,11 @@ export async function GET(request: NextRequest) {
       email: client.email,
       phone: client.phone,
       address: client.address,
+      state: client.state,
+      gstin: client.gstin,
       source: client.source,
       expecteddealvalue: client.expecteddealvalue,
+      priceListId: client.pricelistid,
       createdat: client.createdat,
       updatedat: client.updatedat,
       quoteCount: Array.isArray(client.quotes) ? client.quotes.length : 0
@@ -110,7 +113,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, email, phone, address, source, expectedDealValue } = body;
+    const { name, email, phone, address, state, gstin, source, expectedDealValue, priceListId } = body;
 
     // Prepare insert data
     const insertData: any = {
@@ -118,7 +121,10 @@ export async function POST(request: NextRequest) {
       email,
       phone,
       address,
+      state: state || null,
+      gstin: gstin ? gstin.trim().toUpperCase() : null,
       source: source || 'Other', // Default to 'Other' if not provided
+      pricelistid: priceListId || null,
       createdby: userProfile.id, // Set client owner for RLS
     };
 
@@ -137,7 +143,7 @@ export async function POST(request: NextRequest) {
 
     if (error) throw error;
 
-    return NextResponse.json(client, { status: 201 });
+    return NextResponse.json({ ...client, priceListId: client.pricelistid }, { status: 201 });
   } catch (error) {
     console.error('Error creating client:', error);
     return NextResponse.json(
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { canApproveQuotes } from '@/lib/margins';
+import {
+  APPROVAL_STEPS_SELECT,
+  canActOnApprovalStep,
+  getCurrentApprovalStep,
+  mapApprovalSteps,
+} from '@/lib/approvals';
 
 export async function GET(request: NextRequest) {
   try {
@@ -52,18 +59,15 @@ export async function GET(request: NextRequest) {
       console.error('Quotes query error:', quotesError);
     }
 
-    // Get pending approvals count
-    const { count: pendingApprovalsCount, error: pendingCountError } = await supabase
-      .from('quotes')
-      .select('*', { count: 'exact', head: true })
-      .eq('status', 'PENDING_APPROVAL');
-
-    if (pendingCountError) {
-      console.error('Pending approvals count error:', pendingCountError);
-    }
+    // Pending approvals the current user can act on: quotes whose current approval step
+    // is for their role (or for any approver, if they can approve quotes)
+    const { data: { user: authUser } } = await supabase.auth.getUser(token);
+    const { data: userProfile } = authUser
+      ? await supabase.from('users').select('roleid').eq('authuserid', authUser.id).single()
+      : { data: null };
+    const canApprove = await canApproveQuotes(supabase);
 
-    // Get pending approvals list (top 10)
-    const { data: pendingApprovalsList, error: pendingListError } = await supabase
+    const { data: pendingQuotes, error: pendingListError } = await supabase
       .from('quotes')
       .select(`
         id,
@@ -71,25 +75,47 @@ export async function GET(request: NextRequest) {
         title,
         grandtotal,
         createdat,
-        client:clients(name)
+        approvalreason,
+        client:clients(name),
+        ${APPROVAL_STEPS_SELECT}
       `)
       .eq('status', 'PENDING_APPROVAL')
-      .order('createdat', { ascending: false })
-      .limit(10);
+      .order('createdat', { ascending: false });
 
     if (pendingListError) {
       console.error('Pending approvals list error:', pendingListError);
     }
 
-    // Map pending approvals to camelCase format
+    const actionableQuotes = (pendingQuotes || [])
+      .map((quote: any) => {
+        const steps = mapApprovalSteps(quote.approvalSteps);
+        return { quote, steps, currentStep: getCurrentApprovalStep(steps) };
+      })
+      .filter(({ steps, currentStep }) =>
+        // Quotes sent for approval before approval chains existed have no steps
+        currentStep
+          ? canActOnApprovalStep(currentStep, userProfile?.roleid, canApprove)
+          : steps.length === 0 && canApprove
+      );
+
+    const pendingApprovalsCount = actionableQuotes.length;
+
+    // Map pending approvals (top 10) to camelCase format
     // Note: createdByName is set to 'System' until we add createdby column to quotes table
-    const pendingApprovals = (pendingApprovalsList || []).map((quote: any) => ({
+    const pendingApprovals = actionableQuotes.slice(0, 10).map(({ quote, steps, currentStep }) => ({
       id: quote.id,
       quoteNumber: quote.quotenumber,
       title: quote.title,
       grandTotal: quote.grandtotal,
       createdAt: quote.createdat,
       clientName: quote.client?.name || 'Unknown',
+      approvalReason: quote.approvalreason || null,
+      currentStep: currentStep ? {
+        stepOrder: currentStep.stepOrder,
+        totalSteps: steps.length,
+        roleName: currentStep.roleName,
+        reason: currentStep.reason,
+      } : null,
       createdByName: 'System' // TODO: Add createdby column to quotes table
     }));
 
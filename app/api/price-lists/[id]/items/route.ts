@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { getPriceListItemError, mapPriceListItem } from '@/lib/price-lists';
+
+/**
+ * GET /api/price-lists/[id]/items
+ * All rate entries in the list, including past and scheduled ones
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: items, error } = await supabase
+      .from('price_list_items')
+      .select('*')
+      .eq('pricelistid', id)
+      .order('effectivefrom', { ascending: false });
+
+    if (error) throw error;
+
+    return NextResponse.json((items || []).map(mapPriceListItem));
+  } catch (error) {
+    console.error('Error fetching price list items:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch price list items' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/price-lists/[id]/items
+ * Sets a product's rate from a date. An entry for the same product and start date is replaced.
+ * Body: { productId, rate, effectiveFrom, effectiveTo? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const body = await request.json();
+    const { productId, rate, effectiveFrom, effectiveTo } = body;
+
+    const itemError = getPriceListItemError({ productId, rate, effectiveFrom, effectiveTo });
+    if (itemError) {
+      return NextResponse.json(
+        { error: itemError },
+        { status: 400 }
+      );
+    }
+
+    const { data: item, error } = await supabase
+      .from('price_list_items')
+      .upsert(
+        {
+          pricelistid: id,
+          productid: productId,
+          rate: Number(rate),
+          effectivefrom: effectiveFrom,
+          effectiveto: effectiveTo || null,
+        },
+        { onConflict: 'pricelistid,productid,effectivefrom' }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json(mapPriceListItem(item), { status: 201 });
+  } catch (error: any) {
+    console.error('Error saving price list item:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to save price list item' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { searchParams } = new URL(request.url);
+    const itemId = searchParams.get('itemId');
+
+    if (!itemId) {
+      return NextResponse.json(
+        { error: 'Price list item ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('price_list_items')
+      .delete()
+      .eq('id', itemId)
+      .eq('pricelistid', id);
+
+    if (error) throw error;
+
+    return NextResponse.json(
+      { message: 'Price list item deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error deleting price list item:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete price list item' },
+      { status: 500 }
+    );
+  }
+}
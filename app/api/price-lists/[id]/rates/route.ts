@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { getPriceListRates } from '@/lib/price-lists';
+import { toDateString } from '@/lib/quote-validity';
+
+/**
+ * GET /api/price-lists/[id]/rates?date=YYYY-MM-DD
+ * Rates in effect on the date (default today), as { [productId]: rate }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const date = request.nextUrl.searchParams.get('date') || toDateString(new Date());
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { error: 'Date must be in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const rates = await getPriceListRates(supabase, id, date);
+
+    return NextResponse.json(rates);
+  } catch (error) {
+    console.error('Error fetching price list rates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch price list rates' },
+      { status: 500 }
+    );
+  }
+}
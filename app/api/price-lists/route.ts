@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+
+// Map a price_lists row to frontend format
+function mapPriceList(priceList: any) {
+  return {
+    id: priceList.id,
+    name: priceList.name,
+    description: priceList.description,
+    isActive: priceList.isactive ?? true,
+    createdAt: priceList.createdat,
+    updatedAt: priceList.updatedat,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: priceLists, error } = await supabase
+      .from('price_lists')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json((priceLists || []).map(mapPriceList));
+  } catch (error) {
+    console.error('Error fetching price lists:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch price lists' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/price-lists
+ * Creates a price list, or updates it when an id is given.
+ * Body: { id?, name, description?, isActive? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const body = await request.json();
+    const { id, name, description, isActive } = body;
+
+    if (!name?.trim()) {
+      return NextResponse.json(
+        { error: 'Price list name is required' },
+        { status: 400 }
+      );
+    }
+
+    const priceListData = {
+      name: name.trim(),
+      description: description?.trim() || null,
+      isactive: isActive ?? true,
+      updatedat: new Date().toISOString(),
+    };
+
+    const { data: priceList, error } = id
+      ? await supabase
+          .from('price_lists')
+          .update(priceListData)
+          .eq('id', id)
+          .select()
+          .single()
+      : await supabase
+          .from('price_lists')
+          .insert(priceListData)
+          .select()
+          .single();
+
+    if (error) {
+      if (error.code === '23505') { // Unique violation on name
+        return NextResponse.json(
+          { error: `A price list named "${name.trim()}" already exists` },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(mapPriceList(priceList), { status: id ? 200 : 201 });
+  } catch (error: any) {
+    console.error('Error saving price list:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to save price list' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Price list ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Clients on this list go back to base rates (pricelistid is set to NULL)
+    const { error } = await supabase
+      .from('price_lists')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    return NextResponse.json(
+      { message: 'Price list deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error deleting price list:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete price list' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import {
+  PRODUCT_COMPONENTS_SELECT,
+  KitComponentInput,
+  mapProductComponents,
+  replaceKitComponents,
+  resolveProductRate,
+  validateKit,
+} from '@/lib/kits';
+import { getVariantAttributesError, parseVariantAttributes } from '@/lib/variants';
+import { canViewMargins, mapCostPrice, parseCostPrice } from '@/lib/margins';
 
 export async function GET(
   request: NextRequest,
@@ -36,7 +46,8 @@ export async function GET(
       .from('products')
       .select(`
         *,
-        category:categories(*)
+        category:categories(*),
+        ${PRODUCT_COMPONENTS_SELECT}
       `)
       .eq('id', id)
       .single();
@@ -51,13 +62,28 @@ export async function GET(
       throw error;
     }
 
+    const showCost = await canViewMargins(supabase);
+
     // Map database columns to frontend format
+    const components = mapProductComponents(product.components);
     const mappedProduct = {
       ...product,
       itemCode: product.itemcode,
-      baseRate: product.baserate,
+      baseRate: resolveProductRate({
+        baseRate: product.baserate,
+        isKit: product.iskit,
+        kitRateOverride: product.kitrateoverride,
+        components,
+      }),
+      ...mapCostPrice(product.costprice, showCost),
+      hsnCode: product.hsncode,
+      taxRate: product.taxrate,
       categoryId: product.categoryid,
       imageUrl: product.imageurl,
+      isKit: product.iskit ?? false,
+      kitRateOverride: product.kitrateoverride ?? false,
+      variantAttributes: parseVariantAttributes(product.variantattributes),
+      components,
       createdAt: product.createdat,
       updatedAt: product.updatedat,
     };
@@ -103,7 +129,34 @@ export async function PUT(
 
     const { id } = await params;
     const body = await request.json();
-        const { itemCode, name, description, unit, baseRate, categoryId, imageUrl } = body;
+        const { itemCode, name, description, unit, baseRate, costPrice, categoryId, imageUrl, hsnCode, taxRate, isKit, kitRateOverride } = body;
+    const kitComponents: KitComponentInput[] = isKit ? body.components || [] : [];
+    const variantAttributes = body.variantAttributes !== undefined
+      ? parseVariantAttributes(body.variantAttributes)
+      : undefined;
+
+    const variantsError = variantAttributes ? getVariantAttributesError(variantAttributes) : null;
+    if (variantsError) {
+      return NextResponse.json({ error: variantsError }, { status: 400 });
+    }
+
+    const cost = parseCostPrice(costPrice);
+    if (cost !== null && !(cost >= 0)) {
+      return NextResponse.json({ error: 'Cost price must be zero or more' }, { status: 400 });
+    }
+
+    // Only users who can see margins can change costs
+    const showCost = await canViewMargins(supabase);
+
+    // Kits are priced from their components unless the rate is overridden
+    let rate = baseRate;
+    if (isKit) {
+      const { error: kitError, derivedRate } = await validateKit(supabase, id, kitComponents);
+      if (kitError) {
+        return NextResponse.json({ error: kitError }, { status: 400 });
+      }
+      if (!kitRateOverride) rate = derivedRate;
+    }
 
     const { error } = await supabase
       .from('products')
@@ -112,21 +165,35 @@ export async function PUT(
         name,
         description,
         unit,
-        baserate: baseRate,
+        baserate: rate,
+        ...(showCost && costPrice !== undefined && { costprice: cost }),
+        hsncode: hsnCode?.trim() || null,
+        taxrate: taxRate ?? null,
         categoryid: categoryId,
         imageurl: imageUrl,
+        // Kit and variant fields are left alone by callers that don't send them
+        ...(isKit !== undefined && {
+          iskit: !!isKit,
+          kitrateoverride: !!isKit && !!kitRateOverride,
+        }),
+        ...(variantAttributes && { variantattributes: variantAttributes }),
         // Don't include updatedat - database trigger handles it
       })
       .eq('id', id);
 
     if (error) throw error;
 
+    if (isKit !== undefined) {
+      await replaceKitComponents(supabase, id, kitComponents);
+    }
+
     // Fetch the updated product separately to avoid trigger issues
     const { data: product, error: fetchError } = await supabase
       .from('products')
       .select(`
         *,
-        category:categories(*)
+        category:categories(*),
+        ${PRODUCT_COMPONENTS_SELECT}
       `)
       .eq('id', id)
       .single();
@@ -138,8 +205,15 @@ export async function PUT(
       ...product,
       itemCode: product.itemcode,
       baseRate: product.baserate,
+      ...mapCostPrice(product.costprice, showCost),
+      hsnCode: product.hsncode,
+      taxRate: product.taxrate,
       categoryId: product.categoryid,
       imageUrl: product.imageurl,
+      isKit: product.iskit ?? false,
+      kitRateOverride: product.kitrateoverride ?? false,
+      variantAttributes: parseVariantAttributes(product.variantattributes),
+      components: mapProductComponents(product.components),
       createdAt: product.createdat,
       updatedAt: product.updatedat,
     };
@@ -190,7 +264,15 @@ export async function DELETE(
       .delete()
       .eq('id', id);
 
-    if (error) throw error;
+    if (error) {
+      if (error.code === '23503') { // Foreign key violation: still a component of a kit
+        return NextResponse.json(
+          { error: 'This product is a component of a kit. Remove it from the kit first.' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
 
     return NextResponse.json({ message: 'Product deleted successfully' });
   } catch (error) {
@@ -8,6 +8,8 @@ interface CSVRow {
   'UOM': string;
   'Rate': string;
   'Category': string;
+  'HSN/SAC'?: string;
+  'GST Rate'?: string;
 }
 
 export async function POST(request: NextRequest) {
@@ -158,6 +160,17 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
+        // Validate optional GST rate
+        let taxRate: number | null = null;
+        if (row['GST Rate']) {
+          taxRate = parseFloat(row['GST Rate'].replace('%', ''));
+          if (isNaN(taxRate) || taxRate < 0 || taxRate > 100) {
+            errors.push(`Row ${rowNum}: Invalid GST rate value`);
+            skipped++;
+            continue;
+          }
+        }
+
         // Find or create category
         const categoryNameLower = row['Category'].toLowerCase();
         let categoryId = categoryMap.get(categoryNameLower);
@@ -198,6 +211,8 @@ export async function POST(request: NextRequest) {
           description: row['Description'] || null,
           unit: row['UOM'],
           baserate: rate,
+          hsncode: row['HSN/SAC'] || null,
+          taxrate: taxRate,
           categoryid: categoryId,
         };
 
@@ -1,5 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import {
+  PRODUCT_COMPONENTS_SELECT,
+  KitComponentInput,
+  mapProductComponents,
+  replaceKitComponents,
+  resolveProductRate,
+  validateKit,
+} from '@/lib/kits';
+import { getVariantAttributesError, parseVariantAttributes } from '@/lib/variants';
+import { canViewMargins, mapCostPrice, parseCostPrice } from '@/lib/margins';
 
 export async function GET(request: NextRequest) {
   try {
@@ -35,7 +45,8 @@ export async function GET(request: NextRequest) {
       .from('products')
       .select(`
         *,
-        category:categories(*)
+        category:categories(*),
+        ${PRODUCT_COMPONENTS_SELECT}
       `)
       .order('name', { ascending: true });
 
@@ -51,27 +62,43 @@ export async function GET(request: NextRequest) {
 
     if (error) throw error;
 
+    const showCost = await canViewMargins(supabase);
+
     // Map database columns to frontend format
-    const mappedProducts = products?.map(product => ({
-      ...product,
-      itemCode: product.itemcode,
-      baseRate: product.baserate,
-      categoryId: product.categoryid,
-      imageUrl: product.imageurl,
-      isActive: product.isactive,
-      createdAt: product.createdat,
-      updatedAt: product.updatedat,
-      // Map category fields if category exists
-      category: product.category ? {
-        id: product.category.id,
-        name: product.category.name,
-        description: product.category.description,
-        isActive: product.category.isactive,
-        parentId: product.category.parentid,
-        createdAt: product.category.createdat,
-        updatedAt: product.category.updatedat,
-      } : undefined,
-    })) || [];
+    const mappedProducts = products?.map(product => {
+      const components = mapProductComponents(product.components);
+      const isKit = product.iskit ?? false;
+      const kitRateOverride = product.kitrateoverride ?? false;
+
+      return {
+        ...product,
+        itemCode: product.itemcode,
+        // Derived kits are priced from their components' current rates
+        baseRate: resolveProductRate({ baseRate: product.baserate, isKit, kitRateOverride, components }),
+        ...mapCostPrice(product.costprice, showCost),
+        hsnCode: product.hsncode,
+        taxRate: product.taxrate,
+        categoryId: product.categoryid,
+        imageUrl: product.imageurl,
+        isActive: product.isactive,
+        isKit,
+        kitRateOverride,
+        components,
+        variantAttributes: parseVariantAttributes(product.variantattributes),
+        createdAt: product.createdat,
+        updatedAt: product.updatedat,
+        // Map category fields if category exists
+        category: product.category ? {
+          id: product.category.id,
+          name: product.category.name,
+          description: product.category.description,
+          isActive: product.category.isactive,
+          parentId: product.category.parentid,
+          createdAt: product.category.createdat,
+          updatedAt: product.category.updatedat,
+        } : undefined,
+      };
+    }) || [];
 
     return NextResponse.json(mappedProducts);
   } catch (error) {
@@ -110,7 +137,32 @@ export async function POST(request: NextRequest) {
     );
 
     const body = await request.json();
-        const { itemCode, name, description, unit, baseRate, categoryId, imageUrl } = body;
+        const { itemCode, name, description, unit, baseRate, costPrice, categoryId, imageUrl, hsnCode, taxRate, isKit, kitRateOverride } = body;
+    const kitComponents: KitComponentInput[] = isKit ? body.components || [] : [];
+    const variantAttributes = parseVariantAttributes(body.variantAttributes);
+
+    const variantsError = getVariantAttributesError(variantAttributes);
+    if (variantsError) {
+      return NextResponse.json({ error: variantsError }, { status: 400 });
+    }
+
+    const cost = parseCostPrice(costPrice);
+    if (cost !== null && !(cost >= 0)) {
+      return NextResponse.json({ error: 'Cost price must be zero or more' }, { status: 400 });
+    }
+
+    // Only users who can see margins can set costs
+    const showCost = await canViewMargins(supabase);
+
+    // Kits are priced from their components unless the rate is overridden
+    let rate = baseRate;
+    if (isKit) {
+      const { error: kitError, derivedRate } = await validateKit(supabase, null, kitComponents);
+      if (kitError) {
+        return NextResponse.json({ error: kitError }, { status: 400 });
+      }
+      if (!kitRateOverride) rate = derivedRate;
+    }
 
     const { data: product, error } = await supabase
       .from('products')
@@ -119,9 +171,15 @@ export async function POST(request: NextRequest) {
         name,
         description,
         unit: unit || 'pcs',
-        baserate: baseRate,
+        baserate: rate,
+        ...(showCost && { costprice: cost }),
+        hsncode: hsnCode?.trim() || null,
+        taxrate: taxRate ?? null,
         categoryid: categoryId,
         imageurl: imageUrl,
+        iskit: !!isKit,
+        kitrateoverride: !!isKit && !!kitRateOverride,
+        variantattributes: variantAttributes,
       })
       .select(`
         *,
@@ -131,13 +189,23 @@ export async function POST(request: NextRequest) {
 
     if (error) throw error;
 
+    if (isKit) {
+      await replaceKitComponents(supabase, product.id, kitComponents);
+    }
+
     // Map database columns to frontend format
     const mappedProduct = {
       ...product,
       itemCode: product.itemcode,
       baseRate: product.baserate,
+      ...mapCostPrice(product.costprice, showCost),
+      hsnCode: product.hsncode,
+      taxRate: product.taxrate,
       categoryId: product.categoryid,
       imageUrl: product.imageurl,
+      isKit: product.iskit ?? false,
+      kitRateOverride: product.kitrateoverride ?? false,
+      variantAttributes: parseVariantAttributes(product.variantattributes),
       createdAt: product.createdat,
       updatedAt: product.updatedat,
     };
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { mapQuoteTemplate, templateToBuilderQuote } from '@/lib/quote-templates';
+import { QuoteTemplateContent } from '@/lib/types';
+
+/**
+ * GET /api/quote-templates/[id]
+ * Returns a template ready to load into the quote builder
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: template, error } = await supabase
+      .from('quote_templates')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: 'Quote template not found' },
+          { status: 404 }
+        );
+      }
+      throw error;
+    }
+
+    const content = template.content as QuoteTemplateContent;
+    const productIds = Array.from(new Set(content.items.map((item) => item.productId)));
+
+    const { data: products, error: productsError } = productIds.length > 0
+      ? await supabase
+          .from('products')
+          .select('*, category:categories(name)')
+          .in('id', productIds)
+      : { data: [], error: null };
+
+    if (productsError) throw productsError;
+
+    // The quote has no id, so the builder saves it as a new quote
+    return NextResponse.json({
+      template: mapQuoteTemplate(template),
+      quote: templateToBuilderQuote(content, products || []),
+    });
+  } catch (error) {
+    console.error('Error fetching quote template:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch quote template' },
+      { status: 500 }
+    );
+  }
+}
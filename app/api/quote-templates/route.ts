@@ -0,0 +1,202 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { QUOTE_SNAPSHOT_SELECT, buildQuoteSnapshot } from '@/lib/quote-revisions';
+import { mapQuoteTemplate, snapshotToTemplateContent } from '@/lib/quote-templates';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: templates, error } = await supabase
+      .from('quote_templates')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json((templates || []).map(mapQuoteTemplate));
+  } catch (error) {
+    console.error('Error fetching quote templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch quote templates' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/quote-templates
+ * Saves the rooms, items and terms of an existing quote as a named template
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const body = await request.json();
+    const { name, description, quoteId } = body;
+
+    if (!name?.trim()) {
+      return NextResponse.json(
+        { error: 'Template name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!quoteId) {
+      return NextResponse.json(
+        { error: 'Quote to save as a template is required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: quote, error: quoteError } = await supabase
+      .from('quotes')
+      .select(QUOTE_SNAPSHOT_SELECT)
+      .eq('id', quoteId)
+      .single();
+
+    if (quoteError || !quote) {
+      return NextResponse.json(
+        { error: 'Quote not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: template, error } = await supabase
+      .from('quote_templates')
+      .insert({
+        name: name.trim(),
+        description: description?.trim() || null,
+        content: snapshotToTemplateContent(buildQuoteSnapshot(quote)),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'A quote template with this name already exists' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(mapQuoteTemplate(template), { status: 201 });
+  } catch (error: any) {
+    console.error('Error saving quote template:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to save quote template' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Template ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // RLS only lets the template's author or an admin delete it
+    const { data: deleted, error } = await supabase
+      .from('quote_templates')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) throw error;
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Only the author of a template or an admin can delete it' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Quote template deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error deleting quote template:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete quote template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { APPROVAL_EVENTS_SELECT, mapApprovalEvent, recordApprovalEvent } from '@/lib/approvals';
+
+/**
+ * GET /api/quotes/[id]/approval-events
+ * The quote's approval history (requests, decisions and comments), oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: events, error } = await supabase
+      .from('quote_approval_events')
+      .select(APPROVAL_EVENTS_SELECT)
+      .eq('quoteid', id)
+      .order('createdat', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json((events || []).map(mapApprovalEvent));
+  } catch (error) {
+    console.error('Error fetching approval events:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch approval history' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/quotes/[id]/approval-events
+ * Adds a comment to the quote's approval conversation
+ * Body: { notes: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { notes } = await request.json();
+
+    if (typeof notes !== 'string' || !notes.trim()) {
+      return NextResponse.json(
+        { error: 'Comment cannot be empty' },
+        { status: 400 }
+      );
+    }
+
+    const { data: quote, error: fetchError } = await supabase
+      .from('quotes')
+      .select('version')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !quote) {
+      return NextResponse.json(
+        { error: 'Quote not found' },
+        { status: 404 }
+      );
+    }
+
+    const event = await recordApprovalEvent(supabase, {
+      quoteId: id,
+      action: 'COMMENTED',
+      quoteVersion: quote.version || 1,
+      notes,
+    });
+
+    return NextResponse.json(event, { status: 201 });
+  } catch (error) {
+    console.error('Error adding approval comment:', error);
+    return NextResponse.json(
+      { error: 'Failed to add comment' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { isQuoteExpired } from '@/lib/quote-validity';
+import { canApproveQuotes } from '@/lib/margins';
+import {
+  canActOnApprovalStep,
+  getCurrentApprovalStep,
+  mapApprovalSteps,
+  recordApprovalEvent,
+} from '@/lib/approvals';
+import { checkStatusTransition, recordStatusTransition } from '@/lib/quote-status';
+import { QuoteStatus } from '@/lib/types';
 
 /**
  * POST /api/quotes/[id]/approve
- * Approves or rejects a quote
+ * Approves or rejects the current step of a quote's approval chain. The quote is sent
+ * once its last step is approved, and rejected as soon as any step is rejected.
  * Body: { action: 'approve' | 'reject', notes?: string }
  */
 export async function POST(
@@ -62,34 +73,116 @@ export async function POST(
       );
     }
 
-    // Verify quote is in PENDING_APPROVAL status
+    // Only quotes pending approval can be approved or rejected, by approvers
+    const targetStatus: QuoteStatus = action === 'approve' ? 'SENT' : 'REJECTED';
     if (quote.status !== 'PENDING_APPROVAL') {
       return NextResponse.json(
         {
           error: `Cannot ${action} quote. Quote must be in PENDING_APPROVAL status. Current status: ${quote.status}`
         },
-        { status: 400 }
+        { status: 409 }
       );
     }
 
-    // Prepare update data based on action
+    const transitionError = await checkStatusTransition(supabase, quote.status, targetStatus);
+    if (transitionError) {
+      return NextResponse.json(
+        { error: transitionError.error },
+        { status: transitionError.status }
+      );
+    }
+
+    // An expired quote has to be given a new validity date before it can be approved
+    if (action === 'approve' && isQuoteExpired({ status: quote.status, validUntil: quote.validuntil })) {
+      return NextResponse.json(
+        { error: `Cannot approve quote. Quote expired on ${quote.validuntil}; extend its validity first.` },
+        { status: 409 }
+      );
+    }
+
+    const { data: { user: authUser }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !authUser) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Invalid auth token' },
+        { status: 401 }
+      );
+    }
+
+    const { data: userProfile, error: profileError } = await supabase
+      .from('users')
+      .select('id, roleid')
+      .eq('authuserid', authUser.id)
+      .single();
+
+    if (profileError || !userProfile) {
+      return NextResponse.json(
+        { error: 'User profile not found' },
+        { status: 404 }
+      );
+    }
+
+    // Quotes sent for approval before approval chains existed have no steps
+    const { data: stepRows, error: stepsError } = await supabase
+      .from('quote_approval_steps')
+      .select('*, role:roles(name)')
+      .eq('quoteid', id);
+
+    if (stepsError) throw stepsError;
+
+    const approvalSteps = mapApprovalSteps(stepRows);
+    const currentStep = getCurrentApprovalStep(approvalSteps);
     const now = new Date().toISOString();
+
+    if (currentStep) {
+      if (!canActOnApprovalStep(currentStep, userProfile.roleid, await canApproveQuotes(supabase))) {
+        return NextResponse.json(
+          {
+            error: `Step ${currentStep.stepOrder} of ${approvalSteps.length} is waiting for ${currentStep.roleName || 'an approver'}`
+          },
+          { status: 403 }
+        );
+      }
+
+      const stepUpdate = {
+        status: action === 'approve' ? 'APPROVED' : 'REJECTED',
+        actedby: userProfile.id,
+        actedat: now,
+        notes: notes || null,
+      } as const;
+
+      const { error: stepError } = await supabase
+        .from('quote_approval_steps')
+        .update(stepUpdate)
+        .eq('id', currentStep.id);
+
+      if (stepError) throw stepError;
+
+      Object.assign(currentStep, {
+        status: stepUpdate.status,
+        actedBy: stepUpdate.actedby,
+        actedAt: stepUpdate.actedat,
+        notes: stepUpdate.notes,
+      });
+    }
+
+    const nextStep = action === 'approve' ? getCurrentApprovalStep(approvalSteps) : null;
+
+    // Prepare update data based on action
     const updateData: Record<string, any> = {
       updatedat: now,
-      approvedby: 'system', // Placeholder until auth integration
-      approvedat: now,
     };
 
-    if (notes) {
-      updateData.approvalnotes = notes;
-    }
+    if (!nextStep) {
+      updateData.approvedby = userProfile.id;
+      updateData.approvedat = now;
+
+      if (notes) {
+        updateData.approvalnotes = notes;
+      }
 
-    if (action === 'approve') {
-      updateData.status = 'SENT';
-      updateData.isapproved = true;
-    } else {
-      updateData.status = 'REJECTED';
-      updateData.isapproved = false;
+      updateData.status = targetStatus;
+      updateData.isapproved = action === 'approve';
     }
 
     // Update the quote
@@ -108,6 +201,18 @@ export async function POST(
       );
     }
 
+    if (!nextStep) {
+      await recordStatusTransition(supabase, id, 'PENDING_APPROVAL', targetStatus, notes);
+    }
+
+    await recordApprovalEvent(supabase, {
+      quoteId: id,
+      action: action === 'approve' ? 'APPROVED' : 'REJECTED',
+      quoteVersion: quote.version || 1,
+      notes,
+      stepOrder: currentStep?.stepOrder ?? null,
+    });
+
     // Map lowercase database columns to camelCase for frontend
     const response = {
       id: updatedQuote.id,
@@ -115,8 +220,10 @@ export async function POST(
       title: updatedQuote.title,
       clientId: updatedQuote.clientid,
       status: updatedQuote.status,
+      validUntil: updatedQuote.validuntil,
       discountMode: updatedQuote.discountmode,
       overallDiscount: updatedQuote.overalldiscount,
+      overallDiscountType: updatedQuote.overalldiscounttype || 'PERCENT',
       taxRate: updatedQuote.taxrate,
       subtotal: updatedQuote.subtotal,
       grandTotal: updatedQuote.grandtotal,
@@ -124,13 +231,17 @@ export async function POST(
       approvedBy: updatedQuote.approvedby,
       approvedAt: updatedQuote.approvedat,
       approvalNotes: updatedQuote.approvalnotes,
+      approvalReason: updatedQuote.approvalreason,
+      approvalSteps,
       createdAt: updatedQuote.createdat,
       updatedAt: updatedQuote.updatedat,
     };
 
     return NextResponse.json({
       success: true,
-      message: `Quote ${action === 'approve' ? 'approved' : 'rejected'} successfully`,
+      message: nextStep
+        ? `Step ${currentStep!.stepOrder} approved; waiting for ${nextStep.roleName || 'an approver'}`
+        : `Quote ${action === 'approve' ? 'approved' : 'rejected'} successfully`,
       quote: response,
     });
   } catch (error) {
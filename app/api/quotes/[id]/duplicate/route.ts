@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { QUOTE_SNAPSHOT_SELECT, buildQuoteSnapshot, snapshotToQuoteUpdate } from '@/lib/quote-revisions';
+import { POST as createQuote } from '../../route';
+
+/**
+ * POST /api/quotes/[id]/duplicate
+ * Copies a quote's contents into a new DRAFT quote with its own number, at version 1.
+ * Pass clientId to make the copy for another client; line rates are copied as they are.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const body = await request.json().catch(() => ({}));
+
+    const { data: quote, error } = await supabase
+      .from('quotes')
+      .select(QUOTE_SNAPSHOT_SELECT)
+      .eq('id', id)
+      .single();
+
+    if (error || !quote) {
+      return NextResponse.json(
+        { error: 'Quote not found' },
+        { status: 404 }
+      );
+    }
+
+    const contents = snapshotToQuoteUpdate(buildQuoteSnapshot(quote));
+
+    // Created through the regular quote creation, so the copy gets a fresh number,
+    // validity date and approval check
+    return createQuote(
+      new NextRequest(new URL('/api/quotes', request.url), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          ...contents,
+          title: body.title?.trim() || `${contents.title} (copy)`,
+          clientId: body.clientId || contents.clientId,
+          revisionNote: `Duplicated from ${quote.quotenumber}`,
+        }),
+      })
+    );
+  } catch (error: any) {
+    console.error('Error duplicating quote:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to duplicate quote' },
+      { status: 500 }
+    );
+  }
+}
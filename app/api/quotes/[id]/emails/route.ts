@@ -0,0 +1,256 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { getSmtpConfig, sendMail } from '@/lib/mailer';
+import {
+  getEmailMergeValues,
+  getQuoteEmailError,
+  mapQuoteEmail,
+  parseEmailList,
+  renderEmailTemplate,
+} from '@/lib/quote-email';
+import { ensureQuoteSnapshot } from '@/lib/quote-revisions';
+import { GET as generatePdf } from '../pdf/route';
+
+const QUOTE_EMAILS_SELECT = '*, sender:users(name)';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: emails, error } = await supabase
+      .from('quote_emails')
+      .select(QUOTE_EMAILS_SELECT)
+      .eq('quoteid', id)
+      .order('sentat', { ascending: false });
+
+    if (error) throw error;
+
+    return NextResponse.json((emails || []).map(mapQuoteEmail));
+  } catch (error) {
+    console.error('Error fetching quote emails:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch quote emails' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/quotes/[id]/emails
+ * Emails the quote PDF to the client and logs the attempt against the quote version.
+ * Body: { to, cc?, subject, body }; addresses as arrays or comma-separated strings, and
+ * subject/body may use {{mergeFields}}. Generating the PDF counts as an export, exactly
+ * like downloading it.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const body = await request.json();
+    const recipients = parseEmailList(body.to);
+    const cc = parseEmailList(body.cc);
+
+    const validationError = getQuoteEmailError({
+      recipients,
+      cc,
+      subject: body.subject,
+      body: body.body,
+    });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    if (!getSmtpConfig()) {
+      return NextResponse.json(
+        { error: 'Server configuration error: email is not set up (SMTP_HOST and SMTP_FROM)' },
+        { status: 500 }
+      );
+    }
+
+    const { data: { user: authUser }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !authUser) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Invalid auth token' },
+        { status: 401 }
+      );
+    }
+
+    const { data: sender } = await supabase
+      .from('users')
+      .select('id, name, email')
+      .eq('authuserid', authUser.id)
+      .single();
+
+    const { data: quote, error: quoteError } = await supabase
+      .from('quotes')
+      .select('id, quotenumber, title, version, grandtotal, validuntil, client:clients(name)')
+      .eq('id', id)
+      .single();
+
+    if (quoteError || !quote) {
+      return NextResponse.json(
+        { error: 'Quote not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: companyData } = await supabase
+      .from('company_settings')
+      .select('companyname')
+      .maybeSingle();
+
+    const version = quote.version || 1;
+
+    const pdfResponse = await generatePdf(
+      new NextRequest(new URL(`/api/quotes/${id}/pdf`, request.url), {
+        headers: { Authorization: `Bearer ${token}` },
+      }),
+      { params: Promise.resolve({ id }) }
+    );
+
+    if (!pdfResponse.ok) {
+      const pdfError = await pdfResponse.json();
+      return NextResponse.json(
+        { error: pdfError.message || pdfError.error || 'Failed to generate PDF' },
+        { status: pdfResponse.status }
+      );
+    }
+
+    // Keep the contents of the version being sent, so the email log can be traced back to it
+    await ensureQuoteSnapshot(supabase, id, 'Snapshot of the version emailed to the client');
+
+    const pdf = Buffer.from(await pdfResponse.arrayBuffer());
+    const filename =
+      pdfResponse.headers.get('content-disposition')?.match(/filename="([^"]+)"/)?.[1] ||
+      `quote-${quote.quotenumber}.pdf`;
+
+    const client = Array.isArray(quote.client) ? quote.client[0] : quote.client;
+    const mergeValues = getEmailMergeValues({
+      clientName: client?.name,
+      quoteNumber: quote.quotenumber,
+      version,
+      quoteTitle: quote.title,
+      grandTotal: Number(quote.grandtotal),
+      validUntil: quote.validuntil,
+      companyName: companyData?.companyname,
+      senderName: sender?.name,
+    });
+    const subject = renderEmailTemplate(body.subject.trim(), mergeValues);
+    const text = renderEmailTemplate(body.body.trim(), mergeValues);
+
+    let messageId: string | null = null;
+    let sendError: string | null = null;
+
+    try {
+      messageId = await sendMail({
+        to: recipients,
+        cc,
+        replyTo: sender?.email || undefined,
+        subject,
+        text,
+        attachments: [{ filename, content: pdf, contentType: 'application/pdf' }],
+      });
+    } catch (error: any) {
+      console.error('Error sending quote email:', error);
+      sendError = error.message || 'The mail server refused the message';
+    }
+
+    // Failed attempts are logged too, so the log shows everything that was tried
+    const { data: logged, error: logError } = await supabase
+      .from('quote_emails')
+      .insert({
+        quoteid: id,
+        quoteversion: version,
+        recipients,
+        cc,
+        subject,
+        body: text,
+        status: sendError ? 'FAILED' : 'SENT',
+        error: sendError,
+        messageid: messageId,
+      })
+      .select(QUOTE_EMAILS_SELECT)
+      .single();
+
+    if (logError) {
+      console.error('Failed to log quote email:', logError);
+    }
+
+    // The mail server's reply stays in the server log and the email log
+    if (sendError) {
+      return NextResponse.json(
+        { error: 'Email could not be sent. Check the mail server settings and try again.' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      logged ? mapQuoteEmail(logged) : { messageId },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error('Error emailing quote:', error);
+    return NextResponse.json(
+      { error: 'Failed to email quote' },
+      { status: 500 }
+    );
+  }
+}
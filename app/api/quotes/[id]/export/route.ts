@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { UNASSIGNED_SECTION_NAME } from '@/lib/calculations';
+import { explodeKitLine, parseKitComponents } from '@/lib/kits';
+import { toFileSafeQuoteNumber } from '@/lib/quote-number';
+
+// Quote a CSV field if it contains a separator, quote or line break
+function csvValue(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Internal line-item export (CSV) for procurement and production.
+ * With ?explodeKits=true, kit lines are replaced by their components, with the
+ * kit line's total shared between them.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const explodeKits = request.nextUrl.searchParams.get('explodeKits') === 'true';
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: quote, error } = await supabase
+      .from('quotes')
+      .select(`
+        id,
+        quotenumber,
+        sections:quote_sections(*),
+        items:quote_items(
+          *,
+          product:products(itemcode, name, unit)
+        )
+      `)
+      .eq('id', id)
+      .order('order', { foreignTable: 'quote_items', ascending: true })
+      .single();
+
+    if (error || !quote) {
+      return NextResponse.json(
+        { error: 'Quote not found' },
+        { status: 404 }
+      );
+    }
+
+    const sectionNames = new Map<string, string>(
+      (quote.sections || []).map((section: any) => [section.id, section.name])
+    );
+
+    const rows: (string | number | null)[][] = [
+      ['Room', 'Kind', 'Kit', 'Item Code', 'Item', 'Unit', 'Quantity', 'Rate', 'Line Total'],
+    ];
+
+    for (const item of quote.items || []) {
+      const room = sectionNames.get(item.sectionid) || UNASSIGNED_SECTION_NAME;
+      const kind = item.kind || 'STANDARD';
+      const kitComponents = parseKitComponents(item.kitcomponents);
+
+      if (explodeKits && kitComponents) {
+        const parts = explodeKitLine({
+          quantity: Number(item.quantity),
+          lineTotal: Number(item.linetotal),
+          kitComponents,
+        });
+        for (const part of parts) {
+          rows.push([room, kind, item.product?.name, part.itemCode, part.name, part.unit, part.quantity, part.rate, part.amount]);
+        }
+        continue;
+      }
+
+      rows.push([
+        room,
+        kind,
+        kitComponents ? item.product?.name : null,
+        item.product?.itemcode,
+        item.product?.name,
+        item.product?.unit,
+        item.quantity,
+        item.rate,
+        item.linetotal,
+      ]);
+    }
+
+    const csv = rows.map((row) => row.map(csvValue).join(',')).join('\n');
+    const fileName = `quote-${toFileSafeQuoteNumber(quote.quotenumber)}${explodeKits ? '-bom' : ''}.csv`;
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting quote items:', error);
+    return NextResponse.json(
+      { error: 'Failed to export quote items' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { acceptItemOption, calculateQuoteTotals } from '@/lib/calculations';
+
+/**
+ * POST /api/quotes/[id]/items/[itemId]/accept
+ * Accepts an optional or alternative item, folding it into the quote total
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const { id, itemId } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: quote, error: fetchError } = await supabase
+      .from('quotes')
+      .select(`
+        *,
+        sections:quote_sections(*),
+        items:quote_items(
+          *,
+          product:products(
+            *,
+            category:categories(*)
+          )
+        )
+      `)
+      .eq('id', id)
+      .order('order', { foreignTable: 'quote_items', ascending: true })
+      .single();
+
+    if (fetchError || !quote) {
+      return NextResponse.json(
+        { error: 'Quote not found' },
+        { status: 404 }
+      );
+    }
+
+    const items = (quote.items || []).map((item: any) => ({
+      id: item.id,
+      sectionId: item.sectionid,
+      quantity: item.quantity,
+      rate: item.rate,
+      discount: item.discount,
+      discountType: item.discounttype || 'PERCENT',
+      taxRate: item.taxrate,
+      hsnCode: item.hsncode,
+      kind: item.kind || 'STANDARD',
+      alternativeOfId: item.alternativeof,
+      product: item.product ? {
+        taxRate: item.product.taxrate,
+        hsnCode: item.product.hsncode,
+        category: item.product.category,
+      } : null,
+    }));
+
+    const sections = (quote.sections || []).map((section: any) => ({
+      id: section.id,
+      name: section.name,
+      discount: section.discount || 0,
+      discountType: section.discounttype || 'PERCENT',
+    }));
+
+    const item = items.find((i: any) => i.id === itemId);
+
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Item not found on this quote' },
+        { status: 404 }
+      );
+    }
+
+    if (item.kind === 'STANDARD') {
+      return NextResponse.json(
+        { error: 'Only optional or alternative items can be accepted' },
+        { status: 400 }
+      );
+    }
+
+    const updatedItems = acceptItemOption<any>(items, itemId);
+
+    // Persist the items whose kind changed
+    for (const updated of updatedItems) {
+      const original = items.find((i: any) => i.id === updated.id);
+      if (
+        original.kind === updated.kind &&
+        original.alternativeOfId === updated.alternativeOfId
+      ) {
+        continue;
+      }
+
+      const { error: itemError } = await supabase
+        .from('quote_items')
+        .update({
+          kind: updated.kind,
+          alternativeof: updated.alternativeOfId,
+        })
+        .eq('id', updated.id);
+
+      if (itemError) throw itemError;
+    }
+
+    // Re-price the quote now that the accepted item counts towards the total
+    const totals = calculateQuoteTotals(
+      updatedItems,
+      quote.discountmode,
+      quote.overalldiscount,
+      quote.taxrate,
+      quote.supplytype || 'INTRA_STATE',
+      sections,
+      quote.overalldiscounttype || 'PERCENT'
+    );
+
+    const { error: updateError } = await supabase
+      .from('quotes')
+      .update({
+        subtotal: totals.subtotal,
+        discount: totals.discount,
+        tax: totals.tax,
+        grandtotal: totals.grandTotal,
+        updatedat: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (updateError) throw updateError;
+
+    return NextResponse.json({
+      message: 'Option accepted',
+      subtotal: totals.subtotal,
+      discount: totals.discount,
+      tax: totals.tax,
+      grandTotal: totals.grandTotal,
+      items: updatedItems.map((i: any) => ({
+        id: i.id,
+        kind: i.kind,
+        alternativeOfId: i.alternativeOfId,
+      })),
+    });
+  } catch (error) {
+    console.error('Error accepting quote option:', error);
+    return NextResponse.json(
+      { error: 'Failed to accept option' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { generateQuotePDF } from '@/lib/pdf-generator';
+import { loadPdfTemplate } from '@/lib/pdf-template';
+import { getAppBaseUrl, getQuoteVerificationUrl } from '@/lib/quote-verification';
+import { calculateQuoteTotals } from '@/lib/calculations';
+import { formatQuoteNumberWithRevision, toFileSafeQuoteNumber } from '@/lib/quote-number';
+import { resolveQuoteStatus } from '@/lib/quote-validity';
+import { parseDimensions } from '@/lib/dimensions';
+import { parseKitComponents } from '@/lib/kits';
+import { parseVariantOptions } from '@/lib/variants';
+import { checkStatusTransition, recordStatusTransition } from '@/lib/quote-status';
+import { getApprovalFigures, getApprovalPolicies, getSendApprovalError, mapQuotePricingInput } from '@/lib/approvals';
 
 export async function GET(
   request: NextRequest,
@@ -39,6 +49,8 @@ export async function GET(
       .select(`
         *,
         client:clients(*),
+        sections:quote_sections(*),
+        payment_milestones:quote_payment_milestones(*),
         items:quote_items(
           *,
           product:products(
@@ -57,12 +69,24 @@ export async function GET(
       );
     }
 
-    // Check if quote status allows PDF generation
-    if (quote.status === 'DRAFT' || quote.status === 'PENDING_APPROVAL') {
+    // Check if quote status allows PDF generation, with expiry applied first so a quote
+    // past its validity date can't be sent out again
+    const status = resolveQuoteStatus({ status: quote.status, validUntil: quote.validuntil });
+    if (status === 'DRAFT' || status === 'PENDING_APPROVAL') {
       return NextResponse.json(
         {
           error: 'PDF export not available',
-          message: 'Quote must be approved before exporting to PDF. Current status: ' + quote.status
+          message: 'Quote must be approved before exporting to PDF. Current status: ' + status
+        },
+        { status: 403 }
+      );
+    }
+    if (status === 'EXPIRED') {
+      return NextResponse.json(
+        {
+          error: 'PDF export not available',
+          message: 'Quote expired on ' + String(quote.validuntil).slice(0, 10) +
+            '. Reopen it with a later Valid Until date before exporting to PDF.'
         },
         { status: 403 }
       );
@@ -75,6 +99,23 @@ export async function GET(
       .eq('key', 'terms_conditions')
       .single();
 
+    // Fetch company settings for supplier GSTIN and address
+    const { data: companyData } = await supabase
+      .from('company_settings')
+      .select('*')
+      .single();
+
+    const company = companyData ? {
+      companyName: companyData.companyname || '',
+      email: companyData.email || '',
+      phone: companyData.phone || '',
+      website: companyData.website || '',
+      address: companyData.address || '',
+      logoUrl: companyData.logourl || null,
+      state: companyData.state || '',
+      gstin: companyData.gstin || '',
+    } : null;
+
     // Create policies array from settings terms
     const policies = termsData?.value ? [{
       type: 'TERMS' as const,
@@ -96,12 +137,16 @@ export async function GET(
       clientId: quote.clientid,
       discountMode: quote.discountmode,
       overallDiscount: quote.overalldiscount,
+      overallDiscountType: quote.overalldiscounttype || 'PERCENT',
       taxRate: quote.taxrate,
       subtotal: quote.subtotal,
       discount: quote.discount,
       tax: quote.tax,
       grandTotal: quote.grandtotal,
-      status: quote.status,
+      supplyType: quote.supplytype || 'INTRA_STATE',
+      placeOfSupply: quote.placeofsupply,
+      validUntil: quote.validuntil,
+      status,
       version: quote.version || 1,
       isApproved: quote.isapproved,
       approvedBy: quote.approvedby,
@@ -116,21 +161,56 @@ export async function GET(
         phone: quote.client.phone,
         company: quote.client.company,
         address: quote.client.address,
+        state: quote.client.state,
+        gstin: quote.client.gstin,
         isActive: quote.client.isactive,
         createdAt: quote.client.createdat,
         updatedAt: quote.client.updatedat,
       } : null,
+      sections: (quote.sections || [])
+        .map((section: any) => ({
+          id: section.id,
+          quoteId: section.quoteid,
+          name: section.name,
+          discount: section.discount || 0,
+          discountType: section.discounttype || 'PERCENT',
+          order: section.order,
+          createdAt: section.createdat,
+          updatedAt: section.updatedat,
+        }))
+        .sort((a: any, b: any) => a.order - b.order),
+      paymentMilestones: (quote.payment_milestones || [])
+        .map((milestone: any) => ({
+          id: milestone.id,
+          quoteId: milestone.quoteid,
+          name: milestone.name,
+          valueType: milestone.valuetype || 'PERCENT',
+          value: Number(milestone.value),
+          trigger: milestone.trigger,
+          order: milestone.order,
+          createdAt: milestone.createdat,
+          updatedAt: milestone.updatedat,
+        }))
+        .sort((a: any, b: any) => a.order - b.order),
       items: quote.items.map((item: any) => ({
         id: item.id,
         quoteId: item.quoteid,
         productId: item.productid,
+        sectionId: item.sectionid,
+        kind: item.kind || 'STANDARD',
+        alternativeOfId: item.alternativeof,
         description: item.description,
         quantity: item.quantity,
         rate: item.rate,
         discount: item.discount,
+        discountType: item.discounttype || 'PERCENT',
+        taxRate: item.taxrate,
+        hsnCode: item.hsncode,
         lineTotal: item.linetotal,
         order: item.order,
-        dimensions: item.dimensions,
+        dimensions: parseDimensions(item.dimensions),
+        kitComponents: parseKitComponents(item.kitcomponents),
+        variantOptions: parseVariantOptions(item.variantoptions),
         createdAt: item.createdat,
         updatedAt: item.updatedat,
         product: {
@@ -140,6 +220,9 @@ export async function GET(
           description: item.product.description,
           categoryId: item.product.categoryid,
           baseRate: item.product.baserate,
+          unit: item.product.unit,
+          hsnCode: item.product.hsncode,
+          taxRate: item.product.taxrate,
           imageUrl: item.product.imageurl,
           isActive: item.product.isactive,
           createdAt: item.product.createdat,
@@ -158,33 +241,51 @@ export async function GET(
       policies: policies
     };
 
-    // Track PDF export and update version if status is DRAFT
+    // Re-price with the shared engine so the PDF matches the builder to the paisa
+    const calculations = calculateQuoteTotals(
+      mappedQuote.items,
+      mappedQuote.discountMode,
+      mappedQuote.overallDiscount,
+      mappedQuote.taxRate,
+      mappedQuote.supplyType,
+      mappedQuote.sections,
+      mappedQuote.overallDiscountType
+    );
+    const pricedQuote = {
+      ...mappedQuote,
+      subtotal: calculations.subtotal,
+      discount: calculations.discount,
+      tax: calculations.tax,
+      grandTotal: calculations.grandTotal,
+      items: mappedQuote.items.map((item: any, index: number) => ({
+        ...item,
+        lineTotal: calculations.lineTotals[index],
+      })),
+    };
+
+    // Track PDF export. The version only changes when the quote is edited, so exporting
+    // again doesn't supersede the share links to the version the client has.
     if (quote.status === 'DRAFT') {
-      // This is the first export, set status to SENT
-      const { error: updateError } = await supabase
-        .from('quotes')
-        .update({
-          status: 'SENT',
-          updatedat: new Date().toISOString()
-        })
-        .eq('id', id);
-
-      if (updateError) {
-        console.error('Failed to update quote status:', updateError);
-      }
-    } else {
-      // Quote already sent, increment version for subsequent exports
-      const newVersion = (quote.version || 1) + 1;
-      const { error: versionError } = await supabase
-        .from('quotes')
-        .update({
-          version: newVersion,
-          updatedat: new Date().toISOString()
-        })
-        .eq('id', id);
-
-      if (versionError) {
-        console.error('Failed to update quote version:', versionError);
+      // This is the first export, set status to SENT if the user may send the quote and
+      // no approval policy applies to it
+      const transitionError = await checkStatusTransition(supabase, 'DRAFT', 'SENT')
+        || getSendApprovalError(id, await getApprovalPolicies(supabase), getApprovalFigures(mapQuotePricingInput(quote)));
+      if (transitionError) {
+        console.error('Quote left as a draft on export:', transitionError.error);
+      } else {
+        const { error: updateError } = await supabase
+          .from('quotes')
+          .update({
+            status: 'SENT',
+            updatedat: new Date().toISOString()
+          })
+          .eq('id', id);
+
+        if (updateError) {
+          console.error('Failed to update quote status:', updateError);
+        } else {
+          await recordStatusTransition(supabase, id, 'DRAFT', 'SENT', 'First PDF export');
+        }
       }
     }
 
@@ -205,14 +306,22 @@ export async function GET(
       console.error('Failed to record quote revision:', revisionError);
     }
 
-    // Generate PDF without template
-    const pdfBlob = await generateQuotePDF(mappedQuote);
+    // Render with the quote's PDF template, falling back to the default one
+    const template = await loadPdfTemplate(supabase, quote.templateid);
+    const pdfBlob = await generateQuotePDF(
+      pricedQuote,
+      company,
+      template,
+      getQuoteVerificationUrl(getAppBaseUrl(request.url), quote.id, mappedQuote.version)
+    );
 
     // Return PDF as response
     return new NextResponse(pdfBlob, {
       headers: {
         'Content-Type': 'application/pdf',
-        'Content-Disposition': `attachment; filename="quote-${quote.quotenumber}.pdf"`,
+        'Content-Disposition': `attachment; filename="quote-${toFileSafeQuoteNumber(
+          formatQuoteNumberWithRevision(quote.quotenumber, mappedQuote.version)
+        )}.pdf"`,
       },
     });
   } catch (error) {
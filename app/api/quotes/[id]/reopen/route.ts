@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { checkStatusTransition, recordStatusTransition } from '@/lib/quote-status';
+import { canViewMargins } from '@/lib/margins';
+import { mapQuote } from '@/lib/quote-mapper';
+
+/**
+ * POST /api/quotes/[id]/reopen
+ * Reopens a rejected quote as a draft (REJECTED to DRAFT), so it can be reworked and sent
+ * for approval again. The earlier approval no longer counts.
+ * Body (optional): { note?: string } for the status history
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    // The body is optional
+    const { note } = await request.json().catch(() => ({}));
+
+    const { data: quote, error: fetchError } = await supabase
+      .from('quotes')
+      .select('status')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !quote) {
+      return NextResponse.json(
+        { error: 'Quote not found' },
+        { status: 404 }
+      );
+    }
+
+    // Expired quotes are reopened by saving them with a later validity date instead
+    if (quote.status !== 'REJECTED') {
+      return NextResponse.json(
+        { error: `Only rejected quotes can be reopened. Current status: ${quote.status}` },
+        { status: 409 }
+      );
+    }
+
+    const transitionError = await checkStatusTransition(supabase, 'REJECTED', 'DRAFT');
+    if (transitionError) {
+      return NextResponse.json(
+        { error: transitionError.error },
+        { status: transitionError.status }
+      );
+    }
+
+    const { data: updatedQuote, error: updateError } = await supabase
+      .from('quotes')
+      .update({
+        status: 'DRAFT',
+        isapproved: false,
+        approvedby: null,
+        approvedat: null,
+        updatedat: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select(`
+        *,
+        client:clients(*),
+        template:pdf_templates(*),
+        sections:quote_sections(*),
+        payment_milestones:quote_payment_milestones(*),
+        items:quote_items(
+          *,
+          product:products(
+            *,
+            category:categories(*)
+          )
+        ),
+        policies:policy_clauses(*)
+      `)
+      .single();
+
+    if (updateError) throw updateError;
+
+    await recordStatusTransition(supabase, id, 'REJECTED', 'DRAFT', note || 'Reopened for rework');
+
+    const showCost = await canViewMargins(supabase);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Quote reopened as a draft',
+      quote: mapQuote(updatedQuote, { showCost }),
+    });
+  } catch (error) {
+    console.error('Error reopening quote:', error);
+    return NextResponse.json(
+      { error: 'Failed to reopen quote' },
+      { status: 500 }
+    );
+  }
+}
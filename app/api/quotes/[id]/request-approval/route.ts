@@ -1,9 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import {
+  buildApprovalSteps,
+  getApprovalFigures,
+  getApprovalPolicies,
+  mapQuotePricingInput,
+  recordApprovalEvent,
+  startApprovalChain,
+} from '@/lib/approvals';
+import { checkStatusTransition, recordStatusTransition } from '@/lib/quote-status';
+import { resolveQuoteStatus } from '@/lib/quote-validity';
+import { canViewMargins } from '@/lib/margins';
+import { mapQuote } from '@/lib/quote-mapper';
 
 /**
  * POST /api/quotes/[id]/request-approval
- * Requests approval for a quote (changes status from DRAFT to PENDING_APPROVAL)
+ * Requests approval for a quote (changes status from DRAFT to PENDING_APPROVAL) and
+ * starts its approval chain from the approval policies the quote matches
+ * Body (optional): { notes?: string } for the approvers
  */
 export async function POST(
   request: NextRequest,
@@ -36,10 +50,24 @@ export async function POST(
       }
     );
 
+    // The body is optional; older clients send none
+    const { notes } = await request.json().catch(() => ({}));
+
     // Fetch the quote to verify it exists and check current status
     const { data: quote, error: fetchError } = await supabase
       .from('quotes')
-      .select('*')
+      .select(`
+        *,
+        sections:quote_sections(*),
+        payment_milestones:quote_payment_milestones(*),
+        items:quote_items(
+          *,
+          product:products(
+            *,
+            category:categories(*)
+          )
+        )
+      `)
       .eq('id', id)
       .single();
 
@@ -50,16 +78,31 @@ export async function POST(
       );
     }
 
-    // Verify quote is in DRAFT status
-    if (quote.status !== 'DRAFT') {
+    // Only drafts can be sent for approval
+    const currentStatus = resolveQuoteStatus({ status: quote.status, validUntil: quote.validuntil });
+    if (currentStatus === 'PENDING_APPROVAL') {
       return NextResponse.json(
-        {
-          error: `Cannot request approval. Quote must be in DRAFT status. Current status: ${quote.status}`
-        },
-        { status: 400 }
+        { error: 'Quote is already pending approval' },
+        { status: 409 }
       );
     }
 
+    const transitionError = await checkStatusTransition(supabase, currentStatus, 'PENDING_APPROVAL');
+    if (transitionError) {
+      return NextResponse.json(
+        { error: transitionError.error },
+        { status: transitionError.status }
+      );
+    }
+
+    // Work out who has to approve, in order
+    const policies = await getApprovalPolicies(supabase);
+    const approvalSteps = await startApprovalChain(
+      supabase,
+      id,
+      buildApprovalSteps(policies, getApprovalFigures(mapQuotePricingInput(quote)), quote.approvalreason)
+    );
+
     // Update quote status to PENDING_APPROVAL
     const now = new Date().toISOString();
     const updateData = {
@@ -76,6 +119,7 @@ export async function POST(
         *,
         client:clients(*),
         template:pdf_templates(*),
+        sections:quote_sections(*),
         items:quote_items(
           *,
           product:products(
@@ -95,63 +139,20 @@ export async function POST(
       );
     }
 
+    await recordStatusTransition(supabase, id, currentStatus, 'PENDING_APPROVAL');
+    await recordApprovalEvent(supabase, {
+      quoteId: id,
+      action: 'REQUESTED',
+      quoteVersion: updatedQuote.version || 1,
+      notes,
+    });
+
+    const showCost = await canViewMargins(supabase);
+
     // Map database columns to frontend format
     const mappedQuote = {
-      ...updatedQuote,
-      quoteNumber: updatedQuote.quotenumber,
-      clientId: updatedQuote.clientid,
-      templateId: updatedQuote.templateid,
-      discountMode: updatedQuote.discountmode,
-      overallDiscount: updatedQuote.overalldiscount,
-      taxRate: updatedQuote.taxrate,
-      grandTotal: updatedQuote.grandtotal,
-      isApproved: updatedQuote.isapproved || false,
-      createdAt: updatedQuote.createdat,
-      updatedAt: updatedQuote.updatedat,
-      client: updatedQuote.client ? {
-        id: updatedQuote.client.id,
-        name: updatedQuote.client.name,
-        email: updatedQuote.client.email,
-        phone: updatedQuote.client.phone,
-        address: updatedQuote.client.address,
-      } : null,
-      items: (updatedQuote.items || []).map((item: any) => ({
-        id: item.id,
-        productId: item.productid,
-        description: item.description,
-        quantity: item.quantity,
-        rate: item.rate,
-        discount: item.discount,
-        lineTotal: item.linetotal,
-        product: {
-          name: item.product.name,
-          unit: item.product.unit,
-          category: {
-            name: item.product.category.name,
-          },
-        },
-      })),
-      policies: (updatedQuote.policies || []).map((policy: any) => ({
-        id: policy.id,
-        type: policy.type,
-        title: policy.title,
-        description: policy.description,
-        isActive: policy.isactive,
-      })),
-      template: updatedQuote.template ? {
-        id: updatedQuote.template.id,
-        name: updatedQuote.template.name,
-        description: updatedQuote.template.description,
-        category: updatedQuote.template.category,
-        isDefault: updatedQuote.template.isdefault,
-        isPublic: updatedQuote.template.ispublic,
-        templateJson: updatedQuote.template.template_json,
-        thumbnail: updatedQuote.template.thumbnail,
-        createdBy: updatedQuote.template.createdby,
-        createdAt: updatedQuote.template.createdat,
-        updatedAt: updatedQuote.template.updatedat,
-        version: updatedQuote.template.version,
-      } : null,
+      ...mapQuote(updatedQuote, { showCost }),
+      approvalSteps,
     };
 
     return NextResponse.json({
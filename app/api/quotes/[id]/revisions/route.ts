@@ -1,6 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import {
+  diffQuoteSnapshots,
+  getRevisionSnapshot,
+  mapQuoteRevision,
+  snapshotToQuoteUpdate,
+} from '@/lib/quote-revisions';
+import { PUT as updateQuote } from '../route';
 
+/**
+ * GET /api/quotes/[id]/revisions
+ * Lists the quote's revisions, newest first. With ?from=X&to=Y, compares the snapshots
+ * of versions X and Y instead.
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -32,6 +44,36 @@ export async function GET(
       }
     );
 
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (from || to) {
+      const fromVersion = Number(from);
+      const toVersion = Number(to);
+
+      if (!Number.isInteger(fromVersion) || !Number.isInteger(toVersion) || fromVersion < 1 || toVersion < 1) {
+        return NextResponse.json(
+          { error: 'Both from and to must be version numbers' },
+          { status: 400 }
+        );
+      }
+
+      const [fromSnapshot, toSnapshot] = await Promise.all([
+        getRevisionSnapshot(supabase, id, fromVersion),
+        getRevisionSnapshot(supabase, id, toVersion),
+      ]);
+
+      if (!fromSnapshot || !toSnapshot) {
+        return NextResponse.json(
+          { error: `No snapshot saved for version ${!fromSnapshot ? fromVersion : toVersion}` },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(diffQuoteSnapshots(fromSnapshot, toSnapshot, fromVersion, toVersion));
+    }
+
     const { data: revisions, error } = await supabase
       .from('quote_revisions')
       .select('*')
@@ -40,7 +82,7 @@ export async function GET(
 
     if (error) throw error;
 
-    return NextResponse.json(revisions || []);
+    return NextResponse.json((revisions || []).map(mapQuoteRevision));
   } catch (error) {
     console.error('Error fetching quote revisions:', error);
     return NextResponse.json(
@@ -49,3 +91,82 @@ export async function GET(
     );
   }
 }
+
+/**
+ * POST /api/quotes/[id]/revisions
+ * Restores an earlier version: its snapshot is saved through the regular quote update,
+ * so prices, discount limits and approvals are checked again and the restore becomes a
+ * new version.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const body = await request.json();
+    const version = Number(body.version);
+
+    if (!Number.isInteger(version) || version < 1) {
+      return NextResponse.json(
+        { error: 'Version to restore is required' },
+        { status: 400 }
+      );
+    }
+
+    const snapshot = await getRevisionSnapshot(supabase, id, version);
+
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: `No snapshot saved for version ${version}` },
+        { status: 404 }
+      );
+    }
+
+    return updateQuote(
+      new NextRequest(new URL(`/api/quotes/${id}`, request.url), {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          ...snapshotToQuoteUpdate(snapshot),
+          revisionNote: `Restored from version ${version}`,
+        }),
+      }),
+      { params: Promise.resolve({ id }) }
+    );
+  } catch (error: any) {
+    console.error('Error restoring quote revision:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to restore quote revision' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { isQuoteExpired, resolveQuoteStatus } from '@/lib/quote-validity';
+import { getPaymentScheduleError } from '@/lib/payment-schedule';
+import { QuoteStatus } from '@/lib/types';
+import { parseDimensions } from '@/lib/dimensions';
+import { PRODUCT_COMPONENTS_SELECT, resolveLineKitComponents } from '@/lib/kits';
+import { parseVariantOptions } from '@/lib/variants';
+import { getClientPriceList, resolveLineRate } from '@/lib/price-lists';
+import {
+  calculateMargins,
+  canApproveQuotes,
+  canViewMargins,
+  getMarginApprovalReason,
+  getMinMarginPercent,
+  resolveLineCostPrice,
+} from '@/lib/margins';
+import {
+  APPROVAL_STEPS_SELECT,
+  buildApprovalSteps,
+  getApprovalFigures,
+  getApprovalPolicies,
+  getSendApprovalError,
+  mapQuotePricingInput,
+  recordApprovalEvent,
+  startApprovalChain,
+} from '@/lib/approvals';
+import {
+  checkStatusTransition,
+  getApprovalRouteError,
+  recordStatusTransitions,
+} from '@/lib/quote-status';
+import { buildQuoteSnapshot, ensureQuoteSnapshot, recordQuoteRevision } from '@/lib/quote-revisions';
+import { getDiscountValueError } from '@/lib/discount-rules';
+import { mapQuote } from '@/lib/quote-mapper';
 
 export async function GET(
   request: NextRequest,
@@ -38,6 +71,8 @@ export async function GET(
         *,
         client:clients(*),
         template:pdf_templates(*),
+        sections:quote_sections(*),
+        payment_milestones:quote_payment_milestones(*),
         items:quote_items(
           *,
           product:products(
@@ -45,7 +80,8 @@ export async function GET(
             category:categories(*)
           )
         ),
-        policies:policy_clauses(*)
+        policies:policy_clauses(*),
+        ${APPROVAL_STEPS_SELECT}
       `)
       .eq('id', id)
       .order('order', { foreignTable: 'quote_items', ascending: true })
@@ -62,64 +98,10 @@ export async function GET(
       throw error;
     }
 
+    const showCost = await canViewMargins(supabase);
+
     // Map database columns to frontend format
-    const mappedQuote = {
-      ...quote,
-      quoteNumber: quote.quotenumber,
-      clientId: quote.clientid,
-      templateId: quote.templateid,
-      discountMode: quote.discountmode,
-      overallDiscount: quote.overalldiscount,
-      taxRate: quote.taxrate,
-      grandTotal: quote.grandtotal,
-      isApproved: quote.isapproved || false,
-      createdAt: quote.createdat,
-      updatedAt: quote.updatedat,
-      client: quote.client ? {
-        id: quote.client.id,
-        name: quote.client.name,
-        email: quote.client.email,
-        phone: quote.client.phone,
-        address: quote.client.address,
-      } : null,
-      items: (quote.items || []).map((item: any) => ({
-        id: item.id,
-        productId: item.productid,
-        description: item.description,
-        quantity: item.quantity,
-        rate: item.rate,
-        discount: item.discount,
-        lineTotal: item.linetotal,
-        product: {
-          name: item.product.name,
-          unit: item.product.unit,
-          category: {
-            name: item.product.category.name,
-          },
-        },
-      })),
-      policies: (quote.policies || []).map((policy: any) => ({
-        id: policy.id,
-        type: policy.type,
-        title: policy.title,
-        description: policy.description,
-        isActive: policy.isactive,
-      })),
-      template: quote.template ? {
-        id: quote.template.id,
-        name: quote.template.name,
-        description: quote.template.description,
-        category: quote.template.category,
-        isDefault: quote.template.isdefault,
-        isPublic: quote.template.ispublic,
-        templateJson: quote.template.template_json,
-        thumbnail: quote.template.thumbnail,
-        createdBy: quote.template.createdby,
-        createdAt: quote.template.createdat,
-        updatedAt: quote.template.updatedat,
-        version: quote.template.version,
-      } : null,
-    };
+    const mappedQuote = mapQuote(quote, { showCost });
 
     return NextResponse.json(mappedQuote);
   } catch (error) {
@@ -169,9 +151,65 @@ export async function PUT(
 
     if (!isFullUpdate) {
       // Simple update for status or template changes
-      const { status, templateId } = body;
+      const { status, templateId, note, validUntil } = body;
       const updateData: any = {};
-      if (status !== undefined) updateData.status = status;
+
+      // Status changes must follow the state machine, and approval rounds go through the
+      // approval routes
+      let storedStatus: QuoteStatus | null = null;
+      let previousStatus: QuoteStatus | null = null;
+      if (status !== undefined) {
+        const { data: current, error: currentError } = await supabase
+          .from('quotes')
+          .select(`
+            *,
+            sections:quote_sections(*),
+            items:quote_items(
+              *,
+              product:products(
+                *,
+                category:categories(*)
+              )
+            )
+          `)
+          .eq('id', id)
+          .single();
+
+        if (currentError || !current) {
+          return NextResponse.json(
+            { error: 'Quote not found' },
+            { status: 404 }
+          );
+        }
+
+        storedStatus = current.status;
+        previousStatus = resolveQuoteStatus({ status: current.status, validUntil: current.validuntil });
+        const transitionError = getApprovalRouteError(id, previousStatus, status)
+          || await checkStatusTransition(supabase, previousStatus, status)
+          || (previousStatus === 'DRAFT' && status === 'SENT'
+            ? getSendApprovalError(id, await getApprovalPolicies(supabase), getApprovalFigures(mapQuotePricingInput(current)))
+            : null);
+        if (transitionError) {
+          return NextResponse.json(
+            { error: transitionError.error },
+            { status: transitionError.status }
+          );
+        }
+
+        // An expired quote only reopens with a validity date that hasn't passed, or it
+        // would read as expired again straight away
+        if (previousStatus === 'EXPIRED' && status === 'DRAFT') {
+          if (!validUntil || isQuoteExpired({ status: 'DRAFT', validUntil })) {
+            return NextResponse.json(
+              { error: 'Quote has expired. Extend its validity by sending a later validUntil date with the status, or save the quote with a later Valid Until date.' },
+              { status: 409 }
+            );
+          }
+          updateData.validuntil = validUntil;
+        }
+
+        updateData.status = status;
+      }
       if (templateId !== undefined) updateData.templateid = templateId;
       updateData.updatedat = new Date().toISOString();
 
@@ -183,6 +221,8 @@ export async function PUT(
           *,
           client:clients(*),
           template:pdf_templates(*),
+          sections:quote_sections(*),
+          payment_milestones:quote_payment_milestones(*),
           items:quote_items(
             *,
             product:products(
@@ -196,64 +236,23 @@ export async function PUT(
 
       if (error) throw error;
 
-      // Map database columns to frontend format
-      const mappedQuote = {
-        ...quote,
-        quoteNumber: quote.quotenumber,
-        clientId: quote.clientid,
-        templateId: quote.templateid,
-        discountMode: quote.discountmode,
-        overallDiscount: quote.overalldiscount,
-        taxRate: quote.taxrate,
-        grandTotal: quote.grandtotal,
-        isApproved: quote.isapproved || false,
-        createdAt: quote.createdat,
-        updatedAt: quote.updatedat,
-        client: quote.client ? {
-          id: quote.client.id,
-          name: quote.client.name,
-          email: quote.client.email,
-          phone: quote.client.phone,
-          address: quote.client.address,
-        } : null,
-        items: (quote.items || []).map((item: any) => ({
-          id: item.id,
-          productId: item.productid,
-          description: item.description,
-          quantity: item.quantity,
-          rate: item.rate,
-          discount: item.discount,
-          lineTotal: item.linetotal,
-          product: {
-            name: item.product.name,
-            unit: item.product.unit,
-            category: {
-              name: item.product.category.name,
-            },
+      // A quote that expired unnoticed is recorded as expiring first, from its stored status
+      if (storedStatus && previousStatus) {
+        await recordStatusTransitions(supabase, [
+          { quoteId: id, from: storedStatus, to: previousStatus, note: 'Validity date passed' },
+          {
+            quoteId: id,
+            from: previousStatus,
+            to: status,
+            note: note || (updateData.validuntil ? `Validity extended to ${updateData.validuntil}` : null),
           },
-        })),
-        policies: (quote.policies || []).map((policy: any) => ({
-          id: policy.id,
-          type: policy.type,
-          title: policy.title,
-          description: policy.description,
-          isActive: policy.isactive,
-        })),
-        template: quote.template ? {
-          id: quote.template.id,
-          name: quote.template.name,
-          description: quote.template.description,
-          category: quote.template.category,
-          isDefault: quote.template.isdefault,
-          isPublic: quote.template.ispublic,
-          templateJson: quote.template.template_json,
-          thumbnail: quote.template.thumbnail,
-          createdBy: quote.template.createdby,
-          createdAt: quote.template.createdat,
-          updatedAt: quote.template.updatedat,
-          version: quote.template.version,
-        } : null,
-      };
+        ]);
+      }
+
+      const showCost = await canViewMargins(supabase);
+
+      // Map database columns to frontend format
+      const mappedQuote = mapQuote(quote, { showCost });
 
       return NextResponse.json(mappedQuote);
     }
@@ -265,11 +264,56 @@ export async function PUT(
       templateId,
       discountMode,
       overallDiscount,
+      overallDiscountType,
       taxRate,
+      validUntil,
+      sections,
       items,
       policies,
+      paymentMilestones,
+      revisionNote, // Optional, e.g. when restoring an earlier version
     } = body;
 
+    // Alternatives must point at a standard item on the same quote
+    const invalidAlternative = (items || []).some((item: any) =>
+      item.kind === 'ALTERNATIVE' &&
+      !items.some((other: any) =>
+        other.id === item.alternativeOfId && (other.kind || 'STANDARD') === 'STANDARD'
+      )
+    );
+
+    if (invalidAlternative) {
+      return NextResponse.json(
+        { error: 'Alternative items must reference a standard item on the quote' },
+        { status: 400 }
+      );
+    }
+
+    // Percentages over 100 (or negative discounts) would price lines below zero
+    const discountError = getDiscountValueError({ items: items || [], sections, overallDiscount, overallDiscountType });
+    if (discountError) {
+      return NextResponse.json(
+        { error: discountError },
+        { status: 400 }
+      );
+    }
+
+    // Get the editor's role for discount limits
+    const { data: { user: authUser }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !authUser) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Invalid auth token' },
+        { status: 401 }
+      );
+    }
+
+    const { data: userProfile } = await supabase
+      .from('users')
+      .select('id, roleid')
+      .eq('authuserid', authUser.id)
+      .single();
+
     // Get current quote for revision tracking
     const { data: currentQuote, error: fetchError } = await supabase
       .from('quotes')
@@ -283,6 +327,20 @@ export async function PUT(
     const currentVersion = currentQuote.version || 1;
     const newVersion = currentVersion + 1;
 
+    // Lines without a rate are priced from the client's price list
+    const { priceListId, rates: priceListRates } = await getClientPriceList(supabase, clientId);
+
+    // Lines keep the cost they were quoted at; costs sent by the builder are only trusted
+    // from users who were shown them
+    const showCost = await canViewMargins(supabase);
+    const { data: previousItems } = await supabase
+      .from('quote_items')
+      .select('productid, costprice')
+      .eq('quoteid', id);
+    const previousCosts = new Map<string, number | null>(
+      (previousItems || []).map((item: any) => [item.productid, item.costprice])
+    );
+
     // Fetch product details for each item to get category info
     const itemsWithProducts = await Promise.all(
       items.map(async (item: any) => {
@@ -290,34 +348,115 @@ export async function PUT(
           .from('products')
           .select(`
             *,
-            category:categories(*)
+            category:categories(*),
+            ${PRODUCT_COMPONENTS_SELECT}
           `)
           .eq('id', item.productId)
           .single();
 
         return {
           ...item,
+          rate: resolveLineRate(item.rate, product ?? undefined, priceListRates, parseVariantOptions(item.variantOptions)),
+          costPrice: resolveLineCostPrice(
+            item.costPrice,
+            previousCosts.has(item.productId) ? previousCosts.get(item.productId) : product?.costprice,
+            showCost
+          ),
+          taxRate: item.taxRate ?? product?.taxrate ?? taxRate,
+          hsnCode: item.hsnCode ?? product?.hsncode ?? null,
           product,
         };
       })
     );
 
     // Calculate totals using the same logic as quote creation
-    const { calculateQuoteTotals, calculateLineTotal } = await import('@/lib/calculations');
-
-    const itemsWithTotals = itemsWithProducts.map((item: any, index: number) => ({
-      ...item,
-      order: index,
-      lineTotal: calculateLineTotal(item.quantity, item.rate, item.discount),
+    const { calculateQuoteTotals } = await import('@/lib/calculations');
+    const { getPlaceOfSupply } = await import('@/lib/gst');
+    const { supplyType, placeOfSupply } = await getPlaceOfSupply(supabase, clientId);
+
+    const pricingSections = (sections || []).map((section: any) => ({
+      id: section.id,
+      name: section.name,
+      discount: section.discount || 0,
+      discountType: section.discountType || 'PERCENT',
     }));
 
+    // Enforce the discount limits configured for the editor's role
+    const {
+      getDiscountRules,
+      findDiscountViolations,
+      formatDiscountViolations,
+    } = await import('@/lib/discount-rules');
+    const discountRules = await getDiscountRules(supabase, userProfile?.roleid);
+    const violations = findDiscountViolations(discountRules, {
+      items: itemsWithProducts,
+      sections: pricingSections,
+      discountMode,
+      overallDiscount: overallDiscount || 0,
+      overallDiscountType: overallDiscountType || 'PERCENT',
+      taxRate,
+      supplyType,
+    });
+
+    if (violations.length > 0) {
+      return NextResponse.json(
+        { error: formatDiscountViolations(violations), violations },
+        { status: 403 }
+      );
+    }
+
     const totals = calculateQuoteTotals(
-      itemsWithTotals,
+      itemsWithProducts,
       discountMode,
       overallDiscount,
-      taxRate
+      taxRate,
+      supplyType,
+      pricingSections,
+      overallDiscountType || 'PERCENT'
     );
 
+    // Payment milestones can't ask for more than the quote is worth
+    const scheduleError = getPaymentScheduleError(paymentMilestones || [], totals.grandTotal);
+    if (scheduleError) {
+      return NextResponse.json(
+        { error: scheduleError },
+        { status: 400 }
+      );
+    }
+
+    // Extending the validity of an expired quote reopens it as a draft
+    const reopened = currentQuote.status === 'EXPIRED' &&
+      !!validUntil && !isQuoteExpired({ status: 'DRAFT', validUntil });
+
+    if (reopened) {
+      const transitionError = await checkStatusTransition(supabase, 'EXPIRED', 'DRAFT');
+      if (transitionError) {
+        return NextResponse.json(
+          { error: transitionError.error },
+          { status: transitionError.status }
+        );
+      }
+    }
+
+    // Low-margin drafts go to an approver, unless the editor can approve quotes themselves
+    const pricingInput = {
+      items: itemsWithProducts,
+      sections: pricingSections,
+      discountMode,
+      overallDiscount: overallDiscount || 0,
+      overallDiscountType: overallDiscountType || 'PERCENT',
+      taxRate,
+      supplyType,
+    };
+    const margin = calculateMargins(pricingInput);
+    const isDraft = currentQuote.status === 'DRAFT' || reopened;
+    const approvalReason = isDraft && !(await canApproveQuotes(supabase))
+      ? getMarginApprovalReason(margin, await getMinMarginPercent(supabase))
+      : null;
+
+    // Keep the version being replaced, for quotes saved before snapshots were recorded
+    await ensureQuoteSnapshot(supabase, id);
+
     // Update quote header with incremented version
     const { data: updatedQuote, error: quoteError } = await supabase
       .from('quotes')
@@ -325,13 +464,21 @@ export async function PUT(
         title,
         clientid: clientId,
         templateid: templateId,
+        pricelistid: priceListId,
         discountmode: discountMode,
         overalldiscount: overallDiscount,
+        overalldiscounttype: overallDiscountType || 'PERCENT',
         taxrate: taxRate,
         subtotal: totals.subtotal,
         discount: totals.discount,
         tax: totals.tax,
         grandtotal: totals.grandTotal,
+        supplytype: supplyType,
+        placeofsupply: placeOfSupply,
+        ...(validUntil !== undefined && { validuntil: validUntil || null }),
+        ...(reopened && { status: 'DRAFT' }),
+        ...(isDraft && { approvalreason: approvalReason }), // Cleared once the margin is acceptable
+        ...(approvalReason && { status: 'PENDING_APPROVAL' }),
         version: newVersion, // Increment version on edit
         updatedat: new Date().toISOString(),
       })
@@ -341,29 +488,96 @@ export async function PUT(
 
     if (quoteError) throw quoteError;
 
-    // Delete existing items and policies
+    await recordStatusTransitions(supabase, [
+      ...(reopened ? [{ quoteId: id, from: 'EXPIRED' as const, to: 'DRAFT' as const, note: `Validity extended to ${validUntil}` }] : []),
+      ...(approvalReason ? [{ quoteId: id, from: 'DRAFT' as const, to: 'PENDING_APPROVAL' as const, note: approvalReason }] : []),
+    ]);
+
+    // Quotes routed for approval start their approval chain straight away
+    if (approvalReason) {
+      await recordApprovalEvent(supabase, {
+        quoteId: id,
+        action: 'REQUESTED',
+        quoteVersion: newVersion,
+        notes: approvalReason,
+      });
+      await startApprovalChain(
+        supabase,
+        id,
+        buildApprovalSteps(await getApprovalPolicies(supabase), getApprovalFigures(pricingInput), approvalReason)
+      );
+    }
+
+    // Delete existing items, sections, policies and (when resent) payment milestones
     await supabase.from('quote_items').delete().eq('quoteid', id);
+    await supabase.from('quote_sections').delete().eq('quoteid', id);
     await supabase.from('policy_clauses').delete().eq('quoteid', id);
+    if (paymentMilestones !== undefined) {
+      await supabase.from('quote_payment_milestones').delete().eq('quoteid', id);
+    }
+
+    // Re-create rooms/sections, mapping the builder's ids to the new rows
+    const sectionIdMap = new Map<string, string>();
+    if (sections && sections.length > 0) {
+      const { data: insertedSections, error: sectionsError } = await supabase
+        .from('quote_sections')
+        .insert(sections.map((section: any, index: number) => ({
+          quoteid: id,
+          name: section.name,
+          discount: section.discount || 0,
+          discounttype: section.discountType || 'PERCENT',
+          order: index,
+        })))
+        .select('id, order');
+
+      if (sectionsError) throw sectionsError;
+
+      insertedSections?.forEach((row: any) => {
+        sectionIdMap.set(sections[row.order].id, row.id);
+      });
+    }
 
     // Insert new items
     if (items && items.length > 0) {
-      const itemsToInsert = itemsWithTotals.map((item: any, index: number) => ({
+      const itemsToInsert = itemsWithProducts.map((item: any, index: number) => ({
         quoteid: id,
         productid: item.productId,
+        sectionid: sectionIdMap.get(item.sectionId) || null,
+        kind: item.kind || 'STANDARD',
         description: item.description,
         quantity: item.quantity,
         rate: item.rate,
         discount: item.discount,
-        linetotal: item.lineTotal,
+        discounttype: item.discountType || 'PERCENT',
+        taxrate: item.taxRate,
+        hsncode: item.hsnCode,
+        linetotal: totals.lineTotals[index],
         order: index,
-        dimensions: item.dimensions || null,
+        dimensions: parseDimensions(item.dimensions),
+        kitcomponents: resolveLineKitComponents(item.kitComponents, item.product),
+        variantoptions: parseVariantOptions(item.variantOptions),
+        costprice: item.costPrice,
       }));
 
-      const { error: itemsError } = await supabase
+      const { data: insertedItems, error: itemsError } = await supabase
         .from('quote_items')
-        .insert(itemsToInsert);
+        .insert(itemsToInsert)
+        .select('id, order');
 
       if (itemsError) throw itemsError;
+
+      // Link alternatives to the newly created rows they replace
+      const itemIdMap = new Map<string, string>(
+        (insertedItems || []).map((row: any) => [items[row.order].id, row.id])
+      );
+      for (const item of items.filter((item: any) => item.kind === 'ALTERNATIVE')) {
+        const { error: linkError } = await supabase
+          .from('quote_items')
+          .update({ alternativeof: itemIdMap.get(item.alternativeOfId) })
+          .eq('id', itemIdMap.get(item.id));
+
+        if (linkError) throw linkError;
+      }
     }
 
     // Insert new policies
@@ -384,7 +598,23 @@ export async function PUT(
       if (policiesError) throw policiesError;
     }
 
-    // Create revision history entry
+    // Create payment milestones
+    if (paymentMilestones && paymentMilestones.length > 0) {
+      const { error: milestonesError } = await supabase
+        .from('quote_payment_milestones')
+        .insert(paymentMilestones.map((milestone: any, index: number) => ({
+          quoteid: id,
+          name: milestone.name.trim(),
+          valuetype: milestone.valueType || 'PERCENT',
+          value: milestone.value,
+          trigger: milestone.trigger,
+          order: index,
+        })));
+
+      if (milestonesError) throw milestonesError;
+    }
+
+    // What changed, for the revision history
     const changes = {
       summary: 'Quote updated',
       fields: {
@@ -393,22 +623,13 @@ export async function PUT(
         discountMode: { from: currentQuote.discountmode, to: discountMode },
         overallDiscount: { from: currentQuote.overalldiscount, to: overallDiscount },
         taxRate: { from: currentQuote.taxrate, to: taxRate },
+        validUntil: { from: currentQuote.validuntil, to: validUntil ?? currentQuote.validuntil },
         grandTotal: { from: currentQuote.grandtotal, to: totals.grandTotal },
       },
       itemsCount: items.length,
       policiesCount: policies.filter((p: any) => p.isActive).length,
     };
 
-    await supabase.from('quote_revisions').insert({
-      quoteid: id,
-      version: currentQuote.version || 1,
-      status: currentQuote.status,
-      exported_by: 'system',
-      exported_at: new Date().toISOString(),
-      changes,
-      notes: 'Quote edited and saved',
-    });
-
     // Fetch updated quote with all relations
     const { data: finalQuote, error: finalError } = await supabase
       .from('quotes')
@@ -416,6 +637,8 @@ export async function PUT(
         *,
         client:clients(*),
         template:pdf_templates(*),
+        sections:quote_sections(*),
+        payment_milestones:quote_payment_milestones(*),
         items:quote_items(
           *,
           product:products(
@@ -432,64 +655,18 @@ export async function PUT(
 
     if (finalError) throw finalError;
 
+    await recordQuoteRevision(supabase, {
+      quoteId: id,
+      version: newVersion,
+      status: finalQuote.status,
+      snapshot: buildQuoteSnapshot(finalQuote),
+      changedBy: userProfile?.id,
+      changes,
+      notes: revisionNote || 'Quote edited and saved',
+    });
+
     // Map database columns to frontend format
-    const mappedQuote = {
-      ...finalQuote,
-      quoteNumber: finalQuote.quotenumber,
-      clientId: finalQuote.clientid,
-      templateId: finalQuote.templateid,
-      discountMode: finalQuote.discountmode,
-      overallDiscount: finalQuote.overalldiscount,
-      taxRate: finalQuote.taxrate,
-      grandTotal: finalQuote.grandtotal,
-      isApproved: finalQuote.isapproved || false,
-      createdAt: finalQuote.createdat,
-      updatedAt: finalQuote.updatedat,
-      client: finalQuote.client ? {
-        id: finalQuote.client.id,
-        name: finalQuote.client.name,
-        email: finalQuote.client.email,
-        phone: finalQuote.client.phone,
-        address: finalQuote.client.address,
-      } : null,
-      items: (finalQuote.items || []).map((item: any) => ({
-        id: item.id,
-        productId: item.productid,
-        description: item.description,
-        quantity: item.quantity,
-        rate: item.rate,
-        discount: item.discount,
-        lineTotal: item.linetotal,
-        product: {
-          name: item.product.name,
-          unit: item.product.unit,
-          category: {
-            name: item.product.category.name,
-          },
-        },
-      })),
-      policies: (finalQuote.policies || []).map((policy: any) => ({
-        id: policy.id,
-        type: policy.type,
-        title: policy.title,
-        description: policy.description,
-        isActive: policy.isactive,
-      })),
-      template: finalQuote.template ? {
-        id: finalQuote.template.id,
-        name: finalQuote.template.name,
-        description: finalQuote.template.description,
-        category: finalQuote.template.category,
-        isDefault: finalQuote.template.isdefault,
-        isPublic: finalQuote.template.ispublic,
-        templateJson: finalQuote.template.template_json,
-        thumbnail: finalQuote.template.thumbnail,
-        createdBy: finalQuote.template.createdby,
-        createdAt: finalQuote.template.createdat,
-        updatedAt: finalQuote.template.updatedat,
-        version: finalQuote.template.version,
-      } : null,
-    };
+    const mappedQuote = mapQuote(finalQuote, { showCost });
 
     return NextResponse.json(mappedQuote);
   } catch (error) {
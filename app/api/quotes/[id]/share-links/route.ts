@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { resolveQuoteStatus } from '@/lib/quote-validity';
+import { ensureQuoteSnapshot } from '@/lib/quote-revisions';
+import { createShareToken, getShareLinkExpiry, mapShareLink } from '@/lib/share-links';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: links, error } = await supabase
+      .from('quote_share_links')
+      .select('*')
+      .eq('quoteid', id)
+      .order('createdat', { ascending: false });
+
+    if (error) throw error;
+
+    return NextResponse.json((links || []).map(mapShareLink));
+  } catch (error) {
+    console.error('Error fetching share links:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch share links' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/quotes/[id]/share-links
+ * Creates a public link to the quote's current version. Only sent quotes can be shared.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const body = await request.json().catch(() => ({}));
+
+    const { data: quote, error: quoteError } = await supabase
+      .from('quotes')
+      .select('id, status, version, validuntil')
+      .eq('id', id)
+      .single();
+
+    if (quoteError || !quote) {
+      return NextResponse.json(
+        { error: 'Quote not found' },
+        { status: 404 }
+      );
+    }
+
+    const status = resolveQuoteStatus({ status: quote.status, validUntil: quote.validuntil });
+    if (status !== 'SENT') {
+      return NextResponse.json(
+        { error: `Only sent quotes can be shared; this quote is ${status}` },
+        { status: 409 }
+      );
+    }
+
+    const days = Number(body.expiresInDays);
+    const expiresAt = getShareLinkExpiry(
+      quote.validuntil,
+      Number.isInteger(days) && days > 0 ? days : undefined
+    );
+
+    // The link shows the snapshot of this version, even after later edits
+    await ensureQuoteSnapshot(supabase, id, 'Snapshot of the version shared with the client');
+
+    const { data: link, error } = await supabase
+      .from('quote_share_links')
+      .insert({
+        quoteid: id,
+        token: createShareToken(),
+        quoteversion: quote.version || 1,
+        expiresat: expiresAt.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json(mapShareLink(link), { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating share link:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to create share link' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/quotes/[id]/share-links?linkId=...
+ * Revokes a link; it is kept so its views and answer stay on record
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { searchParams } = new URL(request.url);
+    const linkId = searchParams.get('linkId');
+
+    if (!linkId) {
+      return NextResponse.json(
+        { error: 'Link ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: link, error } = await supabase
+      .from('quote_share_links')
+      .update({ revokedat: new Date().toISOString() })
+      .eq('id', linkId)
+      .eq('quoteid', id)
+      .is('revokedat', null)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!link) {
+      return NextResponse.json(
+        { error: 'Share link not found or already revoked' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(mapShareLink(link));
+  } catch (error: any) {
+    console.error('Error revoking share link:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to revoke share link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { mapStatusChange } from '@/lib/quote-status';
+
+/**
+ * GET /api/quotes/[id]/status-history
+ * Every status change of a quote, oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: history, error } = await supabase
+      .from('quote_status_history')
+      .select(`
+        *,
+        user:users(name)
+      `)
+      .eq('quoteid', id)
+      .order('changedat', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json((history || []).map(mapStatusChange));
+  } catch (error) {
+    console.error('Error fetching quote status history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch quote status history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { expireQuotes } from '@/lib/quote-validity';
+
+/**
+ * POST /api/quotes/expire
+ * Marks every open quote past its validity date as EXPIRED.
+ * Intended to be called by a daily scheduled job; reads apply expiry on the fly in between.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const ids = await expireQuotes(supabase);
+
+    return NextResponse.json({ expired: ids.length, ids });
+  } catch (error: any) {
+    console.error('Error expiring quotes:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to expire quotes' },
+      { status: 500 }
+    );
+  }
+}
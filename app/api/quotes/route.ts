@@ -1,6 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { generateQuoteNumber, calculateQuoteTotals, calculateLineTotal } from '@/lib/calculations';
+import { calculateQuoteTotals } from '@/lib/calculations';
+import { getPlaceOfSupply } from '@/lib/gst';
+import { nextQuoteNumber } from '@/lib/quote-number';
+import { defaultValidUntil, getQuoteValidityDays } from '@/lib/quote-validity';
+import { getPaymentScheduleError } from '@/lib/payment-schedule';
+import { parseDimensions } from '@/lib/dimensions';
+import { PRODUCT_COMPONENTS_SELECT, resolveLineKitComponents } from '@/lib/kits';
+import { parseVariantOptions } from '@/lib/variants';
+import { getClientPriceList, resolveLineRate } from '@/lib/price-lists';
+import {
+  calculateMargins,
+  canApproveQuotes,
+  canViewMargins,
+  getMarginApprovalReason,
+  getMinMarginPercent,
+  resolveLineCostPrice,
+} from '@/lib/margins';
+import {
+  buildApprovalSteps,
+  getApprovalFigures,
+  getApprovalPolicies,
+  recordApprovalEvent,
+  startApprovalChain,
+} from '@/lib/approvals';
+import { INITIAL_QUOTE_STATUS, recordStatusTransition } from '@/lib/quote-status';
+import { buildQuoteSnapshot, recordQuoteRevision } from '@/lib/quote-revisions';
+import {
+  getDiscountRules,
+  getDiscountValueError,
+  findDiscountViolations,
+  formatDiscountViolations,
+} from '@/lib/discount-rules';
+import { mapQuote } from '@/lib/quote-mapper';
 
 export async function GET(request: NextRequest) {
   try {
@@ -47,34 +79,10 @@ export async function GET(request: NextRequest) {
 
     if (error) throw error;
 
+    const showCost = await canViewMargins(supabase);
+
     // Map database columns to frontend format
-    const mappedQuotes = quotes?.map((quote: any) => ({
-      ...quote,
-      quoteNumber: quote.quotenumber,
-      clientId: quote.clientid,
-      templateId: quote.templateid,
-      discountMode: quote.discountmode,
-      overallDiscount: quote.overalldiscount,
-      taxRate: quote.taxrate,
-      grandTotal: quote.grandtotal,
-      isApproved: quote.isapproved || false,
-      createdAt: quote.createdat,
-      updatedAt: quote.updatedat,
-      template: quote.template ? {
-        id: quote.template.id,
-        name: quote.template.name,
-        description: quote.template.description,
-        category: quote.template.category,
-        isDefault: quote.template.isdefault,
-        isPublic: quote.template.ispublic,
-        templateJson: quote.template.template_json,
-        thumbnail: quote.template.thumbnail,
-        createdBy: quote.template.createdby,
-        createdAt: quote.template.createdat,
-        updatedAt: quote.template.updatedat,
-        version: quote.template.version,
-      } : null,
-    })) || [];
+    const mappedQuotes = quotes?.map((quote: any) => mapQuote(quote, { showCost })) || [];
 
     return NextResponse.json(mappedQuotes);
   } catch (error) {
@@ -121,10 +129,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get user profile to get the user UUID
+    // Get user profile to get the user UUID and role (for discount limits)
     const { data: userProfile, error: profileError } = await supabase
       .from('users')
-      .select('id')
+      .select('id, roleid')
       .eq('authuserid', authUser.id)
       .single();
 
@@ -142,71 +150,192 @@ export async function POST(request: NextRequest) {
       templateId,
       discountMode,
       overallDiscount,
+      overallDiscountType,
       taxRate,
+      validUntil,
+      sections,
       items,
       policies,
-      status, // Accept status from request body
+      paymentMilestones,
+      status,
+      revisionNote, // Optional, e.g. when duplicating another quote
     } = body;
 
-    // Role-based status assignment is handled client-side in QuoteActions component
-    // - Sales Executives: quotes are created with status='PENDING_APPROVAL'
-    // - Admins/Sales Heads: quotes are created with status='DRAFT'
-    // Future enhancement: Add server-side validation to ensure status matches user role
-    const quoteStatus = status || 'DRAFT';
-
-    // Calculate line totals for items
-    const itemsWithTotals = items.map((item: any, index: number) => ({
-      productid: item.productId,
-      description: item.description,
-      quantity: item.quantity,
-      rate: item.rate,
-      discount: item.discount || 0,
-      linetotal: calculateLineTotal(item.quantity, item.rate, item.discount || 0),
-      order: index,
-      dimensions: item.dimensions,
-    }));
+    // Alternatives must point at a standard item on the same quote
+    const invalidAlternative = (items || []).some((item: any) =>
+      item.kind === 'ALTERNATIVE' &&
+      !items.some((other: any) =>
+        other.id === item.alternativeOfId && (other.kind || 'STANDARD') === 'STANDARD'
+      )
+    );
+
+    if (invalidAlternative) {
+      return NextResponse.json(
+        { error: 'Alternative items must reference a standard item on the quote' },
+        { status: 400 }
+      );
+    }
+
+    // Percentages over 100 (or negative discounts) would price lines below zero
+    const discountError = getDiscountValueError({ items: items || [], sections, overallDiscount, overallDiscountType });
+    if (discountError) {
+      return NextResponse.json(
+        { error: discountError },
+        { status: 400 }
+      );
+    }
+
+    // Every quote starts as a draft; later statuses are reached through the state machine
+    if (status !== undefined && status !== INITIAL_QUOTE_STATUS) {
+      return NextResponse.json(
+        { error: `New quotes start as ${INITIAL_QUOTE_STATUS}; cannot create a quote as ${status}` },
+        { status: 409 }
+      );
+    }
 
-    // Fetch products to get category info for calculations
+    // Fetch products to get category info and default GST slabs for calculations
     const productIds = items.map((item: any) => item.productId);
     const { data: products, error: productsError } = await supabase
       .from('products')
       .select(`
         *,
-        category:categories(*)
+        category:categories(*),
+        ${PRODUCT_COMPONENTS_SELECT}
       `)
       .in('id', productIds);
 
     if (productsError) throw productsError;
 
-    const itemsWithProducts = itemsWithTotals.map((item: any) => ({
+    // Lines without a rate are priced from the client's price list
+    const { priceListId, rates: priceListRates } = await getClientPriceList(supabase, clientId);
+
+    // Costs sent by the builder are only trusted from users who were shown them
+    const showCost = await canViewMargins(supabase);
+
+    // Resolve rate, GST slab and HSN/SAC for each line
+    const itemRows = items.map((item: any, index: number) => {
+      const product = products!.find((p) => p.id === item.productId);
+      const variantOptions = parseVariantOptions(item.variantOptions);
+      return {
+        productid: item.productId,
+        description: item.description,
+        quantity: item.quantity,
+        rate: resolveLineRate(item.rate, product, priceListRates, variantOptions),
+        discount: item.discount || 0,
+        discounttype: item.discountType || 'PERCENT',
+        kind: item.kind || 'STANDARD',
+        taxrate: item.taxRate ?? product?.taxrate ?? taxRate ?? 18,
+        hsncode: item.hsnCode ?? product?.hsncode ?? null,
+        order: index,
+        dimensions: parseDimensions(item.dimensions),
+        kitcomponents: resolveLineKitComponents(item.kitComponents, product),
+        variantoptions: variantOptions,
+        costprice: resolveLineCostPrice(item.costPrice, product?.costprice, showCost),
+      };
+    });
+
+    const itemsWithProducts = itemRows.map((item: any, index: number) => ({
       ...item,
+      sectionId: items[index].sectionId,
+      discountType: item.discounttype,
+      taxRate: item.taxrate,
+      hsnCode: item.hsncode,
+      costPrice: item.costprice,
       product: products!.find((p) => p.id === item.productid)!,
     }));
 
-    // Calculate totals
+    // Determine CGST/SGST vs IGST from company and client states
+    const { supplyType, placeOfSupply } = await getPlaceOfSupply(supabase, clientId);
+
+    const pricingSections = (sections || []).map((section: any) => ({
+      id: section.id,
+      name: section.name,
+      discount: section.discount || 0,
+      discountType: section.discountType || 'PERCENT',
+    }));
+
+    // Enforce the discount limits configured for the user's role
+    const discountRules = await getDiscountRules(supabase, userProfile.roleid);
+    const violations = findDiscountViolations(discountRules, {
+      items: itemsWithProducts,
+      sections: pricingSections,
+      discountMode,
+      overallDiscount: overallDiscount || 0,
+      overallDiscountType: overallDiscountType || 'PERCENT',
+      taxRate: taxRate || 18,
+      supplyType,
+    });
+
+    if (violations.length > 0) {
+      return NextResponse.json(
+        { error: formatDiscountViolations(violations), violations },
+        { status: 403 }
+      );
+    }
+
+    // Calculate line and quote totals with the shared pricing engine
     const calculations = calculateQuoteTotals(
       itemsWithProducts as any,
       discountMode,
       overallDiscount || 0,
-      taxRate || 18
+      taxRate || 18,
+      supplyType,
+      pricingSections,
+      overallDiscountType || 'PERCENT'
     );
 
+    // Payment milestones can't ask for more than the quote is worth
+    const scheduleError = getPaymentScheduleError(paymentMilestones || [], calculations.grandTotal);
+    if (scheduleError) {
+      return NextResponse.json(
+        { error: scheduleError },
+        { status: 400 }
+      );
+    }
+
+    // Low-margin drafts go to an approver, unless the creator can approve quotes themselves
+    const pricingInput = {
+      items: itemsWithProducts,
+      sections: pricingSections,
+      discountMode,
+      overallDiscount: overallDiscount || 0,
+      overallDiscountType: overallDiscountType || 'PERCENT',
+      taxRate: taxRate || 18,
+      supplyType,
+    };
+    const margin = calculateMargins(pricingInput);
+    const approvalReason = !(await canApproveQuotes(supabase))
+      ? getMarginApprovalReason(margin, await getMinMarginPercent(supabase))
+      : null;
+
+    // Allocate the next number in this financial year's sequence
+    const quoteNumber = await nextQuoteNumber(supabase);
+
+    // Without an explicit date, the quote is valid for the company's default period
+    const quoteValidUntil = validUntil || defaultValidUntil(await getQuoteValidityDays(supabase));
+
     // Create quote with version 1 for new quotes
     const { data: quote, error: quoteError } = await supabase
       .from('quotes')
       .insert({
         title,
-        quotenumber: generateQuoteNumber(),
+        quotenumber: quoteNumber,
         clientid: clientId || null,
         templateid: templateId || null,
+        pricelistid: priceListId,
         discountmode: discountMode,
         overalldiscount: overallDiscount || 0,
+        overalldiscounttype: overallDiscountType || 'PERCENT',
         taxrate: taxRate || 18,
         subtotal: calculations.subtotal,
         discount: calculations.discount,
         tax: calculations.tax,
         grandtotal: calculations.grandTotal,
-        status: quoteStatus, // Use the determined status
+        supplytype: supplyType,
+        placeofsupply: placeOfSupply,
+        validuntil: quoteValidUntil,
+        status: approvalReason ? 'PENDING_APPROVAL' : INITIAL_QUOTE_STATUS,
+        approvalreason: approvalReason,
         version: 1, // New quotes start at version 1
         createdby: userProfile.id, // Set quote owner for RLS
       })
@@ -215,18 +344,73 @@ export async function POST(request: NextRequest) {
 
     if (quoteError) throw quoteError;
 
+    await recordStatusTransition(supabase, quote.id, null, INITIAL_QUOTE_STATUS);
+
+    // Quotes routed for approval start their approval chain straight away
+    if (approvalReason) {
+      await recordApprovalEvent(supabase, {
+        quoteId: quote.id,
+        action: 'REQUESTED',
+        quoteVersion: 1,
+        notes: approvalReason,
+      });
+      await recordStatusTransition(supabase, quote.id, INITIAL_QUOTE_STATUS, 'PENDING_APPROVAL', approvalReason);
+      await startApprovalChain(
+        supabase,
+        quote.id,
+        buildApprovalSteps(await getApprovalPolicies(supabase), getApprovalFigures(pricingInput), approvalReason)
+      );
+    }
+
+    // Create rooms/sections, mapping the builder's temporary ids to the new rows
+    const sectionIdMap = new Map<string, string>();
+    if (sections && sections.length > 0) {
+      const { data: insertedSections, error: sectionsError } = await supabase
+        .from('quote_sections')
+        .insert(sections.map((section: any, index: number) => ({
+          quoteid: quote.id,
+          name: section.name,
+          discount: section.discount || 0,
+          discounttype: section.discountType || 'PERCENT',
+          order: index,
+        })))
+        .select('id, order');
+
+      if (sectionsError) throw sectionsError;
+
+      insertedSections?.forEach((row: any) => {
+        sectionIdMap.set(sections[row.order].id, row.id);
+      });
+    }
+
     // Create quote items
-    const itemsToInsert = itemsWithTotals.map((item: any) => ({
+    const itemsToInsert = itemRows.map((item: any, index: number) => ({
       ...item,
+      sectionid: sectionIdMap.get(items[index].sectionId) || null,
+      linetotal: calculations.lineTotals[index],
       quoteid: quote.id,
     }));
 
-    const { error: itemsError } = await supabase
+    const { data: insertedItems, error: itemsError } = await supabase
       .from('quote_items')
-      .insert(itemsToInsert);
+      .insert(itemsToInsert)
+      .select('id, order');
 
     if (itemsError) throw itemsError;
 
+    // Link alternatives to the newly created rows they replace
+    const itemIdMap = new Map<string, string>(
+      (insertedItems || []).map((row: any) => [items[row.order].id, row.id])
+    );
+    for (const item of items.filter((item: any) => item.kind === 'ALTERNATIVE')) {
+      const { error: linkError } = await supabase
+        .from('quote_items')
+        .update({ alternativeof: itemIdMap.get(item.alternativeOfId) })
+        .eq('id', itemIdMap.get(item.id));
+
+      if (linkError) throw linkError;
+    }
+
     // Create policy clauses
     if (policies && policies.length > 0) {
       const policiesToInsert = policies.map((policy: any, index: number) => ({
@@ -245,6 +429,22 @@ export async function POST(request: NextRequest) {
       if (policiesError) throw policiesError;
     }
 
+    // Create payment milestones
+    if (paymentMilestones && paymentMilestones.length > 0) {
+      const { error: milestonesError } = await supabase
+        .from('quote_payment_milestones')
+        .insert(paymentMilestones.map((milestone: any, index: number) => ({
+          quoteid: quote.id,
+          name: milestone.name.trim(),
+          valuetype: milestone.valueType || 'PERCENT',
+          value: milestone.value,
+          trigger: milestone.trigger,
+          order: index,
+        })));
+
+      if (milestonesError) throw milestonesError;
+    }
+
     // Fetch complete quote with relations
     const { data: completeQuote, error: fetchError } = await supabase
       .from('quotes')
@@ -252,6 +452,8 @@ export async function POST(request: NextRequest) {
         *,
         client:clients(*),
         template:pdf_templates(*),
+        sections:quote_sections(*),
+        payment_milestones:quote_payment_milestones(*),
         items:quote_items(
           *,
           product:products(
@@ -266,33 +468,17 @@ export async function POST(request: NextRequest) {
 
     if (fetchError) throw fetchError;
 
+    await recordQuoteRevision(supabase, {
+      quoteId: quote.id,
+      version: 1,
+      status: completeQuote.status,
+      snapshot: buildQuoteSnapshot(completeQuote),
+      changedBy: userProfile.id,
+      notes: revisionNote || 'Quote created',
+    });
+
     // Map database columns to frontend format
-    const mappedQuote = {
-      ...completeQuote,
-      quoteNumber: completeQuote.quotenumber,
-      clientId: completeQuote.clientid,
-      templateId: completeQuote.templateid,
-      discountMode: completeQuote.discountmode,
-      overallDiscount: completeQuote.overalldiscount,
-      taxRate: completeQuote.taxrate,
-      grandTotal: completeQuote.grandtotal,
-      createdAt: completeQuote.createdat,
-      updatedAt: completeQuote.updatedat,
-      template: completeQuote.template ? {
-        id: completeQuote.template.id,
-        name: completeQuote.template.name,
-        description: completeQuote.template.description,
-        category: completeQuote.template.category,
-        isDefault: completeQuote.template.isdefault,
-        isPublic: completeQuote.template.ispublic,
-        templateJson: completeQuote.template.template_json,
-        thumbnail: completeQuote.template.thumbnail,
-        createdBy: completeQuote.template.createdby,
-        createdAt: completeQuote.template.createdat,
-        updatedAt: completeQuote.template.updatedat,
-        version: completeQuote.template.version,
-      } : null,
-    };
+    const mappedQuote = mapQuote(completeQuote, { showCost });
 
     return NextResponse.json(mappedQuote, { status: 201 });
   } catch (error) {
@@ -138,7 +138,7 @@ export async function POST(request: NextRequest) {
     if (createError) throw createError;
 
     // Create default permissions for the new role (all permissions set to false initially)
-    const resources = ['categories', 'products', 'clients', 'quotes'];
+    const resources = ['categories', 'products', 'clients', 'quotes', 'margins'];
     const defaultPermissions = resources.map((resource) => ({
       roleid: role.id,
       resource,
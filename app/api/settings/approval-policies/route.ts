@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { getApprovalPolicyError } from '@/lib/approvals';
+
+// Map an approval_policies row to frontend format, naming its approver roles
+function mapPolicy(policy: any, roleNames: Map<string, string>) {
+  const approverRoleIds: string[] = policy.approverroleids || [];
+  return {
+    id: policy.id,
+    name: policy.name,
+    metric: policy.metric,
+    threshold: Number(policy.threshold),
+    approverRoleIds,
+    approverRoleNames: approverRoleIds.map((roleId) => roleNames.get(roleId) || 'Unknown role'),
+    isActive: policy.isactive,
+    createdAt: policy.createdat,
+    updatedAt: policy.updatedat,
+  };
+}
+
+async function getRoleNames(supabase: any): Promise<Map<string, string>> {
+  const { data: roles, error } = await supabase
+    .from('roles')
+    .select('id, name');
+
+  if (error) throw error;
+
+  return new Map((roles || []).map((role: any) => [role.id, role.name]));
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: policies, error } = await supabase
+      .from('approval_policies')
+      .select('*')
+      .order('createdat', { ascending: true });
+
+    if (error) throw error;
+
+    const roleNames = await getRoleNames(supabase);
+
+    return NextResponse.json((policies || []).map((policy: any) => mapPolicy(policy, roleNames)));
+  } catch (error) {
+    console.error('Error fetching approval policies:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch approval policies' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/settings/approval-policies
+ * Creates a policy, or updates it when an id is given
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const body = await request.json();
+    const { id, name, metric, threshold, approverRoleIds, isActive } = body;
+
+    const validationError = getApprovalPolicyError({ name, metric, threshold, approverRoleIds });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const row = {
+      name: name.trim(),
+      metric,
+      threshold: Number(threshold),
+      approverroleids: approverRoleIds,
+      isactive: isActive !== false,
+      updatedat: new Date().toISOString(),
+    };
+
+    const { data: policy, error } = id
+      ? await supabase.from('approval_policies').update(row).eq('id', id).select().single()
+      : await supabase.from('approval_policies').insert(row).select().single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'An approval policy with this name already exists' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    const roleNames = await getRoleNames(supabase);
+
+    return NextResponse.json(mapPolicy(policy, roleNames), { status: id ? 200 : 201 });
+  } catch (error: any) {
+    console.error('Error saving approval policy:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to save approval policy' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Policy ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('approval_policies')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    return NextResponse.json(
+      { message: 'Approval policy deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error deleting approval policy:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete approval policy' },
+      { status: 500 }
+    );
+  }
+}
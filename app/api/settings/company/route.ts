@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { DEFAULT_QUOTE_NUMBER_PATTERN, isValidQuoteNumberPattern } from '@/lib/quote-number';
+import { DEFAULT_QUOTE_VALIDITY_DAYS } from '@/lib/quote-validity';
 
 export async function GET(request: NextRequest) {
   try {
@@ -46,6 +48,11 @@ export async function GET(request: NextRequest) {
         website: '',
         address: '',
         logoUrl: null,
+        state: '',
+        gstin: '',
+        quoteNumberPattern: DEFAULT_QUOTE_NUMBER_PATTERN,
+        quoteValidityDays: DEFAULT_QUOTE_VALIDITY_DAYS,
+        minMarginPercent: null,
       });
     }
 
@@ -57,6 +64,13 @@ export async function GET(request: NextRequest) {
       website: settings.website || '',
       address: settings.address || '',
       logoUrl: settings.logourl || null,
+      state: settings.state || '',
+      gstin: settings.gstin || '',
+      quoteNumberPattern: settings.quotenumberpattern || DEFAULT_QUOTE_NUMBER_PATTERN,
+      quoteValidityDays: settings.quotevaliditydays || DEFAULT_QUOTE_VALIDITY_DAYS,
+      minMarginPercent: settings.minmarginpercent === null || settings.minmarginpercent === undefined
+        ? null
+        : Number(settings.minmarginpercent),
     };
 
     return NextResponse.json(mappedSettings);
@@ -96,7 +110,45 @@ export async function PUT(request: NextRequest) {
     );
 
     const body = await request.json();
-    const { companyName, email, phone, website, address, logoUrl } = body;
+    const {
+      companyName,
+      email,
+      phone,
+      website,
+      address,
+      logoUrl,
+      state,
+      gstin,
+      quoteNumberPattern,
+      quoteValidityDays,
+      minMarginPercent,
+    } = body;
+
+    if (quoteNumberPattern && !isValidQuoteNumberPattern(quoteNumberPattern)) {
+      return NextResponse.json(
+        { error: 'Quote number pattern must include a {FY} token and a {SEQ} or {SEQ:n} token' },
+        { status: 400 }
+      );
+    }
+
+    const validityDays = Number(quoteValidityDays ?? DEFAULT_QUOTE_VALIDITY_DAYS);
+    if (!Number.isInteger(validityDays) || validityDays < 1) {
+      return NextResponse.json(
+        { error: 'Quote validity must be a whole number of days (at least 1)' },
+        { status: 400 }
+      );
+    }
+
+    // Blank turns margin-based approvals off
+    const minMargin = minMarginPercent === undefined || minMarginPercent === null || minMarginPercent === ''
+      ? null
+      : Number(minMarginPercent);
+    if (minMargin !== null && !(minMargin >= 0 && minMargin <= 100)) {
+      return NextResponse.json(
+        { error: 'Minimum margin must be a percentage between 0 and 100' },
+        { status: 400 }
+      );
+    }
 
     // Check if settings already exist
     const { data: existing } = await supabase
@@ -111,6 +163,11 @@ export async function PUT(request: NextRequest) {
       website,
       address,
       logourl: logoUrl,
+      state: state || null,
+      gstin: gstin ? gstin.trim().toUpperCase() : null,
+      quotenumberpattern: quoteNumberPattern?.trim() || null,
+      quotevaliditydays: validityDays,
+      minmarginpercent: minMargin,
       updatedat: new Date().toISOString(),
     };
 
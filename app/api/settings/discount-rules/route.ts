@@ -0,0 +1,202 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { DISCOUNT_SCOPES } from '@/lib/discount-rules';
+
+// Map a discount_rules row (with its role) to frontend format
+function mapRule(rule: any) {
+  return {
+    id: rule.id,
+    roleId: rule.roleid,
+    roleName: rule.role?.name,
+    scope: rule.scope,
+    maxPercent: Number(rule.maxpercent),
+    createdAt: rule.createdat,
+    updatedAt: rule.updatedat,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: rules, error } = await supabase
+      .from('discount_rules')
+      .select(`
+        *,
+        role:roles(name)
+      `)
+      .order('createdat', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json((rules || []).map(mapRule));
+  } catch (error) {
+    console.error('Error fetching discount rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch discount rules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/settings/discount-rules
+ * Creates a rule, or replaces the existing limit for the same role and scope
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const body = await request.json();
+    const { roleId, scope, maxPercent } = body;
+
+    if (!roleId) {
+      return NextResponse.json(
+        { error: 'Role is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!DISCOUNT_SCOPES.some((s) => s.value === scope)) {
+      return NextResponse.json(
+        { error: 'Scope must be LINE, SECTION or QUOTE' },
+        { status: 400 }
+      );
+    }
+
+    const limit = Number(maxPercent);
+    if (maxPercent === '' || maxPercent === null || isNaN(limit) || limit < 0 || limit > 100) {
+      return NextResponse.json(
+        { error: 'Maximum discount must be between 0 and 100%' },
+        { status: 400 }
+      );
+    }
+
+    const { data: rule, error } = await supabase
+      .from('discount_rules')
+      .upsert(
+        {
+          roleid: roleId,
+          scope,
+          maxpercent: limit,
+          updatedat: new Date().toISOString(),
+        },
+        { onConflict: 'roleid,scope' }
+      )
+      .select(`
+        *,
+        role:roles(name)
+      `)
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json(mapRule(rule), { status: 201 });
+  } catch (error: any) {
+    console.error('Error saving discount rule:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to save discount rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Rule ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('discount_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    return NextResponse.json(
+      { message: 'Discount rule deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error deleting discount rule:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete discount rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { mapEmailTemplate } from '@/lib/quote-email';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: templates, error } = await supabase
+      .from('email_templates')
+      .select('*')
+      .order('createdat', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json((templates || []).map(mapEmailTemplate));
+  } catch (error) {
+    console.error('Error fetching email templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch email templates' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/settings/email-templates
+ * Creates a template, or updates it when an id is given.
+ * Body: { id?, name, subject, body, isDefault }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const body = await request.json();
+    const { id, name, subject, body: text, isDefault } = body;
+
+    if (!name?.trim()) {
+      return NextResponse.json(
+        { error: 'Template name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!subject?.trim() || !text?.trim()) {
+      return NextResponse.json(
+        { error: 'Subject and message are required' },
+        { status: 400 }
+      );
+    }
+
+    // Only one template can be the default
+    if (isDefault) {
+      const { error: clearError } = await supabase
+        .from('email_templates')
+        .update({ isdefault: false })
+        .eq('isdefault', true);
+
+      if (clearError) throw clearError;
+    }
+
+    const templateData = {
+      name: name.trim(),
+      subject: subject.trim(),
+      body: text.trim(),
+      isdefault: !!isDefault,
+      updatedat: new Date().toISOString(),
+    };
+
+    const { data: template, error } = id
+      ? await supabase
+          .from('email_templates')
+          .update(templateData)
+          .eq('id', id)
+          .select()
+          .single()
+      : await supabase
+          .from('email_templates')
+          .insert(templateData)
+          .select()
+          .single();
+
+    if (error) throw error;
+
+    return NextResponse.json(mapEmailTemplate(template), { status: id ? 200 : 201 });
+  } catch (error: any) {
+    console.error('Error saving email template:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to save email template' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Template ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('email_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    return NextResponse.json(
+      { message: 'Email template deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error deleting email template:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete email template' },
+      { status: 500 }
+    );
+  }
+}
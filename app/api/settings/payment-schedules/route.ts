@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { getPaymentScheduleError } from '@/lib/payment-schedule';
+
+// Map a payment_schedules row to frontend format
+function mapSchedule(schedule: any) {
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    isDefault: schedule.isdefault || false,
+    milestones: schedule.milestones || [],
+    createdAt: schedule.createdat,
+    updatedAt: schedule.updatedat,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: schedules, error } = await supabase
+      .from('payment_schedules')
+      .select('*')
+      .order('createdat', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json((schedules || []).map(mapSchedule));
+  } catch (error) {
+    console.error('Error fetching payment schedules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payment schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/settings/payment-schedules
+ * Creates a schedule, or updates it when an id is given.
+ * Body: { id?, name, isDefault, milestones: [{ name, valueType, value, trigger }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const body = await request.json();
+    const { id, name, isDefault, milestones } = body;
+
+    if (!name?.trim()) {
+      return NextResponse.json(
+        { error: 'Schedule name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(milestones) || milestones.length === 0) {
+      return NextResponse.json(
+        { error: 'A schedule needs at least one milestone' },
+        { status: 400 }
+      );
+    }
+
+    const scheduleError = getPaymentScheduleError(milestones);
+    if (scheduleError) {
+      return NextResponse.json(
+        { error: scheduleError },
+        { status: 400 }
+      );
+    }
+
+    // Only one schedule can be the default
+    if (isDefault) {
+      const { error: clearError } = await supabase
+        .from('payment_schedules')
+        .update({ isdefault: false })
+        .eq('isdefault', true);
+
+      if (clearError) throw clearError;
+    }
+
+    const scheduleData = {
+      name: name.trim(),
+      isdefault: !!isDefault,
+      milestones: milestones.map((milestone: any) => ({
+        name: milestone.name.trim(),
+        valueType: milestone.valueType,
+        value: Number(milestone.value),
+        trigger: milestone.trigger,
+      })),
+      updatedat: new Date().toISOString(),
+    };
+
+    const { data: schedule, error } = id
+      ? await supabase
+          .from('payment_schedules')
+          .update(scheduleData)
+          .eq('id', id)
+          .select()
+          .single()
+      : await supabase
+          .from('payment_schedules')
+          .insert(scheduleData)
+          .select()
+          .single();
+
+    if (error) throw error;
+
+    return NextResponse.json(mapSchedule(schedule), { status: id ? 200 : 201 });
+  } catch (error: any) {
+    console.error('Error saving payment schedule:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to save payment schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Schedule ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('payment_schedules')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    return NextResponse.json(
+      { message: 'Payment schedule deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error deleting payment schedule:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete payment schedule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,261 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabaseAdmin } from '@/lib/db';
+import { resolveQuoteStatus } from '@/lib/quote-validity';
+import { getRevisionSnapshot } from '@/lib/quote-revisions';
+import { getStatusTransitionError, recordStatusTransition } from '@/lib/quote-status';
+import {
+  SHARE_LINK_STATE_MESSAGES,
+  getShareLinkState,
+  getShareResponseError,
+  getShareResponseStatus,
+  mapShareLink,
+} from '@/lib/share-links';
+import { SharedQuoteView, ShareResponse } from '@/lib/types';
+
+// Public routes: there is no signed-in user, so the link's token is the only credential.
+// Rows are read with the service role key, and only ever for the quote the token names.
+
+async function findLink(admin: SupabaseClient, token: string) {
+  const { data: link, error } = await admin
+    .from('quote_share_links')
+    .select('*, quote:quotes(id, quotenumber, status, version, validuntil)')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) throw error;
+  return link;
+}
+
+/**
+ * GET /api/share/[token]
+ * The quote version behind a share link, for the client's read-only view
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    // IMPORTANT: Use supabaseAdmin; clients opening a link are not signed in
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Server configuration error: Admin client not available' },
+        { status: 500 }
+      );
+    }
+
+    const link = await findLink(supabaseAdmin, token);
+
+    if (!link || !link.quote) {
+      return NextResponse.json(
+        { error: 'This link is not valid' },
+        { status: 404 }
+      );
+    }
+
+    // Revoked, expired and superseded links show nothing of the quote. An answered link
+    // still shows the client the version they answered, with their answer.
+    const mapped = mapShareLink(link);
+    const state = getShareLinkState(mapped, link.quote.version || 1);
+
+    if (state !== 'ACTIVE' && state !== 'RESPONDED') {
+      return NextResponse.json(
+        { error: SHARE_LINK_STATE_MESSAGES[state], state },
+        { status: 410 }
+      );
+    }
+
+    const snapshot = await getRevisionSnapshot(supabaseAdmin, link.quoteid, link.quoteversion);
+
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: 'This quote is no longer available' },
+        { status: 404 }
+      );
+    }
+
+    const { data: settings } = await supabaseAdmin
+      .from('company_settings')
+      .select('*')
+      .maybeSingle();
+
+    // Count the view
+    const now = new Date().toISOString();
+    await supabaseAdmin
+      .from('quote_share_links')
+      .update({
+        viewcount: (link.viewcount || 0) + 1,
+        firstviewedat: link.firstviewedat || now,
+        lastviewedat: now,
+      })
+      .eq('id', link.id);
+
+    const status = resolveQuoteStatus({ status: link.quote.status, validUntil: link.quote.validuntil });
+
+    const view: SharedQuoteView = {
+      state,
+      canRespond: state === 'ACTIVE' && status === 'SENT',
+      quoteNumber: link.quote.quotenumber,
+      version: link.quoteversion,
+      status,
+      expiresAt: link.expiresat,
+      company: {
+        companyName: settings?.companyname || '',
+        email: settings?.email || '',
+        phone: settings?.phone || '',
+        website: settings?.website || '',
+        address: settings?.address || '',
+        logoUrl: settings?.logourl || null,
+        gstin: settings?.gstin || '',
+      },
+      // Cost prices stay internal
+      quote: {
+        ...snapshot,
+        items: snapshot.items.map(({ costPrice, ...item }) => item),
+        policies: snapshot.policies.filter((policy) => policy.isActive),
+      },
+      response: mapped.response
+        ? {
+            response: mapped.response,
+            signerName: mapped.signerName,
+            rejectionReason: mapped.rejectionReason,
+            respondedAt: mapped.respondedAt,
+          }
+        : null,
+    };
+
+    return NextResponse.json(view);
+  } catch (error) {
+    console.error('Error fetching shared quote:', error);
+    return NextResponse.json(
+      { error: 'Failed to load quote' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/share/[token]
+ * The client's answer: { response: 'ACCEPTED', signerName, signature } or
+ * { response: 'REJECTED', reason }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    // IMPORTANT: Use supabaseAdmin; clients opening a link are not signed in
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Server configuration error: Admin client not available' },
+        { status: 500 }
+      );
+    }
+
+    const body = await request.json();
+    const { response, signerName, signature, reason } = body;
+
+    const validationError = getShareResponseError({ response, signerName, signature, reason });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const link = await findLink(supabaseAdmin, token);
+
+    if (!link || !link.quote) {
+      return NextResponse.json(
+        { error: 'This link is not valid' },
+        { status: 404 }
+      );
+    }
+
+    const state = getShareLinkState(mapShareLink(link), link.quote.version || 1);
+    if (state !== 'ACTIVE') {
+      return NextResponse.json(
+        { error: SHARE_LINK_STATE_MESSAGES[state] },
+        { status: 409 }
+      );
+    }
+
+    // The answer goes through the same transitions as any other status change; the
+    // link stands in for the quotes permission
+    const from = resolveQuoteStatus({ status: link.quote.status, validUntil: link.quote.validuntil });
+    const to = getShareResponseStatus(response as ShareResponse);
+    const transitionError = from === to
+      ? { error: `This quote is already ${from}`, status: 409 }
+      : getStatusTransitionError(from, to);
+
+    if (transitionError) {
+      return NextResponse.json(
+        { error: transitionError.error },
+        { status: transitionError.status }
+      );
+    }
+
+    const now = new Date().toISOString();
+
+    // Only the first answer counts, even if two arrive at once
+    const { data: answered, error: linkError } = await supabaseAdmin
+      .from('quote_share_links')
+      .update({
+        response,
+        signername: response === 'ACCEPTED' ? signerName.trim() : null,
+        signature: response === 'ACCEPTED' ? signature : null,
+        rejectionreason: response === 'REJECTED' ? reason.trim() : null,
+        respondedat: now,
+        respondentip: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+        respondentuseragent: request.headers.get('user-agent'),
+      })
+      .eq('id', link.id)
+      .is('response', null)
+      .select()
+      .maybeSingle();
+
+    if (linkError) throw linkError;
+
+    if (!answered) {
+      return NextResponse.json(
+        { error: SHARE_LINK_STATE_MESSAGES.RESPONDED },
+        { status: 409 }
+      );
+    }
+
+    const { error: quoteError } = await supabaseAdmin
+      .from('quotes')
+      .update({ status: to, updatedat: now })
+      .eq('id', link.quoteid);
+
+    if (quoteError) throw quoteError;
+
+    await recordStatusTransition(
+      supabaseAdmin,
+      link.quoteid,
+      from,
+      to,
+      response === 'ACCEPTED'
+        ? `Accepted by ${signerName.trim()} via share link (version ${link.quoteversion})`
+        : `Rejected via share link (version ${link.quoteversion}): ${reason.trim()}`
+    );
+
+    const mapped = mapShareLink(answered);
+    return NextResponse.json({
+      response: mapped.response,
+      signerName: mapped.signerName,
+      rejectionReason: mapped.rejectionReason,
+      respondedAt: mapped.respondedAt,
+    });
+  } catch (error: any) {
+    console.error('Error recording quote response:', error);
+    return NextResponse.json(
+      { error: 'Failed to record your response' },
+      { status: 500 }
+    );
+  }
+}
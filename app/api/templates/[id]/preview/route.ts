@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { generateQuotePDF } from '@/lib/pdf-generator';
+import { resolvePdfTemplate } from '@/lib/pdf-template';
+import { generateSampleQuote } from '@/lib/sample-quote-data';
+import { getAppBaseUrl, getQuoteVerificationUrl } from '@/lib/quote-verification';
+
+/**
+ * GET /api/templates/[id]/preview
+ * Renders the template with a sample quote and the real company letterhead, shown inline.
+ * Nothing is recorded: no quote is exported.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: template, error } = await supabase
+      .from('pdf_templates')
+      .select('id, name, template_json')
+      .eq('id', id)
+      .single();
+
+    if (error || !template) {
+      return NextResponse.json(
+        { error: 'PDF template not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: companyData } = await supabase
+      .from('company_settings')
+      .select('*')
+      .maybeSingle();
+
+    const company = companyData ? {
+      companyName: companyData.companyname || '',
+      email: companyData.email || '',
+      phone: companyData.phone || '',
+      website: companyData.website || '',
+      address: companyData.address || '',
+      logoUrl: companyData.logourl || null,
+      state: companyData.state || '',
+      gstin: companyData.gstin || '',
+    } : null;
+
+    const sampleQuote = generateSampleQuote();
+    const pdfBlob = await generateQuotePDF(
+      sampleQuote,
+      company,
+      resolvePdfTemplate(template.template_json),
+      getQuoteVerificationUrl(getAppBaseUrl(request.url), sampleQuote.id, sampleQuote.version)
+    );
+
+    return new NextResponse(pdfBlob, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': 'inline; filename="template-preview.pdf"',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating template preview:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate template preview' },
+      { status: 500 }
+    );
+  }
+}
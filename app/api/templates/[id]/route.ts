@@ -0,0 +1,267 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { PDF_TEMPLATE_CATEGORIES, getPdfTemplateError, mapPdfTemplate } from '@/lib/pdf-template';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: template, error } = await supabase
+      .from('pdf_templates')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: 'PDF template not found' },
+          { status: 404 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(mapPdfTemplate(template));
+  } catch (error) {
+    console.error('Error fetching PDF template:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch PDF template' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/templates/[id]
+ * Updates the given fields of a PDF template. Changing the JSON bumps its version.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const body = await request.json();
+    const { name, description, category, templateJson, isDefault, isPublic } = body;
+
+    if (name !== undefined && !name?.trim()) {
+      return NextResponse.json(
+        { error: 'Template name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (category && !PDF_TEMPLATE_CATEGORIES.includes(category)) {
+      return NextResponse.json(
+        { error: `Category must be one of ${PDF_TEMPLATE_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (templateJson !== undefined) {
+      const templateError = getPdfTemplateError(templateJson);
+      if (templateError) {
+        return NextResponse.json(
+          { error: templateError },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('pdf_templates')
+      .select('id, version')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'PDF template not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only one template can be the default
+    if (isDefault) {
+      const { error: clearError } = await supabase
+        .from('pdf_templates')
+        .update({ isdefault: false })
+        .eq('isdefault', true)
+        .neq('id', id);
+
+      if (clearError) throw clearError;
+    }
+
+    const updateData: any = {
+      updatedat: new Date().toISOString(),
+    };
+    if (name !== undefined) updateData.name = name.trim();
+    if (description !== undefined) updateData.description = description?.trim() || null;
+    if (category !== undefined) updateData.category = category || 'Custom';
+    if (isDefault !== undefined) updateData.isdefault = !!isDefault;
+    if (isPublic !== undefined) updateData.ispublic = !!isPublic;
+    if (templateJson !== undefined) {
+      updateData.template_json = templateJson;
+      updateData.version = (existing.version || 1) + 1;
+    }
+
+    const { data: template, error } = await supabase
+      .from('pdf_templates')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        // Row-level security hides the row from updates by anyone but its owner or an admin
+        return NextResponse.json(
+          { error: 'Only the template owner or an admin can edit this template' },
+          { status: 403 }
+        );
+      }
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'Another template is the default and could not be replaced' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(mapPdfTemplate(template));
+  } catch (error: any) {
+    console.error('Error updating PDF template:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update PDF template' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const deleteTemplate = () =>
+      supabase
+        .from('pdf_templates')
+        .delete()
+        .eq('id', id)
+        .select('id');
+
+    let { data: deleted, error } = await deleteTemplate();
+
+    // Still chosen on some quotes: those go back to the default template
+    if (error?.code === '23503') {
+      const { error: unlinkError } = await supabase
+        .from('quotes')
+        .update({ templateid: null })
+        .eq('templateid', id);
+
+      if (unlinkError) throw unlinkError;
+
+      ({ data: deleted, error } = await deleteTemplate());
+    }
+
+    if (error) throw error;
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'PDF template not found, or only its owner or an admin can delete it' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'PDF template deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error deleting PDF template:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete PDF template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { PDF_TEMPLATE_CATEGORIES, getPdfTemplateError, mapPdfTemplate } from '@/lib/pdf-template';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const { data: templates, error } = await supabase
+      .from('pdf_templates')
+      .select('*')
+      .order('isdefault', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json((templates || []).map(mapPdfTemplate));
+  } catch (error) {
+    console.error('Error fetching PDF templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch PDF templates' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/templates
+ * Creates a PDF template. Body: { name, description?, category?, templateJson, isDefault?, isPublic? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authorization token required' },
+        { status: 401 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      }
+    );
+
+    const body = await request.json();
+    const { name, description, category, templateJson, isDefault, isPublic } = body;
+
+    if (!name?.trim()) {
+      return NextResponse.json(
+        { error: 'Template name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (category && !PDF_TEMPLATE_CATEGORIES.includes(category)) {
+      return NextResponse.json(
+        { error: `Category must be one of ${PDF_TEMPLATE_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const templateError = getPdfTemplateError(templateJson ?? {});
+    if (templateError) {
+      return NextResponse.json(
+        { error: templateError },
+        { status: 400 }
+      );
+    }
+
+    // Only one template can be the default
+    if (isDefault) {
+      const { error: clearError } = await supabase
+        .from('pdf_templates')
+        .update({ isdefault: false })
+        .eq('isdefault', true);
+
+      if (clearError) throw clearError;
+    }
+
+    const { data: template, error } = await supabase
+      .from('pdf_templates')
+      .insert({
+        name: name.trim(),
+        description: description?.trim() || null,
+        category: category || 'Custom',
+        template_json: templateJson ?? {},
+        isdefault: !!isDefault,
+        ispublic: isPublic ?? true,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'Another template is the default and could not be replaced' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(mapPdfTemplate(template), { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating PDF template:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to create PDF template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/db';
+import { buildQuoteVerification, parseVerificationVersion } from '@/lib/quote-verification';
+
+/**
+ * GET /api/verify/[id]?v=<version>
+ * Public check that a quote version was issued (exported to PDF or shared with the client),
+ * for the QR code printed on the PDF.
+ * Only the issue date, total and whether it is the latest version are returned.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const version = parseVerificationVersion(request.nextUrl.searchParams.get('v'));
+
+    if (!version) {
+      return NextResponse.json(
+        { error: 'This verification link is not valid' },
+        { status: 400 }
+      );
+    }
+
+    // IMPORTANT: Use supabaseAdmin; whoever scans the code is not signed in
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Server configuration error: Admin client not available' },
+        { status: 500 }
+      );
+    }
+
+    const { data: quote, error } = await supabaseAdmin
+      .from('quotes')
+      .select('id, quotenumber, version')
+      .eq('id', id)
+      .maybeSingle();
+
+    // Not a quote id at all (invalid uuid) is the same as an unknown quote
+    if (error && error.code !== '22P02') throw error;
+
+    const { data: revisions, error: revisionsError } = quote
+      ? await supabaseAdmin
+          .from('quote_revisions')
+          .select('version, exported_at, snapshot')
+          .eq('quoteid', id)
+      : { data: [], error: null };
+
+    if (revisionsError) throw revisionsError;
+
+    const { data: shareLinks, error: shareLinksError } = quote
+      ? await supabaseAdmin
+          .from('quote_share_links')
+          .select('quoteversion, createdat')
+          .eq('quoteid', id)
+      : { data: [], error: null };
+
+    if (shareLinksError) throw shareLinksError;
+
+    const { data: settings } = await supabaseAdmin
+      .from('company_settings')
+      .select('companyname')
+      .maybeSingle();
+
+    // Saved but never issued versions are not on record either
+    const verification = quote
+      ? buildQuoteVerification(quote, version, revisions || [], shareLinks || [], settings?.companyname)
+      : null;
+
+    if (!verification) {
+      return NextResponse.json(
+        { error: 'We have no record of issuing this quotation' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(verification);
+  } catch (error) {
+    console.error('Error verifying quote:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify quote' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,8 +4,9 @@ import { useState, useEffect } from 'react';
 import { Product, Category } from '@/lib/types';
 import { CategorySidebar } from '@/components/Catalog/CategorySidebar';
 import { ProductGrid } from '@/components/Catalog/ProductGrid';
-import { ProductDialog } from '@/components/Catalog/ProductDialog';
+import { ProductDialog, ProductFormData } from '@/components/Catalog/ProductDialog';
 import { BulkImport } from '@/components/Catalog/BulkImport';
+import { PriceListsManager } from '@/components/Catalog/PriceListsManager';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Plus } from 'lucide-react';
@@ -114,7 +115,7 @@ export default function CatalogPage() {
     setShowProductDialog(true);
   };
 
-  const handleSaveProduct = async (productData: Partial<Product>) => {
+  const handleSaveProduct = async (productData: ProductFormData) => {
     try {
       // Get the current session token
       const { data: { session } } = await supabase.auth.getSession();
@@ -217,6 +218,7 @@ export default function CatalogPage() {
         <Tabs value={activeTab} onValueChange={setActiveTab} defaultValue={activeTab} className="w-full">
           <TabsList className="mb-6">
             <TabsTrigger value="catalog">Catalog</TabsTrigger>
+            <TabsTrigger value="price-lists">Price Lists</TabsTrigger>
             <TabsTrigger value="bulk-import">Bulk Import</TabsTrigger>
           </TabsList>
 
@@ -238,6 +240,10 @@ export default function CatalogPage() {
             )}
           </TabsContent>
 
+          <TabsContent value="price-lists">
+            <PriceListsManager products={products} canEdit={canEditProduct} />
+          </TabsContent>
+
           <TabsContent value="bulk-import">
             <BulkImport
               categories={categories}
@@ -255,6 +261,7 @@ export default function CatalogPage() {
         onOpenChange={setShowProductDialog}
         product={editingProduct}
         categories={categories}
+        products={products}
         onSave={handleSaveProduct}
       />
     </div>
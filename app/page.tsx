@@ -31,6 +31,13 @@ interface DashboardData {
     createdAt: string;
     clientName: string;
     createdByName: string;
+    approvalReason: string | null;
+    currentStep: {
+      stepOrder: number;
+      totalSteps: number;
+      roleName: string | null;
+      reason: string | null;
+    } | null;
   }>;
 }
 
@@ -8,6 +8,7 @@ import { QuotationsFilters } from '@/components/Quotations/QuotationsFilters';
 import { Button } from '@/components/ui/button';
 import { Plus } from 'lucide-react';
 import { useRouter } from 'next/navigation';
+import { isQuoteExpiringSoon } from '@/lib/quote-validity';
 
 interface Quote {
   id: string;
@@ -16,6 +17,7 @@ interface Quote {
   status: string;
   grandtotal: number;
   createdat: string;
+  validuntil?: string | null;
   isApproved?: boolean;
   client: {
     id: string;
@@ -90,8 +92,12 @@ export default function QuotationsPage() {
       );
     }
 
-    // Apply status filter
-    if (statusFilter !== 'all') {
+    // Apply status filter; "Expiring Soon" matches open quotes close to their validity date
+    if (statusFilter === 'EXPIRING_SOON') {
+      filtered = filtered.filter((quote) =>
+        isQuoteExpiringSoon({ status: quote.status, validUntil: quote.validuntil })
+      );
+    } else if (statusFilter !== 'all') {
       filtered = filtered.filter((quote) => quote.status === statusFilter);
     }
 
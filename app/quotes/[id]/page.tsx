@@ -3,9 +3,21 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Download, Edit, Trash2, CheckCircle, Send } from 'lucide-react';
+import { ArrowLeft, Download, Edit, Trash2, CheckCircle, Send, FileSpreadsheet, Copy, BookmarkPlus, Mail } from 'lucide-react';
 import { hasPermission } from '@/lib/permissions';
+import { formatDiscount } from '@/lib/calculations';
+import { formatQuoteNumberWithRevision, toFileSafeQuoteNumber } from '@/lib/quote-number';
 import { useAuth } from '@/lib/auth-context';
+import { KitComponentSnapshot, SelectedVariantOption } from '@/lib/types';
+import { formatVariantOptions } from '@/lib/variants';
+import { ApprovalTimeline } from '@/components/Quotations/ApprovalTimeline';
+import { QuoteRevisions } from '@/components/Quotations/QuoteRevisions';
+import { ShareLinks } from '@/components/Quotations/ShareLinks';
+import { SendQuoteDialog } from '@/components/Quotations/SendQuoteDialog';
+import { QuoteEmailLog } from '@/components/Quotations/QuoteEmailLog';
+import { DuplicateQuoteDialog } from '@/components/Quotations/DuplicateQuoteDialog';
+import { SaveAsTemplateDialog } from '@/components/Quotations/SaveAsTemplateDialog';
+import { PdfTemplateSelect } from '@/components/Quotations/PdfTemplateSelect';
 
 interface QuoteItem {
   id: string;
@@ -14,7 +26,12 @@ interface QuoteItem {
   quantity: number;
   rate: number;
   discount: number;
+  discountType: 'PERCENT' | 'AMOUNT';
   lineTotal: number;
+  kind: 'STANDARD' | 'OPTIONAL' | 'ALTERNATIVE';
+  alternativeOfId: string | null;
+  kitComponents?: KitComponentSnapshot[] | null;
+  variantOptions?: SelectedVariantOption[] | null;
   product: {
     name: string;
     unit: string;
@@ -40,6 +57,8 @@ interface Quote {
   version: number;
   isApproved: boolean;
   createdAt: string;
+  validUntil?: string | null;
+  templateId: string | null;
   client: {
     name: string;
     email: string | null;
@@ -68,8 +87,14 @@ export default function QuoteDetailPage({
   const [error, setError] = useState<string | null>(null);
   const [quoteId, setQuoteId] = useState<string | null>(null);
   const [approving, setApproving] = useState(false);
+  const [timelineKey, setTimelineKey] = useState(0);
+  const [showDuplicate, setShowDuplicate] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  const [showSendEmail, setShowSendEmail] = useState(false);
+  const [emailLogKey, setEmailLogKey] = useState(0);
 
   // Permission checks
+  const canCreate = permissions ? hasPermission(permissions, 'quotes', 'canCreate') : false;
   const canEdit = permissions ? hasPermission(permissions, 'quotes', 'canEdit') : false;
   const canDelete = permissions ? hasPermission(permissions, 'quotes', 'canDelete') : false;
   const canApprove = permissions ? hasPermission(permissions, 'quotes', 'canApprove') : false;
@@ -140,20 +165,62 @@ export default function QuoteDetailPage({
           'Authorization': `Bearer ${session.access_token}`,
         },
       });
-      if (!response.ok) throw new Error('Failed to generate PDF');
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.message || 'Failed to generate PDF');
+      }
 
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `quote-${quote?.quoteNumber || quoteId}.pdf`;
+      a.download = `quote-${quote
+        ? toFileSafeQuoteNumber(formatQuoteNumberWithRevision(quote.quoteNumber, quote.version))
+        : quoteId}.pdf`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
       document.body.removeChild(a);
     } catch (error) {
       console.error('Error downloading PDF:', error);
-      alert('Failed to download PDF');
+      alert(error instanceof Error ? error.message : 'Failed to download PDF');
+    }
+  };
+
+  // Internal CSV of the line items; a BOM export lists kit components instead of kits
+  const handleExportItems = async (explodeKits: boolean) => {
+    if (!quoteId) return;
+
+    try {
+      // Import supabase dynamically
+      const { supabase } = await import('@/lib/db');
+
+      // Get session token
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session?.access_token) {
+        throw new Error('Not authenticated. Please log in again.');
+      }
+
+      const response = await fetch(`/api/quotes/${quoteId}/export?explodeKits=${explodeKits}`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to export items');
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `quote-${quote ? toFileSafeQuoteNumber(quote.quoteNumber) : quoteId}${explodeKits ? '-bom' : ''}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Error exporting items:', error);
+      alert('Failed to export items');
     }
   };
 
@@ -191,9 +258,45 @@ export default function QuoteDetailPage({
     }
   };
 
+  const handleAcceptOption = async (itemId: string) => {
+    if (!canEdit || !quoteId) return;
+
+    try {
+      // Import supabase dynamically
+      const { supabase } = await import('@/lib/db');
+
+      // Get session token
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session?.access_token) {
+        throw new Error('Not authenticated. Please log in again.');
+      }
+
+      const response = await fetch(`/api/quotes/${quoteId}/items/${itemId}/accept`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to accept option');
+      }
+
+      await fetchQuote();
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
   const handleApprove = async () => {
     if (!canApprove || !quoteId) return;
 
+    // Optional note for the quote author, shown in the approval history
+    const notes = prompt('Add a note for the quote author (optional)');
+    if (notes === null) return;
+
     setApproving(true);
     try {
       // Import supabase dynamically
@@ -207,20 +310,23 @@ export default function QuoteDetailPage({
       }
 
       const response = await fetch(`/api/quotes/${quoteId}/approve`, {
-        method: 'PUT',
+        method: 'POST',
         headers: {
+          'Content-Type': 'application/json',
           'Authorization': `Bearer ${session.access_token}`,
         },
+        body: JSON.stringify({ action: 'approve', notes }),
       });
 
+      const data = await response.json();
+
       if (!response.ok) {
-        const data = await response.json();
         throw new Error(data.error || 'Failed to approve quote');
       }
 
-      const updatedQuote = await response.json();
-      setQuote(updatedQuote);
-      alert('Quote approved successfully!');
+      await fetchQuote();
+      setTimelineKey((key) => key + 1);
+      alert(data.message || 'Quote approved successfully!');
     } catch (err: any) {
       alert(err.message);
     } finally {
@@ -228,7 +334,7 @@ export default function QuoteDetailPage({
     }
   };
 
-  const handleSendToClient = async () => {
+  const handleMarkSent = async () => {
     if (!quoteId) return;
 
     // Check if quote is approved (unless user is Admin with canDelete permission)
@@ -237,7 +343,7 @@ export default function QuoteDetailPage({
       return;
     }
 
-    if (confirm('Send this quote to the client?')) {
+    if (confirm('Mark this quote as sent to the client?')) {
       try {
         // Import supabase dynamically
         const { supabase } = await import('@/lib/db');
@@ -264,7 +370,7 @@ export default function QuoteDetailPage({
         }
 
         await fetchQuote(); // Refresh quote data
-        alert('Quote sent to client successfully!');
+        alert('Quote marked as sent');
       } catch (err: any) {
         alert(err.message);
       }
@@ -281,6 +387,8 @@ export default function QuoteDetailPage({
         return 'bg-yellow-100 text-yellow-800';
       case 'REJECTED':
         return 'bg-red-100 text-red-800';
+      case 'EXPIRED':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -372,7 +480,17 @@ export default function QuoteDetailPage({
                 <Download className="h-4 w-4 mr-2" />
                 Download PDF
               </Button>
-              {canApprove && !quote.isApproved && (
+              <Button variant="outline" onClick={() => handleExportItems(false)} data-testid="export-items-button">
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+              {quote.items.some((item) => item.kitComponents?.length) && (
+                <Button variant="outline" onClick={() => handleExportItems(true)} data-testid="export-bom-button">
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Export BOM
+                </Button>
+              )}
+              {canApprove && quote.status === 'PENDING_APPROVAL' && (
                 <Button
                   onClick={handleApprove}
                   disabled={approving}
@@ -382,8 +500,14 @@ export default function QuoteDetailPage({
                 </Button>
               )}
               {(quote.isApproved || canDelete) && quote.status === 'DRAFT' && (
-                <Button variant="outline" onClick={handleSendToClient}>
+                <Button variant="outline" onClick={handleMarkSent}>
                   <Send className="h-4 w-4 mr-2" />
+                  Mark as Sent
+                </Button>
+              )}
+              {canEdit && quote.status !== 'DRAFT' && quote.status !== 'PENDING_APPROVAL' && (
+                <Button variant="outline" onClick={() => setShowSendEmail(true)} data-testid="send-quote-email-button">
+                  <Mail className="h-4 w-4 mr-2" />
                   Send to Client
                 </Button>
               )}
@@ -396,6 +520,18 @@ export default function QuoteDetailPage({
                   Edit
                 </Button>
               )}
+              {canCreate && (
+                <>
+                  <Button variant="outline" onClick={() => setShowDuplicate(true)} data-testid="duplicate-quote-button">
+                    <Copy className="h-4 w-4 mr-2" />
+                    Duplicate
+                  </Button>
+                  <Button variant="outline" onClick={() => setShowSaveTemplate(true)} data-testid="save-as-template-button">
+                    <BookmarkPlus className="h-4 w-4 mr-2" />
+                    Save as Template
+                  </Button>
+                </>
+              )}
               {canDelete && (
                 <Button variant="outline" onClick={handleDelete}>
                   <Trash2 className="h-4 w-4 mr-2" />
@@ -453,6 +589,14 @@ export default function QuoteDetailPage({
                 <p className="text-sm font-medium text-gray-600">Created On</p>
                 <p className="text-sm text-gray-900">{formatDate(quote.createdAt)}</p>
               </div>
+              {quote.validUntil && (
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Valid Until</p>
+                  <p className={`text-sm ${quote.status === 'EXPIRED' ? 'text-orange-700 font-medium' : 'text-gray-900'}`}>
+                    {formatDate(quote.validUntil)}
+                  </p>
+                </div>
+              )}
               <div>
                 <p className="text-sm font-medium text-gray-600">Discount Mode</p>
                 <p className="text-sm text-gray-900">{quote.discountMode}</p>
@@ -461,6 +605,10 @@ export default function QuoteDetailPage({
                 <p className="text-sm font-medium text-gray-600">Tax Rate</p>
                 <p className="text-sm text-gray-900">{quote.taxRate}%</p>
               </div>
+              <div>
+                <p className="text-sm font-medium text-gray-600 mb-1">PDF Template</p>
+                <PdfTemplateSelect quoteId={quote.id} templateId={quote.templateId} canEdit={canEdit} />
+              </div>
             </div>
           </div>
 
@@ -530,9 +678,36 @@ export default function QuoteDetailPage({
                       <div className="text-sm font-medium text-gray-900">
                         {item.product.name}
                       </div>
+                      {item.variantOptions && item.variantOptions.length > 0 && (
+                        <div className="text-xs text-gray-600">{formatVariantOptions(item.variantOptions)}</div>
+                      )}
+                      {item.kind && item.kind !== 'STANDARD' && (
+                        <div className="flex items-center gap-2 mt-1">
+                          <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
+                            {item.kind === 'ALTERNATIVE'
+                              ? `Alternative to ${quote.items.find((i) => i.id === item.alternativeOfId)?.product.name || 'item'}`
+                              : 'Optional'}{' '}
+                            · not in total
+                          </span>
+                          {canEdit && (
+                            <button
+                              onClick={() => handleAcceptOption(item.id)}
+                              className="text-xs font-medium text-blue-600 hover:text-blue-800"
+                              data-testid="accept-option-button"
+                            >
+                              Accept
+                            </button>
+                          )}
+                        </div>
+                      )}
                       {item.description && (
                         <div className="text-sm text-gray-500">{item.description}</div>
                       )}
+                      {item.kitComponents && item.kitComponents.length > 0 && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          Kit: {item.kitComponents.map((c) => `${c.quantity} × ${c.name}`).join(', ')}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-900">
                       {item.product.category.name}
@@ -544,7 +719,7 @@ export default function QuoteDetailPage({
                       {formatCurrency(item.rate)}
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-900 text-right">
-                      {item.discount}%
+                      {formatDiscount(item.discount, item.discountType)}
                     </td>
                     <td className="px-6 py-4 text-sm font-medium text-gray-900 text-right">
                       {formatCurrency(item.lineTotal)}
@@ -556,6 +731,32 @@ export default function QuoteDetailPage({
           </div>
         </div>
 
+        {/* Revisions */}
+        {quoteId && (
+          <QuoteRevisions
+            quoteId={quoteId}
+            currentVersion={quote.version}
+            canRestore={canEdit}
+            onRestored={fetchQuote}
+          />
+        )}
+
+        {/* Client Links */}
+        {quoteId && (
+          <ShareLinks
+            quoteId={quoteId}
+            quoteStatus={quote.status}
+            currentVersion={quote.version}
+            canShare={canEdit}
+          />
+        )}
+
+        {/* Emails */}
+        {quoteId && <QuoteEmailLog quoteId={quoteId} refreshKey={emailLogKey} />}
+
+        {/* Approval History */}
+        {quoteId && <ApprovalTimeline quoteId={quoteId} refreshKey={timelineKey} />}
+
         {/* Policies/Terms */}
         {quote.policies && quote.policies.length > 0 && (
           <div className="bg-white rounded-lg shadow-sm border border-gray-200">
@@ -579,6 +780,34 @@ export default function QuoteDetailPage({
           </div>
         )}
       </div>
+
+      {quoteId && (
+        <>
+          <DuplicateQuoteDialog
+            open={showDuplicate}
+            onOpenChange={setShowDuplicate}
+            quoteId={quoteId}
+            quoteTitle={quote.title}
+            clientId={quote.clientId}
+          />
+          <SaveAsTemplateDialog
+            open={showSaveTemplate}
+            onOpenChange={setShowSaveTemplate}
+            quoteId={quoteId}
+          />
+          <SendQuoteDialog
+            open={showSendEmail}
+            onOpenChange={setShowSendEmail}
+            quoteId={quoteId}
+            clientEmail={quote.client?.email || null}
+            onSendAttempt={(sent) => {
+              setEmailLogKey((key) => key + 1);
+              // Sending exports the PDF, which is logged in the revision history
+              if (sent) fetchQuote();
+            }}
+          />
+        </>
+      )}
     </div>
   );
 }
@@ -8,6 +8,7 @@ import { QuotationItems } from '@/components/QuoteBuilder/QuotationItems';
 import { Summary } from '@/components/QuoteBuilder/Summary';
 import { QuoteActions } from '@/components/QuoteBuilder/QuoteActions';
 import { QuotePreview } from '@/components/QuoteBuilder/QuotePreview';
+import { TemplatePicker } from '@/components/QuoteBuilder/TemplatePicker';
 import { Button } from '@/components/ui/button';
 import { Eye, EyeOff, FileText, Maximize2, Minimize2 } from 'lucide-react';
 
@@ -108,6 +109,9 @@ export default function NewQuotePage() {
               </div>
             </div>
 
+            {/* Start from a saved template */}
+            <TemplatePicker />
+
             {/* Quote Details */}
             <QuoteDetails />
 
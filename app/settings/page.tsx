@@ -12,6 +12,11 @@ import { Plus } from 'lucide-react';
 import { CompanyInfoForm, CompanyInfo } from '@/components/Settings/CompanyInfoForm';
 import { CompanyLogoUpload } from '@/components/Settings/CompanyLogoUpload';
 import { TermsConditionsEditor } from '@/components/Settings/TermsConditionsEditor';
+import { DiscountRulesEditor } from '@/components/Settings/DiscountRulesEditor';
+import { ApprovalPoliciesEditor } from '@/components/Settings/ApprovalPoliciesEditor';
+import { PaymentSchedulesEditor } from '@/components/Settings/PaymentSchedulesEditor';
+import { EmailTemplatesEditor } from '@/components/Settings/EmailTemplatesEditor';
+import { PdfTemplatesEditor } from '@/components/Settings/PdfTemplatesEditor';
 import { supabase } from '@/lib/db';
 
 export default function SettingsPage() {
@@ -28,15 +33,17 @@ export default function SettingsPage() {
     phone: '',
     website: '',
     address: '',
+    state: '',
+    gstin: '',
+    quoteNumberPattern: '',
+    quoteValidityDays: 30,
+    minMarginPercent: null,
   });
   const [logoUrl, setLogoUrl] = useState<string | null>(null);
 
   // Terms State
   const [terms, setTerms] = useState('');
 
-  // PDF Template State
-  const [pdfTemplate, setPdfTemplate] = useState<any[]>([]);
-
   // Initial state for detecting changes
   const [initialState, setInitialState] = useState<any>(null);
 
@@ -68,6 +75,11 @@ export default function SettingsPage() {
           phone: companyData.phone,
           website: companyData.website,
           address: companyData.address,
+          state: companyData.state,
+          gstin: companyData.gstin,
+          quoteNumberPattern: companyData.quoteNumberPattern,
+          quoteValidityDays: companyData.quoteValidityDays,
+          minMarginPercent: companyData.minMarginPercent ?? null,
         });
         setLogoUrl(companyData.logoUrl);
       }
@@ -83,15 +95,11 @@ export default function SettingsPage() {
         setTerms(termsData.content);
       }
 
-      // PDF template loading removed - endpoint doesn't exist
-      // Template functionality is not currently implemented in UI
-
       // Store initial state
       const state = {
         companyInfo: { ...companyInfo },
         logoUrl,
         terms,
-        pdfTemplate: [...pdfTemplate],
       };
       setInitialState(state);
     } catch (error) {
@@ -146,7 +154,10 @@ export default function SettingsPage() {
         body: JSON.stringify({ ...companyInfo, logoUrl }),
       });
 
-      if (!companyRes.ok) throw new Error('Failed to save company info');
+      if (!companyRes.ok) {
+        const error = await companyRes.json();
+        throw new Error(error.error || 'Failed to save company info');
+      }
 
       // Save terms
       const termsRes = await fetch('/api/settings/terms', {
@@ -160,14 +171,11 @@ export default function SettingsPage() {
 
       if (!termsRes.ok) throw new Error('Failed to save terms');
 
-      // PDF template save removed - endpoint doesn't exist
-      // Template functionality is not currently implemented in UI
-
       alert('Settings saved successfully!');
       await loadSettings(); // Reload to update initial state
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error saving settings:', error);
-      alert('Failed to save settings. Please try again.');
+      alert(error.message || 'Failed to save settings. Please try again.');
     } finally {
       setSaving(false);
     }
@@ -178,7 +186,6 @@ export default function SettingsPage() {
       setCompanyInfo(initialState.companyInfo);
       setLogoUrl(initialState.logoUrl);
       setTerms(initialState.terms);
-      setPdfTemplate(initialState.pdfTemplate);
     }
   };
 
@@ -220,6 +227,11 @@ export default function SettingsPage() {
             <TabsTrigger value="user-management">User Management</TabsTrigger>
             <TabsTrigger value="roles">Role Management</TabsTrigger>
             <TabsTrigger value="company-info">Company Info</TabsTrigger>
+            <TabsTrigger value="discount-rules">Discount Rules</TabsTrigger>
+            <TabsTrigger value="approval-policies">Approval Policies</TabsTrigger>
+            <TabsTrigger value="payment-schedules">Payment Schedules</TabsTrigger>
+            <TabsTrigger value="email-templates">Email Templates</TabsTrigger>
+            <TabsTrigger value="pdf-templates">PDF Templates</TabsTrigger>
           </TabsList>
 
           {/* User Management Tab */}
@@ -264,6 +276,31 @@ export default function SettingsPage() {
               </div>
             </div>
           </TabsContent>
+
+          {/* Discount Rules Tab */}
+          <TabsContent value="discount-rules">
+            <DiscountRulesEditor />
+          </TabsContent>
+
+          {/* Approval Policies Tab */}
+          <TabsContent value="approval-policies">
+            <ApprovalPoliciesEditor />
+          </TabsContent>
+
+          {/* Payment Schedules Tab */}
+          <TabsContent value="payment-schedules">
+            <PaymentSchedulesEditor />
+          </TabsContent>
+
+          {/* Email Templates Tab */}
+          <TabsContent value="email-templates">
+            <EmailTemplatesEditor />
+          </TabsContent>
+
+          {/* PDF Templates Tab */}
+          <TabsContent value="pdf-templates">
+            <PdfTemplatesEditor />
+          </TabsContent>
         </Tabs>
 
         {/* User Dialog */}
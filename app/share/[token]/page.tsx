@@ -0,0 +1,341 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { SignaturePad } from '@/components/Share/SignaturePad';
+import { formatCurrency } from '@/lib/calculations';
+import { formatVariantOptions } from '@/lib/variants';
+import { SHARE_LINK_STATE_MESSAGES } from '@/lib/share-links';
+import { SharedQuoteView } from '@/lib/types';
+
+export default function SharedQuotePage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const [token, setToken] = useState<string | null>(null);
+  const [view, setView] = useState<SharedQuoteView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Answer form
+  const [mode, setMode] = useState<'accept' | 'reject' | null>(null);
+  const [signerName, setSignerName] = useState('');
+  const [signature, setSignature] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    params.then((resolvedParams) => {
+      setToken(resolvedParams.token);
+    });
+  }, [params]);
+
+  useEffect(() => {
+    if (token) {
+      fetchQuote();
+    }
+  }, [token]);
+
+  const fetchQuote = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/share/${token}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load quote');
+      }
+
+      setView(data);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!mode) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/share/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          mode === 'accept'
+            ? { response: 'ACCEPTED', signerName, signature }
+            : { response: 'REJECTED', reason }
+        ),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to send your response');
+
+      setMode(null);
+      await fetchQuote();
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const formatDate = (date: string | null | undefined) =>
+    date
+      ? new Date(date).toLocaleDateString('en-IN', { year: 'numeric', month: 'short', day: 'numeric' })
+      : '—';
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !view) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <h2 className="text-xl font-semibold text-gray-900">{error || 'Quote not found'}</h2>
+      </div>
+    );
+  }
+
+  const { quote, company } = view;
+  const sections = [
+    ...quote.sections.map((section) => ({ id: section.id as string | null, name: section.name })),
+    { id: null, name: quote.sections.length > 0 ? 'Other items' : '' },
+  ]
+    .map((section) => ({
+      ...section,
+      items: quote.items.filter((item) => (item.sectionId ?? null) === section.id),
+    }))
+    .filter((section) => section.items.length > 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8" data-testid="shared-quote">
+      <div className="max-w-4xl mx-auto px-4 space-y-6">
+        {/* Company */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex items-start justify-between">
+          <div className="flex items-center gap-4">
+            {company.logoUrl && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={company.logoUrl} alt={company.companyName} className="h-14 w-auto object-contain" />
+            )}
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">{company.companyName}</h1>
+              {company.address && <p className="text-sm text-gray-600 whitespace-pre-line">{company.address}</p>}
+              <p className="text-xs text-gray-500">
+                {[company.phone, company.email, company.website].filter(Boolean).join(' · ')}
+              </p>
+              {company.gstin && <p className="text-xs text-gray-500">GSTIN: {company.gstin}</p>}
+            </div>
+          </div>
+          <div className="text-right">
+            <p className="text-sm font-semibold text-gray-900">{view.quoteNumber}</p>
+            <p className="text-xs text-gray-500">Version {view.version}</p>
+            <p className="text-xs text-gray-500">Valid until {formatDate(quote.header.validUntil)}</p>
+          </div>
+        </div>
+
+        {/* Quote */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">{quote.header.title}</h2>
+            {quote.header.clientName && (
+              <p className="text-sm text-gray-600">Prepared for {quote.header.clientName}</p>
+            )}
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Qty</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Rate</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {sections.map((section) => (
+                <SectionRows key={section.id ?? 'none'} name={section.name} items={section.items} />
+              ))}
+            </tbody>
+          </table>
+          <div className="p-6 border-t border-gray-200 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Subtotal</span>
+              <span>{formatCurrency(quote.header.subtotal)}</span>
+            </div>
+            {quote.header.discount > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Discount</span>
+                <span>−{formatCurrency(quote.header.discount)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-gray-600">Tax</span>
+              <span>{formatCurrency(quote.header.tax)}</span>
+            </div>
+            <div className="flex justify-between text-base font-semibold pt-2 border-t border-gray-100">
+              <span>Grand Total</span>
+              <span data-testid="shared-quote-total">{formatCurrency(quote.header.grandTotal)}</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Terms */}
+        {quote.policies.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">Terms & Conditions</h2>
+            {quote.policies.map((policy) => (
+              <div key={policy.title}>
+                <h3 className="text-sm font-semibold text-gray-900 mb-1">{policy.title}</h3>
+                <p className="text-sm text-gray-600">{policy.description}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Response */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6" data-testid="shared-quote-response">
+          {view.response ? (
+            <div className="flex items-center gap-3">
+              {view.response.response === 'ACCEPTED' ? (
+                <CheckCircle className="h-6 w-6 text-green-600" />
+              ) : (
+                <XCircle className="h-6 w-6 text-red-600" />
+              )}
+              <div>
+                <p className="text-sm font-semibold text-gray-900">
+                  {view.response.response === 'ACCEPTED'
+                    ? `Accepted by ${view.response.signerName}`
+                    : 'Quote rejected'}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {formatDate(view.response.respondedAt)}
+                  {view.response.rejectionReason && ` · ${view.response.rejectionReason}`}
+                </p>
+              </div>
+            </div>
+          ) : !view.canRespond ? (
+            <p className="text-sm text-gray-600">
+              {view.state !== 'ACTIVE'
+                ? SHARE_LINK_STATE_MESSAGES[view.state]
+                : `This quote is ${view.status.toLowerCase().replace('_', ' ')} and can no longer be answered online.`}
+            </p>
+          ) : mode === 'accept' ? (
+            <div className="space-y-3">
+              <h2 className="text-lg font-semibold text-gray-900">Accept this quote</h2>
+              <div>
+                <label className="text-xs font-medium text-gray-600 block mb-1">Your full name</label>
+                <Input
+                  value={signerName}
+                  onChange={(e) => setSignerName(e.target.value)}
+                  data-testid="signer-name-input"
+                />
+              </div>
+              <div>
+                <label className="text-xs font-medium text-gray-600 block mb-1">Signature</label>
+                <SignaturePad onChange={setSignature} />
+              </div>
+              <div className="flex justify-end gap-3">
+                <Button variant="outline" onClick={() => setMode(null)} disabled={submitting}>
+                  Back
+                </Button>
+                <Button
+                  onClick={handleSubmit}
+                  disabled={submitting || !signerName.trim() || !signature}
+                  className="bg-green-600 hover:bg-green-700"
+                  data-testid="confirm-accept-button"
+                >
+                  {submitting ? 'Sending...' : 'Accept Quote'}
+                </Button>
+              </div>
+            </div>
+          ) : mode === 'reject' ? (
+            <div className="space-y-3">
+              <h2 className="text-lg font-semibold text-gray-900">Reject this quote</h2>
+              <Textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Tell us what doesn't work for you"
+                rows={3}
+                data-testid="rejection-reason-input"
+              />
+              <div className="flex justify-end gap-3">
+                <Button variant="outline" onClick={() => setMode(null)} disabled={submitting}>
+                  Back
+                </Button>
+                <Button
+                  onClick={handleSubmit}
+                  disabled={submitting || !reason.trim()}
+                  className="bg-red-600 hover:bg-red-700"
+                  data-testid="confirm-reject-button"
+                >
+                  {submitting ? 'Sending...' : 'Reject Quote'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">
+                This link is open until {formatDate(view.expiresAt)}.
+              </p>
+              <div className="flex gap-3">
+                <Button variant="outline" onClick={() => setMode('reject')} data-testid="reject-quote-button">
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Reject
+                </Button>
+                <Button
+                  onClick={() => setMode('accept')}
+                  className="bg-green-600 hover:bg-green-700"
+                  data-testid="accept-quote-button"
+                >
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Accept
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SectionRows({ name, items }: { name: string; items: SharedQuoteView['quote']['items'] }) {
+  return (
+    <>
+      {name && (
+        <tr className="bg-gray-50">
+          <td colSpan={4} className="px-6 py-2 text-sm font-semibold text-gray-700">{name}</td>
+        </tr>
+      )}
+      {items.map((item) => (
+        <tr key={item.id}>
+          <td className="px-6 py-3 text-sm text-gray-900">
+            {item.productName}
+            {item.kind !== 'STANDARD' && (
+              <span className="ml-2 text-xs text-gray-500">
+                ({item.kind === 'OPTIONAL' ? 'Optional' : 'Alternative'})
+              </span>
+            )}
+            {item.description && <p className="text-xs text-gray-500">{item.description}</p>}
+            {item.variantOptions && item.variantOptions.length > 0 && (
+              <p className="text-xs text-gray-500">{formatVariantOptions(item.variantOptions)}</p>
+            )}
+          </td>
+          <td className="px-6 py-3 text-sm text-right text-gray-900">{item.quantity}</td>
+          <td className="px-6 py-3 text-sm text-right text-gray-900">{formatCurrency(item.rate)}</td>
+          <td className="px-6 py-3 text-sm text-right text-gray-900">{formatCurrency(item.lineTotal)}</td>
+        </tr>
+      ))}
+    </>
+  );
+}
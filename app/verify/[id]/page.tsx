@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { formatCurrency } from '@/lib/calculations';
+import { QuoteVerification } from '@/lib/types';
+
+export default function VerifyQuotePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ v?: string }>;
+}) {
+  const [verification, setVerification] = useState<QuoteVerification | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        const [{ id }, { v }] = await Promise.all([params, searchParams]);
+        const response = await fetch(`/api/verify/${id}?v=${encodeURIComponent(v || '')}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to verify quotation');
+        }
+
+        setVerification(data);
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    verify();
+  }, [params, searchParams]);
+
+  const formatDate = (date: string | null | undefined) =>
+    date
+      ? new Date(date).toLocaleDateString('en-IN', { year: 'numeric', month: 'short', day: 'numeric' })
+      : '—';
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !verification) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4" data-testid="quote-verification">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 max-w-md text-center">
+          <XCircle className="h-12 w-12 text-red-600 mx-auto mb-3" />
+          <h2 className="text-xl font-semibold text-gray-900">{error || 'Quotation not found'}</h2>
+          <p className="text-sm text-gray-600 mt-2">
+            Please check with the company that sent you this quotation.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4" data-testid="quote-verification">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 max-w-md w-full">
+        <div className="text-center mb-6">
+          <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-3" />
+          <h2 className="text-xl font-semibold text-gray-900">Genuine quotation</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Issued by {verification.companyName || 'us'}
+          </p>
+        </div>
+
+        <dl className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <dt className="text-gray-600">Quote number</dt>
+            <dd className="font-medium text-gray-900" data-testid="verified-quote-number">
+              {verification.quoteNumber}
+            </dd>
+          </div>
+          <div className="flex justify-between">
+            <dt className="text-gray-600">Issued on</dt>
+            <dd className="text-gray-900">{formatDate(verification.issuedAt)}</dd>
+          </div>
+          {verification.grandTotal !== null && (
+            <div className="flex justify-between">
+              <dt className="text-gray-600">Grand total</dt>
+              <dd className="text-gray-900">{formatCurrency(verification.grandTotal)}</dd>
+            </div>
+          )}
+          {verification.validUntil && (
+            <div className="flex justify-between">
+              <dt className="text-gray-600">Valid until</dt>
+              <dd className="text-gray-900">{formatDate(verification.validUntil)}</dd>
+            </div>
+          )}
+        </dl>
+
+        {!verification.isLatest && (
+          <div className="mt-6 flex items-start gap-2 rounded-md bg-orange-50 border border-orange-200 p-3 text-sm text-orange-800">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            A newer version of this quotation has been issued since. Please ask for the latest version.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -118,11 +118,11 @@ export function BulkImport({ categories, onImportComplete }: BulkImportProps) {
   };
 
   const downloadSample = () => {
-    const sampleCSV = `Item Code,Item Name,Description,UOM,Rate,Category
-PROD-001,Premium Flooring,High quality hardwood flooring,sq ft,150.00,Flooring
-PROD-002,Standard Paint,Interior wall paint,gallon,45.00,Painting
-PROD-003,LED Light Fixture,Energy efficient LED fixture,pcs,89.99,Electrical
-PROD-004,Door Handle Set,Stainless steel handle,set,25.50,Hardware`;
+    const sampleCSV = `Item Code,Item Name,Description,UOM,Rate,Category,HSN/SAC,GST Rate
+PROD-001,Premium Flooring,High quality hardwood flooring,sq ft,150.00,Flooring,4409,18
+PROD-002,Standard Paint,Interior wall paint,gallon,45.00,Painting,3209,18
+PROD-003,LED Light Fixture,Energy efficient LED fixture,pcs,89.99,Electrical,9405,12
+PROD-004,Door Handle Set,Stainless steel handle,set,25.50,Hardware,8302,18`;
 
     const blob = new Blob([sampleCSV], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
@@ -143,7 +143,7 @@ PROD-004,Door Handle Set,Stainless steel handle,set,25.50,Hardware`;
         <ul className="text-sm text-blue-800 space-y-1 list-disc list-inside">
           <li>Download the sample CSV file to see the required format</li>
           <li>Required columns: Item Name, UOM, Rate, Category</li>
-          <li>Optional columns: Item Code, Description</li>
+          <li>Optional columns: Item Code, Description, HSN/SAC, GST Rate</li>
           <li>Categories will be created automatically if they don&apos;t exist</li>
           <li>Rates should be numeric values without currency symbols</li>
           <li>Descriptions can contain commas (will be handled correctly)</li>
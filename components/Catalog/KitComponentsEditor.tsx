@@ -0,0 +1,90 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import { Product } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { formatCurrency } from '@/lib/calculations';
+import { KitComponentInput } from '@/lib/kits';
+
+interface KitComponentsEditorProps {
+  kitId?: string;
+  products: Product[];
+  components: KitComponentInput[];
+  onChange: (components: KitComponentInput[]) => void;
+}
+
+/**
+ * Bill of materials for a kit product: which products go into one kit, and how many
+ */
+export function KitComponentsEditor({ kitId, products, components, onChange }: KitComponentsEditorProps) {
+  // Kits can't contain themselves or other kits
+  const options = products.filter((p) => p.id !== kitId && !p.isKit);
+
+  const update = (index: number, updates: Partial<KitComponentInput>) => {
+    onChange(components.map((c, i) => (i === index ? { ...c, ...updates } : c)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {components.length === 0 && (
+        <p className="text-sm text-gray-500">Add the products that make up this kit.</p>
+      )}
+
+      {components.map((component, index) => {
+        const product = products.find((p) => p.id === component.componentId);
+        return (
+          <div key={index} className="flex items-center gap-2" data-testid="kit-component-row">
+            <Select
+              value={component.componentId}
+              onChange={(e) => update(index, { componentId: e.target.value })}
+              className="h-8 flex-1 text-sm"
+              data-testid="kit-component-select"
+            >
+              <option value="">Select product</option>
+              {options.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.itemCode ? `${p.itemCode} - ${p.name}` : p.name}
+                </option>
+              ))}
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              step="0.001"
+              value={component.quantity || ''}
+              onChange={(e) => update(index, { quantity: parseFloat(e.target.value) || 0 })}
+              className="h-8 w-24 text-sm"
+              data-testid="kit-component-quantity-input"
+            />
+            <span className="w-12 text-xs text-gray-500">{product?.unit || ''}</span>
+            <span className="w-28 text-right text-sm">
+              {formatCurrency((product?.baseRate || 0) * component.quantity)}
+            </span>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => onChange(components.filter((_, i) => i !== index))}
+              title="Remove component"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() => onChange([...components, { componentId: '', quantity: 1 }])}
+        data-testid="add-kit-component-button"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Component
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { PriceList, PriceListItem, Product } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { isPriceEffective } from '@/lib/price-lists';
+import { toDateString } from '@/lib/quote-validity';
+import { supabase } from '@/lib/db';
+
+interface PriceListsManagerProps {
+  products: Product[];
+  canEdit: boolean;
+}
+
+interface RateForm {
+  productId: string;
+  rate: string;
+  effectiveFrom: string;
+  effectiveTo: string;
+}
+
+async function authorizedFetch(url: string, init: RequestInit = {}) {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session?.access_token) {
+    throw new Error('Not authenticated. Please log in again.');
+  }
+
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+  return data;
+}
+
+/**
+ * Price lists for client tiers, and each list's product rates with their effective dates
+ */
+export function PriceListsManager({ products, canEdit }: PriceListsManagerProps) {
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [entries, setEntries] = useState<PriceListItem[]>([]);
+  const [newList, setNewList] = useState({ name: '', description: '' });
+  const [rateForm, setRateForm] = useState<RateForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = toDateString(new Date());
+  const selectedList = priceLists.find((list) => list.id === selectedId);
+  // Entries arrive newest first, so the first one in effect for a product is its current rate
+  const currentEntries = new Map<string, PriceListItem>();
+  for (const entry of entries) {
+    if (isPriceEffective(entry, today) && !currentEntries.has(entry.productId)) {
+      currentEntries.set(entry.productId, entry);
+    }
+  }
+  const productNames = new Map(products.map((p) => [p.id, p.name]));
+
+  useEffect(() => {
+    fetchPriceLists();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) fetchEntries(selectedId);
+    else setEntries([]);
+    setRateForm(null);
+  }, [selectedId]);
+
+  const fetchPriceLists = async () => {
+    try {
+      const data: PriceList[] = await authorizedFetch('/api/price-lists');
+      setPriceLists(data);
+      setSelectedId((current) => current ?? data[0]?.id ?? null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const fetchEntries = async (priceListId: string) => {
+    try {
+      setEntries(await authorizedFetch(`/api/price-lists/${priceListId}/items`));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleCreateList = async () => {
+    if (!newList.name.trim()) return;
+    try {
+      const created: PriceList = await authorizedFetch('/api/price-lists', {
+        method: 'POST',
+        body: JSON.stringify({ name: newList.name.trim(), description: newList.description.trim() || null }),
+      });
+      setPriceLists([...priceLists, created].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedId(created.id);
+      setNewList({ name: '', description: '' });
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleToggleActive = async (list: PriceList) => {
+    try {
+      const updated: PriceList = await authorizedFetch('/api/price-lists', {
+        method: 'POST',
+        body: JSON.stringify({ ...list, isActive: !list.isActive }),
+      });
+      setPriceLists(priceLists.map((l) => (l.id === updated.id ? updated : l)));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDeleteList = async (list: PriceList) => {
+    if (!confirm(`Delete the price list "${list.name}"? Clients on it will go back to standard rates.`)) return;
+    try {
+      await authorizedFetch(`/api/price-lists?id=${list.id}`, { method: 'DELETE' });
+      setPriceLists(priceLists.filter((l) => l.id !== list.id));
+      if (selectedId === list.id) setSelectedId(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleSaveRate = async () => {
+    if (!rateForm || !selectedId) return;
+    try {
+      await authorizedFetch(`/api/price-lists/${selectedId}/items`, {
+        method: 'POST',
+        body: JSON.stringify({
+          productId: rateForm.productId,
+          rate: parseFloat(rateForm.rate),
+          effectiveFrom: rateForm.effectiveFrom,
+          effectiveTo: rateForm.effectiveTo || null,
+        }),
+      });
+      setRateForm(null);
+      setError(null);
+      fetchEntries(selectedId);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDeleteEntry = async (entry: PriceListItem) => {
+    if (!selectedId) return;
+    try {
+      await authorizedFetch(`/api/price-lists/${selectedId}/items?itemId=${entry.id}`, { method: 'DELETE' });
+      setEntries(entries.filter((e) => e.id !== entry.id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6" data-testid="price-lists-manager">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Price Lists</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {priceLists.length === 0 && (
+            <p className="text-sm text-gray-500">No price lists yet. All clients are quoted standard rates.</p>
+          )}
+          {priceLists.map((list) => (
+            <div
+              key={list.id}
+              onClick={() => setSelectedId(list.id)}
+              className={`flex items-center justify-between p-2 rounded-md cursor-pointer border ${
+                list.id === selectedId ? 'border-blue-500 bg-blue-50' : 'border-transparent hover:bg-gray-50'
+              }`}
+              data-testid="price-list-row"
+            >
+              <div>
+                <div className="font-medium text-sm">{list.name}</div>
+                {list.description && <div className="text-xs text-gray-500">{list.description}</div>}
+              </div>
+              <div className="flex items-center gap-1">
+                {!list.isActive && <Badge variant="secondary">Inactive</Badge>}
+                {canEdit && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDeleteList(list);
+                    }}
+                    title="Delete price list"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {canEdit && (
+            <div className="pt-4 border-t space-y-2">
+              <Input
+                value={newList.name}
+                onChange={(e) => setNewList({ ...newList, name: e.target.value })}
+                placeholder="New list, e.g. Builder"
+                data-testid="price-list-name-input"
+              />
+              <Input
+                value={newList.description}
+                onChange={(e) => setNewList({ ...newList, description: e.target.value })}
+                placeholder="Description (optional)"
+              />
+              <Button size="sm" onClick={handleCreateList} data-testid="create-price-list-button">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Price List
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="lg:col-span-2 space-y-6">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {selectedList && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="text-lg">{selectedList.name} rates</CardTitle>
+              {canEdit && (
+                <Button size="sm" variant="outline" onClick={() => handleToggleActive(selectedList)}>
+                  {selectedList.isActive ? 'Deactivate' : 'Activate'}
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2">Item</th>
+                    <th className="py-2 text-right">Base Rate</th>
+                    <th className="py-2 text-right">List Rate Today</th>
+                    {canEdit && <th className="py-2"></th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {products.map((product) => (
+                    <tr key={product.id} className="border-b align-top" data-testid="price-list-product-row">
+                      <td className="py-2">
+                        <div className="font-medium">{product.name}</div>
+                        <div className="text-xs text-gray-500">{product.itemCode}</div>
+                        {rateForm?.productId === product.id && (
+                          <div className="flex flex-wrap items-end gap-2 mt-2">
+                            <div>
+                              <label className="text-xs text-gray-600 block">Rate (₹)</label>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                value={rateForm.rate}
+                                onChange={(e) => setRateForm({ ...rateForm, rate: e.target.value })}
+                                className="h-8 w-28"
+                                data-testid="price-list-rate-input"
+                              />
+                            </div>
+                            <div>
+                              <label className="text-xs text-gray-600 block">From</label>
+                              <Input
+                                type="date"
+                                value={rateForm.effectiveFrom}
+                                onChange={(e) => setRateForm({ ...rateForm, effectiveFrom: e.target.value })}
+                                className="h-8 w-36"
+                                data-testid="price-list-effective-from-input"
+                              />
+                            </div>
+                            <div>
+                              <label className="text-xs text-gray-600 block">Until (optional)</label>
+                              <Input
+                                type="date"
+                                value={rateForm.effectiveTo}
+                                onChange={(e) => setRateForm({ ...rateForm, effectiveTo: e.target.value })}
+                                className="h-8 w-36"
+                              />
+                            </div>
+                            <Button size="sm" onClick={handleSaveRate} data-testid="price-list-save-rate-button">
+                              Save
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => setRateForm(null)}>
+                              Cancel
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">₹{product.baseRate.toLocaleString('en-IN')}</td>
+                      <td className="py-2 text-right" data-testid="price-list-current-rate">
+                        {currentEntries.has(product.id)
+                          ? `₹${currentEntries.get(product.id)!.rate.toLocaleString('en-IN')}`
+                          : <span className="text-gray-400">Base rate</span>}
+                      </td>
+                      {canEdit && (
+                        <td className="py-2 text-right">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() =>
+                              setRateForm({
+                                productId: product.id,
+                                rate: String(currentEntries.get(product.id)?.rate ?? product.baseRate),
+                                effectiveFrom: today,
+                                effectiveTo: '',
+                              })
+                            }
+                            data-testid="price-list-set-rate-button"
+                          >
+                            Set Rate
+                          </Button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+
+        {selectedList && entries.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Rate History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2">Item</th>
+                    <th className="py-2 text-right">Rate</th>
+                    <th className="py-2">From</th>
+                    <th className="py-2">Until</th>
+                    {canEdit && <th className="py-2"></th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry) => (
+                    <tr key={entry.id} className="border-b" data-testid="price-list-entry-row">
+                      <td className="py-2">
+                        {productNames.get(entry.productId) || 'Unknown item'}
+                        {currentEntries.get(entry.productId)?.id === entry.id && (
+                          <Badge className="ml-2">Current</Badge>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">₹{entry.rate.toLocaleString('en-IN')}</td>
+                      <td className="py-2">{entry.effectiveFrom}</td>
+                      <td className="py-2">{entry.effectiveTo || '—'}</td>
+                      {canEdit && (
+                        <td className="py-2 text-right">
+                          <Button size="sm" variant="ghost" onClick={() => handleDeleteEntry(entry)} title="Delete rate">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
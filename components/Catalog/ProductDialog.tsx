@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Product, Category } from '@/lib/types';
+import { Product, Category, VariantAttribute } from '@/lib/types';
 import {
   Dialog,
   DialogContent,
@@ -15,25 +15,47 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select } from '@/components/ui/select';
 import { FileUpload } from '@/components/ui/file-upload';
 import { UOMSelect } from '@/components/ui/uom-select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { GST_SLABS } from '@/lib/gst';
+import { formatCurrency } from '@/lib/calculations';
+import { KitComponentInput, calculateKitRate } from '@/lib/kits';
+import { getVariantAttributesError } from '@/lib/variants';
+import { useAuth } from '@/lib/auth-context';
+import { hasPermission } from '@/lib/permissions';
+import { KitComponentsEditor } from './KitComponentsEditor';
+import { VariantAttributesEditor } from './VariantAttributesEditor';
+
+// Product fields plus the kit's components as entered
+export type ProductFormData = Omit<Partial<Product>, 'components'> & { components?: KitComponentInput[] };
 
 interface ProductDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   product?: Product | null;
   categories: Category[];
-  onSave: (productData: Partial<Product>) => void;
+  products?: Product[]; // Catalog to pick kit components from
+  onSave: (productData: ProductFormData) => void;
 }
 
-export function ProductDialog({ open, onOpenChange, product, categories, onSave }: ProductDialogProps) {
+export function ProductDialog({ open, onOpenChange, product, categories, products = [], onSave }: ProductDialogProps) {
+  const { permissions } = useAuth();
+  const canViewMargins = hasPermission(permissions, 'margins', 'canRead');
   const [formData, setFormData] = useState({
     itemCode: '',
     name: '',
     description: '',
     unit: '',
     baseRate: 0,
+    costPrice: '',
+    hsnCode: '',
+    taxRate: '',
     categoryId: '',
     imageUrl: '',
   });
+  const [isKit, setIsKit] = useState(false);
+  const [kitRateOverride, setKitRateOverride] = useState(false);
+  const [kitComponents, setKitComponents] = useState<KitComponentInput[]>([]);
+  const [variantAttributes, setVariantAttributes] = useState<VariantAttribute[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -45,9 +67,18 @@ export function ProductDialog({ open, onOpenChange, product, categories, onSave
         description: product.description || '',
         unit: '',
         baseRate: product.baseRate || 0,
+        costPrice: product.costPrice != null ? String(product.costPrice) : '',
+        hsnCode: product.hsnCode || '',
+        taxRate: product.taxRate != null ? String(product.taxRate) : '',
         categoryId: product.categoryId || '',
         imageUrl: product.imageUrl || '',
       });
+      setIsKit(product.isKit ?? false);
+      setKitRateOverride(product.kitRateOverride ?? false);
+      setKitComponents(
+        (product.components || []).map((c) => ({ componentId: c.componentId, quantity: c.quantity }))
+      );
+      setVariantAttributes(product.variantAttributes || []);
     } else {
       setFormData({
         itemCode: '',
@@ -55,13 +86,28 @@ export function ProductDialog({ open, onOpenChange, product, categories, onSave
         description: '',
         unit: '',
         baseRate: 0,
+        costPrice: '',
+        hsnCode: '',
+        taxRate: '',
         categoryId: '',
         imageUrl: '',
       });
+      setIsKit(false);
+      setKitRateOverride(false);
+      setKitComponents([]);
+      setVariantAttributes([]);
     }
     setError(null);
   }, [product, open]);
 
+  // Rate of one kit from its components' current catalog rates
+  const derivedKitRate = calculateKitRate(
+    kitComponents.map((c) => ({
+      quantity: c.quantity,
+      component: products.find((p) => p.id === c.componentId),
+    }))
+  );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -73,8 +119,32 @@ export function ProductDialog({ open, onOpenChange, product, categories, onSave
       return;
     }
 
+    if (isKit && (kitComponents.length === 0 || kitComponents.some((c) => !c.componentId || c.quantity <= 0))) {
+      setError('Every kit component needs a product and a quantity.');
+      setLoading(false);
+      return;
+    }
+
+    const variantsError = getVariantAttributesError(variantAttributes);
+    if (variantsError) {
+      setError(variantsError);
+      setLoading(false);
+      return;
+    }
+
     try {
-      await onSave(formData);
+      await onSave({
+        ...formData,
+        baseRate: isKit && !kitRateOverride ? derivedKitRate : formData.baseRate,
+        hsnCode: formData.hsnCode.trim() || null,
+        taxRate: formData.taxRate === '' ? null : Number(formData.taxRate),
+        // Left out for users who can't see costs, so the saved cost is kept
+        costPrice: canViewMargins ? (formData.costPrice === '' ? null : Number(formData.costPrice)) : undefined,
+        isKit,
+        kitRateOverride: isKit && kitRateOverride,
+        components: isKit ? kitComponents : [],
+        variantAttributes,
+      });
       onOpenChange(false);
     } catch (err: any) {
       setError(err.message || 'Failed to save product.');
@@ -85,7 +155,7 @@ export function ProductDialog({ open, onOpenChange, product, categories, onSave
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-4xl">
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{product ? 'Edit Product' : 'Add New Item'}</DialogTitle>
         </DialogHeader>
@@ -151,15 +221,77 @@ export function ProductDialog({ open, onOpenChange, product, categories, onSave
                 <Input
                   id="baseRate"
                   type="number"
-                  value={formData.baseRate}
+                  value={isKit && !kitRateOverride ? derivedKitRate : formData.baseRate}
                   onChange={(e) => setFormData({...formData, baseRate: Number(e.target.value)})}
                   placeholder="0.00"
                   min="0"
                   step="0.01"
+                  disabled={isKit && !kitRateOverride}
                   required
                 />
+                {isKit && (
+                  <div className="flex items-center gap-2 mt-2">
+                    <Checkbox
+                      id="kitRateOverride"
+                      checked={kitRateOverride}
+                      onCheckedChange={setKitRateOverride}
+                    />
+                    <label htmlFor="kitRateOverride" className="text-xs text-gray-600">
+                      Override the rate (components total {formatCurrency(derivedKitRate)})
+                    </label>
+                  </div>
+                )}
               </div>
+
+              {canViewMargins && (
+                <div>
+                  <Label htmlFor="costPrice" className="block text-sm font-medium mb-1">
+                    Cost Price (₹)
+                  </Label>
+                  <Input
+                    id="costPrice"
+                    type="number"
+                    value={formData.costPrice}
+                    onChange={(e) => setFormData({...formData, costPrice: e.target.value})}
+                    placeholder="Not set"
+                    min="0"
+                    step="0.01"
+                    data-testid="product-cost-price-input"
+                  />
+                </div>
+              )}
               
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="hsnCode" className="block text-sm font-medium mb-1">
+                    HSN/SAC Code
+                  </Label>
+                  <Input
+                    id="hsnCode"
+                    value={formData.hsnCode}
+                    onChange={(e) => setFormData({...formData, hsnCode: e.target.value})}
+                    placeholder="e.g., 9403"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="taxRate" className="block text-sm font-medium mb-1">
+                    GST Rate
+                  </Label>
+                  <Select
+                    id="taxRate"
+                    value={formData.taxRate}
+                    onChange={(e) => setFormData({...formData, taxRate: e.target.value})}
+                  >
+                    <option value="">Quote default</option>
+                    {GST_SLABS.map((slab) => (
+                      <option key={slab} value={slab}>
+                        {slab}%
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              </div>
+
               <div>
                 <Label htmlFor="categoryId" className="block text-sm font-medium mb-1">
                   Category *
@@ -210,6 +342,41 @@ export function ProductDialog({ open, onOpenChange, product, categories, onSave
             </div>
           </div>
           
+          {/* Kit / bill of materials */}
+          <div className="border-t pt-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="isKit"
+                checked={isKit}
+                onCheckedChange={setIsKit}
+                data-testid="product-is-kit-checkbox"
+              />
+              <label htmlFor="isKit" className="text-sm font-medium">
+                This item is a kit made of other products
+              </label>
+            </div>
+            {isKit && (
+              <KitComponentsEditor
+                kitId={product?.id}
+                products={products}
+                components={kitComponents}
+                onChange={setKitComponents}
+              />
+            )}
+          </div>
+
+          {/* Variants / finish options */}
+          <div className="border-t pt-4 space-y-3">
+            <div>
+              <div className="text-sm font-medium">Variants</div>
+              <p className="text-xs text-gray-500">
+                Options chosen per quote line, e.g. Finish: Laminate / Veneer / PU / Acrylic.
+                Each option adds a fixed amount per unit or multiplies the rate.
+              </p>
+            </div>
+            <VariantAttributesEditor attributes={variantAttributes} onChange={setVariantAttributes} />
+          </div>
+
           {error && (
             <div className="text-red-600 text-sm text-center bg-red-50 p-3 rounded">
               {error}
@@ -2,6 +2,7 @@
 
 import { Product } from '@/lib/types';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Edit, Trash2 } from 'lucide-react';
 
 interface ProductGridProps {
@@ -62,10 +63,22 @@ export function ProductGrid({ products, onEdit, onDelete, canEdit, canDelete }:
                     </div>
                   </td>
                   <td className="px-6 py-4">
-                    <div className="font-medium text-gray-900">{product.name}</div>
+                    <div className="font-medium text-gray-900">
+                      {product.name}
+                      {product.isKit && (
+                        <Badge variant="secondary" className="ml-2">Kit</Badge>
+                      )}
+                    </div>
                     {product.description && (
                       <div className="text-sm text-gray-500 mt-1">{product.description}</div>
                     )}
+                    {product.isKit && product.components && product.components.length > 0 && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        {product.components
+                          .map((c) => `${c.quantity} × ${c.component?.name || 'Unknown'}`)
+                          .join(', ')}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 text-sm text-gray-900">{product.unit || '-'}</td>
                   <td className="px-6 py-4 text-sm text-gray-900">
@@ -0,0 +1,133 @@
+'use client';
+
+import { Plus, Trash2, X } from 'lucide-react';
+import { PriceModifierType, VariantAttribute, VariantOption } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { PRICE_MODIFIER_TYPES } from '@/lib/variants';
+
+interface VariantAttributesEditorProps {
+  attributes: VariantAttribute[];
+  onChange: (attributes: VariantAttribute[]) => void;
+}
+
+const newOption = (): VariantOption => ({ label: '', modifierType: 'DELTA', modifier: 0 });
+
+/**
+ * Variant attributes of a product (Finish, Hardware brand...) and the price effect of each option
+ */
+export function VariantAttributesEditor({ attributes, onChange }: VariantAttributesEditorProps) {
+  const updateAttribute = (index: number, updates: Partial<VariantAttribute>) => {
+    onChange(attributes.map((a, i) => (i === index ? { ...a, ...updates } : a)));
+  };
+
+  const updateOption = (attributeIndex: number, optionIndex: number, updates: Partial<VariantOption>) => {
+    const attribute = attributes[attributeIndex];
+    updateAttribute(attributeIndex, {
+      options: attribute.options.map((o, i) => (i === optionIndex ? { ...o, ...updates } : o)),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {attributes.map((attribute, attributeIndex) => (
+        <div key={attributeIndex} className="border rounded-lg p-3 space-y-2" data-testid="variant-attribute">
+          <div className="flex items-center gap-2">
+            <Input
+              value={attribute.name}
+              onChange={(e) => updateAttribute(attributeIndex, { name: e.target.value })}
+              placeholder="Attribute, e.g. Finish"
+              className="h-8 flex-1 text-sm font-medium"
+              data-testid="variant-attribute-name-input"
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => onChange(attributes.filter((_, i) => i !== attributeIndex))}
+              title="Remove attribute"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {attribute.options.map((option, optionIndex) => (
+            <div key={optionIndex} className="flex items-center gap-2 pl-4" data-testid="variant-option-row">
+              <Input
+                value={option.label}
+                onChange={(e) => updateOption(attributeIndex, optionIndex, { label: e.target.value })}
+                placeholder="Option, e.g. Laminate"
+                className="h-8 flex-1 text-sm"
+                data-testid="variant-option-label-input"
+              />
+              <Select
+                value={option.modifierType}
+                onChange={(e) => {
+                  const modifierType = e.target.value as PriceModifierType;
+                  updateOption(attributeIndex, optionIndex, {
+                    modifierType,
+                    modifier: modifierType === 'MULTIPLIER' ? 1 : 0,
+                  });
+                }}
+                className="h-8 w-32 text-xs"
+                aria-label="Price effect"
+              >
+                {PRICE_MODIFIER_TYPES.map((type) => (
+                  <option key={type.value} value={type.value}>
+                    {type.label}
+                  </option>
+                ))}
+              </Select>
+              <Input
+                type="number"
+                step="0.01"
+                value={option.modifier}
+                onChange={(e) =>
+                  updateOption(attributeIndex, optionIndex, { modifier: parseFloat(e.target.value) || 0 })
+                }
+                className="h-8 w-24 text-sm"
+                data-testid="variant-option-modifier-input"
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() =>
+                  updateAttribute(attributeIndex, {
+                    options: attribute.options.filter((_, i) => i !== optionIndex),
+                  })
+                }
+                title="Remove option"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() => updateAttribute(attributeIndex, { options: [...attribute.options, newOption()] })}
+            data-testid="add-variant-option-button"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Option
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() => onChange([...attributes, { name: '', options: [newOption()] }])}
+        data-testid="add-variant-attribute-button"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Attribute
+      </Button>
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Client } from '@/lib/types';
+import { Client, PriceList } from '@/lib/types';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import { INDIAN_STATES, isValidGSTIN } from '@/lib/gst';
 
 interface ClientDialogProps {
   open: boolean;
@@ -21,12 +22,40 @@ export function ClientDialog({ open, onOpenChange, client, onSave }: ClientDialo
     email: '',
     phone: '',
     address: '',
+    state: '',
+    gstin: '',
     source: 'Other',
     expectedDealValue: '',
+    priceListId: '',
   });
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  useEffect(() => {
+    if (open) fetchPriceLists();
+  }, [open]);
+
+  const fetchPriceLists = async () => {
+    try {
+      const { supabase } = await import('@/lib/db');
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session?.access_token) return;
+
+      const response = await fetch('/api/price-lists', {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+      if (response.ok) {
+        setPriceLists(await response.json());
+      }
+    } catch (err) {
+      console.error('Failed to fetch price lists:', err);
+    }
+  };
+
   useEffect(() => {
     if (client) {
       setFormData({
@@ -34,8 +63,11 @@ export function ClientDialog({ open, onOpenChange, client, onSave }: ClientDialo
         email: client.email || '',
         phone: client.phone || '',
         address: client.address || '',
+        state: client.state || '',
+        gstin: client.gstin || '',
         source: 'Other',
         expectedDealValue: '',
+        priceListId: client.priceListId || '',
       });
     } else {
       setFormData({
@@ -43,8 +75,11 @@ export function ClientDialog({ open, onOpenChange, client, onSave }: ClientDialo
         email: '',
         phone: '',
         address: '',
+        state: '',
+        gstin: '',
         source: 'Other',
         expectedDealValue: '',
+        priceListId: '',
       });
     }
     setError(null);
@@ -68,6 +103,11 @@ export function ClientDialog({ open, onOpenChange, client, onSave }: ClientDialo
       return;
     }
 
+    if (formData.gstin.trim() && !isValidGSTIN(formData.gstin)) {
+      setError('GSTIN must be a valid 15-character GST number');
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
@@ -78,7 +118,10 @@ export function ClientDialog({ open, onOpenChange, client, onSave }: ClientDialo
         email: formData.email,
         phone: formData.phone,
         address: formData.address,
+        state: formData.state,
+        gstin: formData.gstin,
         source: formData.source,
+        priceListId: formData.priceListId || null,
       };
 
       // Add expectedDealValue only if it has a value
@@ -197,6 +240,57 @@ export function ClientDialog({ open, onOpenChange, client, onSave }: ClientDialo
             />
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                State
+              </label>
+              <Select
+                value={formData.state}
+                onChange={(e) => handleInputChange('state', e.target.value)}
+              >
+                <option value="">Select state</option>
+                {INDIAN_STATES.map((state) => (
+                  <option key={state.code} value={state.name}>
+                    {state.name}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                GSTIN
+              </label>
+              <Input
+                type="text"
+                value={formData.gstin}
+                onChange={(e) => handleInputChange('gstin', e.target.value.toUpperCase())}
+                placeholder="27ABCDE1234F1Z5"
+                maxLength={15}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Price List
+            </label>
+            <Select
+              value={formData.priceListId}
+              onChange={(e) => handleInputChange('priceListId', e.target.value)}
+              data-testid="client-price-list-select"
+            >
+              <option value="">Standard rates</option>
+              {priceLists
+                .filter((list) => list.isActive || list.id === formData.priceListId)
+                .map((list) => (
+                  <option key={list.id} value={list.id}>
+                    {list.name}
+                  </option>
+                ))}
+            </Select>
+          </div>
+
           <div className="flex justify-end space-x-3 pt-4">
             <Button
               type="button"
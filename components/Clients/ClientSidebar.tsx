@@ -44,7 +44,7 @@ export function ClientSidebar({ client, onClose }: ClientSidebarProps) {
 
         // Sort by date, most recent first
         flatRevisions.sort((a, b) =>
-          new Date(b.exported_at).getTime() - new Date(a.exported_at).getTime()
+          new Date(b.exportedAt).getTime() - new Date(a.exportedAt).getTime()
         );
 
         setQuoteRevisions(flatRevisions);
@@ -145,7 +145,7 @@ export function ClientSidebar({ client, onClose }: ClientSidebarProps) {
                     </p>
                   </div>
                   <span className="text-xs text-gray-400">
-                    {new Date(revision.exported_at).toLocaleDateString('en-IN', {
+                    {new Date(revision.exportedAt).toLocaleDateString('en-IN', {
                       day: 'numeric',
                       month: 'short',
                       year: 'numeric',
@@ -18,6 +18,8 @@ export function QuotationCard({ quote }: QuotationCardProps) {
         return 'bg-green-100 text-green-800';
       case 'REJECTED':
         return 'bg-red-100 text-red-800';
+      case 'EXPIRED':
+        return 'bg-orange-100 text-orange-800';
       case 'DRAFT':
       default:
         return 'bg-gray-100 text-gray-800';
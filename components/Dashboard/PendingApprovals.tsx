@@ -10,6 +10,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
 
 interface PendingApproval {
   id: string;
@@ -19,6 +20,15 @@ interface PendingApproval {
   createdAt: string;
   clientName: string;
   createdByName: string;
+  approvalReason: string | null; // Set when the quote was routed for approval automatically
+  currentStep: PendingApprovalStep | null; // null for quotes sent before approval chains
+}
+
+interface PendingApprovalStep {
+  stepOrder: number;
+  totalSteps: number;
+  roleName: string | null;
+  reason: string | null;
 }
 
 interface PendingApprovalsProps {
@@ -34,10 +44,12 @@ export default function PendingApprovals({
   const [actionType, setActionType] = useState<'approve' | 'reject' | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [showDialog, setShowDialog] = useState(false);
+  const [notes, setNotes] = useState('');
 
   const handleAction = (quoteId: string, action: 'approve' | 'reject') => {
     setSelectedQuote(quoteId);
     setActionType(action);
+    setNotes('');
     setShowDialog(true);
   };
 
@@ -70,11 +82,13 @@ export default function PendingApprovals({
         },
         body: JSON.stringify({
           action: actionType,
+          notes,
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to process approval');
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to process approval');
       }
 
       // Close dialog and refresh
@@ -82,9 +96,9 @@ export default function PendingApprovals({
       setSelectedQuote(null);
       setActionType(null);
       onRefresh();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error processing approval:', error);
-      alert('Failed to process approval. Please try again.');
+      alert(error.message || 'Failed to process approval. Please try again.');
     } finally {
       setIsProcessing(false);
     }
@@ -137,7 +151,20 @@ export default function PendingApprovals({
           <tbody>
             {approvals.map((approval) => (
               <tr key={approval.id} className="border-b hover:bg-gray-50">
-                <td className="py-3 px-4 font-medium">{approval.quoteNumber}</td>
+                <td className="py-3 px-4 font-medium">
+                  {approval.quoteNumber}
+                  {approval.currentStep && approval.currentStep.totalSteps > 1 && (
+                    <div className="text-xs font-normal text-gray-500" data-testid="approval-step">
+                      Step {approval.currentStep.stepOrder} of {approval.currentStep.totalSteps}
+                      {approval.currentStep.roleName && ` · ${approval.currentStep.roleName}`}
+                    </div>
+                  )}
+                  {(approval.currentStep?.reason || approval.approvalReason) && (
+                    <div className="text-xs font-normal text-amber-700" data-testid="approval-reason">
+                      {approval.currentStep?.reason || approval.approvalReason}
+                    </div>
+                  )}
+                </td>
                 <td className="py-3 px-4">{approval.clientName}</td>
                 <td className="py-3 px-4 text-right font-semibold">
                   {formatCurrency(approval.grandTotal)}
@@ -190,10 +217,21 @@ export default function PendingApprovals({
             </DialogTitle>
             <DialogDescription>
               {actionType === 'approve'
-                ? 'Are you sure you want to approve this quote? This action will mark the quote as accepted.'
+                ? 'Are you sure you want to approve this quote? Once every approval step is approved, the quote will be marked as approved.'
                 : 'Are you sure you want to reject this quote? This action will mark the quote as rejected.'}
             </DialogDescription>
           </DialogHeader>
+          <Textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder={
+              actionType === 'approve'
+                ? 'Add a note for the quote author (optional)'
+                : 'Tell the quote author what needs to change (optional)'
+            }
+            rows={3}
+            data-testid="approval-notes-input"
+          />
           <div className="flex justify-end gap-3 mt-4">
             <Button
               variant="outline"
@@ -7,7 +7,7 @@ export function ConditionalHeader() {
   const pathname = usePathname();
 
   // List of paths where the header should be hidden
-  const authPaths = ['/login', '/signup', '/forgot-password', '/reset-password'];
+  const authPaths = ['/login', '/signup', '/forgot-password', '/reset-password', '/share/', '/verify/'];
 
   // Check if current path matches any auth paths
   const shouldHideHeader = authPaths.some(path => pathname?.startsWith(path));
@@ -218,6 +218,9 @@ export function ProductCatalog() {
                 <div className="flex-1 min-w-0">
                   <h4 className="font-medium text-sm text-gray-900 truncate">
                     {product.name}
+                    {product.isKit && (
+                      <span className="ml-1 text-xs font-normal text-blue-600">(Kit)</span>
+                    )}
                   </h4>
                   <p className="text-xs text-gray-500 line-clamp-2">
                     {product.description}
@@ -225,6 +228,11 @@ export function ProductCatalog() {
                   <p className="text-sm font-semibold text-gray-900 mt-1">
                     ₹{product.baseRate.toLocaleString('en-IN')}
                   </p>
+                  {product.variantAttributes && product.variantAttributes.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                      Choose {product.variantAttributes.map((a) => a.name.toLowerCase()).join(', ')} per line
+                    </p>
+                  )}
                 </div>
                 <Button size="sm" variant="ghost" onClick={(e) => {
                   e.stopPropagation();
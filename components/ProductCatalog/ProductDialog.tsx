@@ -15,6 +15,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select } from '@/components/ui/select';
 import { FileUpload } from '@/components/ui/file-upload';
 import { UOMSelect } from '@/components/ui/uom-select';
+import { GST_SLABS } from '@/lib/gst';
 
 interface ProductDialogProps {
   open: boolean;
@@ -30,6 +31,8 @@ export function ProductDialog({ open, onOpenChange, product, categories, onSave
     description: '',
     unit: '',
     baseRate: 0,
+    hsnCode: '',
+    taxRate: '',
     categoryId: '',
     imageUrl: '',
   });
@@ -43,6 +46,8 @@ export function ProductDialog({ open, onOpenChange, product, categories, onSave
         description: product.description || '',
         unit: '',
         baseRate: product.baseRate || 0,
+        hsnCode: product.hsnCode || '',
+        taxRate: product.taxRate != null ? String(product.taxRate) : '',
         categoryId: product.categoryId || '',
         imageUrl: product.imageUrl || '',
       });
@@ -52,6 +57,8 @@ export function ProductDialog({ open, onOpenChange, product, categories, onSave
         description: '',
         unit: '',
         baseRate: 0,
+        hsnCode: '',
+        taxRate: '',
         categoryId: '',
         imageUrl: '',
       });
@@ -71,7 +78,11 @@ export function ProductDialog({ open, onOpenChange, product, categories, onSave
     }
 
     try {
-      await onSave(formData);
+      await onSave({
+        ...formData,
+        hsnCode: formData.hsnCode.trim() || null,
+        taxRate: formData.taxRate === '' ? null : Number(formData.taxRate),
+      });
       onOpenChange(false);
     } catch (err: any) {
       setError(err.message || 'Failed to save product.');
@@ -145,6 +156,37 @@ export function ProductDialog({ open, onOpenChange, product, categories, onSave
                 />
               </div>
               
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="hsnCode" className="block text-sm font-medium mb-1">
+                    HSN/SAC Code
+                  </Label>
+                  <Input
+                    id="hsnCode"
+                    value={formData.hsnCode}
+                    onChange={(e) => setFormData({...formData, hsnCode: e.target.value})}
+                    placeholder="e.g., 9403"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="taxRate" className="block text-sm font-medium mb-1">
+                    GST Rate
+                  </Label>
+                  <Select
+                    id="taxRate"
+                    value={formData.taxRate}
+                    onChange={(e) => setFormData({...formData, taxRate: e.target.value})}
+                  >
+                    <option value="">Quote default</option>
+                    {GST_SLABS.map((slab) => (
+                      <option key={slab} value={slab}>
+                        {slab}%
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              </div>
+
               <div>
                 <Label htmlFor="categoryId" className="block text-sm font-medium mb-1">
                   Category *
@@ -12,7 +12,9 @@ export function ProtectedRoute({ children }: { children: React.ReactNode }) {
 
   // Public routes that don't need authentication
   const publicRoutes = ['/login', '/forgot-password', '/reset-password'];
-  const isPublicRoute = publicRoutes.includes(pathname);
+  // Quote share links and PDF verification codes are opened by clients without an account
+  const isPublicRoute =
+    publicRoutes.includes(pathname) || pathname.startsWith('/share/') || pathname.startsWith('/verify/');
 
   // Timeout for loading state
   useEffect(() => {
@@ -0,0 +1,192 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/lib/auth-context';
+import { ApprovalEventAction, QuoteApprovalEvent } from '@/lib/types';
+
+interface ApprovalTimelineProps {
+  quoteId: string;
+  refreshKey?: number; // Change to reload after an approval action elsewhere on the page
+}
+
+const ACTION_LABELS: Record<ApprovalEventAction, string> = {
+  REQUESTED: 'requested approval',
+  APPROVED: 'approved',
+  REJECTED: 'rejected',
+  COMMENTED: 'commented',
+};
+
+const ACTION_STYLES: Record<ApprovalEventAction, string> = {
+  REQUESTED: 'bg-yellow-100 text-yellow-800',
+  APPROVED: 'bg-green-100 text-green-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  COMMENTED: 'bg-gray-100 text-gray-700',
+};
+
+export function ApprovalTimeline({ quoteId, refreshKey = 0 }: ApprovalTimelineProps) {
+  const { user } = useAuth();
+  const [events, setEvents] = useState<QuoteApprovalEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [comment, setComment] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  const getToken = async () => {
+    // Import supabase dynamically
+    const { supabase } = await import('@/lib/db');
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      throw new Error('Not authenticated. Please log in again.');
+    }
+
+    return session.access_token;
+  };
+
+  const fetchEvents = async () => {
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/quotes/${quoteId}/approval-events`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error('Failed to fetch approval history');
+
+      setEvents(await response.json());
+    } catch (error) {
+      console.error('Error fetching approval history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEvents();
+  }, [quoteId, refreshKey]);
+
+  const handleComment = async () => {
+    if (!comment.trim()) return;
+
+    setPosting(true);
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/quotes/${quoteId}/approval-events`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ notes: comment }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to add comment');
+      }
+
+      const event = await response.json();
+      setEvents((current) => [...current, event]);
+      setComment('');
+    } catch (error: any) {
+      console.error('Error adding comment:', error);
+      alert(error.message || 'Failed to add comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const initials = (name: string | null | undefined) =>
+    (name || '?')
+      .split(' ')
+      .map((part) => part[0])
+      .join('')
+      .slice(0, 2)
+      .toUpperCase();
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6" data-testid="approval-timeline">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Approval History</h2>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading approval history...</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-500">No approval activity yet</p>
+        ) : (
+          events.map((event) => {
+            const isOwn = !!user && event.userId === user.id;
+
+            return (
+              <div
+                key={event.id}
+                className={`flex gap-3 ${isOwn ? 'flex-row-reverse' : ''}`}
+                data-testid="approval-event"
+              >
+                <div className="flex-shrink-0 w-8 h-8 rounded-full bg-blue-600 flex items-center justify-center text-white text-xs font-medium">
+                  {initials(event.userName)}
+                </div>
+                <div className={`max-w-xl ${isOwn ? 'text-right' : ''}`}>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                    <span className="font-medium text-gray-900">{event.userName || 'Unknown user'}</span>
+                    {event.userRole && <span>{event.userRole}</span>}
+                    <span className={`px-2 py-0.5 rounded-full font-medium ${ACTION_STYLES[event.action]}`}>
+                      {ACTION_LABELS[event.action]}
+                      {event.stepOrder ? ` step ${event.stepOrder}` : ''}
+                    </span>
+                    <span>v{event.quoteVersion}</span>
+                    <span>{formatDate(event.createdAt)}</span>
+                  </div>
+                  {event.notes && (
+                    <p
+                      className={`mt-1 inline-block rounded-lg px-3 py-2 text-sm whitespace-pre-wrap text-left ${
+                        isOwn ? 'bg-blue-50 text-blue-900' : 'bg-gray-100 text-gray-800'
+                      }`}
+                    >
+                      {event.notes}
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        <div className="flex items-end gap-3 pt-2 border-t border-gray-100">
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Add a comment for the approvers or the quote author"
+            rows={2}
+            className="flex-1"
+            data-testid="approval-comment-input"
+          />
+          <Button
+            onClick={handleComment}
+            disabled={posting || !comment.trim()}
+            data-testid="approval-comment-button"
+          >
+            <Send className="h-4 w-4 mr-2" />
+            {posting ? 'Posting...' : 'Comment'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
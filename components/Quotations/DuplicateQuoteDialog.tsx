@@ -0,0 +1,143 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface DuplicateQuoteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quoteId: string;
+  quoteTitle: string;
+  clientId: string | null;
+}
+
+export function DuplicateQuoteDialog({
+  open,
+  onOpenChange,
+  quoteId,
+  quoteTitle,
+  clientId,
+}: DuplicateQuoteDialogProps) {
+  const router = useRouter();
+  const [clients, setClients] = useState<{ id: string; name: string }[]>([]);
+  const [title, setTitle] = useState('');
+  const [newClientId, setNewClientId] = useState('');
+  const [duplicating, setDuplicating] = useState(false);
+
+  const getToken = async () => {
+    // Import supabase dynamically
+    const { supabase } = await import('@/lib/db');
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      throw new Error('Not authenticated. Please log in again.');
+    }
+
+    return session.access_token;
+  };
+
+  useEffect(() => {
+    if (!open) return;
+
+    setTitle(`${quoteTitle} (copy)`);
+    setNewClientId(clientId || '');
+
+    const fetchClients = async () => {
+      try {
+        const token = await getToken();
+        const response = await fetch('/api/clients', {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        if (response.ok) setClients(await response.json());
+      } catch (error) {
+        console.error('Failed to fetch clients:', error);
+      }
+    };
+
+    fetchClients();
+  }, [open]);
+
+  const handleDuplicate = async () => {
+    setDuplicating(true);
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/quotes/${quoteId}/duplicate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ title, clientId: newClientId || null }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to duplicate quote');
+
+      onOpenChange(false);
+      router.push(`/quotes/edit/${data.id}`);
+    } catch (error: any) {
+      console.error('Error duplicating quote:', error);
+      alert(error.message || 'Failed to duplicate quote');
+    } finally {
+      setDuplicating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Duplicate Quote</DialogTitle>
+          <DialogDescription>
+            Creates a new draft with its own quote number, starting at version 1.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div>
+            <label className="text-xs font-medium text-gray-600 block mb-1">Title</label>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              data-testid="duplicate-title-input"
+            />
+          </div>
+          <div>
+            <label className="text-xs font-medium text-gray-600 block mb-1">Client</label>
+            <Select
+              value={newClientId}
+              onChange={(e) => setNewClientId(e.target.value)}
+              data-testid="duplicate-client-select"
+            >
+              <option value="">Same client</option>
+              {clients.map((client) => (
+                <option key={client.id} value={client.id}>
+                  {client.name}
+                </option>
+              ))}
+            </Select>
+          </div>
+        </div>
+        <div className="flex justify-end gap-3 mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={duplicating}>
+            Cancel
+          </Button>
+          <Button onClick={handleDuplicate} disabled={duplicating} data-testid="confirm-duplicate-button">
+            {duplicating ? 'Duplicating...' : 'Duplicate'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Select } from '@/components/ui/select';
+import { PdfTemplate } from '@/lib/types';
+
+interface PdfTemplateSelectProps {
+  quoteId: string;
+  templateId: string | null;
+  canEdit: boolean;
+}
+
+/**
+ * PDF template the quote is exported with; empty means the default template
+ */
+export function PdfTemplateSelect({ quoteId, templateId, canEdit }: PdfTemplateSelectProps) {
+  const [templates, setTemplates] = useState<PdfTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState(templateId || '');
+  const [saving, setSaving] = useState(false);
+
+  const getToken = async () => {
+    // Import supabase dynamically
+    const { supabase } = await import('@/lib/db');
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      throw new Error('Not authenticated. Please log in again.');
+    }
+
+    return session.access_token;
+  };
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const token = await getToken();
+        const response = await fetch('/api/templates', {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        if (!response.ok) return;
+
+        setTemplates(await response.json());
+      } catch (error) {
+        console.error('Failed to fetch PDF templates:', error);
+      }
+    };
+
+    fetchTemplates();
+  }, []);
+
+  useEffect(() => {
+    setSelectedId(templateId || '');
+  }, [templateId]);
+
+  const handleChange = async (id: string) => {
+    const previousId = selectedId;
+    setSelectedId(id);
+    setSaving(true);
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/quotes/${quoteId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ templateId: id || null }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to change PDF template');
+      }
+    } catch (error: any) {
+      console.error('Error changing PDF template:', error);
+      alert(error.message || 'Failed to change PDF template');
+      setSelectedId(previousId);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const defaultTemplate = templates.find((template) => template.isDefault);
+
+  return (
+    <Select
+      value={selectedId}
+      onChange={(e) => handleChange(e.target.value)}
+      disabled={!canEdit || saving}
+      data-testid="pdf-template-select"
+    >
+      <option value="">
+        {defaultTemplate ? `Default (${defaultTemplate.name})` : 'Default layout'}
+      </option>
+      {templates.map((template) => (
+        <option key={template.id} value={template.id}>
+          {template.name}
+        </option>
+      ))}
+    </Select>
+  );
+}
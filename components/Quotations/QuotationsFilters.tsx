@@ -54,6 +54,8 @@ export function QuotationsFilters({
             <option value="SENT">Sent</option>
             <option value="ACCEPTED">Accepted</option>
             <option value="DECLINED">Declined</option>
+            <option value="EXPIRED">Expired</option>
+            <option value="EXPIRING_SOON">Expiring Soon</option>
           </Select>
         </div>
 
@@ -3,6 +3,7 @@
 import { Button } from '@/components/ui/button';
 import { Eye, Download, Trash2, CheckCircle } from 'lucide-react';
 import { useRouter } from 'next/navigation';
+import { isQuoteExpiringSoon } from '@/lib/quote-validity';
 
 interface Quote {
   id: string;
@@ -11,6 +12,7 @@ interface Quote {
   status: string;
   grandtotal: number;
   createdat: string;
+  validuntil?: string | null;
   isApproved?: boolean;
   client: {
     id: string;
@@ -33,6 +35,8 @@ const getStatusColor = (status: string) => {
       return 'bg-yellow-100 text-yellow-800';
     case 'DECLINED':
       return 'bg-red-100 text-red-800';
+    case 'EXPIRED':
+      return 'bg-orange-100 text-orange-800';
     default:
       return 'bg-gray-100 text-gray-800';
   }
@@ -163,6 +167,11 @@ export function QuotationsTable({ quotes, onDelete }: QuotationsTableProps) {
                   <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(quote.status)}`}>
                     {quote.status}
                   </span>
+                  {isQuoteExpiringSoon({ status: quote.status, validUntil: quote.validuntil }) && (
+                    <div className="text-xs text-orange-600 mt-1">
+                      Expires {formatDate(quote.validuntil!)}
+                    </div>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   {quote.isApproved ? (
@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { QuoteEmail } from '@/lib/types';
+
+interface QuoteEmailLogProps {
+  quoteId: string;
+  refreshKey: number;
+}
+
+export function QuoteEmailLog({ quoteId, refreshKey }: QuoteEmailLogProps) {
+  const [emails, setEmails] = useState<QuoteEmail[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchEmails = async () => {
+    try {
+      // Import supabase dynamically
+      const { supabase } = await import('@/lib/db');
+
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session?.access_token) {
+        throw new Error('Not authenticated. Please log in again.');
+      }
+
+      const response = await fetch(`/api/quotes/${quoteId}/emails`, {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+      });
+
+      if (!response.ok) throw new Error('Failed to fetch quote emails');
+
+      setEmails(await response.json());
+    } catch (error) {
+      console.error('Error fetching quote emails:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEmails();
+  }, [quoteId, refreshKey]);
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6" data-testid="quote-email-log">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Emails</h2>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading emails...</p>
+        ) : emails.length === 0 ? (
+          <p className="text-sm text-gray-500">This quote has not been emailed yet</p>
+        ) : (
+          emails.map((email) => (
+            <div key={email.id} className="flex items-start gap-3" data-testid="quote-email">
+              {email.status === 'SENT' ? (
+                <CheckCircle className="h-5 w-5 text-green-600 mt-0.5" />
+              ) : (
+                <XCircle className="h-5 w-5 text-red-600 mt-0.5" />
+              )}
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">{email.subject}</p>
+                <p className="text-xs text-gray-600">
+                  To {email.recipients.join(', ')}
+                  {email.cc.length > 0 && ` · CC ${email.cc.join(', ')}`}
+                </p>
+                <p className="text-xs text-gray-500">
+                  v{email.quoteVersion} · {email.sentByName || 'Unknown'} · {formatDate(email.sentAt)}
+                  {email.status === 'FAILED' && (
+                    <span className="text-red-600"> · Failed: {email.error}</span>
+                  )}
+                </p>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { GitCompare, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select } from '@/components/ui/select';
+import { formatCurrency } from '@/lib/calculations';
+import { formatVariantOptions } from '@/lib/variants';
+import { QuoteRevision, QuoteRevisionDiff, RevisionLineDiff, RevisionLineValues } from '@/lib/types';
+
+interface QuoteRevisionsProps {
+  quoteId: string;
+  currentVersion: number;
+  canRestore: boolean;
+  onRestored: () => void;
+}
+
+const CHANGE_STYLES: Record<RevisionLineDiff['change'], string> = {
+  ADDED: 'bg-green-50 text-green-800',
+  REMOVED: 'bg-red-50 text-red-800',
+  CHANGED: 'bg-yellow-50 text-yellow-800',
+};
+
+const FIELD_LABELS: Record<keyof RevisionLineValues, string> = {
+  description: 'Description',
+  quantity: 'Qty',
+  rate: 'Rate',
+  discount: 'Discount',
+  discountType: 'Discount type',
+  taxRate: 'Tax rate',
+  lineTotal: 'Line total',
+  variantOptions: 'Options',
+};
+
+export function QuoteRevisions({ quoteId, currentVersion, canRestore, onRestored }: QuoteRevisionsProps) {
+  const [revisions, setRevisions] = useState<QuoteRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromVersion, setFromVersion] = useState('');
+  const [toVersion, setToVersion] = useState('');
+  const [diff, setDiff] = useState<QuoteRevisionDiff | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const getToken = async () => {
+    // Import supabase dynamically
+    const { supabase } = await import('@/lib/db');
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      throw new Error('Not authenticated. Please log in again.');
+    }
+
+    return session.access_token;
+  };
+
+  // Saved versions, newest first; export entries have no snapshot to compare
+  const versions = revisions.filter((revision) => revision.hasSnapshot);
+
+  const fetchRevisions = async () => {
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/quotes/${quoteId}/revisions`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error('Failed to fetch revisions');
+
+      const data: QuoteRevision[] = await response.json();
+      const saved = data.filter((revision) => revision.hasSnapshot);
+      setRevisions(data);
+
+      // Compare the latest version with the one before it by default
+      setToVersion(saved[0] ? String(saved[0].version) : '');
+      setFromVersion(saved[1] ? String(saved[1].version) : '');
+      setDiff(null);
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [quoteId, currentVersion]);
+
+  const handleCompare = async () => {
+    if (!fromVersion || !toVersion) return;
+
+    setComparing(true);
+    try {
+      const token = await getToken();
+
+      const response = await fetch(
+        `/api/quotes/${quoteId}/revisions?from=${fromVersion}&to=${toVersion}`,
+        { headers: { 'Authorization': `Bearer ${token}` } }
+      );
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to compare versions');
+
+      setDiff(data);
+    } catch (error: any) {
+      console.error('Error comparing versions:', error);
+      alert(error.message || 'Failed to compare versions');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    if (!confirm(`Restore version ${version}? Its contents are saved as a new version; nothing is deleted.`)) return;
+
+    setRestoring(version);
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/quotes/${quoteId}/revisions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ version }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to restore version');
+
+      alert(`Version ${version} restored as version ${data.version}`);
+      onRestored();
+    } catch (error: any) {
+      console.error('Error restoring version:', error);
+      alert(error.message || 'Failed to restore version');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const formatDelta = (delta: number) =>
+    `${delta > 0 ? '+' : delta < 0 ? '−' : ''}${formatCurrency(Math.abs(delta))}`;
+
+  const formatLineValue = (field: keyof RevisionLineValues, values: RevisionLineValues) => {
+    const value = values[field];
+    if (field === 'rate' || field === 'lineTotal') return formatCurrency(Number(value));
+    if (field === 'taxRate') return `${value}%`;
+    if (field === 'variantOptions') return formatVariantOptions(values.variantOptions) || '—';
+    return value === null || value === '' ? '—' : String(value);
+  };
+
+  const describeLine = (line: RevisionLineDiff) => {
+    if (line.change === 'ADDED' && line.after) return `${line.after.quantity} × ${formatCurrency(line.after.rate)}`;
+    if (line.change === 'REMOVED' && line.before) return `${line.before.quantity} × ${formatCurrency(line.before.rate)}`;
+    return line.changedFields
+      .map((field) => `${FIELD_LABELS[field]}: ${formatLineValue(field, line.before!)} → ${formatLineValue(field, line.after!)}`)
+      .join(', ');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6" data-testid="quote-revisions">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Revisions</h2>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading revisions...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-500">No saved versions yet</p>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {versions.map((revision) => (
+                <div key={revision.id} className="flex items-center justify-between" data-testid="quote-revision">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      Version {revision.version}
+                      {revision.version === currentVersion && (
+                        <span className="ml-2 text-xs font-normal text-blue-600">(current)</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {revision.notes || 'Saved'} · {formatDate(revision.exportedAt)}
+                      {revision.grandTotal !== null && ` · ${formatCurrency(revision.grandTotal)}`}
+                    </p>
+                  </div>
+                  {canRestore && revision.version !== currentVersion && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRestore(revision.version)}
+                      disabled={restoring !== null}
+                      data-testid="restore-revision-button"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      {restoring === revision.version ? 'Restoring...' : 'Restore this version'}
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {versions.length > 1 && (
+              <div className="flex items-end gap-3 pt-4 border-t border-gray-100">
+                <div className="w-40">
+                  <label className="text-xs font-medium text-gray-600 block mb-1">From</label>
+                  <Select
+                    value={fromVersion}
+                    onChange={(e) => setFromVersion(e.target.value)}
+                    data-testid="revision-from-select"
+                  >
+                    {versions.map((revision) => (
+                      <option key={revision.id} value={revision.version}>
+                        Version {revision.version}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                <div className="w-40">
+                  <label className="text-xs font-medium text-gray-600 block mb-1">To</label>
+                  <Select
+                    value={toVersion}
+                    onChange={(e) => setToVersion(e.target.value)}
+                    data-testid="revision-to-select"
+                  >
+                    {versions.map((revision) => (
+                      <option key={revision.id} value={revision.version}>
+                        Version {revision.version}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={handleCompare}
+                  disabled={comparing || fromVersion === toVersion}
+                  data-testid="compare-revisions-button"
+                >
+                  <GitCompare className="h-4 w-4 mr-2" />
+                  {comparing ? 'Comparing...' : 'Compare'}
+                </Button>
+              </div>
+            )}
+
+            {diff && (
+              <div className="space-y-4" data-testid="revision-diff">
+                <h3 className="text-sm font-semibold text-gray-900">
+                  Changes from version {diff.fromVersion} to version {diff.toVersion}
+                </h3>
+
+                {diff.header.length > 0 && (
+                  <div className="space-y-1">
+                    {diff.header.map((change) => (
+                      <p key={change.field} className="text-sm text-gray-700">
+                        <span className="font-medium">{change.label}:</span>{' '}
+                        {String(change.from ?? '—')} → {String(change.to ?? '—')}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {diff.lines.length === 0 ? (
+                  <p className="text-sm text-gray-500">No line changes</p>
+                ) : (
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Line</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Change</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {diff.lines.map((line, index) => (
+                        <tr key={index} className={CHANGE_STYLES[line.change]} data-testid="revision-diff-line">
+                          <td className="px-4 py-2 text-sm">
+                            <span className="font-medium">{line.productName || 'Unknown product'}</span>
+                            {line.sectionName && <span className="text-xs ml-2">({line.sectionName})</span>}
+                            <span className="block text-xs uppercase">{line.change.toLowerCase()}</span>
+                          </td>
+                          <td className="px-4 py-2 text-sm">{describeLine(line)}</td>
+                          <td className="px-4 py-2 text-sm text-right">{formatDelta(line.lineTotalDelta)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                {(diff.policies.added.length > 0 || diff.policies.removed.length > 0 || diff.policies.changed.length > 0) && (
+                  <div className="text-sm text-gray-700 space-y-1">
+                    {diff.policies.added.length > 0 && <p>Terms added: {diff.policies.added.join(', ')}</p>}
+                    {diff.policies.removed.length > 0 && <p>Terms removed: {diff.policies.removed.join(', ')}</p>}
+                    {diff.policies.changed.length > 0 && <p>Terms changed: {diff.policies.changed.join(', ')}</p>}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4" data-testid="revision-diff-totals">
+                  {([
+                    ['subtotal', 'Subtotal'],
+                    ['discount', 'Discount'],
+                    ['tax', 'Tax'],
+                    ['grandTotal', 'Grand Total'],
+                  ] as const).map(([field, label]) => (
+                    <div key={field}>
+                      <p className="text-xs font-medium text-gray-500">{label}</p>
+                      <p className="text-sm text-gray-900">
+                        {formatCurrency(diff.totals[field].from)} → {formatCurrency(diff.totals[field].to)}
+                      </p>
+                      <p className={`text-xs ${diff.totals[field].delta > 0 ? 'text-green-700' : diff.totals[field].delta < 0 ? 'text-red-700' : 'text-gray-500'}`}>
+                        {formatDelta(diff.totals[field].delta)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { DEFAULT_EMAIL_TEMPLATE, EMAIL_MERGE_FIELDS } from '@/lib/quote-email';
+import { EmailTemplate } from '@/lib/types';
+
+interface SendQuoteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quoteId: string;
+  clientEmail: string | null;
+  onSendAttempt: (sent: boolean) => void; // called after every attempt; failures are logged too
+}
+
+export function SendQuoteDialog({
+  open,
+  onOpenChange,
+  quoteId,
+  clientEmail,
+  onSendAttempt,
+}: SendQuoteDialogProps) {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [to, setTo] = useState('');
+  const [cc, setCc] = useState('');
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const getToken = async () => {
+    // Import supabase dynamically
+    const { supabase } = await import('@/lib/db');
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      throw new Error('Not authenticated. Please log in again.');
+    }
+
+    return session.access_token;
+  };
+
+  const applyTemplate = (template: Pick<EmailTemplate, 'subject' | 'body'>) => {
+    setSubject(template.subject);
+    setBody(template.body);
+  };
+
+  useEffect(() => {
+    if (!open) return;
+
+    setTo(clientEmail || '');
+    setCc('');
+    setTemplateId('');
+    applyTemplate(DEFAULT_EMAIL_TEMPLATE);
+
+    const fetchTemplates = async () => {
+      try {
+        const token = await getToken();
+        const response = await fetch('/api/settings/email-templates', {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        if (!response.ok) return;
+
+        const data: EmailTemplate[] = await response.json();
+        setTemplates(data);
+
+        const preferred = data.find((template) => template.isDefault) || data[0];
+        if (preferred) {
+          setTemplateId(preferred.id);
+          applyTemplate(preferred);
+        }
+      } catch (error) {
+        console.error('Failed to fetch email templates:', error);
+      }
+    };
+
+    fetchTemplates();
+  }, [open]);
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    applyTemplate(templates.find((template) => template.id === id) || DEFAULT_EMAIL_TEMPLATE);
+  };
+
+  const handleSend = async () => {
+    setSending(true);
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/quotes/${quoteId}/emails`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ to, cc, subject, body }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to send email');
+
+      onOpenChange(false);
+      onSendAttempt(true);
+      alert(`Quote emailed to ${data.recipients?.join(', ') || to}`);
+    } catch (error: any) {
+      console.error('Error emailing quote:', error);
+      alert(error.message || 'Failed to send email');
+      onSendAttempt(false);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Send to Client</DialogTitle>
+          <DialogDescription>
+            Emails the quote PDF. Separate multiple addresses with commas.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div>
+            <label className="text-xs font-medium text-gray-600 block mb-1">To</label>
+            <Input
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              placeholder="client@example.com"
+              data-testid="email-to-input"
+            />
+          </div>
+          <div>
+            <label className="text-xs font-medium text-gray-600 block mb-1">CC</label>
+            <Input
+              value={cc}
+              onChange={(e) => setCc(e.target.value)}
+              data-testid="email-cc-input"
+            />
+          </div>
+          {templates.length > 0 && (
+            <div>
+              <label className="text-xs font-medium text-gray-600 block mb-1">Template</label>
+              <Select
+                value={templateId}
+                onChange={(e) => handleTemplateChange(e.target.value)}
+                data-testid="email-template-select"
+              >
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </Select>
+            </div>
+          )}
+          <div>
+            <label className="text-xs font-medium text-gray-600 block mb-1">Subject</label>
+            <Input
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              data-testid="email-subject-input"
+            />
+          </div>
+          <div>
+            <label className="text-xs font-medium text-gray-600 block mb-1">Message</label>
+            <Textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={8}
+              data-testid="email-body-input"
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            Merge fields are filled in when sending:{' '}
+            {EMAIL_MERGE_FIELDS.map((field) => `{{${field.key}}}`).join(', ')}
+          </p>
+        </div>
+        <div className="flex justify-end gap-3 mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={sending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSend}
+            disabled={sending || !to.trim()}
+            data-testid="confirm-send-email-button"
+          >
+            {sending ? 'Sending...' : 'Send'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
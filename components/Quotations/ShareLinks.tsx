@@ -0,0 +1,215 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Copy, Link2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getShareLinkState } from '@/lib/share-links';
+import { QuoteShareLink, ShareLinkState } from '@/lib/types';
+
+interface ShareLinksProps {
+  quoteId: string;
+  quoteStatus: string;
+  currentVersion: number;
+  canShare: boolean;
+}
+
+const STATE_LABELS: Record<ShareLinkState, string> = {
+  ACTIVE: 'Active',
+  EXPIRED: 'Expired',
+  REVOKED: 'Revoked',
+  RESPONDED: 'Answered',
+  SUPERSEDED: 'Older version',
+};
+
+const STATE_STYLES: Record<ShareLinkState, string> = {
+  ACTIVE: 'bg-green-100 text-green-800',
+  EXPIRED: 'bg-orange-100 text-orange-800',
+  REVOKED: 'bg-gray-100 text-gray-700',
+  RESPONDED: 'bg-blue-100 text-blue-800',
+  SUPERSEDED: 'bg-gray-100 text-gray-700',
+};
+
+export function ShareLinks({ quoteId, quoteStatus, currentVersion, canShare }: ShareLinksProps) {
+  const [links, setLinks] = useState<QuoteShareLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  const getToken = async () => {
+    // Import supabase dynamically
+    const { supabase } = await import('@/lib/db');
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      throw new Error('Not authenticated. Please log in again.');
+    }
+
+    return session.access_token;
+  };
+
+  const fetchLinks = async () => {
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/quotes/${quoteId}/share-links`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error('Failed to fetch share links');
+
+      setLinks(await response.json());
+    } catch (error) {
+      console.error('Error fetching share links:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLinks();
+  }, [quoteId, quoteStatus, currentVersion]);
+
+  const getShareUrl = (link: QuoteShareLink) => `${window.location.origin}/share/${link.token}`;
+
+  const copyLink = async (link: QuoteShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(link));
+      alert('Link copied to clipboard');
+    } catch {
+      prompt('Copy this link:', getShareUrl(link));
+    }
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/quotes/${quoteId}/share-links`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({}),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to create share link');
+
+      await fetchLinks();
+      await copyLink(data);
+    } catch (error: any) {
+      console.error('Error creating share link:', error);
+      alert(error.message || 'Failed to create share link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: QuoteShareLink) => {
+    if (!confirm('Revoke this link? The client will no longer be able to open it.')) return;
+
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/quotes/${quoteId}/share-links?linkId=${link.id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to revoke share link');
+
+      await fetchLinks();
+    } catch (error: any) {
+      console.error('Error revoking share link:', error);
+      alert(error.message || 'Failed to revoke share link');
+    }
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const describeResponse = (link: QuoteShareLink) => {
+    if (link.response === 'ACCEPTED') return `Accepted by ${link.signerName} on ${formatDate(link.respondedAt!)}`;
+    if (link.response === 'REJECTED') return `Rejected on ${formatDate(link.respondedAt!)}: ${link.rejectionReason}`;
+    return link.viewCount > 0
+      ? `Viewed ${link.viewCount} time${link.viewCount === 1 ? '' : 's'}, last on ${formatDate(link.lastViewedAt!)}`
+      : 'Not opened yet';
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6" data-testid="share-links">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Client Links</h2>
+        {canShare && quoteStatus === 'SENT' && (
+          <Button
+            size="sm"
+            onClick={handleCreate}
+            disabled={creating}
+            data-testid="create-share-link-button"
+          >
+            <Link2 className="h-4 w-4 mr-2" />
+            {creating ? 'Creating...' : 'Create Share Link'}
+          </Button>
+        )}
+      </div>
+
+      <div className="p-6 space-y-3">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading links...</p>
+        ) : links.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {quoteStatus === 'SENT'
+              ? 'No links yet. Create one to let the client accept or reject this quote online.'
+              : 'Mark the quote as sent to share it with the client.'}
+          </p>
+        ) : (
+          links.map((link) => {
+            const state = getShareLinkState(link, currentVersion);
+            return (
+              <div key={link.id} className="flex items-center justify-between" data-testid="share-link">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    Version {link.quoteVersion}
+                    <span className={`ml-2 px-2 py-0.5 text-xs font-medium rounded-full ${STATE_STYLES[state]}`}>
+                      {STATE_LABELS[state]}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Created {formatDate(link.createdAt)} · expires {formatDate(link.expiresAt)} · {describeResponse(link)}
+                  </p>
+                </div>
+                {state === 'ACTIVE' && (
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => copyLink(link)}>
+                      <Copy className="h-4 w-4 mr-1" />
+                      Copy
+                    </Button>
+                    {canShare && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRevoke(link)}
+                        data-testid="revoke-share-link-button"
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogClose } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Client } from '@/lib/types';
+import { Select } from '@/components/ui/select';
+import { Client, PriceList } from '@/lib/types';
+import { INDIAN_STATES } from '@/lib/gst';
 
 interface ClientDialogProps {
   open: boolean;
@@ -19,9 +21,38 @@ export function ClientDialog({ open, onOpenChange, onClientCreated }: ClientDial
     email: '',
     phone: '',
     address: '',
+    state: '',
+    gstin: '',
+    priceListId: '',
   });
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  useEffect(() => {
+    if (open) fetchPriceLists();
+  }, [open]);
+
+  const fetchPriceLists = async () => {
+    try {
+      const { supabase } = await import('@/lib/db');
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session?.access_token) return;
+
+      const response = await fetch('/api/price-lists', {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+      if (response.ok) {
+        const lists: PriceList[] = await response.json();
+        setPriceLists(lists.filter((list) => list.isActive));
+      }
+    } catch (error) {
+      console.error('Failed to fetch price lists:', error);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
@@ -49,7 +80,7 @@ export function ClientDialog({ open, onOpenChange, onClientCreated }: ClientDial
       if (response.ok) {
         const client = await response.json();
         onClientCreated(client);
-        setFormData({ name: '', email: '', phone: '', address: '' });
+        setFormData({ name: '', email: '', phone: '', address: '', state: '', gstin: '', priceListId: '' });
       }
     } catch (error) {
       console.error('Failed to create client:', error);
@@ -106,6 +137,47 @@ export function ClientDialog({ open, onOpenChange, onClientCreated }: ClientDial
             />
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium mb-1 block">State</label>
+              <Select
+                value={formData.state}
+                onChange={(e) => setFormData({ ...formData, state: e.target.value })}
+              >
+                <option value="">Select state</option>
+                {INDIAN_STATES.map((state) => (
+                  <option key={state.code} value={state.name}>
+                    {state.name}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-1 block">GSTIN</label>
+              <Input
+                value={formData.gstin}
+                onChange={(e) => setFormData({ ...formData, gstin: e.target.value.toUpperCase() })}
+                placeholder="27ABCDE1234F1Z5"
+                maxLength={15}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-1 block">Price List</label>
+            <Select
+              value={formData.priceListId}
+              onChange={(e) => setFormData({ ...formData, priceListId: e.target.value })}
+            >
+              <option value="">Standard rates</option>
+              {priceLists.map((list) => (
+                <option key={list.id} value={list.id}>
+                  {list.name}
+                </option>
+              ))}
+            </Select>
+          </div>
+
           <div className="flex justify-end gap-2 pt-4">
             <Button
               type="button"
@@ -7,9 +7,21 @@ import { DiscountMode } from '@/lib/types';
 import { cn } from '@/lib/utils';
 
 const modes = [
-  { value: 'LINE_ITEM' as DiscountMode, label: 'Line Item Discount' },
-  { value: 'OVERALL' as DiscountMode, label: 'Overall Discount' },
-  { value: 'BOTH' as DiscountMode, label: 'Both' },
+  {
+    value: 'LINE_ITEM' as DiscountMode,
+    label: 'Line Item Discount',
+    description: 'Discounts on individual lines and rooms.',
+  },
+  {
+    value: 'OVERALL' as DiscountMode,
+    label: 'Overall Discount',
+    description: 'One discount on the whole quote.',
+  },
+  {
+    value: 'BOTH' as DiscountMode,
+    label: 'Both',
+    description: 'Line and room discounts, then a discount on the whole quote.',
+  },
 ];
 
 export function DiscountModeTabs() {
@@ -38,6 +50,10 @@ export function DiscountModeTabs() {
             </button>
           ))}
         </div>
+        <p className="mt-2 text-xs text-gray-500" data-testid="discount-mode-description">
+          {modes.find((mode) => mode.value === discountMode)?.description} Each discount can be
+          a percentage or a fixed ₹ amount.
+        </p>
       </CardContent>
     </Card>
   );
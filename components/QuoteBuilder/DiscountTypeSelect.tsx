@@ -0,0 +1,36 @@
+'use client';
+
+import React from 'react';
+import { Select } from '@/components/ui/select';
+import { DiscountType } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface DiscountTypeSelectProps {
+  value: DiscountType;
+  onChange: (discountType: DiscountType) => void;
+  className?: string;
+  'data-testid'?: string;
+}
+
+/**
+ * Switch a discount between a percentage and a fixed rupee amount
+ */
+export function DiscountTypeSelect({
+  value,
+  onChange,
+  className,
+  'data-testid': testId,
+}: DiscountTypeSelectProps) {
+  return (
+    <Select
+      value={value}
+      onChange={(e) => onChange(e.target.value as DiscountType)}
+      className={cn('h-7 w-12 px-1 text-xs', className)}
+      aria-label="Discount type"
+      data-testid={testId}
+    >
+      <option value="PERCENT">%</option>
+      <option value="AMOUNT">₹</option>
+    </Select>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import { MilestoneInput, PAYMENT_TRIGGERS } from '@/lib/payment-schedule';
+import { MilestoneValueType, PaymentTrigger } from '@/lib/types';
+
+interface MilestoneRowProps {
+  milestone: MilestoneInput;
+  onChange: (updates: Partial<MilestoneInput>) => void;
+  onRemove: () => void;
+  amount?: string; // Formatted amount due, shown when editing a quote
+}
+
+/**
+ * One editable payment milestone: name, percentage or amount, and trigger
+ */
+export function MilestoneRow({ milestone, onChange, onRemove, amount }: MilestoneRowProps) {
+  return (
+    <div className="flex items-center gap-2" data-testid="payment-milestone-row">
+      <Input
+        value={milestone.name}
+        onChange={(e) => onChange({ name: e.target.value })}
+        placeholder="Advance"
+        className="h-8 flex-1 text-sm"
+        data-testid="milestone-name-input"
+      />
+      <Input
+        type="number"
+        min="0"
+        step="0.01"
+        value={milestone.value || ''}
+        onChange={(e) => onChange({ value: parseFloat(e.target.value) || 0 })}
+        className="h-8 w-24 text-sm"
+        data-testid="milestone-value-input"
+      />
+      <Select
+        value={milestone.valueType}
+        onChange={(e) => onChange({ valueType: e.target.value as MilestoneValueType })}
+        className="h-8 w-14 px-1 text-xs"
+        aria-label="Milestone value type"
+      >
+        <option value="PERCENT">%</option>
+        <option value="AMOUNT">₹</option>
+      </Select>
+      <Select
+        value={milestone.trigger}
+        onChange={(e) => onChange({ trigger: e.target.value as PaymentTrigger })}
+        className="h-8 w-44 text-sm"
+        data-testid="milestone-trigger-select"
+      >
+        {PAYMENT_TRIGGERS.map((trigger) => (
+          <option key={trigger.value} value={trigger.value}>
+            {trigger.label}
+          </option>
+        ))}
+      </Select>
+      {amount !== undefined && (
+        <span className="w-28 text-right text-sm font-medium">{amount}</span>
+      )}
+      <Button size="sm" variant="ghost" onClick={onRemove} title="Remove milestone">
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
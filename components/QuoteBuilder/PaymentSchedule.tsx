@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select } from '@/components/ui/select';
+import { Plus } from 'lucide-react';
+import { useQuoteStore } from '@/lib/store';
+import { formatCurrency } from '@/lib/calculations';
+import {
+  DEFAULT_PAYMENT_MILESTONES,
+  calculateMilestoneAmounts,
+  getPaymentScheduleError,
+} from '@/lib/payment-schedule';
+import { PaymentSchedule as PaymentScheduleTemplate } from '@/lib/types';
+import { MilestoneRow } from './MilestoneRow';
+
+interface PaymentScheduleProps {
+  grandTotal: number;
+}
+
+export function PaymentSchedule({ grandTotal }: PaymentScheduleProps) {
+  const [schedules, setSchedules] = useState<PaymentScheduleTemplate[]>([]);
+
+  const milestones = useQuoteStore((state) => state.paymentMilestones);
+  const setPaymentMilestones = useQuoteStore((state) => state.setPaymentMilestones);
+  const addPaymentMilestone = useQuoteStore((state) => state.addPaymentMilestone);
+  const updatePaymentMilestone = useQuoteStore((state) => state.updatePaymentMilestone);
+  const removePaymentMilestone = useQuoteStore((state) => state.removePaymentMilestone);
+
+  useEffect(() => {
+    const fetchSchedules = async () => {
+      let loaded: PaymentScheduleTemplate[] = [];
+
+      try {
+        // Import supabase dynamically
+        const { supabase } = await import('@/lib/db');
+
+        // Get session token
+        const { data: { session } } = await supabase.auth.getSession();
+
+        if (session?.access_token) {
+          const response = await fetch('/api/settings/payment-schedules', {
+            headers: {
+              'Authorization': `Bearer ${session.access_token}`,
+            },
+          });
+          if (response.ok) {
+            loaded = await response.json();
+            setSchedules(loaded);
+          }
+        }
+      } catch (error) {
+        console.error('Failed to fetch payment schedules:', error);
+      }
+
+      // New quotes start with the default schedule; loaded quotes keep their own
+      const state = useQuoteStore.getState();
+      if (!state.quoteId && state.paymentMilestones.length === 0) {
+        const defaultSchedule = loaded.find((schedule) => schedule.isDefault);
+        setPaymentMilestones(defaultSchedule?.milestones || DEFAULT_PAYMENT_MILESTONES);
+      }
+    };
+    fetchSchedules();
+  }, [setPaymentMilestones]);
+
+  const handleApplySchedule = (scheduleId: string) => {
+    const schedule = schedules.find((s) => s.id === scheduleId);
+    if (!schedule) return;
+
+    if (milestones.length > 0 && !confirm(`Replace the current milestones with "${schedule.name}"?`)) {
+      return;
+    }
+    setPaymentMilestones(schedule.milestones);
+  };
+
+  const amounts = calculateMilestoneAmounts(milestones, grandTotal);
+  const scheduledTotal = amounts.reduce((sum, amount) => sum + amount, 0);
+  const unscheduled = Math.round((grandTotal - scheduledTotal) * 100) / 100;
+  const scheduleError = milestones.length > 0 ? getPaymentScheduleError(milestones, grandTotal) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm font-medium">Payment Schedule</CardTitle>
+          {schedules.length > 0 && (
+            <Select
+              value=""
+              onChange={(e) => handleApplySchedule(e.target.value)}
+              className="h-8 w-48 text-sm"
+              data-testid="apply-payment-schedule-select"
+            >
+              <option value="">Apply a schedule...</option>
+              {schedules.map((schedule) => (
+                <option key={schedule.id} value={schedule.id}>
+                  {schedule.name}
+                </option>
+              ))}
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {milestones.length === 0 && (
+          <p className="text-sm text-gray-500">No payment milestones. Payment terms are shown as text only.</p>
+        )}
+
+        {milestones.map((milestone, index) => (
+          <MilestoneRow
+            key={milestone.id}
+            milestone={milestone}
+            onChange={(updates) => updatePaymentMilestone(milestone.id, updates)}
+            onRemove={() => removePaymentMilestone(milestone.id)}
+            amount={formatCurrency(amounts[index])}
+          />
+        ))}
+
+        <div className="flex items-center justify-between pt-2">
+          <Button size="sm" variant="outline" onClick={addPaymentMilestone} data-testid="add-milestone-button">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Milestone
+          </Button>
+          {milestones.length > 0 && (
+            <div className="text-right text-sm">
+              <span className="text-gray-600">Scheduled: </span>
+              <span className="font-medium">{formatCurrency(scheduledTotal)}</span>
+              {unscheduled > 0 && !scheduleError && (
+                <div className="text-xs text-orange-600">
+                  {formatCurrency(unscheduled)} of the grand total is not scheduled
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {scheduleError && (
+          <p className="text-xs text-red-600" data-testid="payment-schedule-error">{scheduleError}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,60 +1,137 @@
 'use client';
 
-import React from 'react';
-import { Trash2 } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Trash2, Plus, ChevronUp, ChevronDown, Calculator } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { useQuoteStore } from '@/lib/store';
-import { calculateLineTotal } from '@/lib/calculations';
+import { Select } from '@/components/ui/select';
+import { QuoteItemStore, useQuoteStore } from '@/lib/store';
+import {
+  calculateLineTotal,
+  calculateQuoteTotals,
+  groupItemsBySection,
+  isIncludedInTotal,
+} from '@/lib/calculations';
 import { formatCurrency } from '@/lib/calculations';
+import { DimensionsCalculator } from '@/components/ui/dimensions-calculator';
+import { getMeasureBasis, getMeasurementLines } from '@/lib/dimensions';
+import { ItemDimensions, VariantAttribute } from '@/lib/types';
+import { formatPriceModifier, selectVariantOption } from '@/lib/variants';
+import { calculateMargins, formatMarginPercent } from '@/lib/margins';
+import { useAuth } from '@/lib/auth-context';
+import { hasPermission } from '@/lib/permissions';
+import { DiscountTypeSelect } from './DiscountTypeSelect';
 
 export function QuotationItems() {
   const items = useQuoteStore((state) => state.items);
   const discountMode = useQuoteStore((state) => state.discountMode);
+  const taxRate = useQuoteStore((state) => state.taxRate);
   const updateItem = useQuoteStore((state) => state.updateItem);
   const removeItem = useQuoteStore((state) => state.removeItem);
+  const acceptOption = useQuoteStore((state) => state.acceptOption);
+  const sections = useQuoteStore((state) => state.sections);
+  const activeSectionId = useQuoteStore((state) => state.activeSectionId);
+  const addSection = useQuoteStore((state) => state.addSection);
+  const renameSection = useQuoteStore((state) => state.renameSection);
+  const setSectionDiscount = useQuoteStore((state) => state.setSectionDiscount);
+  const removeSection = useQuoteStore((state) => state.removeSection);
+  const moveSection = useQuoteStore((state) => state.moveSection);
+  const setActiveSection = useQuoteStore((state) => state.setActiveSection);
+  const overallDiscount = useQuoteStore((state) => state.overallDiscount);
+  const overallDiscountType = useQuoteStore((state) => state.overallDiscountType);
+  const { permissions } = useAuth();
+  const showMargins = hasPermission(permissions, 'margins', 'canRead');
 
-  // Helper function to check if unit is area-based
-  const isAreaUnit = (unit: string | undefined) => {
-    if (!unit) return false;
-    const areaUnits = ['sqft', 'sq.ft', 'sq ft', 'sq.m', 'sqm', 'sq.yard', 'sqyard'];
-    return areaUnits.some(au => unit.toLowerCase().includes(au.toLowerCase()));
+  // Margin of each line by item id, after every discount
+  const lineMargins = useMemo(() => {
+    const { lines } = calculateMargins({ items, sections, discountMode, overallDiscount, overallDiscountType, taxRate });
+    return Object.fromEntries(items.map((item, index) => [item.id, lines[index]]));
+  }, [items, sections, discountMode, overallDiscount, overallDiscountType, taxRate]);
+
+  // Kit lines whose component breakdown is shown
+  const [expandedKitIds, setExpandedKitIds] = useState<string[]>([]);
+
+  const toggleKit = (id: string) => {
+    setExpandedKitIds((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]));
+  };
+
+  // Choose one option of a variant attribute (e.g. Finish) for a line
+  const handleVariantChange = (item: QuoteItemStore, attribute: VariantAttribute, label: string) => {
+    const option = attribute.options.find((o) => o.label === label);
+    if (!option) return;
+
+    const selected = selectVariantOption(attribute, option);
+    const current = item.variantOptions || [];
+    const variantOptions = current.some((o) => o.attribute === attribute.name)
+      ? current.map((o) => (o.attribute === attribute.name ? selected : o))
+      : [...current, selected];
+    updateItem(item.id, { variantOptions });
   };
 
-  const handleDimensionChange = (itemId: string, field: 'length' | 'width', value: string) => {
-    const item = items.find(i => i.id === itemId);
-    if (!item) return;
-
-    const dimensions = item.dimensions || {};
-    const newDimensions = {
-      ...dimensions,
-      [field]: value === '' ? 0 : parseFloat(value),
-    };
-
-    // Auto-calculate quantity if both length and width are present
-    const length = newDimensions.length || 0;
-    const width = newDimensions.width || 0;
-    const calculatedQuantity = length * width;
-
-    updateItem(itemId, {
-      dimensions: newDimensions,
-      quantity: calculatedQuantity > 0 ? calculatedQuantity : item.quantity,
-    });
+  // Line whose measurements are open in the dimensions calculator
+  const [measuringItemId, setMeasuringItemId] = useState<string | null>(null);
+  const measuringItem = items.find((item) => item.id === measuringItemId);
+
+  const handleApplyDimensions = (dimensions: ItemDimensions | null) => {
+    if (!measuringItemId) return;
+    // Quantity is recalculated by the store; clearing keeps the last quantity for manual editing
+    updateItem(measuringItemId, { dimensions });
   };
 
-  // Group items by category
-  const groupedItems = items.reduce((acc, item) => {
-    const categoryName = item.product?.category?.name || 'Uncategorized';
-    if (!acc[categoryName]) {
-      acc[categoryName] = [];
+  // Group items by room/section when the quote has sections, otherwise by category
+  const groupedItems: { key: string; name: string; sectionId: string | null; items: typeof items }[] =
+    sections.length > 0
+      ? groupItemsBySection(items, sections).map((group) => ({
+          key: group.sectionId || 'unassigned',
+          ...group,
+        }))
+      : Object.entries(
+          items.reduce((acc, item) => {
+            const categoryName = item.product?.category?.name || 'Uncategorized';
+            if (!acc[categoryName]) {
+              acc[categoryName] = [];
+            }
+            acc[categoryName].push(item);
+            return acc;
+          }, {} as Record<string, typeof items>)
+        ).map(([categoryName, categoryItems]) => ({
+          key: categoryName,
+          name: categoryName,
+          sectionId: null,
+          items: categoryItems,
+        }));
+
+  // Item kind select values: STANDARD, OPTIONAL or ALT:<id of the item it replaces>
+  const getKindValue = (item: (typeof items)[number]) =>
+    item.kind === 'ALTERNATIVE' && item.alternativeOfId
+      ? `ALT:${item.alternativeOfId}`
+      : item.kind || 'STANDARD';
+
+  const handleKindChange = (itemId: string, value: string) => {
+    if (value.startsWith('ALT:')) {
+      updateItem(itemId, { kind: 'ALTERNATIVE', alternativeOfId: value.slice(4) });
+    } else {
+      updateItem(itemId, { kind: value as 'STANDARD' | 'OPTIONAL', alternativeOfId: null });
     }
-    acc[categoryName].push(item);
-    return acc;
-  }, {} as Record<string, typeof items>);
+  };
+
+  const handleAddSection = () => {
+    addSection(`Room ${sections.length + 1}`);
+  };
 
   const showLineDiscount = discountMode === 'LINE_ITEM' || discountMode === 'BOTH';
 
+  // Room discounts are shared across a room's lines, so take them from the pricing engine
+  const { sectionSubtotals } = calculateQuoteTotals(
+    items,
+    discountMode,
+    0,
+    taxRate,
+    undefined,
+    sections
+  );
+
   return (
     <Card>
       <CardHeader>
@@ -63,44 +140,147 @@ export function QuotationItems() {
             2
           </span>
           Quotation Items
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleAddSection}
+            className="ml-auto"
+            data-testid="add-section-button"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Room
+          </Button>
         </CardTitle>
       </CardHeader>
       <CardContent>
-        {items.length === 0 ? (
+        {items.length === 0 && sections.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
             No items added yet. Select products from the catalog to add them to the quote.
           </div>
         ) : (
           <div className="space-y-6">
-            {Object.entries(groupedItems).map(([categoryName, categoryItems]) => {
-              const categorySubtotal = categoryItems.reduce(
+            {groupedItems.map(({ key, name: groupName, sectionId, items: groupItems }) => {
+              const section = sections.find((s) => s.id === sectionId);
+              const sectionIndex = section ? sections.indexOf(section) : -1;
+              const groupSubtotal = groupItems.filter(isIncludedInTotal).reduce(
                 (sum, item) =>
                   sum +
                   calculateLineTotal(
                     item.quantity,
                     item.rate,
-                    showLineDiscount ? item.discount : 0
+                    showLineDiscount ? item.discount : 0,
+                    item.discountType
                   ),
                 0
               );
+              const sectionDiscount = section
+                ? sectionSubtotals.find((s) => s.sectionId === section.id)?.discount || 0
+                : 0;
 
               return (
-              <div key={categoryName}>
-                {/* Category Header */}
+              <div key={key}>
+                {/* Section / Category Header */}
                 <div className="bg-blue-50 px-4 py-3 rounded-t-md border border-b-0 border-blue-200">
-                  <div className="flex items-center justify-between">
-                    <h3 className="font-semibold text-blue-900 text-lg">{categoryName}</h3>
-                  </div>
+                  {section ? (
+                    <div className="flex items-center gap-2" data-testid="section-header">
+                      <Input
+                        value={section.name}
+                        onChange={(e) => renameSection(section.id, e.target.value)}
+                        className="h-8 max-w-xs font-semibold text-blue-900 bg-white"
+                        data-testid="section-name-input"
+                        aria-label="Room name"
+                      />
+                      <Button
+                        variant={activeSectionId === section.id ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setActiveSection(section.id)}
+                        title="New products from the catalog are added to this room"
+                      >
+                        {activeSectionId === section.id ? 'Adding here' : 'Add items here'}
+                      </Button>
+                      {showLineDiscount && (
+                        <div className="flex items-center gap-1">
+                          <span className="text-xs font-medium text-gray-600">Room discount</span>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={section.discount || ''}
+                            onChange={(e) => {
+                              const value = e.target.value;
+                              setSectionDiscount(
+                                section.id,
+                                value === '' ? 0 : parseFloat(value),
+                                section.discountType || 'PERCENT'
+                              );
+                            }}
+                            className="h-8 w-24 text-sm bg-white"
+                            aria-label="Room discount"
+                            data-testid="section-discount-input"
+                          />
+                          <DiscountTypeSelect
+                            value={section.discountType || 'PERCENT'}
+                            onChange={(discountType) =>
+                              setSectionDiscount(section.id, section.discount || 0, discountType)
+                            }
+                            className="h-8 bg-white"
+                            data-testid="section-discount-type-select"
+                          />
+                        </div>
+                      )}
+                      <div className="ml-auto flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => moveSection(section.id, 'up')}
+                          disabled={sectionIndex === 0}
+                          aria-label="Move room up"
+                        >
+                          <ChevronUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => moveSection(section.id, 'down')}
+                          disabled={sectionIndex === sections.length - 1}
+                          aria-label="Move room down"
+                        >
+                          <ChevronDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeSection(section.id)}
+                          className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                          aria-label="Remove room"
+                          data-testid="remove-section-button"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-between">
+                      <h3 className="font-semibold text-blue-900 text-lg">{groupName}</h3>
+                    </div>
+                  )}
                 </div>
 
+                {groupItems.length === 0 && (
+                  <div className="border border-t-0 border-blue-200 p-4 text-sm text-gray-500">
+                    No items in this room yet.
+                  </div>
+                )}
+
                 {/* Items */}
-                {categoryItems.map((item, index) => {
+                {groupItems.map((item, index) => {
                   const lineTotal = calculateLineTotal(
                     item.quantity,
                     item.rate,
-                    showLineDiscount ? item.discount : 0
+                    showLineDiscount ? item.discount : 0,
+                    item.discountType
                   );
-                  const isLastItem = index === categoryItems.length - 1;
+                  const isLastItem = index === groupItems.length - 1;
 
                   return (
                     <div
@@ -131,18 +311,130 @@ export function QuotationItems() {
                               <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
                                 {item.product?.category?.name || 'Uncategorized'}
                               </span>
+                              {item.hsnCode && (
+                                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                                  HSN/SAC {item.hsnCode}
+                                </span>
+                              )}
                               <p className="text-sm text-gray-500">
                                 pcs
                               </p>
+                              {item.kind === 'OPTIONAL' && (
+                                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
+                                  Optional · not in total
+                                </span>
+                              )}
+                              {item.kind === 'ALTERNATIVE' && (
+                                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800">
+                                  Alternative · not in total
+                                </span>
+                              )}
+                              {item.kind && item.kind !== 'STANDARD' && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => acceptOption(item.id)}
+                                  className="h-6 px-2 text-xs"
+                                  data-testid="accept-option-button"
+                                >
+                                  Accept
+                                </Button>
+                              )}
+                              <Select
+                                value={getKindValue(item)}
+                                onChange={(e) => handleKindChange(item.id, e.target.value)}
+                                className="h-7 w-auto text-xs ml-auto"
+                                aria-label="Item type"
+                                data-testid="item-kind-select"
+                              >
+                                <option value="STANDARD">Standard</option>
+                                <option value="OPTIONAL">Optional</option>
+                                {items
+                                  .filter((other) => other.id !== item.id && (other.kind || 'STANDARD') === 'STANDARD')
+                                  .map((other) => (
+                                    <option key={other.id} value={`ALT:${other.id}`}>
+                                      Alternative to {other.product?.name || 'item'}
+                                    </option>
+                                  ))}
+                              </Select>
+                              {sections.length > 0 && (
+                                <Select
+                                  value={item.sectionId || ''}
+                                  onChange={(e) =>
+                                    updateItem(item.id, { sectionId: e.target.value || null })
+                                  }
+                                  className="h-7 w-auto text-xs"
+                                  aria-label="Room"
+                                  data-testid="item-section-select"
+                                >
+                                  <option value="">No room</option>
+                                  {sections.map((s) => (
+                                    <option key={s.id} value={s.id}>
+                                      {s.name}
+                                    </option>
+                                  ))}
+                                </Select>
+                              )}
+                              {item.product?.variantAttributes?.map((attribute) => (
+                                <Select
+                                  key={attribute.name}
+                                  value={item.variantOptions?.find((o) => o.attribute === attribute.name)?.option || ''}
+                                  onChange={(e) => handleVariantChange(item, attribute, e.target.value)}
+                                  className="h-7 w-auto text-xs"
+                                  aria-label={attribute.name}
+                                  data-testid="item-variant-select"
+                                >
+                                  {attribute.options.map((option) => (
+                                    <option key={option.label} value={option.label}>
+                                      {attribute.name}: {option.label} {formatPriceModifier(option)}
+                                    </option>
+                                  ))}
+                                </Select>
+                              ))}
                             </div>
-                            {item.dimensions && Object.keys(item.dimensions).length > 0 && (
-                              <div className="mt-2 text-xs text-gray-600 bg-blue-50 px-2 py-1 rounded inline-block">
-                                {item.dimensions.length && item.dimensions.width ? (
-                                  <>📐 L: {item.dimensions.length} ft × W: {item.dimensions.width} ft = {(item.dimensions.length * item.dimensions.width).toFixed(2)} sq.ft</>
-                                ) : (
-                                  <>Dimensions: {Object.entries(item.dimensions)
-                                    .map(([key, value]) => `${key}: ${value}`)
-                                    .join(', ')}</>
+                            {item.dimensions && (
+                              <div className="mt-2 text-xs text-gray-600 bg-blue-50 px-2 py-1 rounded inline-block" data-testid="item-measurements">
+                                📐 {getMeasurementLines(item.dimensions, item.product?.unit)
+                                  .map((line) => `${line.label} = ${line.value}`)
+                                  .join(' · ')}
+                              </div>
+                            )}
+                            {item.kitComponents && item.kitComponents.length > 0 && (
+                              <div className="mt-2">
+                                <button
+                                  type="button"
+                                  onClick={() => toggleKit(item.id)}
+                                  className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"
+                                  data-testid="item-kit-toggle"
+                                >
+                                  {expandedKitIds.includes(item.id) ? (
+                                    <ChevronUp className="h-3 w-3" />
+                                  ) : (
+                                    <ChevronDown className="h-3 w-3" />
+                                  )}
+                                  Kit of {item.kitComponents.length} components
+                                </button>
+                                {expandedKitIds.includes(item.id) && (
+                                  <table className="mt-1 w-full text-xs text-gray-600" data-testid="item-kit-components">
+                                    <tbody>
+                                      {item.kitComponents.map((component) => (
+                                        <tr key={component.productId}>
+                                          <td className="py-0.5 pr-2">
+                                            {component.itemCode && (
+                                              <span className="text-gray-400 mr-1">{component.itemCode}</span>
+                                            )}
+                                            {component.name}
+                                          </td>
+                                          <td className="py-0.5 pr-2 text-right whitespace-nowrap">
+                                            {component.quantity} × {item.quantity} = {Math.round(component.quantity * item.quantity * 1000) / 1000} {component.unit || ''}
+                                          </td>
+                                          <td className="py-0.5 text-right whitespace-nowrap">
+                                            @ {formatCurrency(component.rate)}
+                                          </td>
+                                        </tr>
+                                      ))}
+                                    </tbody>
+                                  </table>
                                 )}
                               </div>
                             )}
@@ -166,70 +458,12 @@ export function QuotationItems() {
                               />
                             </div>
 
-                            {/* Conditional Fields for Area Units */}
-                            {isAreaUnit(item.product?.unit ?? undefined) ? (
-                              <>
-                                {/* Length Field */}
-                                <div className="col-span-1">
-                                  <label className="text-xs font-medium text-gray-600 block mb-1">
-                                    L (ft)
-                                  </label>
-                                  <Input
-                                    type="number"
-                                    min="0"
-                                    step="0.01"
-                                    value={item.dimensions?.length || ''}
-                                    onChange={(e) =>
-                                      handleDimensionChange(item.id, 'length', e.target.value)
-                                    }
-                                    placeholder="0"
-                                    className="text-sm h-9 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                                    data-testid="item-length-input"
-                                  />
-                                </div>
-
-                                {/* Width Field */}
-                                <div className="col-span-1">
-                                  <label className="text-xs font-medium text-gray-600 block mb-1">
-                                    W (ft)
-                                  </label>
-                                  <Input
-                                    type="number"
-                                    min="0"
-                                    step="0.01"
-                                    value={item.dimensions?.width || ''}
-                                    onChange={(e) =>
-                                      handleDimensionChange(item.id, 'width', e.target.value)
-                                    }
-                                    placeholder="0"
-                                    className="text-sm h-9 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                                    data-testid="item-width-input"
-                                  />
-                                </div>
-
-                                {/* Quantity Field (Auto-calculated) */}
-                                <div className="col-span-2">
-                                  <label className="text-xs font-medium text-gray-600 block mb-1">
-                                    Quantity
-                                  </label>
-                                  <Input
-                                    type="number"
-                                    min="0"
-                                    step="0.01"
-                                    value={item.quantity || ''}
-                                    className="text-sm h-9 bg-gray-50"
-                                    readOnly
-                                    title="Auto-calculated from Length × Width"
-                                    data-testid="item-quantity-input"
-                                  />
-                                </div>
-                              </>
-                            ) : (
-                              /* Quantity Field (Manual Entry) - Takes space of L, W, and Qty */
-                              <div className="col-span-4">
-                                <label className="text-xs font-medium text-gray-600 block mb-1">
-                                  Quantity
-                                </label>
+                            {/* Quantity Field - measured lines take it from their dimensions */}
+                            <div className="col-span-4">
+                              <label className="text-xs font-medium text-gray-600 block mb-1">
+                                Quantity{item.product?.unit ? ` (${item.product.unit})` : ''}
+                              </label>
+                              <div className="flex gap-1">
                                 <Input
                                   type="number"
                                   min="0"
@@ -241,14 +475,28 @@ export function QuotationItems() {
                                       quantity: value === '' ? 0 : parseFloat(value),
                                     });
                                   }}
-                                  className="text-sm h-9"
+                                  readOnly={!!item.dimensions}
+                                  title={item.dimensions ? 'Calculated from measurements' : undefined}
+                                  className={`text-sm h-9 ${item.dimensions ? 'bg-gray-50' : ''}`}
                                   data-testid="item-quantity-input"
                                 />
+                                {getMeasureBasis(item.product?.unit) && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="h-9 px-2"
+                                    onClick={() => setMeasuringItemId(item.id)}
+                                    title="Measure"
+                                    data-testid="item-measure-button"
+                                  >
+                                    <Calculator className="h-4 w-4" />
+                                  </Button>
+                                )}
                               </div>
-                            )}
+                            </div>
 
                             {/* Rate Field */}
-                            <div className="col-span-3">
+                            <div className="col-span-2">
                               <label className="text-xs font-medium text-gray-600 block mb-1">
                                 Rate (₹)
                               </label>
@@ -268,16 +516,48 @@ export function QuotationItems() {
                               />
                             </div>
 
+                            {/* GST Slab Field */}
+                            <div className="col-span-1">
+                              <label className="text-xs font-medium text-gray-600 block mb-1">
+                                GST (%)
+                              </label>
+                              <Input
+                                type="number"
+                                min="0"
+                                max="28"
+                                step="0.01"
+                                value={item.taxRate ?? taxRate}
+                                onChange={(e) => {
+                                  const value = e.target.value;
+                                  updateItem(item.id, {
+                                    taxRate: value === '' ? 0 : parseFloat(value),
+                                  });
+                                }}
+                                className="text-sm h-9"
+                                data-testid="item-tax-rate-input"
+                              />
+                            </div>
+
                             {/* Discount Field (Conditional) */}
                             {showLineDiscount ? (
                               <div className="col-span-1">
-                                <label className="text-xs font-medium text-gray-600 block mb-1">
-                                  Disc (%)
-                                </label>
+                                <div className="flex items-center justify-between mb-1">
+                                  <label className="text-xs font-medium text-gray-600">
+                                    Disc
+                                  </label>
+                                  <DiscountTypeSelect
+                                    value={item.discountType || 'PERCENT'}
+                                    onChange={(discountType) =>
+                                      updateItem(item.id, { discountType })
+                                    }
+                                    className="h-5 w-9 px-0.5 border-0 shadow-none"
+                                    data-testid="item-discount-type-select"
+                                  />
+                                </div>
                                 <Input
                                   type="number"
                                   min="0"
-                                  max="100"
+                                  max={item.discountType === 'AMOUNT' ? undefined : '100'}
                                   step="0.01"
                                   value={item.discount || ''}
                                   onChange={(e) => {
@@ -300,6 +580,11 @@ export function QuotationItems() {
                               <div className="h-9 flex items-center px-3 bg-gray-50 rounded-md border border-gray-200 text-sm font-semibold">
                                 {formatCurrency(lineTotal, '')}
                               </div>
+                              {showMargins && lineMargins[item.id] && (
+                                <div className="text-xs text-gray-500 mt-1" data-testid="item-margin">
+                                  Margin {formatMarginPercent(lineMargins[item.id]!.marginPercent)}
+                                </div>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -320,13 +605,20 @@ export function QuotationItems() {
                   );
                 })}
 
-                {/* Category Footer with Subtotal */}
+                {/* Footer with Subtotal */}
                 <div className="bg-gray-50 px-4 py-3 rounded-b-md border-x border-b border-blue-200">
                   <div className="flex justify-end">
                     <div className="text-sm font-semibold text-gray-700">
-                      Category Subtotal: <span className="text-blue-700 text-base ml-2">{formatCurrency(categorySubtotal)}</span>
+                      {sections.length > 0 ? 'Room Subtotal' : 'Category Subtotal'}: <span className="text-blue-700 text-base ml-2">{formatCurrency(groupSubtotal)}</span>
                     </div>
                   </div>
+                  {sectionDiscount > 0 && (
+                    <div className="flex justify-end mt-1">
+                      <div className="text-sm text-gray-600">
+                        Room Discount: <span className="text-red-600 ml-2">- {formatCurrency(sectionDiscount)}</span>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
               );
@@ -334,6 +626,14 @@ export function QuotationItems() {
           </div>
         )}
       </CardContent>
+
+      <DimensionsCalculator
+        open={!!measuringItem}
+        onOpenChange={(open) => !open && setMeasuringItemId(null)}
+        onApply={handleApplyDimensions}
+        value={measuringItem?.dimensions}
+        unit={measuringItem?.product?.unit || ''}
+      />
     </Card>
   );
 }
@@ -1,19 +1,23 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Save, Send, FileDown, Eye, CheckCircle } from 'lucide-react';
+import { Save, Send, FileDown, Eye, CheckCircle, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useQuoteStore } from '@/lib/store';
 import { useAuth } from '@/lib/auth-context';
 import { hasPermission } from '@/lib/permissions';
 import { calculateQuoteTotals, calculateLineTotal } from '@/lib/calculations';
+import { getCurrentApprovalStep } from '@/lib/approvals';
+import { QuoteApprovalStep } from '@/lib/types';
 
 export function QuoteActions() {
   const [isSaving, setIsSaving] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [isRequestingApproval, setIsRequestingApproval] = useState(false);
+  const [isReopening, setIsReopening] = useState(false);
   const [quoteStatus, setQuoteStatus] = useState<string>('DRAFT');
+  const [approvalSteps, setApprovalSteps] = useState<QuoteApprovalStep[]>([]);
   const [isEditingExistingQuote, setIsEditingExistingQuote] = useState(false);
 
   const { user, permissions } = useAuth();
@@ -22,9 +26,13 @@ export function QuoteActions() {
   const clientId = useQuoteStore((state) => state.clientId);
   const discountMode = useQuoteStore((state) => state.discountMode);
   const overallDiscount = useQuoteStore((state) => state.overallDiscount);
+  const overallDiscountType = useQuoteStore((state) => state.overallDiscountType);
   const taxRate = useQuoteStore((state) => state.taxRate);
+  const validUntil = useQuoteStore((state) => state.validUntil);
+  const sections = useQuoteStore((state) => state.sections);
   const items = useQuoteStore((state) => state.items);
   const policies = useQuoteStore((state) => state.policies);
+  const paymentMilestones = useQuoteStore((state) => state.paymentMilestones);
 
   // Track the current quote ID (either from store or newly created)
   const [savedQuoteId, setSavedQuoteId] = useState<string | null>(quoteId || null);
@@ -32,6 +40,7 @@ export function QuoteActions() {
   // Check if user is Admin or Sales Head
   const isAdminOrSalesHead = user?.role === 'Admin' || user?.role === 'Sales Head';
   const canApprove = hasPermission(permissions, 'quotes', 'canApprove');
+  const canEdit = hasPermission(permissions, 'quotes', 'canEdit');
 
   // Update savedQuoteId when quoteId changes from store
   React.useEffect(() => {
@@ -65,6 +74,7 @@ export function QuoteActions() {
       if (response.ok) {
         const quote = await response.json();
         setQuoteStatus(quote.status || 'DRAFT');
+        setApprovalSteps(quote.approvalSteps || []);
       }
     } catch (error) {
       console.error('Error fetching quote status:', error);
@@ -76,7 +86,7 @@ export function QuoteActions() {
     if (savedQuoteId) {
       setHasUnsavedChanges(true);
     }
-  }, [title, clientId, discountMode, overallDiscount, taxRate, items, policies, savedQuoteId]);
+  }, [title, clientId, discountMode, overallDiscount, overallDiscountType, taxRate, validUntil, sections, items, policies, paymentMilestones, savedQuoteId]);
 
   const handleSaveDraft = async () => {
     if (!title.trim()) {
@@ -108,15 +118,32 @@ export function QuoteActions() {
         clientId,
         discountMode,
         overallDiscount,
+        overallDiscountType,
         taxRate,
-        status: !savedQuoteId ? 'DRAFT' : undefined, // All new quotes start as DRAFT
+        validUntil: validUntil || null,
+        sections: sections.map((section) => ({
+          id: section.id,
+          name: section.name,
+          discount: section.discount || 0,
+          discountType: section.discountType || 'PERCENT',
+        })),
         items: items.map((item) => ({
+          id: item.id,
           productId: item.productId,
+          sectionId: item.sectionId,
+          kind: item.kind || 'STANDARD',
+          alternativeOfId: item.alternativeOfId,
           description: item.description,
           quantity: item.quantity,
           rate: item.rate,
           discount: item.discount,
+          discountType: item.discountType || 'PERCENT',
+          taxRate: item.taxRate,
+          hsnCode: item.hsnCode,
           dimensions: item.dimensions,
+          kitComponents: item.kitComponents,
+          variantOptions: item.variantOptions,
+          costPrice: item.costPrice,
         })),
         policies: policies.map((p) => ({
           type: p.type,
@@ -124,6 +151,12 @@ export function QuoteActions() {
           description: p.description,
           isActive: p.isActive,
         })),
+        paymentMilestones: paymentMilestones.map((m) => ({
+          name: m.name,
+          valueType: m.valueType,
+          value: m.value,
+          trigger: m.trigger,
+        })),
       };
 
       // Determine if creating new or updating existing
@@ -145,8 +178,12 @@ export function QuoteActions() {
         setSavedQuoteId(quote.id);
         setQuoteStatus(quote.status || 'DRAFT');
         setHasUnsavedChanges(false); // Clear unsaved changes flag after successful save
-        // Only show "updated" message if editing existing quote, not after saving new draft
-        if (isEditingExistingQuote) {
+        // Quotes below the minimum margin are sent for approval by the server
+        if (quote.status === 'PENDING_APPROVAL' && quote.approvalReason) {
+          fetchQuoteStatus(quote.id); // Load the approval chain the server started
+          alert(`Quote saved and sent for approval: ${quote.approvalReason}.`);
+        } else if (isEditingExistingQuote) {
+          // Only show "updated" message if editing existing quote, not after saving new draft
           alert('Quote updated successfully! Revision history has been recorded.');
         } else {
           alert('Quote saved as draft successfully!');
@@ -174,8 +211,9 @@ export function QuoteActions() {
       return;
     }
 
-    const confirmed = confirm('Are you sure you want to submit this quote for approval?');
-    if (!confirmed) return;
+    // Cancelling the prompt cancels the request; the note is optional
+    const notes = prompt('Are you sure you want to submit this quote for approval? Add a note for the approvers (optional)');
+    if (notes === null) return;
 
     setIsRequestingApproval(true);
 
@@ -197,12 +235,14 @@ export function QuoteActions() {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${session.access_token}`,
         },
+        body: JSON.stringify({ notes }),
       });
 
       if (response.ok) {
         const result = await response.json();
         setQuoteStatus('PENDING_APPROVAL');
-        alert('Approval request submitted successfully! The quote will be reviewed by an Admin or Sales Head.');
+        setApprovalSteps(result.quote?.approvalSteps || []);
+        alert('Approval request submitted successfully! The quote will be reviewed by each approver in turn.');
       } else {
         const error = await response.json();
         alert(error.error || 'Failed to request approval');
@@ -215,6 +255,53 @@ export function QuoteActions() {
     }
   };
 
+  const handleReopen = async () => {
+    if (!savedQuoteId) return;
+
+    // Cancelling the prompt cancels the reopen; the note is optional
+    const note = prompt('Reopen this rejected quote as a draft? Add a note for the status history (optional)');
+    if (note === null) return;
+
+    setIsReopening(true);
+
+    try {
+      // Import supabase dynamically
+      const { supabase } = await import('@/lib/db');
+
+      // Get session token
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session?.access_token) {
+        alert('Not authenticated. Please log in again.');
+        return;
+      }
+
+      const response = await fetch(`/api/quotes/${savedQuoteId}/reopen`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ note }),
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        setQuoteStatus(result.quote?.status || 'DRAFT');
+        setApprovalSteps([]);
+        alert('Quote reopened as a draft. Make your changes and request approval again.');
+      } else {
+        const error = await response.json();
+        alert(error.error || 'Failed to reopen quote');
+      }
+    } catch (error) {
+      console.error('Failed to reopen quote:', error);
+      alert('Failed to reopen quote');
+    } finally {
+      setIsReopening(false);
+    }
+  };
+
   const handlePreview = () => {
     if (!savedQuoteId) {
       alert('Please save the quote first before previewing');
@@ -280,7 +367,9 @@ export function QuoteActions() {
   };
 
   // Determine which buttons to show based on role and status
+  const currentApprovalStep = getCurrentApprovalStep(approvalSteps);
   const showRequestApproval = !isAdminOrSalesHead && savedQuoteId && quoteStatus === 'DRAFT';
+  const showReopen = canEdit && savedQuoteId && quoteStatus === 'REJECTED';
   // Preview and Export only available for approved/sent/accepted quotes (not for DRAFT or PENDING_APPROVAL)
   const showPreviewExport = quoteStatus === 'SENT' || quoteStatus === 'ACCEPTED' || quoteStatus === 'REJECTED';
   // Send Quote button should be shown to admins/sales heads when quote is ready to be sent
@@ -318,6 +407,20 @@ export function QuoteActions() {
           </Button>
         )}
 
+        {/* Reopen Button - Rejected quotes go back to draft for rework */}
+        {showReopen && (
+          <Button
+            onClick={handleReopen}
+            disabled={isReopening}
+            variant="outline"
+            className="flex-1"
+            data-testid="reopen-quote-button"
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            {isReopening ? 'Reopening...' : 'Reopen as Draft'}
+          </Button>
+        )}
+
         {/* Preview Button - For admins or approved quotes */}
         {showPreviewExport && (
           <Button
@@ -370,6 +473,7 @@ export function QuoteActions() {
             quoteStatus === 'SENT' ? 'text-green-600' :
             quoteStatus === 'ACCEPTED' ? 'text-blue-600' :
             quoteStatus === 'REJECTED' ? 'text-red-600' :
+            quoteStatus === 'EXPIRED' ? 'text-orange-600' :
             'text-gray-700'
           }`}>{quoteStatus}</span>
           {quoteStatus === 'DRAFT' && (
@@ -382,11 +486,20 @@ export function QuoteActions() {
                 : 'Quote pending approval. PDF export will be enabled after approval.'}
             </span>
           )}
+          {quoteStatus === 'PENDING_APPROVAL' && currentApprovalStep && (
+            <span className="block mt-1 text-xs" data-testid="current-approval-step">
+              Step {currentApprovalStep.stepOrder} of {approvalSteps.length}: waiting for{' '}
+              {currentApprovalStep.roleName || 'an approver'}
+            </span>
+          )}
           {quoteStatus === 'SENT' && !isAdminOrSalesHead && (
             <span className="block mt-1 text-xs">Approved! You can now edit and download the quote</span>
           )}
           {quoteStatus === 'REJECTED' && (
-            <span className="block mt-1 text-xs">Quote was rejected. You can still export the PDF or make changes and request approval again.</span>
+            <span className="block mt-1 text-xs">Quote was rejected. You can still export the PDF, or reopen it as a draft to make changes and request approval again.</span>
+          )}
+          {quoteStatus === 'EXPIRED' && (
+            <span className="block mt-1 text-xs">Quote has expired. Set a later Valid Until date and save to reopen it as a draft.</span>
           )}
         </div>
       )}
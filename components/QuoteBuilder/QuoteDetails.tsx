@@ -1,11 +1,12 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Input } from '@/components/ui/input';
 import { Select } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useQuoteStore } from '@/lib/store';
 import { Client } from '@/lib/types';
+import { DEFAULT_QUOTE_VALIDITY_DAYS, defaultValidUntil } from '@/lib/quote-validity';
 import { ClientDialog } from './ClientDialog';
 
 export function QuoteDetails() {
@@ -16,11 +17,84 @@ export function QuoteDetails() {
   const clientId = useQuoteStore((state) => state.clientId);
   const setTitle = useQuoteStore((state) => state.setTitle);
   const setClient = useQuoteStore((state) => state.setClient);
+  const validUntil = useQuoteStore((state) => state.validUntil);
+  const setValidUntil = useQuoteStore((state) => state.setValidUntil);
+  const setPriceListRates = useQuoteStore((state) => state.setPriceListRates);
+
+  const priceListId = clients.find((c) => c.id === clientId)?.priceListId;
+
+  // Set when the user picks another client, so the lines are re-priced from its list.
+  // Opening a saved quote keeps the rates it was saved with.
+  const repriceRef = useRef(false);
 
   useEffect(() => {
     fetchClients();
+    fetchDefaultValidity();
   }, []);
 
+  // Products added from here on are priced from the client's price list, and so are
+  // existing lines when the user picks another client
+  useEffect(() => {
+    fetchPriceListRates(priceListId);
+  }, [priceListId]);
+
+  const fetchPriceListRates = async (id?: string | null) => {
+    const reprice = repriceRef.current;
+    repriceRef.current = false;
+
+    if (!id) {
+      setPriceListRates({}, { reprice });
+      return;
+    }
+
+    try {
+      const { supabase } = await import('@/lib/db');
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session?.access_token) return;
+
+      const response = await fetch(`/api/price-lists/${id}/rates`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+      setPriceListRates(response.ok ? await response.json() : {}, { reprice });
+    } catch (error) {
+      console.error('Failed to fetch price list rates:', error);
+      setPriceListRates({});
+    }
+  };
+
+  // New quotes start with the company's default validity period
+  const fetchDefaultValidity = async () => {
+    let validityDays = DEFAULT_QUOTE_VALIDITY_DAYS;
+
+    try {
+      const { supabase } = await import('@/lib/db');
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (session?.access_token) {
+        const response = await fetch('/api/settings/company', {
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+        });
+        if (response.ok) {
+          const company = await response.json();
+          validityDays = company.quoteValidityDays || DEFAULT_QUOTE_VALIDITY_DAYS;
+        }
+      }
+    } catch (error) {
+      console.error('Failed to fetch quote validity:', error);
+    }
+
+    // Don't overwrite the date of a quote loaded for editing
+    const state = useQuoteStore.getState();
+    if (!state.quoteId && !state.validUntil) {
+      setValidUntil(defaultValidUntil(validityDays));
+    }
+  };
+
   const fetchClients = async () => {
     try {
       // Import supabase dynamically
@@ -51,12 +125,14 @@ export function QuoteDetails() {
       setShowClientDialog(true);
     } else {
       const client = clients.find((c) => c.id === value);
+      repriceRef.current = true;
       setClient(value, client);
     }
   };
 
   const handleClientCreated = (newClient: Client) => {
     setClients([...clients, newClient]);
+    repriceRef.current = true;
     setClient(newClient.id, newClient);
     setShowClientDialog(false);
   };
@@ -107,6 +183,18 @@ export function QuoteDetails() {
               </Select>
             </div>
           </div>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-1 block">
+              Valid Until
+            </label>
+            <Input
+              type="date"
+              value={validUntil || ''}
+              onChange={(e) => setValidUntil(e.target.value || undefined)}
+              data-testid="valid-until-input"
+            />
+          </div>
         </CardContent>
       </Card>
 
@@ -6,19 +6,29 @@ import { Card } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
+import {
+  calculateQuoteTotals,
+  getLineTaxRate,
+  groupItemsBySection,
+  isIncludedInTotal,
+} from '@/lib/calculations';
+import { determineSupplyType, formatTaxLabel, resolveState } from '@/lib/gst';
+import { calculateMilestoneAmounts, getPaymentTriggerLabel } from '@/lib/payment-schedule';
+import { getMeasurementLines } from '@/lib/dimensions';
+import { formatVariantOptions } from '@/lib/variants';
 
 export function QuotePreview() {
   // Get all data from the store
   const title = useQuoteStore((state) => state.title);
   const client = useQuoteStore((state) => state.client);
   const items = useQuoteStore((state) => state.items);
+  const sections = useQuoteStore((state) => state.sections);
   const discountMode = useQuoteStore((state) => state.discountMode);
   const overallDiscount = useQuoteStore((state) => state.overallDiscount);
+  const overallDiscountType = useQuoteStore((state) => state.overallDiscountType);
   const taxRate = useQuoteStore((state) => state.taxRate);
-  const getSubtotal = useQuoteStore((state) => state.getSubtotal);
-  const getDiscountAmount = useQuoteStore((state) => state.getDiscountAmount);
-  const getTaxAmount = useQuoteStore((state) => state.getTaxAmount);
-  const getGrandTotal = useQuoteStore((state) => state.getGrandTotal);
+  const validUntil = useQuoteStore((state) => state.validUntil);
+  const paymentMilestones = useQuoteStore((state) => state.paymentMilestones);
 
   // Fetch terms and conditions from settings
   const [terms, setTerms] = useState<string>('');
@@ -30,6 +40,8 @@ export function QuotePreview() {
     phone: '(555) 123-4567',
     address: '123 Business Street, City, State 12345',
     website: '',
+    state: '',
+    gstin: '',
   });
   const [logoUrl, setLogoUrl] = useState<string | null>(null);
 
@@ -77,6 +89,8 @@ export function QuotePreview() {
             phone: companyData.phone || '(555) 123-4567',
             address: companyData.address || '123 Business Street, City, State 12345',
             website: companyData.website || '',
+            state: companyData.state || '',
+            gstin: companyData.gstin || '',
           });
           setLogoUrl(companyData.logoUrl || null);
         }
@@ -94,7 +108,7 @@ export function QuotePreview() {
     }).format(amount);
   };
 
-  const formatDate = (date: Date): string => {
+  const formatDate = (date: Date | string): string => {
     return new Date(date).toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'long',
@@ -102,10 +116,29 @@ export function QuotePreview() {
     });
   };
 
-  const subtotal = getSubtotal();
-  const discount = getDiscountAmount();
-  const tax = getTaxAmount();
-  const grandTotal = getGrandTotal();
+  const companyState = resolveState(companyInfo.state, companyInfo.gstin);
+  const clientState = resolveState(client?.state, client?.gstin);
+  const {
+    subtotal,
+    sectionDiscount,
+    overallDiscount: overallDiscountAmount,
+    grandTotal,
+    taxBreakdown,
+    lineTotals,
+    sectionSubtotals,
+  } = calculateQuoteTotals(
+    items,
+    discountMode,
+    overallDiscount,
+    taxRate,
+    determineSupplyType(companyState, clientState),
+    sections,
+    overallDiscountType
+  );
+  const placeOfSupply = (clientState || companyState)?.name;
+  const includedItems = items.filter(isIncludedInTotal);
+  const optionItems = items.filter((item) => !isIncludedInTotal(item));
+  const milestoneAmounts = calculateMilestoneAmounts(paymentMilestones, grandTotal);
 
   return (
     <Card className="h-full bg-white shadow-lg">
@@ -148,6 +181,7 @@ export function QuotePreview() {
               {companyInfo.email && <p className="text-gray-600">Email: {companyInfo.email}</p>}
               {companyInfo.phone && <p className="text-gray-600">Phone: {companyInfo.phone}</p>}
               {companyInfo.website && <p className="text-gray-600">Web: {companyInfo.website}</p>}
+              {companyInfo.gstin && <p className="text-gray-600">GSTIN: {companyInfo.gstin}</p>}
             </div>
           </div>
 
@@ -165,12 +199,18 @@ export function QuotePreview() {
                   <span className="text-gray-500 w-32">Quote Number:</span>
                   <span className="font-medium flex-1">QT-{new Date().getFullYear()}-DRAFT</span>
                 </div>
-                <div className="flex">
-                  <span className="text-gray-500 w-32">Valid Until:</span>
-                  <span className="font-medium flex-1">
-                    {formatDate(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000))}
-                  </span>
-                </div>
+                {validUntil && (
+                  <div className="flex">
+                    <span className="text-gray-500 w-32">Valid Until:</span>
+                    <span className="font-medium flex-1">{formatDate(validUntil)}</span>
+                  </div>
+                )}
+                {placeOfSupply && (
+                  <div className="flex">
+                    <span className="text-gray-500 w-32">Place of Supply:</span>
+                    <span className="font-medium flex-1">{placeOfSupply}</span>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -184,6 +224,7 @@ export function QuotePreview() {
                   <p className="text-gray-600">{client.email}</p>
                   {client.phone && <p className="text-gray-600">{client.phone}</p>}
                   {client.address && <p className="text-gray-600">{client.address}</p>}
+                  {client.gstin && <p className="text-gray-600">GSTIN: {client.gstin}</p>}
                 </div>
               ) : (
                 <p className="text-sm text-gray-400 italic">No client selected</p>
@@ -196,26 +237,40 @@ export function QuotePreview() {
             <h2 className="text-sm font-semibold text-gray-600 mb-3 uppercase">QUOTATION ITEMS</h2>
             {items.length > 0 ? (
               (() => {
-                // Group items by category
-                const groupedItems = items.reduce((acc, item) => {
-                  const categoryName = item.product?.category?.name || 'Uncategorized';
-                  if (!acc[categoryName]) {
-                    acc[categoryName] = [];
-                  }
-                  acc[categoryName].push(item);
-                  return acc;
-                }, {} as Record<string, typeof items>);
+                // Group items by room/section when present, otherwise by category
+                const groupedItems: [string, typeof items, number, number][] = sections.length > 0
+                  ? groupItemsBySection(includedItems, sections)
+                      .filter((group) => group.items.length > 0)
+                      .map((group) => {
+                        const sectionTotals = sectionSubtotals.find((s) => s.sectionId === group.sectionId);
+                        return [
+                          group.name,
+                          group.items,
+                          sectionTotals?.subtotal || 0,
+                          sectionTotals?.discount || 0,
+                        ];
+                      })
+                  : Object.entries(
+                      includedItems.reduce((acc, item) => {
+                        const categoryName = item.product?.category?.name || 'Uncategorized';
+                        if (!acc[categoryName]) {
+                          acc[categoryName] = [];
+                        }
+                        acc[categoryName].push(item);
+                        return acc;
+                      }, {} as Record<string, typeof items>)
+                    ).map(([categoryName, categoryItems]) => [
+                      categoryName,
+                      categoryItems,
+                      categoryItems.reduce((sum, item) => sum + lineTotals[items.indexOf(item)], 0),
+                      0,
+                    ]);
 
                 let itemNumber = 0;
 
                 return (
                   <div className="space-y-4">
-                    {Object.entries(groupedItems).map(([categoryName, categoryItems]) => {
-                      const categorySubtotal = categoryItems.reduce((sum, item) => {
-                        const lineTotal = item.quantity * item.rate * (1 - item.discount / 100);
-                        return sum + lineTotal;
-                      }, 0);
-
+                    {groupedItems.map(([categoryName, categoryItems, categorySubtotal, sectionDiscountAmount]) => {
                       return (
                         <div key={categoryName}>
                           {/* Category Header */}
@@ -243,7 +298,7 @@ export function QuotePreview() {
                               <tbody>
                                 {categoryItems.map((item) => {
                                   itemNumber++;
-                                  const lineTotal = item.quantity * item.rate * (1 - item.discount / 100);
+                                  const lineTotal = lineTotals[items.indexOf(item)];
                                   return (
                                     <tr key={item.id} className="border-t">
                                       <td className="p-3 text-sm">{itemNumber}</td>
@@ -261,19 +316,25 @@ export function QuotePreview() {
                                           )}
                                           <div className="flex-1 min-w-0">
                                             <p className="text-sm font-medium break-words">{item.product?.name || 'Unknown Item'}</p>
+                                            {item.variantOptions && item.variantOptions.length > 0 && (
+                                              <p className="text-xs text-gray-600 mt-1">{formatVariantOptions(item.variantOptions)}</p>
+                                            )}
                                             {item.description && (
                                               <p className="text-xs text-gray-500 mt-1 break-words">{item.description}</p>
                                             )}
-                                            {item.dimensions && Object.keys(item.dimensions).length > 0 && (
-                                              <p className="text-xs text-gray-500 mt-1">
-                                                {item.dimensions.length && item.dimensions.width ? (
-                                                  <>L: {item.dimensions.length} ft × W: {item.dimensions.width} ft ({(item.dimensions.length * item.dimensions.width).toFixed(2)} sq.ft)</>
-                                                ) : (
-                                                  <>Dimensions: {Object.entries(item.dimensions)
-                                                    .map(([key, value]) => `${key}: ${value}`)
-                                                    .join(', ')}</>
-                                                )}
-                                              </p>
+                                            <p className="text-xs text-gray-500 mt-1">
+                                              {item.hsnCode && <>HSN/SAC: {item.hsnCode} · </>}
+                                              GST {getLineTaxRate(item, taxRate)}%
+                                            </p>
+                                            {item.dimensions && (
+                                              <div className="text-xs text-gray-500 mt-1 space-y-0.5">
+                                                {getMeasurementLines(item.dimensions, item.product?.unit).map((line, index) => (
+                                                  <div key={index} className="flex justify-between gap-4">
+                                                    <span>{line.label}</span>
+                                                    <span className="font-mono">{line.value}</span>
+                                                  </div>
+                                                ))}
+                                              </div>
                                             )}
                                           </div>
                                         </div>
@@ -281,7 +342,9 @@ export function QuotePreview() {
                                       <td className="p-3 text-right text-sm align-top">{item.quantity}</td>
                                       <td className="p-3 text-right text-sm align-top">{formatCurrency(item.rate)}</td>
                                       {(discountMode === 'LINE_ITEM' || discountMode === 'BOTH') && (
-                                        <td className="p-3 text-right text-sm align-top">{item.discount}%</td>
+                                        <td className="p-3 text-right text-sm align-top">
+                                          {item.discountType === 'AMOUNT' ? formatCurrency(item.discount) : `${item.discount}%`}
+                                        </td>
                                       )}
                                       <td className="p-3 text-right text-sm font-medium align-top">{formatCurrency(lineTotal)}</td>
                                     </tr>
@@ -295,9 +358,16 @@ export function QuotePreview() {
                           <div className="bg-gray-50 px-4 py-3 rounded-b-lg border-x border-b border-blue-200">
                             <div className="flex justify-end">
                               <span className="text-sm font-semibold text-gray-700">
-                                Category Subtotal: <span className="text-blue-700 text-base ml-2">{formatCurrency(categorySubtotal)}</span>
+                                {sections.length > 0 ? 'Room Subtotal' : 'Category Subtotal'}: <span className="text-blue-700 text-base ml-2">{formatCurrency(categorySubtotal)}</span>
                               </span>
                             </div>
+                            {sectionDiscountAmount > 0 && (
+                              <div className="flex justify-end mt-1">
+                                <span className="text-sm text-gray-600">
+                                  Room Discount: <span className="text-red-600 ml-2">-{formatCurrency(sectionDiscountAmount)}</span>
+                                </span>
+                              </div>
+                            )}
                           </div>
                         </div>
                       );
@@ -312,6 +382,58 @@ export function QuotePreview() {
             )}
           </div>
 
+          {/* Options: optional and alternative items, priced but not in the total */}
+          {optionItems.length > 0 && (
+            <div data-testid="preview-options">
+              <h2 className="text-sm font-semibold text-gray-600 mb-3 uppercase">Options</h2>
+              <div className="border border-amber-200 rounded-lg overflow-hidden">
+                <table className="w-full table-fixed">
+                  <thead className="bg-amber-50">
+                    <tr>
+                      <th className="text-left text-xs font-semibold text-gray-600 p-3">Item</th>
+                      <th className="text-right text-xs font-semibold text-gray-600 p-3 w-16">Qty</th>
+                      <th className="text-right text-xs font-semibold text-gray-600 p-3 w-28">Rate</th>
+                      <th className="text-right text-xs font-semibold text-gray-600 p-3 w-28">Price</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {optionItems.map((item) => {
+                      const replaces = items.find((other) => other.id === item.alternativeOfId);
+                      return (
+                        <tr key={item.id} className="border-t">
+                          <td className="p-3">
+                            <p className="text-sm font-medium break-words">
+                              {item.kind === 'ALTERNATIVE' ? 'Alternative' : 'Optional'}: {item.product?.name || 'Unknown Item'}
+                            </p>
+                            {item.variantOptions && item.variantOptions.length > 0 && (
+                              <p className="text-xs text-gray-600 mt-1">{formatVariantOptions(item.variantOptions)}</p>
+                            )}
+                            {replaces && (
+                              <p className="text-xs text-gray-500 mt-1">
+                                Instead of {replaces.product?.name || 'item'}
+                              </p>
+                            )}
+                            {item.description && (
+                              <p className="text-xs text-gray-500 mt-1 break-words">{item.description}</p>
+                            )}
+                          </td>
+                          <td className="p-3 text-right text-sm align-top">{item.quantity}</td>
+                          <td className="p-3 text-right text-sm align-top">{formatCurrency(item.rate)}</td>
+                          <td className="p-3 text-right text-sm font-medium align-top">
+                            {formatCurrency(lineTotals[items.indexOf(item)])}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Options are not included in the grand total. Prices exclude GST.
+              </p>
+            </div>
+          )}
+
           {/* Totals Section */}
           <div className="flex justify-end">
             <div className="w-80 space-y-2">
@@ -320,17 +442,39 @@ export function QuotePreview() {
                 <span className="font-medium">{formatCurrency(subtotal)}</span>
               </div>
 
-              {(discountMode === 'OVERALL' || discountMode === 'BOTH') && discount > 0 && (
+              {sectionDiscount > 0 && (
                 <div className="flex justify-between text-sm">
-                  <span className="text-gray-600">Discount ({overallDiscount}%):</span>
-                  <span className="font-medium text-red-600">-{formatCurrency(discount)}</span>
+                  <span className="text-gray-600">Room Discounts:</span>
+                  <span className="font-medium text-red-600">-{formatCurrency(sectionDiscount)}</span>
                 </div>
               )}
 
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Tax ({taxRate}%):</span>
-                <span className="font-medium">{formatCurrency(tax)}</span>
-              </div>
+              {(discountMode === 'OVERALL' || discountMode === 'BOTH') && overallDiscountAmount > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">
+                    Discount{overallDiscountType === 'PERCENT' ? ` (${overallDiscount}%)` : ''}:
+                  </span>
+                  <span className="font-medium text-red-600">-{formatCurrency(overallDiscountAmount)}</span>
+                </div>
+              )}
+
+              {taxBreakdown.supplyType === 'INTRA_STATE' ? (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">{formatTaxLabel('CGST', taxBreakdown.cgstRate)}:</span>
+                    <span className="font-medium">{formatCurrency(taxBreakdown.cgst)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">{formatTaxLabel('SGST', taxBreakdown.sgstRate)}:</span>
+                    <span className="font-medium">{formatCurrency(taxBreakdown.sgst)}</span>
+                  </div>
+                </>
+              ) : (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">{formatTaxLabel('IGST', taxBreakdown.igstRate)}:</span>
+                  <span className="font-medium">{formatCurrency(taxBreakdown.igst)}</span>
+                </div>
+              )}
 
               <Separator />
 
@@ -341,6 +485,39 @@ export function QuotePreview() {
             </div>
           </div>
 
+          {/* Payment Schedule */}
+          {paymentMilestones.length > 0 && (
+            <div data-testid="preview-payment-schedule">
+              <h2 className="text-sm font-semibold text-gray-600 mb-3 uppercase">Payment Schedule</h2>
+              <div className="border rounded-lg overflow-hidden">
+                <table className="w-full table-fixed">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="text-left text-xs font-semibold text-gray-600 p-3">Milestone</th>
+                      <th className="text-left text-xs font-semibold text-gray-600 p-3">Due</th>
+                      <th className="text-right text-xs font-semibold text-gray-600 p-3 w-20">Share</th>
+                      <th className="text-right text-xs font-semibold text-gray-600 p-3 w-32">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {paymentMilestones.map((milestone, index) => (
+                      <tr key={milestone.id} className="border-t">
+                        <td className="p-3 text-sm font-medium break-words">{milestone.name}</td>
+                        <td className="p-3 text-sm">{getPaymentTriggerLabel(milestone.trigger)}</td>
+                        <td className="p-3 text-right text-sm">
+                          {milestone.valueType === 'PERCENT' ? `${milestone.value}%` : '-'}
+                        </td>
+                        <td className="p-3 text-right text-sm font-medium">
+                          {formatCurrency(milestoneAmounts[index])}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
           {/* Terms & Conditions */}
           {terms && (
             <div className="bg-gray-50 p-4 rounded-lg mt-8">
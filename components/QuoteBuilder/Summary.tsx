@@ -1,38 +1,100 @@
 'use client';
 
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { useQuoteStore } from '@/lib/store';
 import { calculateQuoteTotals, formatCurrency } from '@/lib/calculations';
+import { determineSupplyType, formatTaxLabel, resolveState } from '@/lib/gst';
 import { CategoryContribution } from '@/lib/types';
+import { useAuth } from '@/lib/auth-context';
+import { hasPermission } from '@/lib/permissions';
+import { calculateMargins, formatMarginPercent, getMarginApprovalReason } from '@/lib/margins';
+import { DiscountTypeSelect } from './DiscountTypeSelect';
+import { PaymentSchedule } from './PaymentSchedule';
 
 export function Summary() {
   const items = useQuoteStore((state) => state.items);
   const discountMode = useQuoteStore((state) => state.discountMode);
   const overallDiscount = useQuoteStore((state) => state.overallDiscount);
+  const overallDiscountType = useQuoteStore((state) => state.overallDiscountType);
+  const sections = useQuoteStore((state) => state.sections);
   const taxRate = useQuoteStore((state) => state.taxRate);
+  const client = useQuoteStore((state) => state.client);
+  const companyGST = useQuoteStore((state) => state.companyGST);
+  const setCompanyGST = useQuoteStore((state) => state.setCompanyGST);
   const setOverallDiscount = useQuoteStore((state) => state.setOverallDiscount);
+  const setOverallDiscountType = useQuoteStore((state) => state.setOverallDiscountType);
+  const { permissions } = useAuth();
+  const showMargins = hasPermission(permissions, 'margins', 'canRead');
 
-  const calculations = useMemo(() => {
-    if (items.length === 0) {
-      return {
-        subtotal: 0,
-        discount: 0,
-        taxableAmount: 0,
-        tax: 0,
-        grandTotal: 0,
-        categoryContributions: [],
-      };
-    }
+  // Company state/GSTIN decide the place of supply together with the client's state; they
+  // are kept in the store so its totals use the same split
+  const [minMarginPercent, setMinMarginPercent] = useState<number | null>(null);
+
+  useEffect(() => {
+    const fetchCompanyGST = async () => {
+      try {
+        // Import supabase dynamically
+        const { supabase } = await import('@/lib/db');
+
+        // Get session token
+        const { data: { session } } = await supabase.auth.getSession();
+
+        if (!session?.access_token) {
+          console.error('Not authenticated');
+          return;
+        }
 
+        const response = await fetch('/api/settings/company', {
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setCompanyGST({ state: data.state || '', gstin: data.gstin || '' });
+          setMinMarginPercent(data.minMarginPercent ?? null);
+        }
+      } catch (error) {
+        console.error('Failed to fetch company settings:', error);
+      }
+    };
+    fetchCompanyGST();
+  }, []);
+
+  const supplyType = determineSupplyType(
+    resolveState(companyGST.state, companyGST.gstin),
+    resolveState(client?.state, client?.gstin)
+  );
+
+  const calculations = useMemo(() => {
     return calculateQuoteTotals(
-      items as any,
+      items,
       discountMode,
       overallDiscount,
-      taxRate
+      taxRate,
+      supplyType,
+      sections,
+      overallDiscountType
     );
-  }, [items, discountMode, overallDiscount, taxRate]);
+  }, [items, discountMode, overallDiscount, overallDiscountType, taxRate, supplyType, sections]);
+
+  const margin = useMemo(() => {
+    return calculateMargins({
+      items,
+      sections,
+      discountMode,
+      overallDiscount,
+      overallDiscountType,
+      taxRate,
+      supplyType,
+    });
+  }, [items, discountMode, overallDiscount, overallDiscountType, taxRate, supplyType, sections]);
+
+  const marginBelowMinimum = getMarginApprovalReason(margin, minMarginPercent) !== null;
+
+  const { taxBreakdown } = calculations;
 
   const showOverallDiscount = discountMode === 'OVERALL' || discountMode === 'BOTH';
 
@@ -55,6 +117,15 @@ export function Summary() {
               <span className="font-medium">{formatCurrency(calculations.subtotal)}</span>
             </div>
 
+            {calculations.sectionDiscount > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Room Discounts</span>
+                <span className="font-medium text-red-600">
+                  - {formatCurrency(calculations.sectionDiscount)}
+                </span>
+              </div>
+            )}
+
             {showOverallDiscount && (
               <div className="flex justify-between items-center text-sm gap-4">
                 <span className="text-gray-600">Discount</span>
@@ -62,27 +133,45 @@ export function Summary() {
                   <Input
                     type="number"
                     min="0"
-                    max="100"
+                    max={overallDiscountType === 'AMOUNT' ? undefined : '100'}
                     step="0.01"
                     value={overallDiscount}
                     onChange={(e) =>
                       setOverallDiscount(parseFloat(e.target.value) || 0)
                     }
-                    className="w-20 h-8 text-sm"
+                    className="w-24 h-8 text-sm"
                     data-testid="overall-discount-input"
                   />
-                  <span className="text-xs">%</span>
+                  <DiscountTypeSelect
+                    value={overallDiscountType}
+                    onChange={setOverallDiscountType}
+                    className="h-8"
+                    data-testid="overall-discount-type-select"
+                  />
                   <span className="font-medium text-red-600 w-24 text-right">
-                    - {formatCurrency(calculations.discount)}
+                    - {formatCurrency(calculations.overallDiscount)}
                   </span>
                 </div>
               </div>
             )}
 
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-600">Tax (GST {taxRate}%)</span>
-              <span className="font-medium">{formatCurrency(calculations.tax)}</span>
-            </div>
+            {taxBreakdown.supplyType === 'INTRA_STATE' ? (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">{formatTaxLabel('CGST', taxBreakdown.cgstRate)}</span>
+                  <span className="font-medium">{formatCurrency(taxBreakdown.cgst)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">{formatTaxLabel('SGST', taxBreakdown.sgstRate)}</span>
+                  <span className="font-medium">{formatCurrency(taxBreakdown.sgst)}</span>
+                </div>
+              </>
+            ) : (
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">{formatTaxLabel('IGST', taxBreakdown.igstRate)}</span>
+                <span className="font-medium">{formatCurrency(taxBreakdown.igst)}</span>
+              </div>
+            )}
 
             <div className="border-t pt-3 flex justify-between text-base font-bold">
               <span>Grand Total</span>
@@ -90,10 +179,39 @@ export function Summary() {
                 {formatCurrency(calculations.grandTotal)}
               </span>
             </div>
+
+            {/* Margin (internal, never printed) */}
+            {showMargins && (
+              <div className="border-t pt-3 space-y-1 text-sm" data-testid="quote-margin">
+                <div className="flex justify-between text-gray-600">
+                  <span>Cost</span>
+                  <span>{formatCurrency(margin.cost)}</span>
+                </div>
+                <div className={`flex justify-between font-medium ${marginBelowMinimum ? 'text-red-600' : 'text-gray-900'}`}>
+                  <span>Margin</span>
+                  <span data-testid="quote-margin-value">
+                    {formatCurrency(margin.margin)} ({formatMarginPercent(margin.marginPercent)})
+                  </span>
+                </div>
+                {marginBelowMinimum && (
+                  <p className="text-xs text-red-600">
+                    Below the {minMarginPercent}% minimum; the quote will need approval.
+                  </p>
+                )}
+                {margin.uncostedLines > 0 && (
+                  <p className="text-xs text-gray-500">
+                    {margin.uncostedLines} line{margin.uncostedLines === 1 ? '' : 's'} without a cost price left out
+                  </p>
+                )}
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
 
+      {/* Payment Milestones */}
+      <PaymentSchedule grandTotal={calculations.grandTotal} />
+
       {/* Category Contributions */}
       {calculations.categoryContributions.length > 0 && (
         <Card>
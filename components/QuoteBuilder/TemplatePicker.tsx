@@ -0,0 +1,119 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { LayoutTemplate } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select } from '@/components/ui/select';
+import { useQuoteStore } from '@/lib/store';
+import { QuoteTemplate } from '@/lib/types';
+
+/**
+ * "Start from template": loads a saved template's rooms, items and terms into the builder,
+ * keeping the title, client, tax rate and validity already entered
+ */
+export function TemplatePicker() {
+  const loadQuote = useQuoteStore((state) => state.loadQuote);
+  const itemCount = useQuoteStore((state) => state.items.length);
+  const [templates, setTemplates] = useState<QuoteTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const getToken = async () => {
+    // Import supabase dynamically
+    const { supabase } = await import('@/lib/db');
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      throw new Error('Not authenticated. Please log in again.');
+    }
+
+    return session.access_token;
+  };
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const token = await getToken();
+        const response = await fetch('/api/quote-templates', {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        if (response.ok) setTemplates(await response.json());
+      } catch (error) {
+        console.error('Failed to fetch quote templates:', error);
+      }
+    };
+
+    fetchTemplates();
+  }, []);
+
+  const handleLoad = async () => {
+    if (!templateId) return;
+    if (itemCount > 0 && !confirm('Replace the rooms, items and terms on this quote with the template?')) return;
+
+    setLoading(true);
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/quote-templates/${templateId}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load template');
+
+      const state = useQuoteStore.getState();
+      loadQuote({
+        ...data.quote,
+        title: state.title || data.template.name,
+        clientId: state.clientId,
+        client: state.client,
+        overallDiscount: state.overallDiscount,
+        overallDiscountType: state.overallDiscountType,
+        taxRate: state.taxRate,
+        validUntil: state.validUntil,
+        paymentMilestones: state.paymentMilestones,
+      });
+
+      if (data.quote.skippedItems > 0) {
+        alert(`${data.quote.skippedItems} item(s) were left out because their products no longer exist`);
+      }
+    } catch (error: any) {
+      console.error('Error loading template:', error);
+      alert(error.message || 'Failed to load template');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (templates.length === 0) return null;
+
+  return (
+    <div className="flex items-end gap-3 rounded-lg border border-gray-200 bg-gray-50 p-4" data-testid="template-picker">
+      <div className="flex-1">
+        <label className="text-xs font-medium text-gray-600 block mb-1">Start from template</label>
+        <Select
+          value={templateId}
+          onChange={(e) => setTemplateId(e.target.value)}
+          data-testid="template-select"
+        >
+          <option value="">Select a template</option>
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>
+              {template.name} ({template.itemCount} items)
+            </option>
+          ))}
+        </Select>
+      </div>
+      <Button
+        variant="outline"
+        onClick={handleLoad}
+        disabled={!templateId || loading}
+        data-testid="load-template-button"
+      >
+        <LayoutTemplate className="h-4 w-4 mr-2" />
+        {loading ? 'Loading...' : 'Use Template'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Trash2, Plus, X } from 'lucide-react';
+import { supabase } from '@/lib/db';
+import { APPROVAL_METRICS } from '@/lib/approvals';
+import { formatCurrency } from '@/lib/calculations';
+import { ApprovalMetric, ApprovalPolicy } from '@/lib/types';
+
+interface RoleOption {
+  id: string;
+  name: string;
+}
+
+export function ApprovalPoliciesEditor() {
+  const [policies, setPolicies] = useState<ApprovalPolicy[]>([]);
+  const [roles, setRoles] = useState<RoleOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // New policy form; approverRoleIds holds one role per step, in order
+  const [name, setName] = useState('');
+  const [metric, setMetric] = useState<ApprovalMetric>('GRAND_TOTAL');
+  const [threshold, setThreshold] = useState('');
+  const [approverRoleIds, setApproverRoleIds] = useState<string[]>(['']);
+
+  const getToken = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      throw new Error('Not authenticated. Please log in again.');
+    }
+
+    return session.access_token;
+  };
+
+  const fetchData = async () => {
+    try {
+      const token = await getToken();
+
+      const [policiesRes, rolesRes] = await Promise.all([
+        fetch('/api/settings/approval-policies', {
+          headers: { 'Authorization': `Bearer ${token}` },
+        }),
+        fetch('/api/roles', {
+          headers: { 'Authorization': `Bearer ${token}` },
+        }),
+      ]);
+
+      if (!policiesRes.ok) throw new Error('Failed to fetch approval policies');
+      if (!rolesRes.ok) throw new Error('Failed to fetch roles');
+
+      setPolicies(await policiesRes.json());
+      setRoles(await rolesRes.json());
+    } catch (error) {
+      console.error('Error fetching approval policies:', error);
+      alert('Failed to load approval policies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const savePolicy = async (policy: Partial<ApprovalPolicy>) => {
+    const token = await getToken();
+
+    const response = await fetch('/api/settings/approval-policies', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(policy),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to save approval policy');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || threshold === '' || approverRoleIds.some((roleId) => !roleId)) {
+      alert('Please enter a name and threshold, and choose a role for every step');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await savePolicy({ name, metric, threshold: parseFloat(threshold), approverRoleIds });
+
+      setName('');
+      setThreshold('');
+      setApproverRoleIds(['']);
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error saving approval policy:', error);
+      alert(error.message || 'Failed to save approval policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (policy: ApprovalPolicy) => {
+    try {
+      await savePolicy({ ...policy, isActive: !policy.isActive });
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error updating approval policy:', error);
+      alert(error.message || 'Failed to update approval policy');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this approval policy? Quotes already waiting for approval keep their steps.')) return;
+
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/settings/approval-policies?id=${id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete approval policy');
+      }
+
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error deleting approval policy:', error);
+      alert(error.message || 'Failed to delete approval policy');
+    }
+  };
+
+  const setStepRole = (index: number, roleId: string) => {
+    setApproverRoleIds((ids) => ids.map((id, i) => (i === index ? roleId : id)));
+  };
+
+  const describeCondition = (policy: ApprovalPolicy) =>
+    policy.metric === 'GRAND_TOTAL'
+      ? `Grand total above ${formatCurrency(policy.threshold)}`
+      : `Total discount above ${policy.threshold}%`;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading approval policies...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">Approval Policies</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Choose who must approve a quote, in order, when its total or discount is above a
+          threshold. When several policies match, each role approves once. Quotes no policy
+          matches can be approved by anyone with approval rights.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4 space-y-3">
+        <div className="flex items-end gap-3">
+          <div className="flex-1">
+            <label className="text-xs font-medium text-gray-600 block mb-1">Name</label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Large orders"
+              data-testid="approval-policy-name-input"
+            />
+          </div>
+          <div className="flex-1">
+            <label className="text-xs font-medium text-gray-600 block mb-1">When</label>
+            <Select
+              value={metric}
+              onChange={(e) => setMetric(e.target.value as ApprovalMetric)}
+              data-testid="approval-policy-metric-select"
+            >
+              {APPROVAL_METRICS.map((m) => (
+                <option key={m.value} value={m.value}>
+                  {m.label}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div className="w-40">
+            <label className="text-xs font-medium text-gray-600 block mb-1">Is above</label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              data-testid="approval-policy-threshold-input"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="text-xs font-medium text-gray-600 block mb-1">Approved by, in order</label>
+          <div className="flex flex-wrap items-center gap-2">
+            {approverRoleIds.map((roleId, index) => (
+              <div key={index} className="flex items-center gap-1" data-testid="approval-policy-step">
+                <span className="text-xs text-gray-500">{index + 1}.</span>
+                <Select
+                  value={roleId}
+                  onChange={(e) => setStepRole(index, e.target.value)}
+                  data-testid="approval-policy-step-role-select"
+                >
+                  <option value="">Select a role</option>
+                  {roles.map((role) => (
+                    <option key={role.id} value={role.id}>
+                      {role.name}
+                    </option>
+                  ))}
+                </Select>
+                {approverRoleIds.length > 1 && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setApproverRoleIds((ids) => ids.filter((_, i) => i !== index))}
+                    title="Remove step"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setApproverRoleIds((ids) => [...ids, ''])}
+              data-testid="add-approval-step-button"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Step
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving} data-testid="save-approval-policy-button">
+            <Plus className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Policy'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Policy
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Applies When
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Approval Chain
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {policies.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="px-6 py-8 text-center text-gray-500">
+                  No approval policies yet. Any approver can approve any quote.
+                </td>
+              </tr>
+            ) : (
+              policies.map((policy) => (
+                <tr key={policy.id} className="hover:bg-gray-50" data-testid="approval-policy-row">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {policy.name}
+                    {!policy.isActive && (
+                      <span className="ml-2 text-xs font-normal text-gray-500">(inactive)</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {describeCondition(policy)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900" data-testid="approval-policy-chain">
+                    {(policy.approverRoleNames || []).join(' → ')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleToggleActive(policy)}
+                    >
+                      {policy.isActive ? 'Deactivate' : 'Activate'}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDelete(policy.id)}
+                      title="Delete policy"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
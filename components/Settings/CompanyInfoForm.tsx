@@ -3,6 +3,9 @@
 import { useState, useEffect } from 'react';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { INDIAN_STATES } from '@/lib/gst';
+import { formatQuoteNumber, getFinancialYear } from '@/lib/quote-number';
 
 export interface CompanyInfo {
   companyName: string;
@@ -10,6 +13,11 @@ export interface CompanyInfo {
   phone: string;
   website: string;
   address: string;
+  state: string;
+  gstin: string;
+  quoteNumberPattern: string;
+  quoteValidityDays: number;
+  minMarginPercent: number | null; // Lower margins need approval; null turns this off
 }
 
 interface CompanyInfoFormProps {
@@ -24,7 +32,7 @@ export function CompanyInfoForm({ value, onChange }: CompanyInfoFormProps) {
     setFormData(value);
   }, [value]);
 
-  const handleChange = (field: keyof CompanyInfo, fieldValue: string) => {
+  const handleChange = (field: keyof CompanyInfo, fieldValue: string | number | null) => {
     const updated = { ...formData, [field]: fieldValue };
     setFormData(updated);
     onChange(updated);
@@ -110,6 +118,106 @@ export function CompanyInfoForm({ value, onChange }: CompanyInfoFormProps) {
             className="w-full"
           />
         </div>
+
+        {/* State and GSTIN Row */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="state" className="text-sm font-medium text-gray-700 mb-2">
+              State
+            </Label>
+            <Select
+              id="state"
+              value={formData.state}
+              onChange={(e) => handleChange('state', e.target.value)}
+              className="w-full"
+            >
+              <option value="">Select state</option>
+              {INDIAN_STATES.map((state) => (
+                <option key={state.code} value={state.name}>
+                  {state.name}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="gstin" className="text-sm font-medium text-gray-700 mb-2">
+              GSTIN
+            </Label>
+            <Input
+              id="gstin"
+              type="text"
+              value={formData.gstin}
+              onChange={(e) => handleChange('gstin', e.target.value.toUpperCase())}
+              placeholder="27ABCDE1234F1Z5"
+              maxLength={15}
+              className="w-full"
+            />
+          </div>
+        </div>
+
+        {/* Quote Numbering and Validity */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2">
+            <Label htmlFor="quoteNumberPattern" className="text-sm font-medium text-gray-700 mb-2">
+              Quote Number Pattern
+            </Label>
+            <Input
+              id="quoteNumberPattern"
+              type="text"
+              value={formData.quoteNumberPattern}
+              onChange={(e) => handleChange('quoteNumberPattern', e.target.value)}
+              placeholder="EW/QT/{FY}/{SEQ:5}"
+              className="w-full"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {'{FY}'} is the financial year (April–March) and {'{SEQ:5}'} the sequence padded to 5
+              digits. Both are required, as the sequence restarts every financial year. Example:{' '}
+              <span className="font-mono">
+                {formatQuoteNumber(formData.quoteNumberPattern || '', getFinancialYear(), 1)}
+              </span>
+            </p>
+          </div>
+          <div>
+            <Label htmlFor="quoteValidityDays" className="text-sm font-medium text-gray-700 mb-2">
+              Quote Validity (days)
+            </Label>
+            <Input
+              id="quoteValidityDays"
+              type="number"
+              min="1"
+              step="1"
+              value={formData.quoteValidityDays || ''}
+              onChange={(e) => handleChange('quoteValidityDays', parseInt(e.target.value, 10) || 0)}
+              placeholder="30"
+              className="w-full"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              New quotes are valid for this many days unless a date is chosen.
+            </p>
+          </div>
+          <div>
+            <Label htmlFor="minMarginPercent" className="text-sm font-medium text-gray-700 mb-2">
+              Minimum Margin (%)
+            </Label>
+            <Input
+              id="minMarginPercent"
+              type="number"
+              min="0"
+              max="100"
+              step="0.1"
+              value={formData.minMarginPercent ?? ''}
+              onChange={(e) =>
+                handleChange('minMarginPercent', e.target.value === '' ? null : parseFloat(e.target.value))
+              }
+              placeholder="Off"
+              className="w-full"
+              data-testid="min-margin-input"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Quotes below this margin need approval. Leave blank to turn off.
+            </p>
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,251 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Trash2, Plus } from 'lucide-react';
+import { supabase } from '@/lib/db';
+import { DISCOUNT_SCOPES } from '@/lib/discount-rules';
+import { DiscountRule, DiscountScope } from '@/lib/types';
+
+interface RoleOption {
+  id: string;
+  name: string;
+}
+
+export function DiscountRulesEditor() {
+  const [rules, setRules] = useState<DiscountRule[]>([]);
+  const [roles, setRoles] = useState<RoleOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // New rule form
+  const [roleId, setRoleId] = useState('');
+  const [scope, setScope] = useState<DiscountScope>('LINE');
+  const [maxPercent, setMaxPercent] = useState('');
+
+  const getToken = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      throw new Error('Not authenticated. Please log in again.');
+    }
+
+    return session.access_token;
+  };
+
+  const fetchData = async () => {
+    try {
+      const token = await getToken();
+
+      const [rulesRes, rolesRes] = await Promise.all([
+        fetch('/api/settings/discount-rules', {
+          headers: { 'Authorization': `Bearer ${token}` },
+        }),
+        fetch('/api/roles', {
+          headers: { 'Authorization': `Bearer ${token}` },
+        }),
+      ]);
+
+      if (!rulesRes.ok) throw new Error('Failed to fetch discount rules');
+      if (!rolesRes.ok) throw new Error('Failed to fetch roles');
+
+      setRules(await rulesRes.json());
+      setRoles(await rolesRes.json());
+    } catch (error) {
+      console.error('Error fetching discount rules:', error);
+      alert('Failed to load discount rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const handleSave = async () => {
+    if (!roleId || maxPercent === '') {
+      alert('Please choose a role and enter a maximum discount');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const token = await getToken();
+
+      const response = await fetch('/api/settings/discount-rules', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ roleId, scope, maxPercent: parseFloat(maxPercent) }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save discount rule');
+      }
+
+      setMaxPercent('');
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error saving discount rule:', error);
+      alert(error.message || 'Failed to save discount rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Remove this discount limit?')) return;
+
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/settings/discount-rules?id=${id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete discount rule');
+      }
+
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error deleting discount rule:', error);
+      alert(error.message || 'Failed to delete discount rule');
+    }
+  };
+
+  const scopeLabel = (value: DiscountScope) =>
+    DISCOUNT_SCOPES.find((s) => s.value === value)?.label || value;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading discount rules...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">Discount Rules</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Limit the discount each role can give. Fixed-amount discounts are checked as a
+          percentage of the amount they discount. Roles without a rule are not limited.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4 flex items-end gap-3">
+        <div className="flex-1">
+          <label className="text-xs font-medium text-gray-600 block mb-1">Role</label>
+          <Select
+            value={roleId}
+            onChange={(e) => setRoleId(e.target.value)}
+            data-testid="discount-rule-role-select"
+          >
+            <option value="">Select a role</option>
+            {roles.map((role) => (
+              <option key={role.id} value={role.id}>
+                {role.name}
+              </option>
+            ))}
+          </Select>
+        </div>
+        <div className="flex-1">
+          <label className="text-xs font-medium text-gray-600 block mb-1">Applies to</label>
+          <Select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as DiscountScope)}
+            data-testid="discount-rule-scope-select"
+          >
+            {DISCOUNT_SCOPES.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+          </Select>
+        </div>
+        <div className="w-40">
+          <label className="text-xs font-medium text-gray-600 block mb-1">Max discount (%)</label>
+          <Input
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            value={maxPercent}
+            onChange={(e) => setMaxPercent(e.target.value)}
+            data-testid="discount-rule-max-input"
+          />
+        </div>
+        <Button onClick={handleSave} disabled={saving} data-testid="save-discount-rule-button">
+          <Plus className="h-4 w-4 mr-2" />
+          {saving ? 'Saving...' : 'Save Rule'}
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Role
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Applies To
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Max Discount
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rules.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="px-6 py-8 text-center text-gray-500">
+                  No discount rules yet. Discounts are currently unlimited for every role.
+                </td>
+              </tr>
+            ) : (
+              rules.map((rule) => (
+                <tr key={rule.id} className="hover:bg-gray-50" data-testid="discount-rule-row">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {rule.roleName || 'Unknown role'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {scopeLabel(rule.scope)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {rule.maxPercent}%
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDelete(rule.id)}
+                      title="Delete rule"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
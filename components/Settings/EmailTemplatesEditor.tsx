@@ -0,0 +1,271 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Pencil, Trash2 } from 'lucide-react';
+import { supabase } from '@/lib/db';
+import { DEFAULT_EMAIL_TEMPLATE, EMAIL_MERGE_FIELDS } from '@/lib/quote-email';
+import { EmailTemplate } from '@/lib/types';
+
+export function EmailTemplatesEditor() {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Template being created or edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [subject, setSubject] = useState(DEFAULT_EMAIL_TEMPLATE.subject);
+  const [body, setBody] = useState(DEFAULT_EMAIL_TEMPLATE.body);
+  const [isDefault, setIsDefault] = useState(false);
+
+  const getToken = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      throw new Error('Not authenticated. Please log in again.');
+    }
+
+    return session.access_token;
+  };
+
+  const fetchTemplates = async () => {
+    try {
+      const token = await getToken();
+
+      const response = await fetch('/api/settings/email-templates', {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error('Failed to fetch email templates');
+
+      setTemplates(await response.json());
+    } catch (error) {
+      console.error('Error fetching email templates:', error);
+      alert('Failed to load email templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setSubject(DEFAULT_EMAIL_TEMPLATE.subject);
+    setBody(DEFAULT_EMAIL_TEMPLATE.body);
+    setIsDefault(false);
+  };
+
+  const handleEdit = (template: EmailTemplate) => {
+    setEditingId(template.id);
+    setName(template.name);
+    setSubject(template.subject);
+    setBody(template.body);
+    setIsDefault(template.isDefault);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      alert('Please enter a template name');
+      return;
+    }
+
+    if (!subject.trim() || !body.trim()) {
+      alert('Please enter a subject and a message');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const token = await getToken();
+
+      const response = await fetch('/api/settings/email-templates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ id: editingId || undefined, name, subject, body, isDefault }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save email template');
+      }
+
+      resetForm();
+      await fetchTemplates();
+    } catch (error: any) {
+      console.error('Error saving email template:', error);
+      alert(error.message || 'Failed to save email template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this email template?')) return;
+
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/settings/email-templates?id=${id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete email template');
+      }
+
+      if (editingId === id) resetForm();
+      await fetchTemplates();
+    } catch (error: any) {
+      console.error('Error deleting email template:', error);
+      alert(error.message || 'Failed to delete email template');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading email templates...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">Email Templates</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Subject and message used when sending a quote PDF to a client. The default template is
+          preselected, and can still be edited before each send.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4 space-y-3">
+        <div className="flex items-end gap-3">
+          <div className="flex-1">
+            <label className="text-xs font-medium text-gray-600 block mb-1">Template name</label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Quote for client"
+              data-testid="email-template-name-input"
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Checkbox checked={isDefault} onCheckedChange={setIsDefault} id="email-template-default" />
+            <label htmlFor="email-template-default" className="text-sm text-gray-700">
+              Default template
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <label className="text-xs font-medium text-gray-600 block mb-1">Subject</label>
+          <Input
+            value={subject}
+            onChange={(e) => setSubject(e.target.value)}
+            data-testid="email-template-subject-input"
+          />
+        </div>
+
+        <div>
+          <label className="text-xs font-medium text-gray-600 block mb-1">Message</label>
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={8}
+            data-testid="email-template-body-input"
+          />
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Merge fields:{' '}
+          {EMAIL_MERGE_FIELDS.map((field) => `{{${field.key}}} (${field.label.toLowerCase()})`).join(', ')}
+        </p>
+
+        <div className="flex justify-end gap-2">
+          {editingId && (
+            <Button size="sm" variant="outline" onClick={resetForm}>
+              Cancel
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSave} disabled={saving} data-testid="save-email-template-button">
+            {saving ? 'Saving...' : editingId ? 'Update Template' : 'Save Template'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Template
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Subject
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {templates.length === 0 ? (
+              <tr>
+                <td colSpan={3} className="px-6 py-8 text-center text-gray-500">
+                  No email templates yet. Quotes are sent with the standard message shown above.
+                </td>
+              </tr>
+            ) : (
+              templates.map((template) => (
+                <tr key={template.id} className="hover:bg-gray-50" data-testid="email-template-row">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {template.name}
+                    {template.isDefault && (
+                      <Badge variant="secondary" className="ml-2">Default</Badge>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{template.subject}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleEdit(template)}
+                      title="Edit template"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDelete(template.id)}
+                      title="Delete template"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
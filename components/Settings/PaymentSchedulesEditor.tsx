@@ -0,0 +1,282 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Pencil, Trash2, Plus } from 'lucide-react';
+import { supabase } from '@/lib/db';
+import {
+  DEFAULT_PAYMENT_MILESTONES,
+  MilestoneInput,
+  getPaymentScheduleError,
+  getPaymentTriggerLabel,
+} from '@/lib/payment-schedule';
+import { PaymentSchedule } from '@/lib/types';
+import { MilestoneRow } from '@/components/QuoteBuilder/MilestoneRow';
+
+export function PaymentSchedulesEditor() {
+  const [schedules, setSchedules] = useState<PaymentSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Schedule being created or edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [isDefault, setIsDefault] = useState(false);
+  const [milestones, setMilestones] = useState<MilestoneInput[]>([...DEFAULT_PAYMENT_MILESTONES]);
+
+  const getToken = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      throw new Error('Not authenticated. Please log in again.');
+    }
+
+    return session.access_token;
+  };
+
+  const fetchSchedules = async () => {
+    try {
+      const token = await getToken();
+
+      const response = await fetch('/api/settings/payment-schedules', {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error('Failed to fetch payment schedules');
+
+      setSchedules(await response.json());
+    } catch (error) {
+      console.error('Error fetching payment schedules:', error);
+      alert('Failed to load payment schedules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSchedules();
+  }, []);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setIsDefault(false);
+    setMilestones([...DEFAULT_PAYMENT_MILESTONES]);
+  };
+
+  const handleEdit = (schedule: PaymentSchedule) => {
+    setEditingId(schedule.id);
+    setName(schedule.name);
+    setIsDefault(schedule.isDefault);
+    setMilestones(schedule.milestones.map((milestone) => ({ ...milestone })));
+  };
+
+  const updateMilestone = (index: number, updates: Partial<MilestoneInput>) => {
+    setMilestones(milestones.map((m, i) => (i === index ? { ...m, ...updates } : m)));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      alert('Please enter a schedule name');
+      return;
+    }
+
+    const scheduleError = getPaymentScheduleError(milestones);
+    if (scheduleError) {
+      alert(scheduleError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const token = await getToken();
+
+      const response = await fetch('/api/settings/payment-schedules', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ id: editingId || undefined, name, isDefault, milestones }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save payment schedule');
+      }
+
+      resetForm();
+      await fetchSchedules();
+    } catch (error: any) {
+      console.error('Error saving payment schedule:', error);
+      alert(error.message || 'Failed to save payment schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this payment schedule?')) return;
+
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/settings/payment-schedules?id=${id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete payment schedule');
+      }
+
+      if (editingId === id) resetForm();
+      await fetchSchedules();
+    } catch (error: any) {
+      console.error('Error deleting payment schedule:', error);
+      alert(error.message || 'Failed to delete payment schedule');
+    }
+  };
+
+  const formatMilestone = (milestone: MilestoneInput) =>
+    `${milestone.valueType === 'PERCENT' ? `${milestone.value}%` : `₹${milestone.value}`} ${getPaymentTriggerLabel(milestone.trigger).toLowerCase()}`;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading payment schedules...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">Payment Schedules</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Milestone schedules that can be applied to quotes. The default schedule is added to
+          every new quote.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4 space-y-3">
+        <div className="flex items-end gap-3">
+          <div className="flex-1">
+            <label className="text-xs font-medium text-gray-600 block mb-1">Schedule name</label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Standard (50/50)"
+              data-testid="payment-schedule-name-input"
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Checkbox checked={isDefault} onCheckedChange={setIsDefault} id="payment-schedule-default" />
+            <label htmlFor="payment-schedule-default" className="text-sm text-gray-700">
+              Default for new quotes
+            </label>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {milestones.map((milestone, index) => (
+            <MilestoneRow
+              key={index}
+              milestone={milestone}
+              onChange={(updates) => updateMilestone(index, updates)}
+              onRemove={() => setMilestones(milestones.filter((_, i) => i !== index))}
+            />
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              setMilestones([...milestones, { name: '', valueType: 'PERCENT', value: 0, trigger: 'DELIVERY' }])
+            }
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Milestone
+          </Button>
+          <div className="flex gap-2">
+            {editingId && (
+              <Button size="sm" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+            <Button size="sm" onClick={handleSave} disabled={saving} data-testid="save-payment-schedule-button">
+              {saving ? 'Saving...' : editingId ? 'Update Schedule' : 'Save Schedule'}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Schedule
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Milestones
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {schedules.length === 0 ? (
+              <tr>
+                <td colSpan={3} className="px-6 py-8 text-center text-gray-500">
+                  No payment schedules yet. New quotes start with a 50% advance and 50% on handover.
+                </td>
+              </tr>
+            ) : (
+              schedules.map((schedule) => (
+                <tr key={schedule.id} className="hover:bg-gray-50" data-testid="payment-schedule-row">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {schedule.name}
+                    {schedule.isDefault && (
+                      <Badge variant="secondary" className="ml-2">Default</Badge>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {schedule.milestones.map(formatMilestone).join(', ')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleEdit(schedule)}
+                      title="Edit schedule"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDelete(schedule.id)}
+                      title="Delete schedule"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Eye, Pencil, Trash2 } from 'lucide-react';
+import { supabase } from '@/lib/db';
+import {
+  DEFAULT_PDF_TEMPLATE,
+  PDF_FONT_FAMILIES,
+  PDF_ITEM_COLUMNS,
+  PDF_TEMPLATE_CATEGORIES,
+  PDF_TEMPLATE_SECTIONS,
+  getPdfTemplateError,
+} from '@/lib/pdf-template';
+import { PdfTemplate } from '@/lib/types';
+
+const DEFAULT_TEMPLATE_JSON = JSON.stringify(DEFAULT_PDF_TEMPLATE, null, 2);
+
+export function PdfTemplatesEditor() {
+  const [templates, setTemplates] = useState<PdfTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Template being created or edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState<string>('Custom');
+  const [json, setJson] = useState(DEFAULT_TEMPLATE_JSON);
+  const [isDefault, setIsDefault] = useState(false);
+
+  const getToken = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      throw new Error('Not authenticated. Please log in again.');
+    }
+
+    return session.access_token;
+  };
+
+  const fetchTemplates = async () => {
+    try {
+      const token = await getToken();
+
+      const response = await fetch('/api/templates', {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error('Failed to fetch PDF templates');
+
+      setTemplates(await response.json());
+    } catch (error) {
+      console.error('Error fetching PDF templates:', error);
+      alert('Failed to load PDF templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setDescription('');
+    setCategory('Custom');
+    setJson(DEFAULT_TEMPLATE_JSON);
+    setIsDefault(false);
+  };
+
+  const handleEdit = (template: PdfTemplate) => {
+    setEditingId(template.id);
+    setName(template.name);
+    setDescription(template.description || '');
+    setCategory(template.category || 'Custom');
+    setJson(JSON.stringify(template.templateJson, null, 2));
+    setIsDefault(template.isDefault);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      alert('Please enter a template name');
+      return;
+    }
+
+    let templateJson: unknown;
+    try {
+      templateJson = JSON.parse(json);
+    } catch (error: any) {
+      alert(`Template JSON is not valid: ${error.message}`);
+      return;
+    }
+
+    const templateError = getPdfTemplateError(templateJson);
+    if (templateError) {
+      alert(templateError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const token = await getToken();
+
+      const response = await fetch(editingId ? `/api/templates/${editingId}` : '/api/templates', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ name, description, category, templateJson, isDefault }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save PDF template');
+      }
+
+      resetForm();
+      await fetchTemplates();
+    } catch (error: any) {
+      console.error('Error saving PDF template:', error);
+      alert(error.message || 'Failed to save PDF template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this PDF template? Quotes using it will use the default template.')) return;
+
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/templates/${id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete PDF template');
+      }
+
+      if (editingId === id) resetForm();
+      await fetchTemplates();
+    } catch (error: any) {
+      console.error('Error deleting PDF template:', error);
+      alert(error.message || 'Failed to delete PDF template');
+    }
+  };
+
+  const handlePreview = async (id: string) => {
+    // Open the tab before the request so popup blockers allow it
+    const previewWindow = window.open('', '_blank');
+
+    try {
+      const token = await getToken();
+
+      const response = await fetch(`/api/templates/${id}/preview`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to generate preview');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      if (previewWindow) {
+        previewWindow.location.href = url;
+      } else {
+        window.open(url, '_blank');
+      }
+    } catch (error: any) {
+      previewWindow?.close();
+      console.error('Error previewing PDF template:', error);
+      alert(error.message || 'Failed to generate preview');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading PDF templates...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">PDF Templates</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Layout of the quote PDF: which sections appear and in what order, the item columns,
+          colours, font and what to show. Quotes use the default template unless another one is
+          chosen on the quote. Keys left out of the JSON use the standard layout.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4 space-y-3">
+        <div className="flex items-end gap-3">
+          <div className="flex-1">
+            <label className="text-xs font-medium text-gray-600 block mb-1">Template name</label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Premium"
+              data-testid="pdf-template-name-input"
+            />
+          </div>
+          <div className="w-40">
+            <label className="text-xs font-medium text-gray-600 block mb-1">Category</label>
+            <Select value={category} onChange={(e) => setCategory(e.target.value)}>
+              {PDF_TEMPLATE_CATEGORIES.map((value) => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Checkbox checked={isDefault} onCheckedChange={setIsDefault} id="pdf-template-default" />
+            <label htmlFor="pdf-template-default" className="text-sm text-gray-700">
+              Default template
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <label className="text-xs font-medium text-gray-600 block mb-1">Description</label>
+          <Input value={description} onChange={(e) => setDescription(e.target.value)} />
+        </div>
+
+        <div>
+          <label className="text-xs font-medium text-gray-600 block mb-1">Template JSON</label>
+          <Textarea
+            value={json}
+            onChange={(e) => setJson(e.target.value)}
+            rows={16}
+            className="font-mono text-xs"
+            data-testid="pdf-template-json-input"
+          />
+        </div>
+
+        <div className="text-xs text-gray-500 space-y-1">
+          <p>Sections: {PDF_TEMPLATE_SECTIONS.map((section) => section.value).join(', ')}</p>
+          <p>
+            Columns: {PDF_ITEM_COLUMNS.map((column) => column.value).join(', ')} (widths in %,
+            at most 100 in total)
+          </p>
+          <p>
+            Fonts (theme.fontFamily, and optionally theme.headingFontFamily for titles):{' '}
+            {PDF_FONT_FAMILIES.join(', ')}. Hindi and Marathi text prints with every font.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="outline" onClick={() => setJson(DEFAULT_TEMPLATE_JSON)}>
+            Reset JSON
+          </Button>
+          {editingId && (
+            <Button size="sm" variant="outline" onClick={resetForm}>
+              Cancel
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSave} disabled={saving} data-testid="save-pdf-template-button">
+            {saving ? 'Saving...' : editingId ? 'Update Template' : 'Save Template'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Template
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Category
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Version
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {templates.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="px-6 py-8 text-center text-gray-500">
+                  No PDF templates yet. Quotes are exported with the standard layout.
+                </td>
+              </tr>
+            ) : (
+              templates.map((template) => (
+                <tr key={template.id} className="hover:bg-gray-50" data-testid="pdf-template-row">
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    <span className="font-medium">{template.name}</span>
+                    {template.isDefault && (
+                      <Badge variant="secondary" className="ml-2">Default</Badge>
+                    )}
+                    {template.description && (
+                      <p className="text-xs text-gray-500">{template.description}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {template.category || '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    v{template.version}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handlePreview(template.id)}
+                      title="Preview with a sample quote"
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleEdit(template)}
+                      title="Edit template"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDelete(template.id)}
+                      title="Delete template"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -31,6 +31,7 @@ const RESOURCES = [
   { id: 'products', label: 'Products', description: 'Product catalog and pricing' },
   { id: 'clients', label: 'Clients', description: 'Client information and contacts' },
   { id: 'quotes', label: 'Quotes', description: 'Quotations and proposals' },
+  { id: 'margins', label: 'Margins', description: 'Cost prices and quote margins (Read only)' },
 ];
 
 const PERMISSION_COLUMNS = [
@@ -88,7 +89,16 @@ export function PermissionsEditor({ roleId, roleName, isProtected, embedded = fa
     setPermissions(prev => ({
       ...prev,
       [resource]: {
-        ...prev[resource],
+        // Resources added after the role was created have no row yet
+        ...(prev[resource] || {
+          resource,
+          canCreate: false,
+          canRead: false,
+          canEdit: false,
+          canDelete: false,
+          canApprove: false,
+          canExport: false,
+        }),
         [permissionKey]: value,
       },
     }));
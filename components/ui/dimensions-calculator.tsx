@@ -1,7 +1,7 @@
 'use client';
 
-import React, { useState } from 'react';
-import { Calculator } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Calculator, Plus, Trash2 } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -11,104 +11,256 @@ import {
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { ItemDimensions, MeasurementEntry } from '@/lib/types';
+import {
+  DIMENSION_INPUT_UNITS,
+  MeasureKind,
+  calculateDimensions,
+  createMeasurementEntry,
+  getMeasureBasis,
+} from '@/lib/dimensions';
 
 interface DimensionsCalculatorProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onCalculate: (result: number) => void;
-  initialQuantity?: number;
-  unit: string;
+  onApply: (dimensions: ItemDimensions | null) => void;
+  value?: ItemDimensions | null;
+  unit: string; // Product unit the quantity is in, e.g. 'sq ft'
+}
+
+const emptyDimensions = (): ItemDimensions => ({
+  unit: 'ft',
+  surfaces: [createMeasurementEntry()],
+  deductions: [],
+  wastagePercent: 0,
+});
+
+interface EntryRowsProps {
+  title: string;
+  entries: MeasurementEntry[];
+  kind: MeasureKind;
+  measures: number[];
+  onChange: (entries: MeasurementEntry[]) => void;
+  addLabel: string;
+  testId: string;
+}
+
+function EntryRows({ title, entries, kind, measures, onChange, addLabel, testId }: EntryRowsProps) {
+  const update = (index: number, updates: Partial<MeasurementEntry>) => {
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...updates } : entry)));
+  };
+
+  const numberInput = (index: number, field: 'length' | 'width' | 'height' | 'count') => (
+    <Input
+      type="number"
+      min="0"
+      step={field === 'count' ? '1' : '0.01'}
+      value={entries[index][field] || ''}
+      onChange={(e) => update(index, { [field]: parseFloat(e.target.value) || 0 })}
+      placeholder="0"
+      className="h-8 text-sm"
+      data-testid={`${testId}-${field}-input`}
+    />
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>{title}</Label>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onChange([...entries, createMeasurementEntry()])}
+          data-testid={`add-${testId}-button`}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          {addLabel}
+        </Button>
+      </div>
+      {entries.map((entry, index) => (
+        <div key={index} className="flex items-center gap-2" data-testid={`${testId}-row`}>
+          <Input
+            value={entry.label}
+            onChange={(e) => update(index, { label: e.target.value })}
+            placeholder="Label"
+            className="h-8 flex-1 text-sm"
+          />
+          <div className="w-20">{numberInput(index, 'length')}</div>
+          {kind !== 'linear' && <div className="w-20">{numberInput(index, 'width')}</div>}
+          {kind === 'volume' && <div className="w-20">{numberInput(index, 'height')}</div>}
+          <span className="text-xs text-gray-500">×</span>
+          <div className="w-14">{numberInput(index, 'count')}</div>
+          <span className="w-20 text-right font-mono text-xs text-gray-700">
+            {(measures[index] ?? 0).toFixed(2)}
+          </span>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => onChange(entries.filter((_, i) => i !== index))}
+            title="Remove"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
 }
 
+/**
+ * Measure a line item: several surfaces, less openings, plus wastage, in any input unit
+ */
 export function DimensionsCalculator({
   open,
   onOpenChange,
-  onCalculate,
-  initialQuantity = 0,
+  onApply,
+  value,
   unit,
 }: DimensionsCalculatorProps) {
-  const [length, setLength] = useState<string>('');
-  const [width, setWidth] = useState<string>('');
+  const [dimensions, setDimensions] = useState<ItemDimensions>(value || emptyDimensions());
+
+  // Start from the line's saved measurements each time the dialog opens
+  useEffect(() => {
+    if (open) setDimensions(value || emptyDimensions());
+  }, [open, value]);
 
-  const calculatedArea = (parseFloat(length) || 0) * (parseFloat(width) || 0);
+  const basis = getMeasureBasis(unit);
+  const kind = basis?.kind || 'area';
+  const breakdown = calculateDimensions(dimensions, unit);
+  const columns = kind === 'volume' ? 'L × W × H' : kind === 'area' ? 'L × W' : 'Length';
 
   const handleApply = () => {
-    if (calculatedArea > 0) {
-      onCalculate(calculatedArea);
+    if (breakdown && breakdown.quantity > 0) {
+      onApply(dimensions);
       onOpenChange(false);
-      // Reset values
-      setLength('');
-      setWidth('');
     }
   };
 
-  const handleCancel = () => {
+  const handleClear = () => {
+    onApply(null);
     onOpenChange(false);
-    setLength('');
-    setWidth('');
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-2xl">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Calculator className="h-5 w-5" />
-            Calculate Area ({unit})
+            Measure Quantity ({unit})
           </DialogTitle>
         </DialogHeader>
 
         <div className="space-y-4 pt-4">
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="length">Length (ft)</Label>
-              <Input
-                id="length"
-                type="number"
-                min="0"
-                step="0.01"
-                placeholder="0"
-                value={length}
-                onChange={(e) => setLength(e.target.value)}
-                autoFocus
-              />
+              <Label htmlFor="dimensions-unit">Measured in</Label>
+              <Select
+                id="dimensions-unit"
+                value={dimensions.unit}
+                onChange={(e) => setDimensions({ ...dimensions, unit: e.target.value })}
+                data-testid="dimensions-unit-select"
+              >
+                {DIMENSION_INPUT_UNITS.map((inputUnit) => (
+                  <option key={inputUnit} value={inputUnit}>
+                    {inputUnit}
+                  </option>
+                ))}
+              </Select>
             </div>
-
             <div className="space-y-2">
-              <Label htmlFor="width">Width (ft)</Label>
+              <Label htmlFor="dimensions-wastage">Wastage (%)</Label>
               <Input
-                id="width"
+                id="dimensions-wastage"
                 type="number"
                 min="0"
-                step="0.01"
+                step="0.5"
+                value={dimensions.wastagePercent || ''}
+                onChange={(e) =>
+                  setDimensions({ ...dimensions, wastagePercent: parseFloat(e.target.value) || 0 })
+                }
                 placeholder="0"
-                value={width}
-                onChange={(e) => setWidth(e.target.value)}
+                data-testid="dimensions-wastage-input"
               />
             </div>
           </div>
 
+          <p className="text-xs text-gray-500">
+            Enter {columns} in {dimensions.unit} and how many of each. Measures are shown in {unit}.
+          </p>
+
+          <EntryRows
+            title="Surfaces"
+            entries={dimensions.surfaces}
+            kind={kind}
+            measures={breakdown?.surfaces || []}
+            onChange={(surfaces) => setDimensions({ ...dimensions, surfaces })}
+            addLabel="Surface"
+            testId="surface"
+          />
+
+          <EntryRows
+            title="Deductions (doors, windows, openings)"
+            entries={dimensions.deductions}
+            kind={kind}
+            measures={breakdown?.deductions || []}
+            onChange={(deductions) => setDimensions({ ...dimensions, deductions })}
+            addLabel="Deduction"
+            testId="deduction"
+          />
+
           {/* Calculation Display */}
-          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-            <div className="text-sm text-blue-900 mb-1">Area:</div>
-            <div className="font-mono text-lg font-semibold text-blue-700">
-              {length || '0'} × {width || '0'} = {calculatedArea.toFixed(2)} {unit}
-            </div>
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-900 space-y-1">
+            {breakdown ? (
+              <>
+                <div className="flex justify-between">
+                  <span>Surfaces</span>
+                  <span className="font-mono">{breakdown.gross.toFixed(2)} {unit}</span>
+                </div>
+                {breakdown.deducted > 0 && (
+                  <div className="flex justify-between">
+                    <span>Less deductions</span>
+                    <span className="font-mono">-{breakdown.deducted.toFixed(2)} {unit}</span>
+                  </div>
+                )}
+                {breakdown.wastage > 0 && (
+                  <div className="flex justify-between">
+                    <span>Wastage ({dimensions.wastagePercent}%)</span>
+                    <span className="font-mono">+{breakdown.wastage.toFixed(2)} {unit}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-semibold text-blue-700 text-base">
+                  <span>Quantity</span>
+                  <span className="font-mono" data-testid="dimensions-quantity">
+                    {breakdown.quantity.toFixed(2)} {unit}
+                  </span>
+                </div>
+              </>
+            ) : (
+              <span>{unit} can't be calculated from {dimensions.unit} measurements.</span>
+            )}
           </div>
 
           {/* Action Buttons */}
           <div className="flex gap-3 pt-2">
+            {value && (
+              <Button variant="outline" onClick={handleClear}>
+                Clear
+              </Button>
+            )}
             <Button
               variant="outline"
               className="flex-1"
-              onClick={handleCancel}
+              onClick={() => onOpenChange(false)}
             >
               Cancel
             </Button>
             <Button
               className="flex-1"
               onClick={handleApply}
-              disabled={calculatedArea <= 0}
+              disabled={!breakdown || breakdown.quantity <= 0}
+              data-testid="apply-dimensions-button"
             >
               Apply
             </Button>
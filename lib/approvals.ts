@@ -0,0 +1,350 @@
+/**
+ * Multi-level approvals: approval policies name the roles that must approve a quote, in
+ * order, once its grand total or discount passes a threshold. Requesting approval turns
+ * the matching policies into a chain of steps on the quote, approved one at a time; a
+ * quote no policy matches gets a single step any approver can act on. Every request,
+ * decision and comment is kept as an approval event.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  ApprovalEventAction,
+  ApprovalMetric,
+  ApprovalPolicy,
+  QuoteApprovalEvent,
+  QuoteApprovalStep,
+} from './types';
+import { PricingInput, effectiveDiscountPercent, fromPaise, priceQuote } from './pricing';
+import type { StatusTransitionError } from './quote-status';
+
+export const APPROVAL_METRICS: { value: ApprovalMetric; label: string }[] = [
+  { value: 'GRAND_TOTAL', label: 'Grand total (₹)' },
+  { value: 'DISCOUNT_PERCENT', label: 'Total discount (%)' },
+];
+
+export interface ApprovalFigures {
+  grandTotal: number;
+  discountPercent: number; // Line, section and overall discounts as a share of the gross amount
+}
+
+export interface ApprovalStepDraft {
+  roleId: string | null;
+  reason: string | null;
+}
+
+// Embeds a quote's approval steps (with role names) in a quotes select
+export const APPROVAL_STEPS_SELECT = 'approvalSteps:quote_approval_steps(*, role:roles(name))';
+
+// Selects approval events with the name and role of the user who acted
+export const APPROVAL_EVENTS_SELECT = '*, user:users(name, role:roles(name))';
+
+/**
+ * Map a quote_approval_steps row (with its role) to frontend format
+ */
+export function mapApprovalStep(step: any): QuoteApprovalStep {
+  return {
+    id: step.id,
+    quoteId: step.quoteid,
+    stepOrder: step.steporder,
+    roleId: step.roleid,
+    roleName: step.role?.name ?? null,
+    reason: step.reason,
+    status: step.status,
+    actedBy: step.actedby,
+    actedAt: step.actedat,
+    notes: step.notes,
+  };
+}
+
+/**
+ * Map embedded approval steps, in approval order
+ */
+export function mapApprovalSteps(steps: any[] | null | undefined): QuoteApprovalStep[] {
+  return (steps || []).map(mapApprovalStep).sort((a, b) => a.stepOrder - b.stepOrder);
+}
+
+/**
+ * Pricing input for a quote loaded with its sections and items (and their products)
+ */
+export function mapQuotePricingInput(quote: any): PricingInput {
+  return {
+    items: (quote.items || []).map((item: any) => ({
+      sectionId: item.sectionid,
+      quantity: item.quantity,
+      rate: item.rate,
+      discount: item.discount,
+      discountType: item.discounttype || 'PERCENT',
+      taxRate: item.taxrate,
+      hsnCode: item.hsncode,
+      kind: item.kind || 'STANDARD',
+      product: item.product ? {
+        taxRate: item.product.taxrate,
+        hsnCode: item.product.hsncode,
+        category: item.product.category,
+      } : null,
+    })),
+    sections: (quote.sections || []).map((section: any) => ({
+      id: section.id,
+      discount: section.discount || 0,
+      discountType: section.discounttype || 'PERCENT',
+    })),
+    discountMode: quote.discountmode,
+    overallDiscount: quote.overalldiscount || 0,
+    overallDiscountType: quote.overalldiscounttype || 'PERCENT',
+    taxRate: quote.taxrate,
+    supplyType: quote.supplytype || 'INTRA_STATE',
+  };
+}
+
+/**
+ * The figures approval policies are checked against
+ */
+export function getApprovalFigures(input: PricingInput): ApprovalFigures {
+  const priced = priceQuote(input);
+  let grossPaise = 0;
+  let taxablePaise = 0;
+
+  for (const line of priced.lines) {
+    if (!line.included) continue;
+    grossPaise += line.grossPaise;
+    taxablePaise += line.taxablePaise;
+  }
+
+  return {
+    grandTotal: fromPaise(priced.grandTotalPaise),
+    discountPercent:
+      Math.round(effectiveDiscountPercent(grossPaise, grossPaise - taxablePaise) * 100) / 100,
+  };
+}
+
+export function policyApplies(
+  policy: Pick<ApprovalPolicy, 'metric' | 'threshold'>,
+  figures: ApprovalFigures
+): boolean {
+  const value = policy.metric === 'GRAND_TOTAL' ? figures.grandTotal : figures.discountPercent;
+  return value > policy.threshold;
+}
+
+/**
+ * Approval chain for a quote. Steps from every matching policy are combined; a role
+ * required by several policies approves once, for all of their reasons, and each policy's
+ * roles still approve in the order it lists them. Where nothing orders two roles (or
+ * policies disagree) they approve in the order they first appear. Without a matching
+ * policy the quote gets a single step for anyone who can approve quotes.
+ */
+export function buildApprovalSteps(
+  policies: Pick<ApprovalPolicy, 'name' | 'metric' | 'threshold' | 'approverRoleIds'>[],
+  figures: ApprovalFigures,
+  fallbackReason: string | null = null
+): ApprovalStepDraft[] {
+  const reasons = new Map<string, string[]>(); // In order of first appearance
+  const before = new Map<string, Set<string>>(); // Roles that must approve before each role
+
+  for (const policy of policies) {
+    if (!policyApplies(policy, figures)) continue;
+
+    policy.approverRoleIds.forEach((roleId, index) => {
+      const roleReasons = reasons.get(roleId) || [];
+      if (!roleReasons.includes(policy.name)) roleReasons.push(policy.name);
+      reasons.set(roleId, roleReasons);
+
+      const earlier = before.get(roleId) || new Set<string>();
+      policy.approverRoleIds.slice(0, index).forEach((earlierId) => earlier.add(earlierId));
+      before.set(roleId, earlier);
+    });
+  }
+
+  const chain: { roleId: string; reasons: string[] }[] = [];
+  const remaining = Array.from(reasons.keys());
+
+  while (remaining.length > 0) {
+    const ready = remaining.findIndex((roleId) =>
+      Array.from(before.get(roleId)!).every((earlierId) => !remaining.includes(earlierId))
+    );
+    const [roleId] = remaining.splice(ready === -1 ? 0 : ready, 1);
+    chain.push({ roleId, reasons: reasons.get(roleId)! });
+  }
+
+  if (chain.length === 0) return [{ roleId: null, reason: fallbackReason }];
+
+  return chain.map((step) => ({ roleId: step.roleId, reason: step.reasons.join('; ') }));
+}
+
+/**
+ * Approvers can send their own drafts (DRAFT to SENT) without an approval round, but not
+ * past a policy the quote matches. Returns a 409 error naming the policies, or null.
+ */
+export function getSendApprovalError(
+  quoteId: string,
+  policies: Pick<ApprovalPolicy, 'name' | 'metric' | 'threshold'>[],
+  figures: ApprovalFigures
+): StatusTransitionError | null {
+  const matching = policies.filter((policy) => policyApplies(policy, figures));
+  if (matching.length === 0) return null;
+
+  return {
+    error: `This quote requires approval (${matching.map((policy) => policy.name).join(', ')}). ` +
+      `Send it for approval with POST /api/quotes/${quoteId}/request-approval`,
+    status: 409,
+  };
+}
+
+/**
+ * The step waiting to be acted on, or null once every step is approved
+ */
+export function getCurrentApprovalStep<T extends Pick<QuoteApprovalStep, 'stepOrder' | 'status'>>(
+  steps: T[]
+): T | null {
+  return (
+    [...steps]
+      .sort((a, b) => a.stepOrder - b.stepOrder)
+      .find((step) => step.status === 'PENDING') || null
+  );
+}
+
+/**
+ * Whether a user can act on a step: the step's role, or anyone who can approve quotes for
+ * steps without a role
+ */
+export function canActOnApprovalStep(
+  step: Pick<QuoteApprovalStep, 'roleId'>,
+  roleId: string | null | undefined,
+  canApprove: boolean
+): boolean {
+  return step.roleId ? step.roleId === roleId : canApprove;
+}
+
+/**
+ * Validate an approval policy. Returns an error message, or null if valid.
+ */
+export function getApprovalPolicyError(policy: {
+  name?: string;
+  metric?: string;
+  threshold?: number | string | null;
+  approverRoleIds?: string[];
+}): string | null {
+  if (!policy.name?.trim()) return 'Policy name is required';
+  if (!APPROVAL_METRICS.some((m) => m.value === policy.metric)) {
+    return 'Metric must be GRAND_TOTAL or DISCOUNT_PERCENT';
+  }
+
+  const threshold = Number(policy.threshold);
+  if (policy.threshold === '' || policy.threshold === null || isNaN(threshold) || threshold < 0) {
+    return 'Threshold must be zero or more';
+  }
+  if (policy.metric === 'DISCOUNT_PERCENT' && threshold > 100) {
+    return 'Discount threshold must be between 0 and 100%';
+  }
+
+  if (!Array.isArray(policy.approverRoleIds) || policy.approverRoleIds.length === 0) {
+    return 'Add at least one approver';
+  }
+  if (policy.approverRoleIds.some((roleId) => !roleId)) return 'Every step needs a role';
+  if (new Set(policy.approverRoleIds).size !== policy.approverRoleIds.length) {
+    return 'A role can only approve once per policy';
+  }
+  return null;
+}
+
+/**
+ * Load the active approval policies
+ */
+export async function getApprovalPolicies(
+  supabase: SupabaseClient
+): Promise<Pick<ApprovalPolicy, 'name' | 'metric' | 'threshold' | 'approverRoleIds'>[]> {
+  const { data, error } = await supabase
+    .from('approval_policies')
+    .select('name, metric, threshold, approverroleids')
+    .eq('isactive', true)
+    .order('createdat', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map((policy: any) => ({
+    name: policy.name,
+    metric: policy.metric,
+    threshold: Number(policy.threshold),
+    approverRoleIds: policy.approverroleids || [],
+  }));
+}
+
+/**
+ * Replace a quote's approval chain with new steps, all pending
+ */
+export async function startApprovalChain(
+  supabase: SupabaseClient,
+  quoteId: string,
+  steps: ApprovalStepDraft[]
+): Promise<QuoteApprovalStep[]> {
+  const { error: deleteError } = await supabase
+    .from('quote_approval_steps')
+    .delete()
+    .eq('quoteid', quoteId);
+
+  if (deleteError) throw deleteError;
+
+  const { data, error } = await supabase
+    .from('quote_approval_steps')
+    .insert(
+      steps.map((step, index) => ({
+        quoteid: quoteId,
+        steporder: index + 1,
+        roleid: step.roleId,
+        reason: step.reason,
+      }))
+    )
+    .select('*, role:roles(name)');
+
+  if (error) throw error;
+
+  return mapApprovalSteps(data);
+}
+
+/**
+ * Map a quote_approval_events row (with its user) to frontend format
+ */
+export function mapApprovalEvent(event: any): QuoteApprovalEvent {
+  return {
+    id: event.id,
+    quoteId: event.quoteid,
+    action: event.action,
+    userId: event.userid,
+    userName: event.user?.name ?? null,
+    userRole: event.user?.role?.name ?? null,
+    notes: event.notes,
+    quoteVersion: event.quoteversion,
+    stepOrder: event.steporder,
+    createdAt: event.createdat,
+  };
+}
+
+/**
+ * Add an event to a quote's approval history. The database records the signed-in user
+ * and the time.
+ */
+export async function recordApprovalEvent(
+  supabase: SupabaseClient,
+  event: {
+    quoteId: string;
+    action: ApprovalEventAction;
+    quoteVersion: number;
+    notes?: string | null;
+    stepOrder?: number | null;
+  }
+): Promise<QuoteApprovalEvent> {
+  const { data, error } = await supabase
+    .from('quote_approval_events')
+    .insert({
+      quoteid: event.quoteId,
+      action: event.action,
+      quoteversion: event.quoteVersion,
+      notes: event.notes?.trim() || null,
+      steporder: event.stepOrder ?? null,
+    })
+    .select(APPROVAL_EVENTS_SELECT)
+    .single();
+
+  if (error) throw error;
+
+  return mapApprovalEvent(data);
+}
@@ -85,6 +85,17 @@ const MOCK_DEV_PERMISSIONS: RolePermission[] = [
     canApprove: true,
     canExport: true,
   },
+  {
+    id: 'dev-perm-5',
+    roleId: 'dev-role-id',
+    resource: 'margins',
+    canCreate: false,
+    canRead: true,
+    canEdit: false,
+    canDelete: false,
+    canApprove: false,
+    canExport: false,
+  },
 ];
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
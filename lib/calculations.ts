@@ -1,79 +1,166 @@
-import { DiscountMode } from './types';
-import { QuoteItemWithProduct, QuoteCalculations, CategoryContribution } from './types';
+import { DiscountMode, DiscountType, QuoteItemKind, SupplyType } from './types';
+import {
+  QuoteCalculations,
+  CategoryContribution,
+  SectionSubtotal,
+  TaxBreakdown,
+  TaxSlabSummary,
+} from './types';
+import { PricingItem, PricingSection, priceLinePaise, priceQuote, fromPaise } from './pricing';
+
+export { getLineTaxRate, isIncludedInTotal } from './pricing';
+
+// Heading for items that have not been placed in a room/section
+export const UNASSIGNED_SECTION_NAME = 'Other Items';
+
+/**
+ * Group items under their sections in section order; items without a (known) section
+ * are collected last. Returns an empty list when the quote has no sections.
+ */
+export function groupItemsBySection<T extends { sectionId?: string | null }>(
+  items: T[],
+  sections: { id: string; name: string }[]
+): { sectionId: string | null; name: string; items: T[] }[] {
+  if (sections.length === 0) return [];
+
+  const groups = sections.map((section) => ({
+    sectionId: section.id as string | null,
+    name: section.name,
+    items: items.filter((item) => item.sectionId === section.id),
+  }));
+
+  const sectionIds = new Set(sections.map((section) => section.id));
+  const unassigned = items.filter((item) => !item.sectionId || !sectionIds.has(item.sectionId));
+  if (unassigned.length > 0) {
+    groups.push({ sectionId: null, name: UNASSIGNED_SECTION_NAME, items: unassigned });
+  }
+
+  return groups;
+}
 
 export function calculateLineTotal(
   quantity: number,
   rate: number,
-  discount: number = 0
+  discount: number = 0,
+  discountType: DiscountType = 'PERCENT'
 ): number {
-  const subtotal = quantity * rate;
-  const discountAmount = (subtotal * discount) / 100;
-  return subtotal - discountAmount;
+  return fromPaise(priceLinePaise(quantity, rate, discount, discountType).netPaise);
+}
+
+/**
+ * Fold an accepted optional/alternative item into the main total.
+ * An optional item simply becomes standard. An alternative takes the place of the
+ * item it replaces, which becomes an alternative of the accepted one (as do any
+ * sibling alternatives), so the client can still switch back.
+ */
+export function acceptItemOption<
+  T extends { id: string; kind?: QuoteItemKind | null; alternativeOfId?: string | null }
+>(items: T[], itemId: string): T[] {
+  const accepted = items.find((item) => item.id === itemId);
+  if (!accepted || !accepted.kind || accepted.kind === 'STANDARD') return items;
+
+  const replacedId = accepted.kind === 'ALTERNATIVE' ? accepted.alternativeOfId : null;
+
+  return items.map((item) => {
+    if (item.id === itemId) {
+      return { ...item, kind: 'STANDARD', alternativeOfId: null };
+    }
+    if (replacedId && (item.id === replacedId || item.alternativeOfId === replacedId)) {
+      return { ...item, kind: 'ALTERNATIVE', alternativeOfId: itemId };
+    }
+    return item;
+  });
 }
 
+/**
+ * Quote totals in rupees, computed by the shared paise pricing engine
+ */
 export function calculateQuoteTotals(
-  items: QuoteItemWithProduct[],
+  items: PricingItem[],
   discountMode: DiscountMode,
   overallDiscount: number = 0,
-  taxRate: number = 18
+  taxRate: number = 18,
+  supplyType: SupplyType = 'INTRA_STATE',
+  sections: (PricingSection & { name: string })[] = [],
+  overallDiscountType: DiscountType = 'PERCENT'
 ): QuoteCalculations {
-  // Calculate subtotal (sum of all line totals before overall discount)
-  const subtotal = items.reduce((sum, item) => {
-    if (discountMode === 'LINE_ITEM' || discountMode === 'BOTH') {
-      return sum + calculateLineTotal(item.quantity, item.rate, item.discount);
-    } else {
-      return sum + (item.quantity * item.rate);
-    }
-  }, 0);
-
-  // Calculate discount
-  let discount = 0;
-  if (discountMode === 'OVERALL' || discountMode === 'BOTH') {
-    discount = (subtotal * overallDiscount) / 100;
-  }
+  const priced = priceQuote({
+    items,
+    sections,
+    discountMode,
+    overallDiscount,
+    overallDiscountType,
+    taxRate,
+    supplyType,
+  });
 
-  // Calculate taxable amount
-  const taxableAmount = subtotal - discount;
+  const taxSummary: TaxSlabSummary[] = priced.slabs.map((slab) => ({
+    hsnCode: slab.hsnCode,
+    taxRate: slab.taxRate,
+    taxableAmount: fromPaise(slab.taxablePaise),
+    cgst: fromPaise(slab.cgstPaise),
+    sgst: fromPaise(slab.sgstPaise),
+    igst: fromPaise(slab.igstPaise),
+    totalTax: fromPaise(slab.taxPaise),
+  }));
 
-  // Calculate tax
-  const tax = (taxableAmount * taxRate) / 100;
+  // Overall split; rates are only meaningful when every line shares one slab
+  const rates = new Set(priced.slabs.map((slab) => slab.taxRate));
+  const uniformRate = rates.size <= 1 ? (priced.slabs[0]?.taxRate ?? taxRate) : null;
+  const splitRate = uniformRate === null ? null : uniformRate / 2;
+  const taxBreakdown: TaxBreakdown = {
+    supplyType,
+    cgstRate: supplyType === 'INTRA_STATE' ? splitRate : 0,
+    cgst: fromPaise(priced.cgstPaise),
+    sgstRate: supplyType === 'INTRA_STATE' ? splitRate : 0,
+    sgst: fromPaise(priced.sgstPaise),
+    igstRate: supplyType === 'INTER_STATE' ? uniformRate : 0,
+    igst: fromPaise(priced.igstPaise),
+  };
 
-  // Calculate grand total
-  const grandTotal = taxableAmount + tax;
+  // Section subtotals (after line discounts, before section and overall discounts)
+  const lineTotals = priced.lines.map((line) => fromPaise(line.netPaise));
+  const sectionSubtotals: SectionSubtotal[] = groupItemsBySection(
+    items.map((item, index) => ({
+      sectionId: item.sectionId,
+      netPaise: priced.lines[index].included ? priced.lines[index].netPaise : 0,
+    })),
+    sections
+  ).map((group) => ({
+    sectionId: group.sectionId,
+    name: group.name,
+    subtotal: fromPaise(group.items.reduce((sum, line) => sum + line.netPaise, 0)),
+    discount: fromPaise(
+      priced.sections.find((section) => section.id === group.sectionId)?.discountPaise || 0
+    ),
+  }));
 
-  // Calculate category contributions
+  // Calculate category contributions (after each line's share of section and overall discounts)
   const categoryMap = new Map<string, number>();
-  
-  items.forEach(item => {
-    const categoryName = item.product.category.name;
-    let itemTotal = 0;
-    
-    if (discountMode === 'LINE_ITEM' || discountMode === 'BOTH') {
-      itemTotal = calculateLineTotal(item.quantity, item.rate, item.discount);
-    } else {
-      itemTotal = item.quantity * item.rate;
-    }
-    
-    // Apply proportional overall discount if applicable
-    if (discountMode === 'OVERALL' || discountMode === 'BOTH') {
-      const proportion = itemTotal / subtotal;
-      itemTotal -= discount * proportion;
-    }
-    
+
+  items.forEach((item, index) => {
+    if (!priced.lines[index].included) return;
+    const categoryName = item.product?.category?.name || 'Uncategorized';
     const current = categoryMap.get(categoryName) || 0;
-    categoryMap.set(categoryName, current + itemTotal);
+    categoryMap.set(categoryName, current + priced.lines[index].taxablePaise);
   });
 
   const categoryContributions: CategoryContribution[] = Array.from(categoryMap.entries())
-    .map(([categoryName, total]) => ({ categoryName, total }))
+    .map(([categoryName, total]) => ({ categoryName, total: fromPaise(total) }))
     .sort((a, b) => b.total - a.total);
 
   return {
-    subtotal,
-    discount,
-    taxableAmount,
-    tax,
-    grandTotal,
+    subtotal: fromPaise(priced.subtotalPaise),
+    sectionDiscount: fromPaise(priced.sectionDiscountPaise),
+    overallDiscount: fromPaise(priced.overallDiscountPaise),
+    discount: fromPaise(priced.discountPaise),
+    taxableAmount: fromPaise(priced.taxablePaise),
+    tax: fromPaise(priced.taxPaise),
+    taxBreakdown,
+    taxSummary,
+    grandTotal: fromPaise(priced.grandTotalPaise),
+    lineTotals,
+    sectionSubtotals,
     categoryContributions,
   };
 }
@@ -85,13 +172,9 @@ export function formatCurrency(amount: number, currency: string = '₹'): string
   })}`;
 }
 
-export function generateQuoteNumber(): string {
-  const date = new Date();
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-  return `QT-${year}${month}-${random}`;
+/**
+ * Display a discount as entered, e.g. "10%" or "₹ 5,000.00"
+ */
+export function formatDiscount(discount: number, discountType: DiscountType = 'PERCENT'): string {
+  return discountType === 'AMOUNT' ? formatCurrency(discount) : `${discount}%`;
 }
-
-
-
@@ -0,0 +1,202 @@
+/**
+ * Measurement-based quantities: a line's quantity is the total of its surfaces, less
+ * deductions for openings, plus a wastage allowance, converted into the product's unit.
+ */
+
+import { ItemDimensions, MeasurementEntry } from './types';
+import { getConversionFactor } from './unit-conversions';
+
+// Units measurements can be entered in
+export const DIMENSION_INPUT_UNITS = ['ft', 'in', 'm', 'cm', 'mm'];
+
+export type MeasureKind = 'linear' | 'area' | 'volume';
+
+export interface MeasureBasis {
+  kind: MeasureKind;
+  lengthUnit: string; // Linear unit the product's unit is built on, e.g. 'ft' for 'sq ft'
+}
+
+// Product units (normalised: lowercase, no spaces or dots) that can be measured
+const MEASURE_BASES: Record<string, MeasureBasis> = {
+  ft: { kind: 'linear', lengthUnit: 'ft' },
+  rft: { kind: 'linear', lengthUnit: 'ft' },
+  m: { kind: 'linear', lengthUnit: 'm' },
+  rm: { kind: 'linear', lengthUnit: 'm' },
+  in: { kind: 'linear', lengthUnit: 'in' },
+  inch: { kind: 'linear', lengthUnit: 'in' },
+  cm: { kind: 'linear', lengthUnit: 'cm' },
+  mm: { kind: 'linear', lengthUnit: 'mm' },
+  sqft: { kind: 'area', lengthUnit: 'ft' },
+  sqm: { kind: 'area', lengthUnit: 'm' },
+  sqinch: { kind: 'area', lengthUnit: 'in' },
+  sqin: { kind: 'area', lengthUnit: 'in' },
+  sqcm: { kind: 'area', lengthUnit: 'cm' },
+  sqyd: { kind: 'area', lengthUnit: 'yd' },
+  sqyard: { kind: 'area', lengthUnit: 'yd' },
+  cuft: { kind: 'volume', lengthUnit: 'ft' },
+  cum: { kind: 'volume', lengthUnit: 'm' },
+  cuin: { kind: 'volume', lengthUnit: 'in' },
+  cuyd: { kind: 'volume', lengthUnit: 'yd' },
+};
+
+const POWERS: Record<MeasureKind, number> = { linear: 1, area: 2, volume: 3 };
+
+/**
+ * How a product unit is measured, or null for units that are counted (pcs, set...)
+ */
+export function getMeasureBasis(unit: string | null | undefined): MeasureBasis | null {
+  if (!unit) return null;
+  return MEASURE_BASES[unit.toLowerCase().replace(/[\s.]/g, '')] || null;
+}
+
+export function createMeasurementEntry(label: string = ''): MeasurementEntry {
+  return { label, length: 0, width: 0, height: 0, count: 1 };
+}
+
+/**
+ * Measure of one entry in the input unit: length, area or volume, times its count
+ */
+export function measureEntry(entry: MeasurementEntry, kind: MeasureKind): number {
+  let measure = entry.length || 0;
+  if (kind !== 'linear') measure *= entry.width || 0;
+  if (kind === 'volume') measure *= entry.height || 0;
+  return measure * (entry.count ?? 1);
+}
+
+export interface DimensionsBreakdown {
+  surfaces: number[]; // Each surface in the product's unit
+  deductions: number[]; // Each deduction in the product's unit
+  gross: number;
+  deducted: number;
+  net: number;
+  wastage: number;
+  quantity: number;
+}
+
+const round = (value: number, decimals: number = 2) =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Work out a line's quantity from its measurements, in the product's unit.
+ * Returns null when the product unit can't be measured or the units don't convert.
+ */
+export function calculateDimensions(
+  dimensions: ItemDimensions,
+  productUnit: string | null | undefined
+): DimensionsBreakdown | null {
+  const basis = getMeasureBasis(productUnit);
+  if (!basis) return null;
+
+  const factor = getConversionFactor(dimensions.unit, basis.lengthUnit);
+  if (factor === null) return null;
+
+  const scale = factor ** POWERS[basis.kind];
+  const toProductUnit = (entry: MeasurementEntry) => measureEntry(entry, basis.kind) * scale;
+
+  const surfaces = dimensions.surfaces.map(toProductUnit);
+  const deductions = dimensions.deductions.map(toProductUnit);
+  const gross = surfaces.reduce((sum, value) => sum + value, 0);
+  const deducted = deductions.reduce((sum, value) => sum + value, 0);
+  const net = Math.max(gross - deducted, 0);
+  const wastage = (net * (dimensions.wastagePercent || 0)) / 100;
+
+  return {
+    surfaces: surfaces.map((value) => round(value, 3)),
+    deductions: deductions.map((value) => round(value, 3)),
+    gross: round(gross, 3),
+    deducted: round(deducted, 3),
+    net: round(net, 3),
+    wastage: round(wastage, 3),
+    quantity: round(net + wastage),
+  };
+}
+
+function toEntry(raw: any): MeasurementEntry {
+  return {
+    label: typeof raw?.label === 'string' ? raw.label : '',
+    length: Math.max(Number(raw?.length) || 0, 0),
+    width: Math.max(Number(raw?.width) || 0, 0),
+    height: Math.max(Number(raw?.height) || 0, 0),
+    count: raw?.count === undefined ? 1 : Math.max(Math.floor(Number(raw.count)) || 0, 0),
+  };
+}
+
+/**
+ * Read a stored dimensions value into the typed schema, or null if there are no measurements.
+ * Also upgrades the older { length, width } format, which was always in feet.
+ */
+export function parseDimensions(raw: any): ItemDimensions | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  if (!Array.isArray(raw.surfaces)) {
+    if (!raw.length && !raw.width) return null;
+    return {
+      unit: 'ft',
+      surfaces: [toEntry({ length: raw.length, width: raw.width })],
+      deductions: [],
+      wastagePercent: 0,
+    };
+  }
+
+  if (raw.surfaces.length === 0) return null;
+
+  return {
+    unit: DIMENSION_INPUT_UNITS.includes(raw.unit) ? raw.unit : 'ft',
+    surfaces: raw.surfaces.map(toEntry),
+    deductions: Array.isArray(raw.deductions) ? raw.deductions.map(toEntry) : [],
+    wastagePercent: Math.max(Number(raw.wastagePercent) || 0, 0),
+  };
+}
+
+/**
+ * One entry as text, e.g. "North wall: 12 × 9 ft × 2"
+ */
+export function formatMeasurementEntry(
+  entry: MeasurementEntry,
+  kind: MeasureKind,
+  unit: string
+): string {
+  const parts = [entry.length];
+  if (kind !== 'linear') parts.push(entry.width || 0);
+  if (kind === 'volume') parts.push(entry.height || 0);
+
+  const size = `${parts.join(' × ')} ${unit}`;
+  const count = entry.count !== 1 ? ` × ${entry.count}` : '';
+  return entry.label ? `${entry.label}: ${size}${count}` : `${size}${count}`;
+}
+
+/**
+ * Printable measurement breakdown for a line, one row per surface/deduction plus
+ * wastage, each with its measure in the product's unit
+ */
+export function getMeasurementLines(
+  dimensions: ItemDimensions | null | undefined,
+  productUnit: string | null | undefined
+): { label: string; value: string }[] {
+  if (!dimensions) return [];
+
+  const basis = getMeasureBasis(productUnit);
+  const breakdown = calculateDimensions(dimensions, productUnit);
+  if (!basis || !breakdown) return [];
+
+  const unit = productUnit || '';
+  const lines = [
+    ...dimensions.surfaces.map((entry, i) => ({
+      label: formatMeasurementEntry(entry, basis.kind, dimensions.unit),
+      value: `${breakdown.surfaces[i]} ${unit}`,
+    })),
+    ...dimensions.deductions.map((entry, i) => ({
+      label: `Less ${formatMeasurementEntry(entry, basis.kind, dimensions.unit)}`,
+      value: `-${breakdown.deductions[i]} ${unit}`,
+    })),
+  ];
+
+  if (breakdown.wastage > 0) {
+    lines.push({
+      label: `Wastage ${dimensions.wastagePercent}%`,
+      value: `+${breakdown.wastage} ${unit}`,
+    });
+  }
+
+  return lines;
+}
@@ -0,0 +1,143 @@
+/**
+ * Discount limits per role, e.g. "max 10% line discount for Sales Executive"
+ * Limits are percentages of the discounted amount, so fixed-amount discounts are held
+ * to the same limits. They are enforced by the quote API routes, not just the builder.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DiscountRule, DiscountScope, DiscountType } from './types';
+import {
+  PricingInput,
+  PricingSection,
+  effectiveDiscountPercent,
+  percentOfPaise,
+  priceQuote,
+} from './pricing';
+
+export const DISCOUNT_SCOPES: { value: DiscountScope; label: string }[] = [
+  { value: 'LINE', label: 'Line item' },
+  { value: 'SECTION', label: 'Room/section' },
+  { value: 'QUOTE', label: 'Overall quote' },
+];
+
+export interface DiscountRuleViolation {
+  scope: DiscountScope;
+  label: string; // Which line, section or quote broke the limit
+  maxPercent: number;
+  actualPercent: number;
+}
+
+/**
+ * Load the discount rules that apply to a role
+ */
+export async function getDiscountRules(
+  supabase: SupabaseClient,
+  roleId: string | null | undefined
+): Promise<Pick<DiscountRule, 'scope' | 'maxPercent'>[]> {
+  if (!roleId) return [];
+
+  const { data, error } = await supabase
+    .from('discount_rules')
+    .select('scope, maxpercent')
+    .eq('roleid', roleId);
+
+  if (error) throw error;
+
+  return (data || []).map((rule: any) => ({
+    scope: rule.scope,
+    maxPercent: Number(rule.maxpercent),
+  }));
+}
+
+/**
+ * Check the discounts on a quote are usable at all, whatever the user's limits: percentages
+ * between 0 and 100, amounts zero or more. Returns an error message, or null if valid.
+ */
+export function getDiscountValueError(quote: {
+  items: { discount?: number | null; discountType?: DiscountType | null }[];
+  sections?: { name: string; discount?: number | null; discountType?: DiscountType | null }[];
+  overallDiscount?: number | null;
+  overallDiscountType?: DiscountType | null;
+}): string | null {
+  const check = (label: string, discount: number | null | undefined, discountType: DiscountType | null | undefined) => {
+    if (discount === undefined || discount === null) return null;
+
+    const value = Number(discount);
+    if (!Number.isFinite(value)) return `${label}: discount must be a number`;
+    if (discountType === 'AMOUNT') {
+      return value < 0 ? `${label}: discount amount cannot be negative` : null;
+    }
+    return value < 0 || value > 100 ? `${label}: discount must be between 0 and 100%` : null;
+  };
+
+  const errors = [
+    ...quote.items.map((item, index) => check(`Line ${index + 1}`, item.discount, item.discountType)),
+    ...(quote.sections || []).map((section) => check(section.name || 'Section', section.discount, section.discountType)),
+    check('Overall discount', quote.overallDiscount, quote.overallDiscountType),
+  ];
+
+  return errors.find((error) => error !== null) ?? null;
+}
+
+/**
+ * Check a quote's discounts against discount rules. A discount is within its limit when it
+ * is no larger than the limit percentage of its base, rounded the same way as the engine.
+ */
+export function findDiscountViolations(
+  rules: Pick<DiscountRule, 'scope' | 'maxPercent'>[],
+  input: PricingInput & { sections?: (PricingSection & { name: string })[] }
+): DiscountRuleViolation[] {
+  if (rules.length === 0) return [];
+
+  const priced = priceQuote(input);
+  const sections: (PricingSection & { name: string })[] = input.sections || [];
+
+  const limitFor = (scope: DiscountScope): number | null => {
+    const limits = rules.filter((rule) => rule.scope === scope).map((rule) => rule.maxPercent);
+    return limits.length > 0 ? Math.min(...limits) : null;
+  };
+
+  const violations: DiscountRuleViolation[] = [];
+  const check = (
+    scope: DiscountScope,
+    label: string,
+    basePaise: number,
+    discountPaise: number
+  ) => {
+    const maxPercent = limitFor(scope);
+    if (maxPercent === null || discountPaise <= percentOfPaise(basePaise, maxPercent)) return;
+    violations.push({
+      scope,
+      label,
+      maxPercent,
+      actualPercent: Math.round(effectiveDiscountPercent(basePaise, discountPaise) * 100) / 100,
+    });
+  };
+
+  priced.lines.forEach((line, index) => {
+    check('LINE', `Line ${index + 1}`, line.grossPaise, line.lineDiscountPaise);
+  });
+
+  priced.sections.forEach((section) => {
+    const name = sections.find((s) => s.id === section.id)?.name || 'Section';
+    check('SECTION', name, section.netPaise, section.discountPaise);
+  });
+
+  check(
+    'QUOTE',
+    'Overall discount',
+    priced.subtotalPaise - priced.sectionDiscountPaise,
+    priced.overallDiscountPaise
+  );
+
+  return violations;
+}
+
+/**
+ * Human-readable summary of violations for API error responses
+ */
+export function formatDiscountViolations(violations: DiscountRuleViolation[]): string {
+  return violations
+    .map((v) => `${v.label}: ${v.actualPercent}% discount exceeds the ${v.maxPercent}% limit for your role`)
+    .join('; ');
+}
@@ -0,0 +1,149 @@
+/**
+ * GST (Goods and Services Tax) helpers for Indian invoicing
+ * Determines place of supply for the CGST/SGST vs IGST split
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { SupplyType } from './types';
+
+export interface IndianState {
+  code: string; // Two-digit GST state code (also the first two digits of a GSTIN)
+  name: string;
+}
+
+/**
+ * GST state and union territory codes
+ */
+export const INDIAN_STATES: IndianState[] = [
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '18', name: 'Assam' },
+  { code: '10', name: 'Bihar' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '07', name: 'Delhi' },
+  { code: '30', name: 'Goa' },
+  { code: '24', name: 'Gujarat' },
+  { code: '06', name: 'Haryana' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '29', name: 'Karnataka' },
+  { code: '32', name: 'Kerala' },
+  { code: '38', name: 'Ladakh' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '14', name: 'Manipur' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '15', name: 'Mizoram' },
+  { code: '13', name: 'Nagaland' },
+  { code: '21', name: 'Odisha' },
+  { code: '34', name: 'Puducherry' },
+  { code: '03', name: 'Punjab' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '11', name: 'Sikkim' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '36', name: 'Telangana' },
+  { code: '16', name: 'Tripura' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '19', name: 'West Bengal' },
+];
+
+/**
+ * Standard GST slabs offered when configuring products
+ */
+export const GST_SLABS = [0, 5, 12, 18, 28];
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+/**
+ * Check whether a GSTIN has the standard 15-character format
+ */
+export function isValidGSTIN(gstin: string): boolean {
+  return GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+}
+
+/**
+ * Find a state by its name or two-digit GST code
+ */
+export function findState(value: string | null | undefined): IndianState | undefined {
+  if (!value) return undefined;
+  const normalized = value.trim().toLowerCase();
+  return INDIAN_STATES.find(
+    (s) => s.code === normalized || s.name.toLowerCase() === normalized
+  );
+}
+
+/**
+ * Derive the state from the first two digits of a GSTIN
+ */
+export function getStateFromGSTIN(gstin: string | null | undefined): IndianState | undefined {
+  if (!gstin || gstin.trim().length < 2) return undefined;
+  return findState(gstin.trim().substring(0, 2));
+}
+
+/**
+ * Resolve a party's state, preferring the explicit state and falling back to the GSTIN
+ */
+export function resolveState(
+  state: string | null | undefined,
+  gstin?: string | null
+): IndianState | undefined {
+  return findState(state) || getStateFromGSTIN(gstin);
+}
+
+/**
+ * Determine whether a supply is intra-state or inter-state.
+ * When the client's state is unknown the place of supply defaults to the
+ * supplier's location, so the supply is treated as intra-state.
+ */
+export function determineSupplyType(
+  companyState: IndianState | undefined,
+  clientState: IndianState | undefined
+): SupplyType {
+  if (!companyState || !clientState) return 'INTRA_STATE';
+  return companyState.code === clientState.code ? 'INTRA_STATE' : 'INTER_STATE';
+}
+
+/**
+ * Look up company and client states and determine the supply type for a quote.
+ * Used by the quote API routes so the stored totals carry the correct split.
+ */
+export async function getPlaceOfSupply(
+  supabase: SupabaseClient,
+  clientId: string | null | undefined
+): Promise<{ supplyType: SupplyType; placeOfSupply: string | null }> {
+  const { data: company } = await supabase
+    .from('company_settings')
+    .select('state, gstin')
+    .single();
+
+  let client: { state: string | null; gstin: string | null } | null = null;
+  if (clientId) {
+    const { data } = await supabase
+      .from('clients')
+      .select('state, gstin')
+      .eq('id', clientId)
+      .single();
+    client = data;
+  }
+
+  const companyState = resolveState(company?.state, company?.gstin);
+  const clientState = resolveState(client?.state, client?.gstin);
+
+  return {
+    supplyType: determineSupplyType(companyState, clientState),
+    placeOfSupply: (clientState || companyState)?.name || null,
+  };
+}
+
+/**
+ * Label a tax line, e.g. "CGST (9%)"; the rate is omitted when slabs are mixed
+ */
+export function formatTaxLabel(label: string, rate: number | null): string {
+  return rate === null ? label : `${label} (${rate}%)`;
+}
@@ -0,0 +1,265 @@
+/**
+ * Composite products (kits): a kit is quoted as one line but is made up of other products,
+ * e.g. a modular base unit = carcass + shutters + hardware + handles. Its rate is the sum of
+ * its components unless overridden, and a kit line can be exploded back into components.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { KitComponentSnapshot, ProductComponent } from './types';
+import { allocatePaise, fromPaise, toPaise } from './pricing';
+
+// Supabase select for a product's components with the component products embedded
+export const PRODUCT_COMPONENTS_SELECT = `components:product_components!product_components_kitid_fkey(
+  *,
+  component:products!product_components_componentid_fkey(*)
+)`;
+
+export interface KitComponentInput {
+  componentId: string;
+  quantity: number;
+}
+
+/**
+ * Map product_components rows (with embedded component products) to the frontend format
+ */
+export function mapProductComponents(rows: any[] | null | undefined): ProductComponent[] {
+  return (rows || [])
+    .map((row) => ({
+      id: row.id,
+      kitId: row.kitid,
+      componentId: row.componentid,
+      quantity: Number(row.quantity),
+      order: row.order,
+      component: row.component ? {
+        id: row.component.id,
+        itemCode: row.component.itemcode,
+        name: row.component.name,
+        description: row.component.description,
+        unit: row.component.unit,
+        categoryId: row.component.categoryid,
+        baseRate: Number(row.component.baserate),
+        hsnCode: row.component.hsncode,
+        taxRate: row.component.taxrate,
+        imageUrl: row.component.imageurl,
+        isActive: row.component.isactive,
+        isKit: row.component.iskit ?? false,
+        createdAt: row.component.createdat,
+        updatedAt: row.component.updatedat,
+      } : undefined,
+    }))
+    .sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Rate of one kit: each component's rate times its quantity, summed in paise
+ */
+export function calculateKitRate(
+  components: { quantity: number; component?: { baseRate: number } }[]
+): number {
+  const paise = components.reduce(
+    (sum, c) => sum + Math.round(toPaise(c.component?.baseRate || 0) * c.quantity),
+    0
+  );
+  return fromPaise(paise);
+}
+
+/**
+ * A product's rate: derived from its components for kits that don't override it
+ */
+export function resolveProductRate(product: {
+  baseRate: number;
+  isKit?: boolean;
+  kitRateOverride?: boolean;
+  components?: ProductComponent[];
+}): number {
+  if (!product.isKit || product.kitRateOverride || !product.components?.length) {
+    return product.baseRate;
+  }
+  return calculateKitRate(product.components);
+}
+
+/**
+ * Components a kit line is quoted with, copied from the catalog
+ */
+export function toKitSnapshot(components: ProductComponent[] | null | undefined): KitComponentSnapshot[] | null {
+  if (!components?.length) return null;
+
+  return components.map((c) => ({
+    productId: c.componentId,
+    itemCode: c.component?.itemCode || '',
+    name: c.component?.name || '',
+    unit: c.component?.unit ?? null,
+    quantity: c.quantity,
+    rate: c.component?.baseRate || 0,
+  }));
+}
+
+/**
+ * Read a stored kit components value, or null if the line isn't a kit
+ */
+export function parseKitComponents(raw: any): KitComponentSnapshot[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+
+  return raw
+    .filter((c) => c && typeof c.productId === 'string')
+    .map((c) => ({
+      productId: c.productId,
+      itemCode: typeof c.itemCode === 'string' ? c.itemCode : '',
+      name: typeof c.name === 'string' ? c.name : '',
+      unit: typeof c.unit === 'string' ? c.unit : null,
+      quantity: Math.max(Number(c.quantity) || 0, 0),
+      rate: Math.max(Number(c.rate) || 0, 0),
+    }));
+}
+
+/**
+ * Kit components to store on a quote line: the snapshot sent with the line, or the
+ * product's current components (from PRODUCT_COMPONENTS_SELECT) if none was sent
+ */
+export function resolveLineKitComponents(kitComponents: any, product: any): KitComponentSnapshot[] | null {
+  const snapshot = parseKitComponents(kitComponents);
+  if (snapshot || !product?.iskit) return snapshot;
+  return toKitSnapshot(mapProductComponents(product.components));
+}
+
+/**
+ * Validate a kit's components. Kits can't contain themselves or other kits.
+ * Returns an error message, or null if the components are valid.
+ */
+export function getKitComponentsError(
+  kitId: string | null,
+  components: KitComponentInput[],
+  componentProducts: { id: string; iskit?: boolean | null }[]
+): string | null {
+  if (components.length === 0) {
+    return 'A kit needs at least one component';
+  }
+
+  const seen = new Set<string>();
+  for (const component of components) {
+    if (!component.componentId) return 'Every kit component needs a product';
+    if (!(Number(component.quantity) > 0)) return 'Component quantities must be greater than zero';
+    if (component.componentId === kitId) return 'A kit cannot contain itself';
+    if (seen.has(component.componentId)) return 'Each product can only be added to a kit once';
+    seen.add(component.componentId);
+
+    const product = componentProducts.find((p) => p.id === component.componentId);
+    if (!product) return 'Kit component not found';
+    if (product.iskit) return 'Kits cannot contain other kits';
+  }
+
+  return null;
+}
+
+export interface ExplodedKitLine {
+  productId: string;
+  itemCode: string;
+  name: string;
+  unit: string | null;
+  quantity: number;
+  rate: number;
+  amount: number; // Share of the kit line's total
+}
+
+/**
+ * Explode a kit line into its components. Quantities are multiplied by the line's
+ * quantity and the line total is shared by each component's value, so the parts
+ * add up to the line exactly.
+ */
+export function explodeKitLine(item: {
+  quantity: number;
+  lineTotal: number;
+  kitComponents?: KitComponentSnapshot[] | null;
+}): ExplodedKitLine[] {
+  const components = item.kitComponents || [];
+  if (components.length === 0) return [];
+
+  const values = components.map((c) => Math.round(toPaise(c.rate) * c.quantity));
+  const weights = values.some((value) => value > 0) ? values : components.map((c) => c.quantity);
+  const amounts = allocatePaise(toPaise(item.lineTotal), weights);
+
+  return components.map((c, index) => ({
+    productId: c.productId,
+    itemCode: c.itemCode,
+    name: c.name,
+    unit: c.unit,
+    quantity: Math.round(item.quantity * c.quantity * 1000) / 1000,
+    rate: c.rate,
+    amount: fromPaise(amounts[index]),
+  }));
+}
+
+/**
+ * Check a kit's components against the catalog and work out its derived rate.
+ * Also stops a product that is already some kit's component from becoming a kit.
+ */
+export async function validateKit(
+  supabase: SupabaseClient,
+  kitId: string | null,
+  components: KitComponentInput[]
+): Promise<{ error: string | null; derivedRate: number }> {
+  if (components.length === 0) {
+    return { error: getKitComponentsError(kitId, components, []), derivedRate: 0 };
+  }
+
+  const { data: componentProducts, error } = await supabase
+    .from('products')
+    .select('id, iskit, baserate')
+    .in('id', components.map((c) => c.componentId).filter(Boolean));
+
+  if (error) throw error;
+
+  const componentsError = getKitComponentsError(kitId, components, componentProducts || []);
+  if (componentsError) return { error: componentsError, derivedRate: 0 };
+
+  if (kitId) {
+    const { count, error: usageError } = await supabase
+      .from('product_components')
+      .select('id', { count: 'exact', head: true })
+      .eq('componentid', kitId);
+
+    if (usageError) throw usageError;
+    if (count) {
+      return { error: 'This product is a component of another kit and cannot be a kit itself', derivedRate: 0 };
+    }
+  }
+
+  const derivedRate = calculateKitRate(
+    components.map((c) => ({
+      quantity: Number(c.quantity),
+      component: { baseRate: Number(componentProducts!.find((p) => p.id === c.componentId)?.baserate) || 0 },
+    }))
+  );
+
+  return { error: null, derivedRate };
+}
+
+/**
+ * Replace a kit's components (or clear them when the product is no longer a kit)
+ */
+export async function replaceKitComponents(
+  supabase: SupabaseClient,
+  kitId: string,
+  components: KitComponentInput[]
+): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('product_components')
+    .delete()
+    .eq('kitid', kitId);
+
+  if (deleteError) throw deleteError;
+  if (components.length === 0) return;
+
+  const { error } = await supabase
+    .from('product_components')
+    .insert(
+      components.map((c, index) => ({
+        kitid: kitId,
+        componentid: c.componentId,
+        quantity: Number(c.quantity),
+        order: index,
+      }))
+    );
+
+  if (error) throw error;
+}
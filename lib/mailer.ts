@@ -0,0 +1,91 @@
+/**
+ * Outgoing email over SMTP (server only). The server is configured with environment variables:
+ *
+ *   SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE ("true" for implicit TLS, usually port 465),
+ *   SMTP_USER and SMTP_PASSWORD (leave out for servers without auth), and SMTP_FROM, the
+ *   sender address, e.g. "Acme Interiors <quotes@acme.in>".
+ *
+ * For local testing, point it at an SMTP catcher such as Mailpit: SMTP_HOST=localhost,
+ * SMTP_PORT=1025, with no user or password.
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+export interface OutgoingMail {
+  to: string[];
+  cc?: string[];
+  replyTo?: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+let transporter: Transporter | null = null;
+
+/**
+ * SMTP settings from the environment, or null when email is not set up
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.SMTP_FROM;
+  if (!host || !from) return null;
+
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from,
+  };
+}
+
+function getTransporter(config: SmtpConfig): Transporter {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+  }
+  return transporter;
+}
+
+/**
+ * Send an email. Returns the Message-ID; throws if SMTP is not configured or the server
+ * refuses the message.
+ */
+export async function sendMail(mail: OutgoingMail): Promise<string> {
+  const config = getSmtpConfig();
+  if (!config) {
+    throw new Error('Email is not configured: set SMTP_HOST and SMTP_FROM');
+  }
+
+  const info = await getTransporter(config).sendMail({
+    from: config.from,
+    to: mail.to,
+    cc: mail.cc && mail.cc.length > 0 ? mail.cc : undefined,
+    replyTo: mail.replyTo,
+    subject: mail.subject,
+    text: mail.text,
+    attachments: mail.attachments,
+  });
+
+  return info.messageId;
+}
@@ -0,0 +1,153 @@
+/**
+ * Cost and margin: each quote line carries the product's cost per unit as it was when
+ * quoted. A line's margin is its revenue after every discount (before GST) less its cost;
+ * the quote margin covers the lines in the total that have a cost. Quotes whose margin
+ * falls below the company minimum are routed for approval by the quote API routes.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PricingInput, PricingItem, fromPaise, priceQuote, roundPaise, toPaise } from './pricing';
+
+export interface MarginItem extends PricingItem {
+  costPrice?: number | null;
+}
+
+export interface Margin {
+  revenue: number; // Pre-tax, after line, section and overall discounts
+  cost: number;
+  margin: number;
+  marginPercent: number | null; // Share of revenue; null when there is no revenue
+}
+
+export interface QuoteMargin extends Margin {
+  lines: (Margin | null)[]; // Per line in item order; null for lines without a cost
+  uncostedLines: number; // Lines in the total that have no cost and are left out
+}
+
+function toMargin(revenuePaise: number, costPaise: number): Margin {
+  const marginPaise = revenuePaise - costPaise;
+  return {
+    revenue: fromPaise(revenuePaise),
+    cost: fromPaise(costPaise),
+    margin: fromPaise(marginPaise),
+    marginPercent: revenuePaise > 0 ? Math.round((marginPaise / revenuePaise) * 10000) / 100 : null,
+  };
+}
+
+/**
+ * Margin of every line and of the quote as a whole
+ */
+export function calculateMargins(input: PricingInput & { items: MarginItem[] }): QuoteMargin {
+  const priced = priceQuote(input);
+  let revenuePaise = 0;
+  let costPaise = 0;
+  let uncostedLines = 0;
+
+  const lines = priced.lines.map((line, index) => {
+    const item = input.items[index];
+    const hasCost = item.costPrice !== undefined && item.costPrice !== null;
+
+    if (!hasCost) {
+      if (line.included) uncostedLines++;
+      return null;
+    }
+
+    const lineCostPaise = roundPaise((item.quantity || 0) * toPaise(Number(item.costPrice)));
+    if (line.included) {
+      revenuePaise += line.taxablePaise;
+      costPaise += lineCostPaise;
+    }
+    return toMargin(line.taxablePaise, lineCostPaise);
+  });
+
+  return { ...toMargin(revenuePaise, costPaise), lines, uncostedLines };
+}
+
+/**
+ * Why a quote needs approval on margin grounds, or null if its margin is acceptable.
+ * Quotes without any costed lines, or with no minimum configured, are never routed.
+ */
+export function getMarginApprovalReason(
+  margin: Pick<Margin, 'marginPercent'>,
+  minMarginPercent: number | null
+): string | null {
+  if (minMarginPercent === null || margin.marginPercent === null) return null;
+  if (margin.marginPercent >= minMarginPercent) return null;
+  return `Margin ${margin.marginPercent}% is below the ${minMarginPercent}% minimum`;
+}
+
+export function formatMarginPercent(marginPercent: number | null): string {
+  return marginPercent === null ? '—' : `${marginPercent.toFixed(1)}%`;
+}
+
+/**
+ * Cost price from a request body; blank means not known
+ */
+export function parseCostPrice(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  return Number(value);
+}
+
+/**
+ * Cost to snapshot onto a saved line. Users who can see margins send the cost they were
+ * shown; for anyone else the line keeps the fallback (its earlier snapshot or the product's cost).
+ */
+export function resolveLineCostPrice(
+  sentCost: unknown,
+  fallbackCost: number | string | null | undefined,
+  trustSentCost: boolean
+): number | null {
+  if (trustSentCost && sentCost !== undefined) return parseCostPrice(sentCost);
+  return parseCostPrice(fallbackCost);
+}
+
+/**
+ * Cost fields for an API response built by spreading a database row: the cost in frontend
+ * format for users who can read margins, and the raw column left out for everyone else
+ */
+export function mapCostPrice(
+  costprice: number | string | null | undefined,
+  visible: boolean
+): { costprice: undefined; costPrice?: number | null } {
+  if (!visible) return { costprice: undefined };
+  return {
+    costprice: undefined,
+    costPrice: costprice === null || costprice === undefined ? null : Number(costprice),
+  };
+}
+
+/**
+ * Minimum margin from company settings; null when margin approvals are turned off
+ */
+export async function getMinMarginPercent(supabase: SupabaseClient): Promise<number | null> {
+  const { data: company } = await supabase
+    .from('company_settings')
+    .select('minmarginpercent')
+    .single();
+
+  return company?.minmarginpercent === null || company?.minmarginpercent === undefined
+    ? null
+    : Number(company.minmarginpercent);
+}
+
+/**
+ * Whether the signed-in user may see cost prices and margins
+ */
+export async function canViewMargins(supabase: SupabaseClient): Promise<boolean> {
+  const { data } = await supabase.rpc('has_permission', {
+    resource_name: 'margins',
+    permission_type: 'canread',
+  });
+  return data === true;
+}
+
+/**
+ * Whether the signed-in user can approve quotes, so their own quotes need no approval
+ */
+export async function canApproveQuotes(supabase: SupabaseClient): Promise<boolean> {
+  const { data } = await supabase.rpc('has_permission', {
+    resource_name: 'quotes',
+    permission_type: 'canapprove',
+  });
+  return data === true;
+}
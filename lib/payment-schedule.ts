@@ -0,0 +1,88 @@
+/**
+ * Payment milestone schedules: each milestone is a percentage of the grand total or a fixed
+ * amount, falling due at a project trigger (booking, design sign-off, delivery, handover).
+ * Amounts are worked out in paise so the schedule adds up exactly.
+ */
+
+import { MilestoneValueType, PaymentTrigger } from './types';
+import { allocatePaise, fromPaise, percentOfPaise, toPaise } from './pricing';
+
+export const PAYMENT_TRIGGERS: { value: PaymentTrigger; label: string }[] = [
+  { value: 'BOOKING', label: 'On booking' },
+  { value: 'DESIGN_SIGNOFF', label: 'On design sign-off' },
+  { value: 'DELIVERY', label: 'On delivery' },
+  { value: 'HANDOVER', label: 'On handover' },
+];
+
+export interface MilestoneInput {
+  name: string;
+  valueType: MilestoneValueType;
+  value: number;
+  trigger: PaymentTrigger;
+}
+
+// Used when no default schedule has been set up in Settings
+export const DEFAULT_PAYMENT_MILESTONES: MilestoneInput[] = [
+  { name: 'Advance', valueType: 'PERCENT', value: 50, trigger: 'BOOKING' },
+  { name: 'Balance', valueType: 'PERCENT', value: 50, trigger: 'HANDOVER' },
+];
+
+export function getPaymentTriggerLabel(trigger: PaymentTrigger): string {
+  return PAYMENT_TRIGGERS.find((t) => t.value === trigger)?.label || trigger;
+}
+
+/**
+ * Rupee amount of each milestone. Percentage milestones share their combined percentage of
+ * the grand total by largest remainder, so a 100% schedule always matches the total exactly.
+ */
+export function calculateMilestoneAmounts(
+  milestones: Pick<MilestoneInput, 'valueType' | 'value'>[],
+  grandTotal: number
+): number[] {
+  const totalPaise = toPaise(grandTotal);
+  const percents = milestones.map((m) => (m.valueType === 'PERCENT' ? m.value || 0 : 0));
+  const percentTotal = percents.reduce((sum, p) => sum + p, 0);
+  const percentPaise = allocatePaise(percentOfPaise(totalPaise, percentTotal), percents);
+
+  return milestones.map((milestone, index) =>
+    fromPaise(milestone.valueType === 'AMOUNT' ? toPaise(milestone.value) : percentPaise[index])
+  );
+}
+
+/**
+ * Problem with a schedule that would make it unusable, or null if it is valid.
+ * Pass the grand total to also check the schedule doesn't ask for more than the quote is worth.
+ */
+export function getPaymentScheduleError(
+  milestones: MilestoneInput[],
+  grandTotal?: number
+): string | null {
+  for (const milestone of milestones) {
+    if (!milestone.name?.trim()) {
+      return 'Every payment milestone needs a name';
+    }
+    if (!PAYMENT_TRIGGERS.some((t) => t.value === milestone.trigger)) {
+      return `"${milestone.name}" has an invalid trigger`;
+    }
+    if (!(Number(milestone.value) > 0)) {
+      return `"${milestone.name}" must be more than zero`;
+    }
+  }
+
+  const percentTotal = milestones
+    .filter((m) => m.valueType === 'PERCENT')
+    .reduce((sum, m) => sum + Number(m.value), 0);
+  if (percentTotal > 100) {
+    return `Payment milestones add up to ${percentTotal}%, more than 100%`;
+  }
+
+  if (grandTotal !== undefined) {
+    const scheduledPaise = calculateMilestoneAmounts(milestones, grandTotal)
+      .reduce((sum, amount) => sum + toPaise(amount), 0);
+    if (scheduledPaise > toPaise(grandTotal)) {
+      return 'Payment milestones add up to more than the grand total';
+    }
+  }
+
+  return null;
+}
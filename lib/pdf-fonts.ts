@@ -0,0 +1,41 @@
+/**
+ * Fonts for PDF generation, loaded from public/fonts so export works without internet access.
+ * Server only: fonts are read from the file system.
+ *
+ * Inter only covers Latin, so every font stack ends in Noto Sans Devanagari: react-pdf picks
+ * the first font in the stack that has a glyph for each character, which lets Hindi and
+ * Marathi names and addresses render inside otherwise Latin text.
+ */
+
+import path from 'path';
+import { Font } from '@react-pdf/renderer';
+import { PdfFontFamily } from './types';
+
+const FONTS_DIR = path.join(process.cwd(), 'public', 'fonts');
+const FONT_WEIGHTS = [400, 500, 600, 700] as const;
+
+// Family name used in styles -> file name prefix under public/fonts/<dir>
+const BUNDLED_FONTS: { family: PdfFontFamily; dir: string; file: string }[] = [
+  { family: 'Inter', dir: 'inter', file: 'inter-latin' },
+  { family: 'Noto Sans Devanagari', dir: 'noto-sans-devanagari', file: 'noto-sans-devanagari-devanagari' },
+];
+
+const DEVANAGARI_FONT: PdfFontFamily = 'Noto Sans Devanagari';
+
+for (const { family, dir, file } of BUNDLED_FONTS) {
+  Font.register({
+    family,
+    fonts: FONT_WEIGHTS.map((fontWeight) => ({
+      src: path.join(FONTS_DIR, dir, `${file}-${fontWeight}-normal.woff`),
+      fontWeight,
+    })),
+  });
+}
+
+/**
+ * Font stack for a family: the family itself, then fonts for the characters it lacks.
+ * The Devanagari font has no Latin letters, so it falls back to Inter.
+ */
+export function getPdfFontStack(family: PdfFontFamily): PdfFontFamily[] {
+  return family === DEVANAGARI_FONT ? [DEVANAGARI_FONT, 'Inter'] : [family, DEVANAGARI_FONT];
+}
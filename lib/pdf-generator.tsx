@@ -1,6 +1,6 @@
 /**
  * PDF Generation Module for Intelli-Quoter
- * Simplified version without template engine
+ * Layout, colours and columns come from a PDF template (see lib/pdf-template.ts)
  */
 
 import React from 'react';
@@ -9,149 +9,307 @@ import {
   Page,
   Text,
   View,
+  Image,
   StyleSheet,
   pdf,
-  Font
 } from '@react-pdf/renderer';
-import { QuoteWithDetails } from './types';
+import QRCode from 'qrcode';
+import {
+  QuoteWithDetails,
+  QuoteItemWithProduct,
+  CompanySettings,
+  PdfItemColumn,
+  PdfTemplateDefinition,
+  PdfTemplateSection,
+} from './types';
+import {
+  calculateQuoteTotals,
+  getLineTaxRate,
+  groupItemsBySection,
+  isIncludedInTotal,
+} from './calculations';
+import { formatTaxLabel } from './gst';
+import { formatQuoteNumberWithRevision } from './quote-number';
+import { calculateMilestoneAmounts, getPaymentTriggerLabel } from './payment-schedule';
+import { getMeasurementLines } from './dimensions';
+import { formatVariantOptions } from './variants';
+import { DEFAULT_PDF_TEMPLATE, getPdfColumnLabel } from './pdf-template';
+import { getPdfFontStack } from './pdf-fonts';
 
-// Register fonts
-Font.register({
-  family: 'Inter',
-  fonts: [
-    { src: 'https://cdn.jsdelivr.net/npm/@fontsource/inter@4.5.0/files/inter-latin-400-normal.woff' },
-    { src: 'https://cdn.jsdelivr.net/npm/@fontsource/inter@4.5.0/files/inter-latin-500-normal.woff', fontWeight: 500 },
-    { src: 'https://cdn.jsdelivr.net/npm/@fontsource/inter@4.5.0/files/inter-latin-600-normal.woff', fontWeight: 600 },
-    { src: 'https://cdn.jsdelivr.net/npm/@fontsource/inter@4.5.0/files/inter-latin-700-normal.woff', fontWeight: 700 },
-  ]
-});
+/**
+ * Styles for a template: colours and fonts come from its theme, and text sizes scale from its
+ * base font size (the size of table text)
+ */
+const createStyles = ({ theme }: PdfTemplateDefinition) => {
+  const bodyFont = getPdfFontStack(theme.fontFamily);
+  const headingFont = getPdfFontStack(theme.headingFontFamily || theme.fontFamily);
 
-// Define styles
-const styles = StyleSheet.create({
-  page: {
-    flexDirection: 'column',
-    backgroundColor: '#ffffff',
-    padding: 40,
-    fontFamily: 'Inter',
-  },
-  header: {
-    marginBottom: 20,
-    borderBottom: '2 solid #1e40af',
-    paddingBottom: 10,
-  },
-  title: {
-    fontSize: 24,
-    fontWeight: 700,
-    color: '#1e40af',
-    marginBottom: 5,
-  },
-  subtitle: {
-    fontSize: 12,
-    color: '#6b7280',
-  },
-  section: {
-    marginBottom: 20,
-  },
-  sectionTitle: {
-    fontSize: 14,
-    fontWeight: 600,
-    marginBottom: 10,
-    color: '#111827',
-  },
-  row: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginBottom: 5,
-  },
-  label: {
-    fontSize: 10,
-    color: '#6b7280',
-    width: '40%',
-  },
-  value: {
-    fontSize: 10,
-    color: '#111827',
-    width: '60%',
-  },
-  table: {
-    marginBottom: 20,
-  },
-  tableHeader: {
-    flexDirection: 'row',
-    backgroundColor: '#f3f4f6',
-    padding: 8,
-    borderBottom: '1 solid #e5e7eb',
-  },
-  tableHeaderCell: {
-    fontSize: 10,
-    fontWeight: 600,
-    color: '#374151',
-  },
-  tableRow: {
-    flexDirection: 'row',
-    padding: 8,
-    borderBottom: '1 solid #e5e7eb',
-  },
-  tableCell: {
-    fontSize: 9,
-    color: '#111827',
-  },
-  totalsSection: {
-    marginTop: 20,
-    paddingTop: 20,
-    borderTop: '1 solid #e5e7eb',
-  },
-  totalRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginBottom: 5,
-  },
-  totalLabel: {
-    fontSize: 10,
-    color: '#6b7280',
-  },
-  totalValue: {
-    fontSize: 10,
-    color: '#111827',
-    fontWeight: 500,
-  },
-  grandTotal: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginTop: 10,
-    paddingTop: 10,
-    borderTop: '2 solid #1e40af',
-  },
-  grandTotalLabel: {
-    fontSize: 14,
-    fontWeight: 600,
-    color: '#1e40af',
-  },
-  grandTotalValue: {
-    fontSize: 14,
-    fontWeight: 700,
-    color: '#1e40af',
-  },
-  footer: {
-    marginTop: 'auto',
-    paddingTop: 20,
-    borderTop: '1 solid #e5e7eb',
-  },
-  footerText: {
-    fontSize: 8,
-    color: '#6b7280',
-    textAlign: 'center',
-  },
-});
+  return StyleSheet.create({
+    page: {
+      flexDirection: 'column',
+      backgroundColor: '#ffffff',
+      padding: 40,
+      paddingBottom: 70,
+      fontFamily: bodyFont,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'flex-start',
+      marginBottom: 20,
+      borderBottom: `2 solid ${theme.primaryColor}`,
+      paddingBottom: 10,
+    },
+    letterhead: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      width: '62%',
+    },
+    logo: {
+      maxWidth: 90,
+      maxHeight: 60,
+      marginRight: 12,
+      objectFit: 'contain',
+    },
+    companyName: {
+      fontFamily: headingFont,
+      fontSize: theme.fontSize + 5,
+      fontWeight: 700,
+      color: theme.textColor,
+      marginBottom: 3,
+    },
+    companyDetail: {
+      fontSize: theme.fontSize - 1,
+      color: '#4b5563',
+      marginBottom: 1,
+    },
+    documentTitle: {
+      alignItems: 'flex-end',
+    },
+    qrCode: {
+      width: 56,
+      height: 56,
+      marginTop: 6,
+    },
+    qrLabel: {
+      fontSize: theme.fontSize - 2,
+      color: theme.mutedColor,
+      marginTop: 2,
+    },
+    title: {
+      fontFamily: headingFont,
+      fontSize: theme.fontSize + 15,
+      fontWeight: 700,
+      color: theme.primaryColor,
+      marginBottom: 5,
+    },
+    subtitle: {
+      fontSize: theme.fontSize + 3,
+      color: theme.mutedColor,
+    },
+    section: {
+      marginBottom: 20,
+    },
+    sectionTitle: {
+      fontFamily: headingFont,
+      fontSize: theme.fontSize + 5,
+      fontWeight: 600,
+      marginBottom: 10,
+      color: theme.textColor,
+    },
+    row: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 5,
+    },
+    label: {
+      fontSize: theme.fontSize + 1,
+      color: theme.mutedColor,
+      width: '40%',
+    },
+    value: {
+      fontSize: theme.fontSize + 1,
+      color: theme.textColor,
+      width: '60%',
+    },
+    table: {
+      marginBottom: 20,
+    },
+    tableHeader: {
+      flexDirection: 'row',
+      backgroundColor: theme.tableHeaderColor,
+      padding: 8,
+      borderBottom: '1 solid #e5e7eb',
+    },
+    tableHeaderCell: {
+      fontSize: theme.fontSize + 1,
+      fontWeight: 600,
+      color: '#374151',
+    },
+    tableRow: {
+      flexDirection: 'row',
+      padding: 8,
+      borderBottom: '1 solid #e5e7eb',
+    },
+    tableCell: {
+      fontSize: theme.fontSize,
+      color: theme.textColor,
+    },
+    thumbnail: {
+      width: 32,
+      height: 32,
+      objectFit: 'contain',
+    },
+    galleryGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    galleryCard: {
+      width: '31.33%',
+      margin: '1%',
+      padding: 6,
+      border: '1 solid #e5e7eb',
+    },
+    galleryImage: {
+      height: 120,
+      objectFit: 'contain',
+      marginBottom: 6,
+    },
+    itemOptions: {
+      fontSize: theme.fontSize - 2,
+      color: '#4b5563',
+      marginTop: 2,
+    },
+    measurementLines: {
+      paddingLeft: 16,
+      paddingRight: 8,
+      paddingBottom: 6,
+      borderBottom: '1 solid #e5e7eb',
+    },
+    measurementLine: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      width: '60%',
+      fontSize: theme.fontSize - 2,
+      color: theme.mutedColor,
+    },
+    sectionHeaderRow: {
+      flexDirection: 'row',
+      backgroundColor: theme.accentColor,
+      padding: 6,
+      borderBottom: '1 solid #bfdbfe',
+    },
+    sectionHeaderText: {
+      fontSize: theme.fontSize + 1,
+      fontWeight: 600,
+      color: theme.primaryColor,
+    },
+    sectionSubtotalRow: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      padding: 6,
+      borderBottom: '1 solid #e5e7eb',
+    },
+    totalsSection: {
+      marginTop: 20,
+      paddingTop: 20,
+      borderTop: '1 solid #e5e7eb',
+    },
+    totalRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 5,
+    },
+    totalLabel: {
+      fontSize: theme.fontSize + 1,
+      color: theme.mutedColor,
+    },
+    totalValue: {
+      fontSize: theme.fontSize + 1,
+      color: theme.textColor,
+      fontWeight: 500,
+    },
+    grandTotal: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginTop: 10,
+      paddingTop: 10,
+      borderTop: `2 solid ${theme.primaryColor}`,
+    },
+    grandTotalLabel: {
+      fontFamily: headingFont,
+      fontSize: theme.fontSize + 5,
+      fontWeight: 600,
+      color: theme.primaryColor,
+    },
+    grandTotalValue: {
+      fontFamily: headingFont,
+      fontSize: theme.fontSize + 5,
+      fontWeight: 700,
+      color: theme.primaryColor,
+    },
+    policy: {
+      marginBottom: 8,
+    },
+    policyTitle: {
+      fontSize: theme.fontSize + 1,
+      fontWeight: 600,
+      color: theme.textColor,
+      marginBottom: 3,
+    },
+    policyText: {
+      fontSize: theme.fontSize,
+      color: theme.mutedColor,
+      lineHeight: 1.4,
+    },
+    closing: {
+      marginTop: 10,
+      fontSize: theme.fontSize,
+      color: theme.mutedColor,
+      textAlign: 'center',
+    },
+    footer: {
+      position: 'absolute',
+      bottom: 25,
+      left: 40,
+      right: 40,
+      paddingTop: 8,
+      borderTop: '1 solid #e5e7eb',
+    },
+    footerText: {
+      fontSize: theme.fontSize - 1,
+      color: theme.mutedColor,
+      textAlign: 'center',
+    },
+  });
+};
 
 /**
- * Simple PDF Document Component
+ * Logo or product image to embed in the PDF, or null. Images are stored as data URLs or
+ * links, and the renderer can only embed PNG and JPEG images; anything else is left out
+ * rather than failing the whole document.
  */
-interface SimplePDFProps {
+function getPdfImageSource(imageUrl: string | null | undefined): string | null {
+  if (!imageUrl) return null;
+  if (/^data:image\/(png|jpe?g);base64,/i.test(imageUrl)) return imageUrl;
+  if (/^https?:\/\/.+\.(png|jpe?g)(\?.*)?$/i.test(imageUrl)) return imageUrl;
+  return null;
+}
+
+/**
+ * Quote PDF Document Component
+ */
+interface QuotePDFProps {
   quote: QuoteWithDetails;
+  company?: CompanySettings | null;
+  template: PdfTemplateDefinition;
+  qrCode?: string | null; // PNG data URL of the verification QR code
 }
 
-const SimplePDF: React.FC<SimplePDFProps> = ({ quote }) => {
+const QuotePDF: React.FC<QuotePDFProps> = ({ quote, company, template, qrCode }) => {
+  const styles = createStyles(template);
+  const { show } = template;
+
   const formatCurrency = (amount: number): string => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -167,34 +325,208 @@ const SimplePDF: React.FC<SimplePDFProps> = ({ quote }) => {
     });
   };
 
-  return (
-    <Document>
-      <Page size="A4" style={styles.page}>
-        {/* Header */}
-        <View style={styles.header}>
-          <Text style={styles.title}>Quotation</Text>
-          <Text style={styles.subtitle}>Quote # {quote.quoteNumber}</Text>
-        </View>
+  const sections = [...(quote.sections || [])].sort((a, b) => a.order - b.order);
+  const {
+    taxBreakdown,
+    taxSummary,
+    sectionSubtotals,
+    sectionDiscount,
+    overallDiscount,
+  } = calculateQuoteTotals(
+    quote.items,
+    quote.discountMode,
+    quote.overallDiscount,
+    quote.taxRate,
+    quote.supplyType || 'INTRA_STATE',
+    sections,
+    quote.overallDiscountType || 'PERCENT'
+  );
+  const isIntraState = taxBreakdown.supplyType === 'INTRA_STATE';
+  const includedItems = quote.items.filter(isIncludedInTotal);
+  const optionItems = quote.items.filter((item) => !isIncludedInTotal(item));
+  const sectionGroups = groupItemsBySection(includedItems, sections).filter(
+    (group) => group.items.length > 0
+  );
+  const paymentMilestones = [...(quote.paymentMilestones || [])].sort((a, b) => a.order - b.order);
+  const milestoneAmounts = calculateMilestoneAmounts(paymentMilestones, quote.grandTotal);
+  const policies = (quote.policies || [])
+    .filter((policy) => policy.isActive)
+    .sort((a, b) => a.order - b.order);
 
-        {/* Quote Details */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Quote Details</Text>
-          <View style={styles.row}>
-            <Text style={styles.label}>Title:</Text>
-            <Text style={styles.value}>{quote.title}</Text>
-          </View>
-          <View style={styles.row}>
-            <Text style={styles.label}>Date:</Text>
-            <Text style={styles.value}>{formatDate(quote.createdAt)}</Text>
+  // Letterhead and footer, from the same company settings as the on-screen preview
+  const logo = show.logo ? getPdfImageSource(company?.logoUrl) : null;
+  const contactLine = [
+    company?.phone && `Phone: ${company.phone}`,
+    company?.email && `Email: ${company.email}`,
+  ].filter(Boolean).join('  |  ');
+  const footerLine = [company?.companyName, company?.phone, company?.email, company?.website]
+    .filter(Boolean)
+    .join('  |  ');
+
+  // Each product once, in quote order, for the gallery page
+  const galleryProducts = quote.items
+    .map((item) => item.product)
+    .filter((product, index, products) =>
+      products.findIndex((other) => other.id === product.id) === index &&
+      getPdfImageSource(product.imageUrl)
+    );
+
+  const renderItemCell = (column: PdfItemColumn, item: QuoteItemWithProduct) => {
+    const width = `${column.width}%`;
+
+    switch (column.key) {
+      case 'image': {
+        const image = getPdfImageSource(item.product.imageUrl);
+        return (
+          <View key={column.key} style={{ width }}>
+            {image && <Image src={image} style={styles.thumbnail} />}
           </View>
-          <View style={styles.row}>
-            <Text style={styles.label}>Status:</Text>
-            <Text style={styles.value}>{quote.status}</Text>
+        );
+      }
+      case 'item':
+        return (
+          <View key={column.key} style={{ width }}>
+            <Text style={styles.tableCell}>{item.product.name}</Text>
+            {show.variantOptions && item.variantOptions && item.variantOptions.length > 0 && (
+              <Text style={styles.itemOptions}>{formatVariantOptions(item.variantOptions)}</Text>
+            )}
           </View>
+        );
+      case 'hsn':
+        return (
+          <Text key={column.key} style={[styles.tableCell, { width }]}>
+            {item.hsnCode || item.product.hsnCode || '-'}
+          </Text>
+        );
+      case 'quantity':
+        return (
+          <Text key={column.key} style={[styles.tableCell, { width }]}>
+            {item.quantity}
+          </Text>
+        );
+      case 'unit':
+        return (
+          <Text key={column.key} style={[styles.tableCell, { width }]}>
+            {item.product.unit}
+          </Text>
+        );
+      case 'rate':
+        return (
+          <Text key={column.key} style={[styles.tableCell, { width }]}>
+            {formatCurrency(item.rate)}
+          </Text>
+        );
+      case 'discount':
+        return (
+          <Text key={column.key} style={[styles.tableCell, { width }]}>
+            {item.discountType === 'AMOUNT' ? formatCurrency(item.discount) : `${item.discount}%`}
+          </Text>
+        );
+      case 'gst':
+        return (
+          <Text key={column.key} style={[styles.tableCell, { width }]}>
+            {getLineTaxRate(item, quote.taxRate)}%
+          </Text>
+        );
+      case 'total':
+        return (
+          <Text key={column.key} style={[styles.tableCell, { width }]}>
+            {formatCurrency(item.lineTotal)}
+          </Text>
+        );
+    }
+  };
+
+  const renderItemRow = (item: QuoteItemWithProduct) => {
+    const measurementLines = show.measurements
+      ? getMeasurementLines(item.dimensions, item.product.unit)
+      : [];
+
+    return (
+      <View key={item.id} wrap={false}>
+        <View style={[styles.tableRow, measurementLines.length > 0 ? { borderBottom: 0 } : {}]}>
+          {template.columns.map((column) => renderItemCell(column, item))}
         </View>
+        {measurementLines.length > 0 && (
+          <View style={styles.measurementLines}>
+            {measurementLines.map((line, index) => (
+              <View key={index} style={styles.measurementLine}>
+                <Text>{line.label}</Text>
+                <Text>{line.value}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </View>
+    );
+  };
 
-        {/* Client Information */}
-        {quote.client && (
+  const renderSection = (section: PdfTemplateSection) => {
+    switch (section) {
+      case 'letterhead':
+        return (
+          <View style={styles.header}>
+            <View style={styles.letterhead}>
+              {logo && <Image src={logo} style={styles.logo} />}
+              {show.companyDetails && company?.companyName && (
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.companyName}>{company.companyName}</Text>
+                  {company.address && <Text style={styles.companyDetail}>{company.address}</Text>}
+                  {contactLine && <Text style={styles.companyDetail}>{contactLine}</Text>}
+                  {company.website && <Text style={styles.companyDetail}>Web: {company.website}</Text>}
+                  {company.gstin && <Text style={styles.companyDetail}>GSTIN: {company.gstin}</Text>}
+                </View>
+              )}
+            </View>
+            <View style={styles.documentTitle}>
+              <Text style={styles.title}>{template.labels.title}</Text>
+              <Text style={styles.subtitle}>
+                Quote # {formatQuoteNumberWithRevision(quote.quoteNumber, quote.version)}
+              </Text>
+              {qrCode && (
+                <>
+                  <Image src={qrCode} style={styles.qrCode} />
+                  <Text style={styles.qrLabel}>Scan to verify</Text>
+                </>
+              )}
+            </View>
+          </View>
+        );
+
+      case 'quoteDetails':
+        return (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Quote Details</Text>
+            <View style={styles.row}>
+              <Text style={styles.label}>Title:</Text>
+              <Text style={styles.value}>{quote.title}</Text>
+            </View>
+            <View style={styles.row}>
+              <Text style={styles.label}>Date:</Text>
+              <Text style={styles.value}>{formatDate(quote.createdAt)}</Text>
+            </View>
+            {quote.validUntil && (
+              <View style={styles.row}>
+                <Text style={styles.label}>Valid Until:</Text>
+                <Text style={styles.value}>{formatDate(quote.validUntil)}</Text>
+              </View>
+            )}
+            <View style={styles.row}>
+              <Text style={styles.label}>Status:</Text>
+              <Text style={styles.value}>{quote.status}</Text>
+            </View>
+            {quote.placeOfSupply && (
+              <View style={styles.row}>
+                <Text style={styles.label}>Place of Supply:</Text>
+                <Text style={styles.value}>{quote.placeOfSupply}</Text>
+              </View>
+            )}
+          </View>
+        );
+
+      case 'client':
+        if (!quote.client) return null;
+        return (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Client Information</Text>
             <View style={styles.row}>
@@ -217,72 +549,255 @@ const SimplePDF: React.FC<SimplePDFProps> = ({ quote }) => {
                 <Text style={styles.value}>{quote.client.company}</Text>
               </View>
             )}
+            {quote.client.gstin && (
+              <View style={styles.row}>
+                <Text style={styles.label}>GSTIN:</Text>
+                <Text style={styles.value}>{quote.client.gstin}</Text>
+              </View>
+            )}
           </View>
-        )}
+        );
+
+      case 'items':
+        return (
+          <View style={styles.table}>
+            <Text style={styles.sectionTitle}>Quotation Items</Text>
 
-        {/* Items Table */}
-        <View style={styles.table}>
-          <Text style={styles.sectionTitle}>Quotation Items</Text>
+            {/* Table Header */}
+            <View style={styles.tableHeader}>
+              {template.columns.map((column) => (
+                <Text key={column.key} style={[styles.tableHeaderCell, { width: `${column.width}%` }]}>
+                  {getPdfColumnLabel(column)}
+                </Text>
+              ))}
+            </View>
 
-          {/* Table Header */}
-          <View style={styles.tableHeader}>
-            <Text style={[styles.tableHeaderCell, { width: '35%' }]}>Item</Text>
-            <Text style={[styles.tableHeaderCell, { width: '15%' }]}>Qty</Text>
-            <Text style={[styles.tableHeaderCell, { width: '15%' }]}>Rate</Text>
-            <Text style={[styles.tableHeaderCell, { width: '15%' }]}>Discount</Text>
-            <Text style={[styles.tableHeaderCell, { width: '20%' }]}>Total</Text>
+            {/* Table Rows, grouped under room/section headers when the quote has sections */}
+            {sectionGroups.length > 0
+              ? sectionGroups.map((group) => {
+                  const sectionTotals = sectionSubtotals.find((s) => s.sectionId === group.sectionId);
+                  return (
+                    <View key={group.sectionId || 'unassigned'}>
+                      <View style={styles.sectionHeaderRow} wrap={false}>
+                        <Text style={styles.sectionHeaderText}>{group.name}</Text>
+                      </View>
+                      {group.items.map(renderItemRow)}
+                      {show.sectionSubtotals && (
+                        <View style={styles.sectionSubtotalRow} wrap={false}>
+                          <Text style={[styles.tableCell, { fontWeight: 600 }]}>
+                            {group.name} Subtotal: {formatCurrency(sectionTotals?.subtotal || 0)}
+                            {sectionTotals && sectionTotals.discount > 0
+                              ? `  (Room Discount: -${formatCurrency(sectionTotals.discount)})`
+                              : ''}
+                          </Text>
+                        </View>
+                      )}
+                    </View>
+                  );
+                })
+              : includedItems.map(renderItemRow)}
           </View>
+        );
 
-          {/* Table Rows */}
-          {quote.items.map((item, index) => (
-            <View key={item.id} style={styles.tableRow}>
-              <Text style={[styles.tableCell, { width: '35%' }]}>
-                {item.product.name}
-              </Text>
-              <Text style={[styles.tableCell, { width: '15%' }]}>
-                {item.quantity}
-              </Text>
-              <Text style={[styles.tableCell, { width: '15%' }]}>
-                {formatCurrency(item.rate)}
-              </Text>
-              <Text style={[styles.tableCell, { width: '15%' }]}>
-                {item.discount}%
-              </Text>
-              <Text style={[styles.tableCell, { width: '20%' }]}>
-                {formatCurrency(item.lineTotal)}
-              </Text>
+      case 'options':
+        // Optional and alternative items, priced separately and not in the total
+        if (optionItems.length === 0) return null;
+        return (
+          <View style={styles.table}>
+            <Text style={styles.sectionTitle}>Options</Text>
+            <View style={styles.tableHeader}>
+              <Text style={[styles.tableHeaderCell, { width: '52%' }]}>Item</Text>
+              <Text style={[styles.tableHeaderCell, { width: '12%' }]}>Qty</Text>
+              <Text style={[styles.tableHeaderCell, { width: '18%' }]}>Rate</Text>
+              <Text style={[styles.tableHeaderCell, { width: '18%' }]}>Price</Text>
             </View>
-          ))}
-        </View>
+            {optionItems.map((item) => {
+              const replaces = quote.items.find((other) => other.id === item.alternativeOfId);
+              return (
+                <View key={item.id} style={styles.tableRow} wrap={false}>
+                  <Text style={[styles.tableCell, { width: '52%' }]}>
+                    {item.kind === 'ALTERNATIVE' ? 'Alternative' : 'Optional'}: {item.product.name}
+                    {show.variantOptions && item.variantOptions?.length
+                      ? ` - ${formatVariantOptions(item.variantOptions)}`
+                      : ''}
+                    {replaces ? ` (instead of ${replaces.product.name})` : ''}
+                  </Text>
+                  <Text style={[styles.tableCell, { width: '12%' }]}>{item.quantity}</Text>
+                  <Text style={[styles.tableCell, { width: '18%' }]}>{formatCurrency(item.rate)}</Text>
+                  <Text style={[styles.tableCell, { width: '18%' }]}>{formatCurrency(item.lineTotal)}</Text>
+                </View>
+              );
+            })}
+            <Text style={[styles.tableCell, { marginTop: 4, color: template.theme.mutedColor }]}>
+              Options are not included in the grand total. Prices exclude GST.
+            </Text>
+          </View>
+        );
 
-        {/* Totals */}
-        <View style={styles.totalsSection}>
-          <View style={styles.totalRow}>
-            <Text style={styles.totalLabel}>Subtotal:</Text>
-            <Text style={styles.totalValue}>{formatCurrency(quote.subtotal)}</Text>
+      case 'taxSummary':
+        // By HSN/SAC and GST slab
+        return (
+          <View style={styles.table}>
+            <Text style={styles.sectionTitle}>Tax Summary</Text>
+            <View style={styles.tableHeader}>
+              <Text style={[styles.tableHeaderCell, { width: '20%' }]}>HSN/SAC</Text>
+              <Text style={[styles.tableHeaderCell, { width: '20%' }]}>Taxable Value</Text>
+              <Text style={[styles.tableHeaderCell, { width: '12%' }]}>Rate</Text>
+              {isIntraState ? (
+                <>
+                  <Text style={[styles.tableHeaderCell, { width: '16%' }]}>CGST</Text>
+                  <Text style={[styles.tableHeaderCell, { width: '16%' }]}>SGST</Text>
+                </>
+              ) : (
+                <Text style={[styles.tableHeaderCell, { width: '32%' }]}>IGST</Text>
+              )}
+              <Text style={[styles.tableHeaderCell, { width: '16%' }]}>Total Tax</Text>
+            </View>
+            {taxSummary.map((slab) => (
+              <View key={`${slab.hsnCode || ''}-${slab.taxRate}`} style={styles.tableRow}>
+                <Text style={[styles.tableCell, { width: '20%' }]}>{slab.hsnCode || '-'}</Text>
+                <Text style={[styles.tableCell, { width: '20%' }]}>{formatCurrency(slab.taxableAmount)}</Text>
+                <Text style={[styles.tableCell, { width: '12%' }]}>{slab.taxRate}%</Text>
+                {isIntraState ? (
+                  <>
+                    <Text style={[styles.tableCell, { width: '16%' }]}>{formatCurrency(slab.cgst)}</Text>
+                    <Text style={[styles.tableCell, { width: '16%' }]}>{formatCurrency(slab.sgst)}</Text>
+                  </>
+                ) : (
+                  <Text style={[styles.tableCell, { width: '32%' }]}>{formatCurrency(slab.igst)}</Text>
+                )}
+                <Text style={[styles.tableCell, { width: '16%' }]}>{formatCurrency(slab.totalTax)}</Text>
+              </View>
+            ))}
           </View>
-          {quote.discount > 0 && (
+        );
+
+      case 'totals':
+        return (
+          <View style={styles.totalsSection}>
             <View style={styles.totalRow}>
-              <Text style={styles.totalLabel}>Discount:</Text>
-              <Text style={styles.totalValue}>-{formatCurrency(quote.discount)}</Text>
+              <Text style={styles.totalLabel}>Subtotal:</Text>
+              <Text style={styles.totalValue}>{formatCurrency(quote.subtotal)}</Text>
+            </View>
+            {sectionDiscount > 0 && (
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Room Discounts:</Text>
+                <Text style={styles.totalValue}>-{formatCurrency(sectionDiscount)}</Text>
+              </View>
+            )}
+            {overallDiscount > 0 && (
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Discount:</Text>
+                <Text style={styles.totalValue}>-{formatCurrency(overallDiscount)}</Text>
+              </View>
+            )}
+            {isIntraState ? (
+              <>
+                <View style={styles.totalRow}>
+                  <Text style={styles.totalLabel}>{formatTaxLabel('CGST', taxBreakdown.cgstRate)}:</Text>
+                  <Text style={styles.totalValue}>{formatCurrency(taxBreakdown.cgst)}</Text>
+                </View>
+                <View style={styles.totalRow}>
+                  <Text style={styles.totalLabel}>{formatTaxLabel('SGST', taxBreakdown.sgstRate)}:</Text>
+                  <Text style={styles.totalValue}>{formatCurrency(taxBreakdown.sgst)}</Text>
+                </View>
+              </>
+            ) : (
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>{formatTaxLabel('IGST', taxBreakdown.igstRate)}:</Text>
+                <Text style={styles.totalValue}>{formatCurrency(taxBreakdown.igst)}</Text>
+              </View>
+            )}
+            <View style={styles.grandTotal}>
+              <Text style={styles.grandTotalLabel}>Grand Total:</Text>
+              <Text style={styles.grandTotalValue}>{formatCurrency(quote.grandTotal)}</Text>
             </View>
-          )}
-          <View style={styles.totalRow}>
-            <Text style={styles.totalLabel}>Tax ({quote.taxRate}%):</Text>
-            <Text style={styles.totalValue}>{formatCurrency(quote.tax)}</Text>
           </View>
-          <View style={styles.grandTotal}>
-            <Text style={styles.grandTotalLabel}>Grand Total:</Text>
-            <Text style={styles.grandTotalValue}>{formatCurrency(quote.grandTotal)}</Text>
+        );
+
+      case 'paymentSchedule':
+        if (paymentMilestones.length === 0) return null;
+        return (
+          <View style={styles.section} wrap={false}>
+            <Text style={styles.sectionTitle}>Payment Schedule</Text>
+            <View style={styles.tableHeader}>
+              <Text style={[styles.tableHeaderCell, { width: '36%' }]}>Milestone</Text>
+              <Text style={[styles.tableHeaderCell, { width: '30%' }]}>Due</Text>
+              <Text style={[styles.tableHeaderCell, { width: '14%' }]}>Share</Text>
+              <Text style={[styles.tableHeaderCell, { width: '20%' }]}>Amount</Text>
+            </View>
+            {paymentMilestones.map((milestone, index) => (
+              <View key={milestone.id} style={styles.tableRow}>
+                <Text style={[styles.tableCell, { width: '36%' }]}>{milestone.name}</Text>
+                <Text style={[styles.tableCell, { width: '30%' }]}>
+                  {getPaymentTriggerLabel(milestone.trigger)}
+                </Text>
+                <Text style={[styles.tableCell, { width: '14%' }]}>
+                  {milestone.valueType === 'PERCENT' ? `${milestone.value}%` : '-'}
+                </Text>
+                <Text style={[styles.tableCell, { width: '20%' }]}>
+                  {formatCurrency(milestoneAmounts[index])}
+                </Text>
+              </View>
+            ))}
           </View>
-        </View>
+        );
 
-        {/* Footer */}
-        <View style={styles.footer}>
-          <Text style={styles.footerText}>
-            Thank you for your business!
-          </Text>
-        </View>
+      case 'terms':
+        if (policies.length === 0) return null;
+        return (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Terms & Conditions</Text>
+            {policies.map((policy) => (
+              <View key={policy.id} style={styles.policy} wrap={false}>
+                <Text style={styles.policyTitle}>{policy.title}</Text>
+                <Text style={styles.policyText}>{policy.description}</Text>
+              </View>
+            ))}
+          </View>
+        );
+
+      case 'closing':
+        return <Text style={styles.closing}>{template.labels.closing}</Text>;
+
+      case 'gallery':
+        if (galleryProducts.length === 0) return null;
+        return (
+          <View break>
+            <Text style={styles.sectionTitle}>Product Gallery</Text>
+            <View style={styles.galleryGrid}>
+              {galleryProducts.map((product) => (
+                <View key={product.id} style={styles.galleryCard} wrap={false}>
+                  <Image src={getPdfImageSource(product.imageUrl)!} style={styles.galleryImage} />
+                  <Text style={styles.tableCell}>{product.name}</Text>
+                  {product.itemCode && <Text style={styles.itemOptions}>{product.itemCode}</Text>}
+                </View>
+              ))}
+            </View>
+          </View>
+        );
+    }
+  };
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        {template.sections.map((section) => (
+          <React.Fragment key={section}>{renderSection(section)}</React.Fragment>
+        ))}
+
+        {/* Footer, repeated on every page */}
+        {(show.footer || show.pageNumbers) && (
+          <View style={styles.footer} fixed>
+            {show.footer && footerLine && <Text style={styles.footerText}>{footerLine}</Text>}
+            {show.pageNumbers && (
+              <Text
+                style={styles.footerText}
+                render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`}
+              />
+            )}
+          </View>
+        )}
       </Page>
     </Document>
   );
@@ -291,13 +806,22 @@ const SimplePDF: React.FC<SimplePDFProps> = ({ quote }) => {
 /**
  * Generate PDF from quote data
  * @param quote Quote data with all details
+ * @param company Company settings of the supplier, for the letterhead, footer and GSTIN
+ * @param template Layout to render with; the standard layout when not given
+ * @param verificationUrl Link for the QR code on the first page (see lib/quote-verification.ts)
  * @returns PDF as Blob
  */
 export async function generateQuotePDF(
-  quote: QuoteWithDetails
+  quote: QuoteWithDetails,
+  company?: CompanySettings | null,
+  template: PdfTemplateDefinition = DEFAULT_PDF_TEMPLATE,
+  verificationUrl?: string | null
 ): Promise<Blob> {
-  const doc = <SimplePDF quote={quote} />;
+  const qrCode = template.show.qrCode && verificationUrl
+    ? await QRCode.toDataURL(verificationUrl, { margin: 0, width: 224 })
+    : null;
+  const doc = <QuotePDF quote={quote} company={company} template={template} qrCode={qrCode} />;
   const pdfInstance = pdf(doc);
   const blob = await pdfInstance.toBlob();
   return blob;
-}
\ No newline at end of file
+}
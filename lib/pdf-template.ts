@@ -0,0 +1,268 @@
+/**
+ * PDF templates: a JSON definition of how a quote PDF looks. It picks which sections appear
+ * and in what order, the columns of the items table, colours, font and a few visibility
+ * toggles. Stored templates may be partial; anything left out falls back to
+ * DEFAULT_PDF_TEMPLATE, which is the standard quote layout.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  PdfFontFamily,
+  PdfItemColumn,
+  PdfItemColumnKey,
+  PdfTemplate,
+  PdfTemplateDefinition,
+  PdfTemplateSection,
+} from './types';
+
+export const PDF_TEMPLATE_SECTIONS: { value: PdfTemplateSection; label: string }[] = [
+  { value: 'letterhead', label: 'Letterhead' },
+  { value: 'quoteDetails', label: 'Quote details' },
+  { value: 'client', label: 'Client information' },
+  { value: 'items', label: 'Items' },
+  { value: 'options', label: 'Optional and alternative items' },
+  { value: 'taxSummary', label: 'Tax summary' },
+  { value: 'totals', label: 'Totals' },
+  { value: 'paymentSchedule', label: 'Payment schedule' },
+  { value: 'terms', label: 'Terms & conditions' },
+  { value: 'closing', label: 'Closing note' },
+  { value: 'gallery', label: 'Product image gallery (new page)' },
+];
+
+export const PDF_ITEM_COLUMNS: { value: PdfItemColumnKey; label: string }[] = [
+  { value: 'image', label: 'Image' },
+  { value: 'item', label: 'Item' },
+  { value: 'hsn', label: 'HSN/SAC' },
+  { value: 'quantity', label: 'Qty' },
+  { value: 'unit', label: 'Unit' },
+  { value: 'rate', label: 'Rate' },
+  { value: 'discount', label: 'Discount' },
+  { value: 'gst', label: 'GST' },
+  { value: 'total', label: 'Total' },
+];
+
+// Inter and Noto Sans Devanagari are bundled (lib/pdf-fonts.ts); the others are built into
+// every PDF reader. Devanagari text renders with any of them.
+export const PDF_FONT_FAMILIES: PdfFontFamily[] = [
+  'Inter',
+  'Noto Sans Devanagari',
+  'Helvetica',
+  'Times-Roman',
+  'Courier',
+];
+
+export const PDF_TEMPLATE_CATEGORIES = ['Standard', 'Premium', 'Custom'] as const;
+
+// The image column and the gallery section are opt-in: they are not part of the standard layout
+export const DEFAULT_PDF_TEMPLATE: PdfTemplateDefinition = {
+  theme: {
+    primaryColor: '#1e40af',
+    accentColor: '#eff6ff',
+    textColor: '#111827',
+    mutedColor: '#6b7280',
+    tableHeaderColor: '#f3f4f6',
+    fontFamily: 'Inter',
+    fontSize: 9,
+  },
+  sections: [
+    'letterhead',
+    'quoteDetails',
+    'client',
+    'items',
+    'options',
+    'taxSummary',
+    'totals',
+    'paymentSchedule',
+    'terms',
+    'closing',
+  ],
+  columns: [
+    { key: 'item', width: 29 },
+    { key: 'hsn', width: 11 },
+    { key: 'quantity', width: 10 },
+    { key: 'rate', width: 14 },
+    { key: 'discount', width: 10 },
+    { key: 'gst', width: 8 },
+    { key: 'total', width: 18 },
+  ],
+  show: {
+    logo: true,
+    companyDetails: true,
+    sectionSubtotals: true,
+    measurements: true,
+    variantOptions: true,
+    footer: true,
+    pageNumbers: true,
+    qrCode: true,
+  },
+  labels: {
+    title: 'Quotation',
+    closing: 'Thank you for your business! For any questions, please contact us.',
+  },
+};
+
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const MIN_FONT_SIZE = 6;
+const MAX_FONT_SIZE = 14;
+const MAX_LABEL_LENGTH = 200;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate a template definition before it is saved. Fields may be left out (they take
+ * the default), but the ones given must be valid. Returns an error message, or null.
+ */
+export function getPdfTemplateError(json: unknown): string | null {
+  if (!isObject(json)) return 'Template must be a JSON object';
+
+  const { theme, sections, columns, show, labels } = json;
+
+  if (theme !== undefined) {
+    if (!isObject(theme)) return 'theme must be an object';
+
+    for (const key of ['primaryColor', 'accentColor', 'textColor', 'mutedColor', 'tableHeaderColor'] as const) {
+      if (theme[key] !== undefined && !COLOR_PATTERN.test(String(theme[key]))) {
+        return `theme.${key} must be a hex colour such as #1e40af`;
+      }
+    }
+
+    for (const key of ['fontFamily', 'headingFontFamily'] as const) {
+      if (theme[key] !== undefined && !PDF_FONT_FAMILIES.includes(theme[key])) {
+        return `theme.${key} must be one of ${PDF_FONT_FAMILIES.join(', ')}`;
+      }
+    }
+
+    if (
+      theme.fontSize !== undefined &&
+      !(typeof theme.fontSize === 'number' && theme.fontSize >= MIN_FONT_SIZE && theme.fontSize <= MAX_FONT_SIZE)
+    ) {
+      return `theme.fontSize must be between ${MIN_FONT_SIZE} and ${MAX_FONT_SIZE}`;
+    }
+  }
+
+  if (sections !== undefined) {
+    if (!Array.isArray(sections)) return 'sections must be a list';
+
+    const known = PDF_TEMPLATE_SECTIONS.map((section) => section.value);
+    const unknown = sections.find((section) => !known.includes(section));
+    if (unknown !== undefined) return `Unknown section "${unknown}"`;
+    if (new Set(sections).size !== sections.length) return 'Each section can appear only once';
+    if (!sections.includes('items')) return 'The items section is required';
+  }
+
+  if (columns !== undefined) {
+    if (!Array.isArray(columns)) return 'columns must be a list';
+
+    const known = PDF_ITEM_COLUMNS.map((column) => column.value);
+    for (const column of columns) {
+      if (!isObject(column) || !known.includes(column.key)) {
+        return `Unknown column "${isObject(column) ? column.key : column}"`;
+      }
+      if (!(typeof column.width === 'number' && column.width > 0)) {
+        return `Column "${column.key}" needs a width greater than 0`;
+      }
+      if (column.label !== undefined && typeof column.label !== 'string') {
+        return `Column "${column.key}" label must be text`;
+      }
+    }
+
+    const keys = columns.map((column: PdfItemColumn) => column.key);
+    if (new Set(keys).size !== keys.length) return 'Each column can appear only once';
+    if (!keys.includes('item') || !keys.includes('total')) return 'The item and total columns are required';
+
+    const totalWidth = columns.reduce((sum: number, column: PdfItemColumn) => sum + column.width, 0);
+    if (totalWidth > 100) return `Column widths add up to ${totalWidth}%; they must not exceed 100%`;
+  }
+
+  if (show !== undefined) {
+    if (!isObject(show)) return 'show must be an object';
+
+    const known = Object.keys(DEFAULT_PDF_TEMPLATE.show);
+    for (const [key, value] of Object.entries(show)) {
+      if (!known.includes(key)) return `Unknown visibility toggle "${key}"`;
+      if (typeof value !== 'boolean') return `show.${key} must be true or false`;
+    }
+  }
+
+  if (labels !== undefined) {
+    if (!isObject(labels)) return 'labels must be an object';
+
+    for (const key of ['title', 'closing'] as const) {
+      const value = labels[key];
+      if (value !== undefined && (typeof value !== 'string' || value.length > MAX_LABEL_LENGTH)) {
+        return `labels.${key} must be text of at most ${MAX_LABEL_LENGTH} characters`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Complete definition for rendering: the stored JSON over the defaults. JSON that does not
+ * validate (e.g. from an older template format) renders with the defaults rather than failing.
+ */
+export function resolvePdfTemplate(json: unknown): PdfTemplateDefinition {
+  if (!isObject(json) || getPdfTemplateError(json)) return DEFAULT_PDF_TEMPLATE;
+
+  return {
+    theme: { ...DEFAULT_PDF_TEMPLATE.theme, ...json.theme },
+    sections: json.sections || DEFAULT_PDF_TEMPLATE.sections,
+    columns: json.columns || DEFAULT_PDF_TEMPLATE.columns,
+    show: { ...DEFAULT_PDF_TEMPLATE.show, ...json.show },
+    labels: { ...DEFAULT_PDF_TEMPLATE.labels, ...json.labels },
+  };
+}
+
+export function getPdfColumnLabel(column: PdfItemColumn): string {
+  return column.label ?? PDF_ITEM_COLUMNS.find((c) => c.value === column.key)?.label ?? column.key;
+}
+
+/**
+ * Map a pdf_templates row to frontend format
+ */
+export function mapPdfTemplate(template: any): PdfTemplate {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    category: template.category,
+    isDefault: template.isdefault || false,
+    isPublic: template.ispublic ?? true,
+    templateJson: template.template_json || {},
+    thumbnail: template.thumbnail,
+    createdBy: template.createdby,
+    createdAt: template.createdat,
+    updatedAt: template.updatedat,
+    version: template.version || 1,
+  };
+}
+
+/**
+ * Template a quote is rendered with: the one chosen on the quote, else the default
+ * template, else the built-in layout
+ */
+export async function loadPdfTemplate(
+  supabase: SupabaseClient,
+  templateId: string | null | undefined
+): Promise<PdfTemplateDefinition> {
+  if (templateId) {
+    const { data: chosen } = await supabase
+      .from('pdf_templates')
+      .select('template_json')
+      .eq('id', templateId)
+      .maybeSingle();
+
+    if (chosen) return resolvePdfTemplate(chosen.template_json);
+  }
+
+  const { data: fallback } = await supabase
+    .from('pdf_templates')
+    .select('template_json')
+    .eq('isdefault', true)
+    .limit(1)
+    .maybeSingle();
+
+  return resolvePdfTemplate(fallback?.template_json);
+}
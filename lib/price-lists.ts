@@ -0,0 +1,160 @@
+/**
+ * Price lists for client tiers: each list holds per-product rates with effective dates.
+ * A quote is priced from its client's list on the day it is priced, and products without
+ * a rate in the list fall back to their base rate.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PriceListItem, SelectedVariantOption } from './types';
+import { toDateString } from './quote-validity';
+import { applyVariantOptions } from './variants';
+
+// Rates by product id, as effective on one day
+export type PriceListRates = Record<string, number>;
+
+/**
+ * Map a price_list_items row to frontend format
+ */
+export function mapPriceListItem(item: any): PriceListItem {
+  return {
+    id: item.id,
+    priceListId: item.pricelistid,
+    productId: item.productid,
+    rate: Number(item.rate),
+    effectiveFrom: String(item.effectivefrom).slice(0, 10),
+    effectiveTo: item.effectiveto ? String(item.effectiveto).slice(0, 10) : null,
+    createdAt: item.createdat,
+  };
+}
+
+export function isPriceEffective(
+  item: Pick<PriceListItem, 'effectiveFrom' | 'effectiveTo'>,
+  onDate: string = toDateString(new Date())
+): boolean {
+  return item.effectiveFrom <= onDate && (!item.effectiveTo || item.effectiveTo >= onDate);
+}
+
+/**
+ * Each product's rate on a day. When entries overlap, the one that started last wins.
+ */
+export function findEffectiveRates(
+  items: Pick<PriceListItem, 'productId' | 'rate' | 'effectiveFrom' | 'effectiveTo'>[],
+  onDate: string = toDateString(new Date())
+): PriceListRates {
+  const rates: PriceListRates = {};
+  const startedOn: Record<string, string> = {};
+
+  for (const item of items) {
+    if (!isPriceEffective(item, onDate)) continue;
+    if (startedOn[item.productId] && startedOn[item.productId] >= item.effectiveFrom) continue;
+
+    rates[item.productId] = item.rate;
+    startedOn[item.productId] = item.effectiveFrom;
+  }
+
+  return rates;
+}
+
+/**
+ * Validate a price list entry. Returns an error message, or null if valid.
+ */
+export function getPriceListItemError(item: {
+  productId?: string;
+  rate?: number;
+  effectiveFrom?: string;
+  effectiveTo?: string | null;
+}): string | null {
+  if (!item.productId) return 'Product is required';
+  if (item.rate === undefined || !Number.isFinite(Number(item.rate)) || Number(item.rate) < 0) {
+    return 'Rate must be zero or more';
+  }
+  if (!item.effectiveFrom || !/^\d{4}-\d{2}-\d{2}$/.test(item.effectiveFrom)) {
+    return 'Effective from date is required';
+  }
+  if (item.effectiveTo && item.effectiveTo < item.effectiveFrom) {
+    return 'Effective to date cannot be before the effective from date';
+  }
+  return null;
+}
+
+/**
+ * Rates in a price list on a day, by product id
+ */
+export async function getPriceListRates(
+  supabase: SupabaseClient,
+  priceListId: string,
+  onDate: string = toDateString(new Date())
+): Promise<PriceListRates> {
+  const { data, error } = await supabase
+    .from('price_list_items')
+    .select('productid, rate, effectivefrom, effectiveto')
+    .eq('pricelistid', priceListId)
+    .lte('effectivefrom', onDate);
+
+  if (error) throw error;
+
+  return findEffectiveRates((data || []).map(mapPriceListItem), onDate);
+}
+
+/**
+ * The client's price list and its rates today. Clients without a list (or without a
+ * client) get an empty set of rates, so every product uses its base rate.
+ */
+export async function getClientPriceList(
+  supabase: SupabaseClient,
+  clientId: string | null | undefined
+): Promise<{ priceListId: string | null; rates: PriceListRates }> {
+  if (!clientId) return { priceListId: null, rates: {} };
+
+  const { data: client } = await supabase
+    .from('clients')
+    .select('pricelistid')
+    .eq('id', clientId)
+    .single();
+
+  if (!client?.pricelistid) {
+    return { priceListId: null, rates: {} };
+  }
+
+  return {
+    priceListId: client.pricelistid,
+    rates: await getPriceListRates(supabase, client.pricelistid),
+  };
+}
+
+/**
+ * Rate for a quote line saved without one: the price list rate (or the product's base
+ * rate) with the line's options applied. A rate sent with the line is kept as quoted.
+ */
+export function resolveLineRate(
+  rate: number | null | undefined,
+  product: { id: string; baserate: number } | undefined,
+  rates: PriceListRates,
+  variantOptions: SelectedVariantOption[] | null
+): number {
+  if (rate !== undefined && rate !== null) return rate;
+  if (!product) return 0;
+  return applyVariantOptions(rates[product.id] ?? Number(product.baserate), variantOptions);
+}
+
+/**
+ * Re-price lines when the quote's price list changes, e.g. for another client. Lines still
+ * at the old list's rate (or the base rate), with their options applied, move to the new
+ * list's rate; rates edited by hand are kept. Lines whose base rate isn't known are kept too.
+ */
+export function repriceLines<T extends {
+  productId: string;
+  rate: number;
+  variantOptions?: SelectedVariantOption[] | null;
+  product?: { baseRate?: number } | null;
+}>(items: T[], previousRates: PriceListRates, rates: PriceListRates): T[] {
+  return items.map((item) => {
+    const baseRate = item.product?.baseRate;
+    const previousRate = previousRates[item.productId] ?? baseRate;
+    const rate = rates[item.productId] ?? baseRate;
+    if (previousRate === undefined || rate === undefined) return item;
+    if (item.rate !== applyVariantOptions(previousRate, item.variantOptions)) return item;
+
+    return { ...item, rate: applyVariantOptions(rate, item.variantOptions) };
+  });
+}
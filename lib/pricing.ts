@@ -0,0 +1,327 @@
+/**
+ * Quote pricing engine
+ * Single source of truth for quote totals, shared by the builder store, the quote
+ * API routes and the PDF generator. All arithmetic is done in integer paise.
+ *
+ * Rounding rules (half-up to the nearest paisa at each step):
+ * 1. Rate is converted to paise; line gross = quantity × rate, rounded.
+ *    Optional and alternative lines are priced the same way but left out of every total.
+ * 2. Line discount = gross × line discount %, rounded, or a fixed amount capped at the
+ *    gross (LINE_ITEM and BOTH modes only). At every level, discount percentages are
+ *    clamped to 0–100 and amounts to zero or more, so no total can turn negative.
+ * 3. Section discount = section net × section discount %, rounded, or a fixed amount capped
+ *    at the section net (LINE_ITEM and BOTH modes only).
+ * 4. Overall discount = (subtotal − section discounts) × overall discount %, rounded, or a
+ *    fixed amount capped at that base (OVERALL and BOTH modes only).
+ * 5. Section and overall discounts are allocated across lines in proportion to their net
+ *    amounts using the largest remainder method, so the line shares always add up exactly.
+ * 6. Tax is computed once per HSN/SAC + GST slab on the slab's taxable value, rounded.
+ * 7. CGST is half the slab tax, rounded; SGST takes the remainder.
+ */
+
+import { DiscountMode, DiscountType, QuoteItemKind, SupplyType } from './types';
+
+export interface PricingItem {
+  quantity: number;
+  rate: number;
+  discount?: number | null;
+  discountType?: DiscountType | null; // Defaults to PERCENT
+  taxRate?: number | null;
+  hsnCode?: string | null;
+  sectionId?: string | null;
+  kind?: QuoteItemKind | null;
+  product?: {
+    taxRate?: number | null;
+    hsnCode?: string | null;
+    category?: { name: string } | null;
+  } | null;
+}
+
+export interface PricingSection {
+  id: string;
+  discount?: number | null;
+  discountType?: DiscountType | null;
+}
+
+export interface PricingInput {
+  items: PricingItem[];
+  sections?: PricingSection[];
+  discountMode: DiscountMode;
+  overallDiscount?: number;
+  overallDiscountType?: DiscountType;
+  taxRate?: number;
+  supplyType?: SupplyType;
+}
+
+export interface PricedLine {
+  included: boolean; // false for optional/alternative lines
+  grossPaise: number;
+  lineDiscountPaise: number;
+  netPaise: number; // Line total shown on the quote
+  sectionDiscountPaise: number; // Share of its section's discount
+  overallDiscountPaise: number; // Share of the overall discount
+  taxablePaise: number;
+  taxRate: number;
+  hsnCode: string | null;
+}
+
+export interface PricedSlab {
+  hsnCode: string | null;
+  taxRate: number;
+  taxablePaise: number;
+  cgstPaise: number;
+  sgstPaise: number;
+  igstPaise: number;
+  taxPaise: number;
+}
+
+export interface PricedSection {
+  id: string;
+  netPaise: number; // Included lines after line discounts
+  discountPaise: number;
+}
+
+export interface PricingResult {
+  supplyType: SupplyType;
+  lines: PricedLine[];
+  sections: PricedSection[];
+  slabs: PricedSlab[];
+  subtotalPaise: number;
+  sectionDiscountPaise: number;
+  overallDiscountPaise: number;
+  discountPaise: number; // Section + overall discounts
+  taxablePaise: number;
+  taxPaise: number;
+  cgstPaise: number;
+  sgstPaise: number;
+  igstPaise: number;
+  grandTotalPaise: number;
+}
+
+/**
+ * Round half away from zero to a whole number of paise
+ */
+export function roundPaise(value: number): number {
+  // Strip floating point noise (e.g. 1.005 * 100 = 100.49999...) before rounding
+  const cleaned = Number(value.toFixed(6));
+  return Math.sign(cleaned) * Math.round(Math.abs(cleaned));
+}
+
+export function toPaise(amount: number): number {
+  return roundPaise((amount || 0) * 100);
+}
+
+export function fromPaise(paise: number): number {
+  return paise / 100;
+}
+
+/**
+ * Percentage of a paise amount, rounded to the nearest paisa
+ */
+export function percentOfPaise(paise: number, percent: number): number {
+  return roundPaise((paise * (percent || 0)) / 100);
+}
+
+/**
+ * Discount on a paise amount: a percentage of it (0–100), or a fixed rupee amount capped at it
+ */
+export function discountOfPaise(
+  basePaise: number,
+  discount: number,
+  discountType: DiscountType = 'PERCENT'
+): number {
+  if (discountType === 'AMOUNT') {
+    return Math.min(Math.max(toPaise(discount), 0), Math.max(basePaise, 0));
+  }
+  return percentOfPaise(basePaise, Math.min(Math.max(discount || 0, 0), 100));
+}
+
+/**
+ * A discount expressed as a percentage of its base, used to check discount limits
+ */
+export function effectiveDiscountPercent(basePaise: number, discountPaise: number): number {
+  if (basePaise <= 0) return 0;
+  return (discountPaise * 100) / basePaise;
+}
+
+/**
+ * Split a paise amount across weights so the parts add up exactly (largest remainder method)
+ */
+export function allocatePaise(totalPaise: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (totalPaise === 0 || totalWeight <= 0) return weights.map(() => 0);
+
+  const exact = weights.map((w) => (totalPaise * w) / totalWeight);
+  const parts = exact.map((value) => Math.floor(value));
+  let remainder = totalPaise - parts.reduce((sum, p) => sum + p, 0);
+
+  const order = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+
+  for (let i = 0; remainder > 0 && i < order.length; i++, remainder--) {
+    parts[order[i].index] += 1;
+  }
+
+  return parts;
+}
+
+/**
+ * Split a slab's tax into CGST + SGST (intra-state) or IGST (inter-state)
+ */
+export function splitTaxPaise(
+  taxPaise: number,
+  supplyType: SupplyType
+): { cgstPaise: number; sgstPaise: number; igstPaise: number } {
+  if (supplyType === 'INTER_STATE') {
+    return { cgstPaise: 0, sgstPaise: 0, igstPaise: taxPaise };
+  }
+  const cgstPaise = roundPaise(taxPaise / 2);
+  return { cgstPaise, sgstPaise: taxPaise - cgstPaise, igstPaise: 0 };
+}
+
+export function appliesLineDiscount(discountMode: DiscountMode): boolean {
+  return discountMode === 'LINE_ITEM' || discountMode === 'BOTH';
+}
+
+export function appliesOverallDiscount(discountMode: DiscountMode): boolean {
+  return discountMode === 'OVERALL' || discountMode === 'BOTH';
+}
+
+/**
+ * Net amount of a single line in paise, before any overall discount
+ */
+export function priceLinePaise(
+  quantity: number,
+  rate: number,
+  discount: number = 0,
+  discountType: DiscountType = 'PERCENT'
+): { grossPaise: number; lineDiscountPaise: number; netPaise: number } {
+  const grossPaise = roundPaise((quantity || 0) * toPaise(rate));
+  const lineDiscountPaise = discountOfPaise(grossPaise, discount, discountType);
+  return { grossPaise, lineDiscountPaise, netPaise: grossPaise - lineDiscountPaise };
+}
+
+/**
+ * Only standard lines count towards the quote total
+ */
+export function isIncludedInTotal(item: { kind?: QuoteItemKind | null }): boolean {
+  return !item.kind || item.kind === 'STANDARD';
+}
+
+/**
+ * Resolve the GST slab for a line: the line's own rate, else the product's, else the quote default
+ */
+export function getLineTaxRate(item: PricingItem, defaultTaxRate: number): number {
+  return item.taxRate ?? item.product?.taxRate ?? defaultTaxRate;
+}
+
+/**
+ * Price a complete quote
+ */
+export function priceQuote({
+  items,
+  sections = [],
+  discountMode,
+  overallDiscount = 0,
+  overallDiscountType = 'PERCENT',
+  taxRate = 18,
+  supplyType = 'INTRA_STATE',
+}: PricingInput): PricingResult {
+  const lineDiscounts = appliesLineDiscount(discountMode);
+
+  const baseLines = items.map((item) =>
+    priceLinePaise(
+      item.quantity,
+      item.rate,
+      lineDiscounts ? item.discount || 0 : 0,
+      item.discountType || 'PERCENT'
+    )
+  );
+
+  const included = items.map(isIncludedInTotal);
+  const weights = baseLines.map((line, index) => (included[index] ? Math.max(line.netPaise, 0) : 0));
+
+  const subtotalPaise = baseLines.reduce(
+    (sum, line, index) => sum + (included[index] ? line.netPaise : 0),
+    0
+  );
+
+  // Section discounts, shared among the section's own lines
+  const sectionShares = baseLines.map(() => 0);
+  const pricedSections: PricedSection[] = sections.map((section) => {
+    const inSection = items.map((item) => item.sectionId === section.id);
+    const netPaise = weights.reduce((sum, weight, index) => sum + (inSection[index] ? weight : 0), 0);
+    const discountPaise = lineDiscounts
+      ? discountOfPaise(netPaise, section.discount || 0, section.discountType || 'PERCENT')
+      : 0;
+
+    allocatePaise(discountPaise, weights.map((weight, index) => (inSection[index] ? weight : 0)))
+      .forEach((share, index) => { sectionShares[index] += share; });
+
+    return { id: section.id, netPaise, discountPaise };
+  });
+  const sectionDiscountPaise = pricedSections.reduce((sum, section) => sum + section.discountPaise, 0);
+
+  const overallDiscountPaise = appliesOverallDiscount(discountMode)
+    ? discountOfPaise(subtotalPaise - sectionDiscountPaise, overallDiscount, overallDiscountType)
+    : 0;
+  const discountPaise = sectionDiscountPaise + overallDiscountPaise;
+
+  const overallShares = allocatePaise(
+    overallDiscountPaise,
+    weights.map((weight, index) => weight - sectionShares[index])
+  );
+
+  const lines: PricedLine[] = baseLines.map((line, index) => {
+    const item = items[index];
+    return {
+      included: included[index],
+      ...line,
+      sectionDiscountPaise: sectionShares[index],
+      overallDiscountPaise: overallShares[index],
+      taxablePaise: line.netPaise - sectionShares[index] - overallShares[index],
+      taxRate: getLineTaxRate(item, taxRate),
+      hsnCode: item.hsnCode || item.product?.hsnCode || null,
+    };
+  });
+
+  // Group taxable values by HSN/SAC code and GST slab
+  const slabMap = new Map<string, { hsnCode: string | null; taxRate: number; taxablePaise: number }>();
+  lines.filter((line) => line.included).forEach((line) => {
+    const key = `${line.hsnCode || ''}|${line.taxRate}`;
+    const slab = slabMap.get(key) || { hsnCode: line.hsnCode, taxRate: line.taxRate, taxablePaise: 0 };
+    slab.taxablePaise += line.taxablePaise;
+    slabMap.set(key, slab);
+  });
+
+  const slabs: PricedSlab[] = Array.from(slabMap.values())
+    .map((slab) => {
+      const taxPaise = percentOfPaise(slab.taxablePaise, slab.taxRate);
+      return { ...slab, ...splitTaxPaise(taxPaise, supplyType), taxPaise };
+    })
+    .sort((a, b) => a.taxRate - b.taxRate || (a.hsnCode || '').localeCompare(b.hsnCode || ''));
+
+  const sum = (key: keyof PricedSlab) =>
+    slabs.reduce((total, slab) => total + (slab[key] as number), 0);
+
+  const taxablePaise = subtotalPaise - discountPaise;
+  const taxPaise = sum('taxPaise');
+
+  return {
+    supplyType,
+    lines,
+    sections: pricedSections,
+    slabs,
+    subtotalPaise,
+    sectionDiscountPaise,
+    overallDiscountPaise,
+    discountPaise,
+    taxablePaise,
+    taxPaise,
+    cgstPaise: sum('cgstPaise'),
+    sgstPaise: sum('sgstPaise'),
+    igstPaise: sum('igstPaise'),
+    grandTotalPaise: taxablePaise + taxPaise,
+  };
+}
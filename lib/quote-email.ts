@@ -0,0 +1,148 @@
+/**
+ * Emailing quotes: subject/body templates with {{mergeField}} placeholders, recipient list
+ * parsing and validation, and mapping of the send log. Sending itself is in lib/mailer.ts,
+ * which only runs on the server.
+ */
+
+import { EmailTemplate, QuoteEmail } from './types';
+import { formatCurrency } from './calculations';
+import { formatQuoteNumberWithRevision } from './quote-number';
+
+export const EMAIL_MERGE_FIELDS = [
+  { key: 'clientName', label: 'Client name' },
+  { key: 'quoteNumber', label: 'Quote number' },
+  { key: 'quoteTitle', label: 'Quote title' },
+  { key: 'total', label: 'Grand total' },
+  { key: 'validUntil', label: 'Valid until' },
+  { key: 'companyName', label: 'Company name' },
+  { key: 'senderName', label: 'Your name' },
+] as const;
+
+export type EmailMergeField = (typeof EMAIL_MERGE_FIELDS)[number]['key'];
+export type EmailMergeValues = Record<EmailMergeField, string>;
+
+// Used when no templates have been set up in Settings
+export const DEFAULT_EMAIL_TEMPLATE: Pick<EmailTemplate, 'subject' | 'body'> = {
+  subject: 'Quotation {{quoteNumber}} from {{companyName}}',
+  body:
+    'Dear {{clientName}},\n\nPlease find attached our quotation {{quoteNumber}} for {{quoteTitle}}, ' +
+    'amounting to {{total}}. It is valid until {{validUntil}}.\n\n' +
+    'Do let us know if you have any questions.\n\nRegards,\n{{senderName}}\n{{companyName}}',
+};
+
+// Keeps a single send to a sensible size
+const MAX_RECIPIENTS = 20;
+
+const EMAIL_PATTERN = /^[^\s@,;<>]+@[^\s@,;<>]+\.[^\s@,;<>]+$/;
+
+/**
+ * Merge field values for a quote. The quote number carries the revision suffix so it
+ * matches the attached PDF.
+ */
+export function getEmailMergeValues(input: {
+  clientName?: string | null;
+  quoteNumber: string;
+  version?: number | null;
+  quoteTitle?: string | null;
+  grandTotal: number;
+  validUntil?: string | null;
+  companyName?: string | null;
+  senderName?: string | null;
+}): EmailMergeValues {
+  return {
+    clientName: input.clientName || 'Sir/Madam',
+    quoteNumber: formatQuoteNumberWithRevision(input.quoteNumber, input.version),
+    quoteTitle: input.quoteTitle || '',
+    total: formatCurrency(input.grandTotal || 0),
+    validUntil: input.validUntil
+      ? new Date(input.validUntil).toLocaleDateString('en-IN', { year: 'numeric', month: 'short', day: 'numeric' })
+      : '',
+    companyName: input.companyName || '',
+    senderName: input.senderName || '',
+  };
+}
+
+/**
+ * Fill in {{mergeField}} placeholders; unknown fields are left as written
+ */
+export function renderEmailTemplate(template: string, values: EmailMergeValues): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) =>
+    key in values ? values[key as EmailMergeField] : placeholder
+  );
+}
+
+/**
+ * Addresses typed as one string ("a@x.com, b@y.com") or given as an array, trimmed and
+ * without duplicates
+ */
+export function parseEmailList(value: string | string[] | null | undefined): string[] {
+  const parts = Array.isArray(value) ? value : (value || '').split(/[,;\s]+/);
+  const seen = new Set<string>();
+
+  return parts
+    .map((part) => String(part).trim())
+    .filter((part) => {
+      const key = part.toLowerCase();
+      if (!part || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Validate an email before sending. Returns an error message, or null if valid.
+ */
+export function getQuoteEmailError(email: {
+  recipients: string[];
+  cc: string[];
+  subject?: string;
+  body?: string;
+}): string | null {
+  if (email.recipients.length === 0) return 'At least one recipient is required';
+  if (email.recipients.length + email.cc.length > MAX_RECIPIENTS) {
+    return `An email can go to at most ${MAX_RECIPIENTS} addresses`;
+  }
+
+  const invalid = [...email.recipients, ...email.cc].find((address) => !EMAIL_PATTERN.test(address));
+  if (invalid) return `"${invalid}" is not a valid email address`;
+
+  if (!email.subject?.trim()) return 'Subject is required';
+  if (!email.body?.trim()) return 'Message is required';
+  return null;
+}
+
+/**
+ * Map an email_templates row to frontend format
+ */
+export function mapEmailTemplate(template: any): EmailTemplate {
+  return {
+    id: template.id,
+    name: template.name,
+    subject: template.subject,
+    body: template.body,
+    isDefault: template.isdefault || false,
+    createdAt: template.createdat,
+    updatedAt: template.updatedat,
+  };
+}
+
+/**
+ * Map a quote_emails row (with its sender joined as `sender`) to frontend format
+ */
+export function mapQuoteEmail(email: any): QuoteEmail {
+  return {
+    id: email.id,
+    quoteId: email.quoteid,
+    quoteVersion: email.quoteversion,
+    recipients: email.recipients || [],
+    cc: email.cc || [],
+    subject: email.subject,
+    body: email.body,
+    status: email.status,
+    error: email.error,
+    messageId: email.messageid,
+    sentBy: email.sentby,
+    sentByName: email.sender?.name || null,
+    sentAt: email.sentat,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Quote API responses. A quote row keeps its own columns and gains the camelCase fields the
+ * frontend reads; its related rows are mapped field by field rather than spread, so cost
+ * prices (on quote lines and on their products) only reach users who can see margins.
+ */
+
+import { parseDimensions } from './dimensions';
+import { parseKitComponents } from './kits';
+import { parseCostPrice } from './margins';
+import { parseVariantAttributes, parseVariantOptions } from './variants';
+import { resolveQuoteStatus } from './quote-validity';
+import { mapApprovalSteps } from './approvals';
+
+/**
+ * Map a quote row, with whichever relations were selected, to frontend format
+ */
+export function mapQuote(quote: any, options: { showCost: boolean }) {
+  const {
+    client,
+    template,
+    sections,
+    payment_milestones,
+    items,
+    policies,
+    approvalSteps,
+    ...row
+  } = quote;
+
+  return {
+    ...row,
+    quoteNumber: quote.quotenumber,
+    clientId: quote.clientid,
+    templateId: quote.templateid,
+    priceListId: quote.pricelistid,
+    discountMode: quote.discountmode,
+    overallDiscount: quote.overalldiscount,
+    overallDiscountType: quote.overalldiscounttype || 'PERCENT',
+    taxRate: quote.taxrate,
+    grandTotal: quote.grandtotal,
+    supplyType: quote.supplytype,
+    placeOfSupply: quote.placeofsupply,
+    validUntil: quote.validuntil,
+    approvalReason: quote.approvalreason,
+    ...(approvalSteps !== undefined && { approvalSteps: mapApprovalSteps(approvalSteps) }),
+    status: resolveQuoteStatus({ status: quote.status, validUntil: quote.validuntil }),
+    isApproved: quote.isapproved || false,
+    createdAt: quote.createdat,
+    updatedAt: quote.updatedat,
+    client: client ? {
+      id: client.id,
+      name: client.name,
+      email: client.email,
+      phone: client.phone,
+      address: client.address,
+      state: client.state,
+      gstin: client.gstin,
+    } : null,
+    sections: (sections || [])
+      .map((section: any) => ({
+        id: section.id,
+        quoteId: section.quoteid,
+        name: section.name,
+        discount: section.discount || 0,
+        discountType: section.discounttype || 'PERCENT',
+        order: section.order,
+        createdAt: section.createdat,
+        updatedAt: section.updatedat,
+      }))
+      .sort((a: any, b: any) => a.order - b.order),
+    paymentMilestones: (payment_milestones || [])
+      .map((milestone: any) => ({
+        id: milestone.id,
+        quoteId: milestone.quoteid,
+        name: milestone.name,
+        valueType: milestone.valuetype || 'PERCENT',
+        value: Number(milestone.value),
+        trigger: milestone.trigger,
+        order: milestone.order,
+        createdAt: milestone.createdat,
+        updatedAt: milestone.updatedat,
+      }))
+      .sort((a: any, b: any) => a.order - b.order),
+    items: (items || []).map((item: any) => ({
+      id: item.id,
+      productId: item.productid,
+      sectionId: item.sectionid,
+      kind: item.kind || 'STANDARD',
+      alternativeOfId: item.alternativeof,
+      description: item.description,
+      quantity: item.quantity,
+      rate: item.rate,
+      discount: item.discount,
+      discountType: item.discounttype || 'PERCENT',
+      taxRate: item.taxrate,
+      hsnCode: item.hsncode,
+      lineTotal: item.linetotal,
+      dimensions: parseDimensions(item.dimensions),
+      kitComponents: parseKitComponents(item.kitcomponents),
+      variantOptions: parseVariantOptions(item.variantoptions),
+      costPrice: options.showCost ? parseCostPrice(item.costprice) : undefined,
+      product: {
+        name: item.product.name,
+        unit: item.product.unit,
+        baseRate: Number(item.product.baserate),
+        variantAttributes: parseVariantAttributes(item.product.variantattributes),
+        category: {
+          name: item.product.category.name,
+        },
+      },
+    })),
+    policies: (policies || []).map((policy: any) => ({
+      id: policy.id,
+      type: policy.type,
+      title: policy.title,
+      description: policy.description,
+      isActive: policy.isactive,
+    })),
+    template: template ? {
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      category: template.category,
+      isDefault: template.isdefault,
+      isPublic: template.ispublic,
+      templateJson: template.template_json,
+      thumbnail: template.thumbnail,
+      createdBy: template.createdby,
+      createdAt: template.createdat,
+      updatedAt: template.updatedat,
+      version: template.version,
+    } : null,
+  };
+}
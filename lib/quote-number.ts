@@ -0,0 +1,99 @@
+/**
+ * Sequential quote numbering per Indian financial year (April–March)
+ * Numbers are built from a configurable pattern, e.g. "EW/QT/{FY}/{SEQ:5}" → "EW/QT/2025-26/00042".
+ * The sequence itself lives in the database so concurrent requests never share a number.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const DEFAULT_QUOTE_NUMBER_PATTERN = 'QT/{FY}/{SEQ:5}';
+
+// {SEQ} or {SEQ:n}, where n is the zero-padded width
+const SEQ_TOKEN = /\{SEQ(?::(\d+))?\}/g;
+
+// Financial years turn over at midnight on 1 April in India, whatever the server's time zone
+const FINANCIAL_YEAR_DATE = new Intl.DateTimeFormat('en-IN', {
+  timeZone: 'Asia/Kolkata',
+  year: 'numeric',
+  month: 'numeric',
+});
+
+/**
+ * Financial year label for a date, e.g. "2025-26" for any date from 1 April 2025 to 31 March 2026
+ * (Indian Standard Time)
+ */
+export function getFinancialYear(date: Date = new Date()): string {
+  const parts = FINANCIAL_YEAR_DATE.formatToParts(date);
+  const year = Number(parts.find((part) => part.type === 'year')!.value);
+  const month = Number(parts.find((part) => part.type === 'month')!.value);
+
+  const startYear = month >= 4 ? year : year - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * A pattern must contain a {SEQ} token, otherwise every quote would get the same number, and
+ * a {FY} token, because the sequence restarts every financial year
+ */
+export function isValidQuoteNumberPattern(pattern: string): boolean {
+  return new RegExp(SEQ_TOKEN.source).test(pattern) && pattern.includes('{FY}');
+}
+
+/**
+ * Fill a pattern's {FY} and {SEQ}/{SEQ:n} tokens
+ */
+export function formatQuoteNumber(pattern: string, financialYear: string, sequence: number): string {
+  return pattern
+    .replace(/\{FY\}/g, financialYear)
+    .replace(SEQ_TOKEN, (_, width?: string) =>
+      String(sequence).padStart(width ? parseInt(width, 10) : 0, '0')
+    );
+}
+
+/**
+ * Revision suffix for a quote version; the first version has none, later ones read "-R2", "-R3"...
+ */
+export function formatRevisionSuffix(version: number | null | undefined): string {
+  return version && version > 1 ? `-R${version}` : '';
+}
+
+export function formatQuoteNumberWithRevision(
+  quoteNumber: string,
+  version: number | null | undefined
+): string {
+  return `${quoteNumber}${formatRevisionSuffix(version)}`;
+}
+
+/**
+ * Quote number made safe for use in a file name, e.g. "EW-QT-2025-26-00042"
+ */
+export function toFileSafeQuoteNumber(quoteNumber: string): string {
+  return quoteNumber.replace(/[^A-Za-z0-9._-]+/g, '-');
+}
+
+/**
+ * Allocate the next quote number for the current financial year.
+ * Uses the next_quote_sequence() database function, which increments the counter atomically.
+ */
+export async function nextQuoteNumber(
+  supabase: SupabaseClient,
+  date: Date = new Date()
+): Promise<string> {
+  const { data: company } = await supabase
+    .from('company_settings')
+    .select('quotenumberpattern')
+    .single();
+
+  const pattern = company?.quotenumberpattern && isValidQuoteNumberPattern(company.quotenumberpattern)
+    ? company.quotenumberpattern
+    : DEFAULT_QUOTE_NUMBER_PATTERN;
+
+  const financialYear = getFinancialYear(date);
+  const { data: sequence, error } = await supabase.rpc('next_quote_sequence', {
+    financial_year: financialYear,
+  });
+
+  if (error) throw error;
+
+  return formatQuoteNumber(pattern, financialYear, sequence as number);
+}
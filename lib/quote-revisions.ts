@@ -0,0 +1,359 @@
+/**
+ * Quote revisions. Every saved version of a quote is kept in quote_revisions with a full
+ * snapshot of its header, sections, items, policies and payment milestones, so any two
+ * versions can be compared and an earlier one restored (as a new version).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  QuoteRevision,
+  QuoteRevisionDiff,
+  QuoteSnapshot,
+  QuoteSnapshotItem,
+  QuoteStatus,
+  RevisionLineDiff,
+  RevisionLineValues,
+} from './types';
+import { parseDimensions } from './dimensions';
+import { parseKitComponents } from './kits';
+import { parseVariantOptions } from './variants';
+import { parseCostPrice } from './margins';
+
+// Selects a quote with everything its snapshot needs
+export const QUOTE_SNAPSHOT_SELECT = `
+  *,
+  client:clients(name),
+  sections:quote_sections(*),
+  payment_milestones:quote_payment_milestones(*),
+  items:quote_items(*, product:products(name)),
+  policies:policy_clauses(*)
+`;
+
+const byOrder = (a: any, b: any) => (a.order ?? 0) - (b.order ?? 0);
+
+// Header fields shown in a revision diff; totals are compared separately
+const HEADER_FIELDS: { field: keyof QuoteSnapshot['header']; label: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'clientName', label: 'Client' },
+  { field: 'discountMode', label: 'Discount mode' },
+  { field: 'overallDiscount', label: 'Overall discount' },
+  { field: 'overallDiscountType', label: 'Overall discount type' },
+  { field: 'taxRate', label: 'Tax rate' },
+  { field: 'validUntil', label: 'Valid until' },
+];
+
+const LINE_FIELDS: (keyof RevisionLineValues)[] = [
+  'description',
+  'quantity',
+  'rate',
+  'discount',
+  'discountType',
+  'taxRate',
+  'lineTotal',
+  'variantOptions',
+];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Snapshot of a quote loaded with QUOTE_SNAPSHOT_SELECT (or any select that includes the
+ * same relations)
+ */
+export function buildQuoteSnapshot(quote: any): QuoteSnapshot {
+  return {
+    header: {
+      title: quote.title,
+      clientId: quote.clientid,
+      clientName: quote.client?.name ?? null,
+      templateId: quote.templateid ?? null,
+      priceListId: quote.pricelistid ?? null,
+      discountMode: quote.discountmode,
+      overallDiscount: Number(quote.overalldiscount) || 0,
+      overallDiscountType: quote.overalldiscounttype || 'PERCENT',
+      taxRate: Number(quote.taxrate),
+      subtotal: Number(quote.subtotal) || 0,
+      discount: Number(quote.discount) || 0,
+      tax: Number(quote.tax) || 0,
+      grandTotal: Number(quote.grandtotal) || 0,
+      validUntil: quote.validuntil ?? null,
+    },
+    sections: [...(quote.sections || [])].sort(byOrder).map((section: any) => ({
+      id: section.id,
+      name: section.name,
+      discount: Number(section.discount) || 0,
+      discountType: section.discounttype || 'PERCENT',
+    })),
+    items: [...(quote.items || [])].sort(byOrder).map((item: any) => ({
+      id: item.id,
+      productId: item.productid,
+      productName: item.product?.name ?? null,
+      sectionId: item.sectionid,
+      kind: item.kind || 'STANDARD',
+      alternativeOfId: item.alternativeof ?? null,
+      description: item.description,
+      quantity: Number(item.quantity),
+      rate: Number(item.rate),
+      discount: Number(item.discount) || 0,
+      discountType: item.discounttype || 'PERCENT',
+      taxRate: Number(item.taxrate),
+      hsnCode: item.hsncode ?? null,
+      lineTotal: Number(item.linetotal) || 0,
+      dimensions: parseDimensions(item.dimensions),
+      kitComponents: parseKitComponents(item.kitcomponents),
+      variantOptions: parseVariantOptions(item.variantoptions),
+      costPrice: parseCostPrice(item.costprice),
+    })),
+    policies: [...(quote.policies || [])].sort(byOrder).map((policy: any) => ({
+      type: policy.type,
+      title: policy.title,
+      description: policy.description,
+      isActive: policy.isactive,
+    })),
+    paymentMilestones: [...(quote.payment_milestones || [])].sort(byOrder).map((milestone: any) => ({
+      name: milestone.name,
+      valueType: milestone.valuetype || 'PERCENT',
+      value: Number(milestone.value),
+      trigger: milestone.trigger,
+    })),
+  };
+}
+
+/**
+ * Map a quote_revisions row to frontend format. The snapshot itself is left out; use
+ * getRevisionSnapshot to load it.
+ */
+export function mapQuoteRevision(revision: any): QuoteRevision {
+  return {
+    id: revision.id,
+    quoteId: revision.quoteid,
+    version: revision.version,
+    status: revision.status,
+    exportedBy: revision.exported_by,
+    exportedAt: revision.exported_at,
+    changes: revision.changes,
+    notes: revision.notes,
+    hasSnapshot: !!revision.snapshot,
+    grandTotal: revision.snapshot ? Number(revision.snapshot.header?.grandTotal) : null,
+  };
+}
+
+/**
+ * Record a saved version of a quote with its snapshot
+ */
+export async function recordQuoteRevision(
+  supabase: SupabaseClient,
+  revision: {
+    quoteId: string;
+    version: number;
+    status: QuoteStatus;
+    snapshot: QuoteSnapshot;
+    changedBy?: string | null;
+    changes?: any;
+    notes?: string | null;
+  }
+): Promise<void> {
+  const { error } = await supabase
+    .from('quote_revisions')
+    .insert({
+      quoteid: revision.quoteId,
+      version: revision.version,
+      status: revision.status,
+      exported_by: revision.changedBy ?? null,
+      exported_at: new Date().toISOString(),
+      changes: revision.changes ?? null,
+      notes: revision.notes ?? null,
+      snapshot: revision.snapshot,
+    });
+
+  if (error) throw error;
+}
+
+/**
+ * Make sure the quote's current version has a snapshot, e.g. before it is overwritten or
+ * sent out. Quotes saved before snapshots were kept get one from their current contents.
+ */
+export async function ensureQuoteSnapshot(
+  supabase: SupabaseClient,
+  quoteId: string,
+  notes: string = 'Snapshot of the version before this edit'
+): Promise<void> {
+  const { data: quote, error } = await supabase
+    .from('quotes')
+    .select(QUOTE_SNAPSHOT_SELECT)
+    .eq('id', quoteId)
+    .single();
+
+  if (error) throw error;
+
+  const version = quote.version || 1;
+  if (await getRevisionSnapshot(supabase, quoteId, version)) return;
+
+  await recordQuoteRevision(supabase, {
+    quoteId,
+    version,
+    status: quote.status,
+    snapshot: buildQuoteSnapshot(quote),
+    notes,
+  });
+}
+
+/**
+ * The snapshot stored for one version of a quote, or null if there is none
+ */
+export async function getRevisionSnapshot(
+  supabase: SupabaseClient,
+  quoteId: string,
+  version: number
+): Promise<QuoteSnapshot | null> {
+  const { data, error } = await supabase
+    .from('quote_revisions')
+    .select('snapshot')
+    .eq('quoteid', quoteId)
+    .eq('version', version)
+    .not('snapshot', 'is', null)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return (data?.snapshot as QuoteSnapshot) ?? null;
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+function lineValues(item: QuoteSnapshotItem): RevisionLineValues {
+  return {
+    description: item.description,
+    quantity: item.quantity,
+    rate: item.rate,
+    discount: item.discount,
+    discountType: item.discountType,
+    taxRate: item.taxRate,
+    lineTotal: item.lineTotal,
+    variantOptions: item.variantOptions ?? null,
+  };
+}
+
+/**
+ * Compare two snapshots of a quote. Item ids change on every save, so lines are matched by
+ * product, room and kind, in order; lines that match nothing were added or removed.
+ * Unchanged lines are left out. Cost prices are never compared.
+ */
+export function diffQuoteSnapshots(
+  from: QuoteSnapshot,
+  to: QuoteSnapshot,
+  fromVersion: number,
+  toVersion: number
+): QuoteRevisionDiff {
+  const sectionName = (snapshot: QuoteSnapshot, sectionId: string | null) =>
+    snapshot.sections.find((section) => section.id === sectionId)?.name ?? null;
+
+  const lineKey = (snapshot: QuoteSnapshot, item: QuoteSnapshotItem) =>
+    `${item.productId}|${sectionName(snapshot, item.sectionId) ?? ''}|${item.kind}`;
+
+  // Earlier lines with the same key are matched first
+  const unmatched = new Map<string, QuoteSnapshotItem[]>();
+  for (const item of from.items) {
+    const key = lineKey(from, item);
+    unmatched.set(key, [...(unmatched.get(key) || []), item]);
+  }
+
+  const lines: RevisionLineDiff[] = [];
+
+  for (const item of to.items) {
+    const before = unmatched.get(lineKey(to, item))?.shift();
+    const after = lineValues(item);
+
+    if (!before) {
+      lines.push({
+        change: 'ADDED',
+        productName: item.productName,
+        sectionName: sectionName(to, item.sectionId),
+        kind: item.kind,
+        changedFields: [],
+        before: null,
+        after,
+        lineTotalDelta: round2(item.lineTotal),
+      });
+      continue;
+    }
+
+    const previous = lineValues(before);
+    const changedFields = LINE_FIELDS.filter((field) => !sameValue(previous[field], after[field]));
+    if (changedFields.length === 0) continue;
+
+    lines.push({
+      change: 'CHANGED',
+      productName: item.productName,
+      sectionName: sectionName(to, item.sectionId),
+      kind: item.kind,
+      changedFields,
+      before: previous,
+      after,
+      lineTotalDelta: round2(item.lineTotal - before.lineTotal),
+    });
+  }
+
+  for (const item of Array.from(unmatched.values()).flat()) {
+    lines.push({
+      change: 'REMOVED',
+      productName: item.productName,
+      sectionName: sectionName(from, item.sectionId),
+      kind: item.kind,
+      changedFields: [],
+      before: lineValues(item),
+      after: null,
+      lineTotalDelta: round2(-item.lineTotal),
+    });
+  }
+
+  const fromPolicies = new Map(from.policies.map((policy) => [policy.title, policy]));
+  const toPolicies = new Map(to.policies.map((policy) => [policy.title, policy]));
+
+  const total = (field: 'subtotal' | 'discount' | 'tax' | 'grandTotal') => ({
+    from: from.header[field],
+    to: to.header[field],
+    delta: round2(to.header[field] - from.header[field]),
+  });
+
+  return {
+    fromVersion,
+    toVersion,
+    header: HEADER_FIELDS
+      .filter(({ field }) => !sameValue(from.header[field], to.header[field]))
+      .map(({ field, label }) => ({ field, label, from: from.header[field], to: to.header[field] })),
+    lines,
+    policies: {
+      added: to.policies.filter((policy) => !fromPolicies.has(policy.title)).map((policy) => policy.title),
+      removed: from.policies.filter((policy) => !toPolicies.has(policy.title)).map((policy) => policy.title),
+      changed: to.policies
+        .filter((policy) => fromPolicies.has(policy.title) && !sameValue(fromPolicies.get(policy.title), policy))
+        .map((policy) => policy.title),
+    },
+    totals: {
+      subtotal: total('subtotal'),
+      discount: total('discount'),
+      tax: total('tax'),
+      grandTotal: total('grandTotal'),
+    },
+  };
+}
+
+/**
+ * Body for PUT /api/quotes/[id] that puts a snapshot's contents back on the quote. The
+ * validity date is left as it is, so restoring an old version doesn't expire the quote.
+ */
+export function snapshotToQuoteUpdate(snapshot: QuoteSnapshot) {
+  return {
+    title: snapshot.header.title,
+    clientId: snapshot.header.clientId,
+    templateId: snapshot.header.templateId,
+    discountMode: snapshot.header.discountMode,
+    overallDiscount: snapshot.header.overallDiscount,
+    overallDiscountType: snapshot.header.overallDiscountType,
+    taxRate: snapshot.header.taxRate,
+    sections: snapshot.sections,
+    items: snapshot.items,
+    policies: snapshot.policies,
+    paymentMilestones: snapshot.paymentMilestones,
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Quote status state machine. Every route that changes a quote's status checks the move
+ * against STATUS_TRANSITIONS (and the permission it needs) before writing it, and records
+ * it in quote_status_history with who made it and when.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { QuoteStatus, QuoteStatusChange } from './types';
+
+// Quote permission needed for a transition; null for automatic ones (e.g. expiry)
+export type QuoteStatusPermission = 'canedit' | 'canapprove' | null;
+
+export interface StatusTransition {
+  from: QuoteStatus;
+  to: QuoteStatus;
+  permission: QuoteStatusPermission;
+}
+
+// New quotes always start here
+export const INITIAL_QUOTE_STATUS: QuoteStatus = 'DRAFT';
+
+export const STATUS_TRANSITIONS: StatusTransition[] = [
+  // Sent for approval by its author, or routed there automatically on save
+  { from: 'DRAFT', to: 'PENDING_APPROVAL', permission: 'canedit' },
+  // Approvers can send their own drafts without an approval round, unless an approval
+  // policy applies to the quote (checked by the routes, see getSendApprovalError)
+  { from: 'DRAFT', to: 'SENT', permission: 'canapprove' },
+  { from: 'PENDING_APPROVAL', to: 'SENT', permission: 'canapprove' },
+  { from: 'PENDING_APPROVAL', to: 'REJECTED', permission: 'canapprove' },
+  // The client's answer to a sent quote
+  { from: 'SENT', to: 'ACCEPTED', permission: 'canedit' },
+  { from: 'SENT', to: 'REJECTED', permission: 'canedit' },
+  // Rejected quotes can be reworked and sent for approval again
+  { from: 'REJECTED', to: 'DRAFT', permission: 'canedit' },
+  // Open quotes expire after their validity date; extending it reopens them as drafts
+  { from: 'DRAFT', to: 'EXPIRED', permission: null },
+  { from: 'PENDING_APPROVAL', to: 'EXPIRED', permission: null },
+  { from: 'SENT', to: 'EXPIRED', permission: null },
+  { from: 'EXPIRED', to: 'DRAFT', permission: 'canedit' },
+];
+
+export interface StatusTransitionError {
+  error: string;
+  status: 403 | 409;
+}
+
+export function findStatusTransition(from: QuoteStatus, to: QuoteStatus): StatusTransition | null {
+  return STATUS_TRANSITIONS.find((t) => t.from === from && t.to === to) || null;
+}
+
+/**
+ * Statuses a quote can move to from its current status
+ */
+export function getNextStatuses(from: QuoteStatus): QuoteStatus[] {
+  return STATUS_TRANSITIONS.filter((t) => t.from === from).map((t) => t.to);
+}
+
+/**
+ * Check a move against the state machine only, for callers that authorise it another way
+ * (e.g. a client answering through a share link). Returns a 409 error, or null if the
+ * move is allowed.
+ */
+export function getStatusTransitionError(from: QuoteStatus, to: QuoteStatus): StatusTransitionError | null {
+  if (from === to || findStatusTransition(from, to)) return null;
+
+  const next = getNextStatuses(from);
+  return {
+    error: `Cannot move a quote from ${from} to ${to}. ${
+      next.length > 0 ? `A ${from} quote can only move to ${next.join(', ')}.` : `${from} is a final status.`
+    }`,
+    status: 409,
+  };
+}
+
+/**
+ * Moves into and out of PENDING_APPROVAL belong to the approval routes, which keep the
+ * approval chain, its events and isapproved/approvedby in step: request-approval starts a
+ * round and only /approve (step by step, through the whole chain) ends one. Returns a 409
+ * error for a plain status update that tries either, or null.
+ */
+export function getApprovalRouteError(
+  quoteId: string,
+  from: QuoteStatus,
+  to: QuoteStatus
+): StatusTransitionError | null {
+  if (from === to) return null;
+
+  if (to === 'PENDING_APPROVAL') {
+    return {
+      error: `Send a quote for approval with POST /api/quotes/${quoteId}/request-approval`,
+      status: 409,
+    };
+  }
+
+  if (from === 'PENDING_APPROVAL') {
+    return {
+      error: `A quote pending approval can only be approved or rejected with POST /api/quotes/${quoteId}/approve`,
+      status: 409,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Check that the signed-in user may move a quote from one status to another. Returns the
+ * error to respond with (409 for a move the state machine does not allow, 403 for a
+ * missing permission), or null if the move is allowed. Staying in the same status is
+ * always allowed.
+ */
+export async function checkStatusTransition(
+  supabase: SupabaseClient,
+  from: QuoteStatus,
+  to: QuoteStatus
+): Promise<StatusTransitionError | null> {
+  if (from === to) return null;
+
+  const stateError = getStatusTransitionError(from, to);
+  if (stateError) return stateError;
+
+  const transition = findStatusTransition(from, to)!;
+  if (transition.permission) {
+    const { data: allowed } = await supabase.rpc('has_permission', {
+      resource_name: 'quotes',
+      permission_type: transition.permission,
+    });
+
+    if (allowed !== true) {
+      return {
+        error: `Moving a quote from ${from} to ${to} requires the quotes ${transition.permission} permission`,
+        status: 403,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Record status changes in the quote's history. The database fills in the acting user
+ * and the time. Changes that leave the status as it was are skipped.
+ */
+export async function recordStatusTransitions(
+  supabase: SupabaseClient,
+  changes: { quoteId: string; from: QuoteStatus | null; to: QuoteStatus; note?: string | null }[]
+): Promise<void> {
+  const rows = changes
+    .filter((change) => change.from !== change.to)
+    .map((change) => ({
+      quoteid: change.quoteId,
+      fromstatus: change.from,
+      tostatus: change.to,
+      note: change.note || null,
+    }));
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('quote_status_history')
+    .insert(rows);
+
+  if (error) throw error;
+}
+
+export async function recordStatusTransition(
+  supabase: SupabaseClient,
+  quoteId: string,
+  from: QuoteStatus | null,
+  to: QuoteStatus,
+  note?: string | null
+): Promise<void> {
+  await recordStatusTransitions(supabase, [{ quoteId, from, to, note }]);
+}
+
+/**
+ * Map a quote_status_history row (with the user who made the change) to frontend format
+ */
+export function mapStatusChange(change: any): QuoteStatusChange {
+  return {
+    id: change.id,
+    quoteId: change.quoteid,
+    fromStatus: change.fromstatus,
+    toStatus: change.tostatus,
+    changedBy: change.changedby,
+    changedByName: change.user?.name ?? null,
+    changedAt: change.changedat,
+    note: change.note,
+  };
+}
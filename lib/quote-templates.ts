@@ -0,0 +1,76 @@
+/**
+ * Quote templates: reusable sets of rooms, items and terms saved from an existing quote.
+ * Starting from a template loads its contents into the quote builder as a new quote.
+ */
+
+import { QuoteSnapshot, QuoteTemplate, QuoteTemplateContent } from './types';
+import { parseVariantAttributes } from './variants';
+
+/**
+ * Template contents from a quote snapshot. Cost prices and line totals are left out; they
+ * are worked out again when the new quote is saved.
+ */
+export function snapshotToTemplateContent(snapshot: QuoteSnapshot): QuoteTemplateContent {
+  return {
+    discountMode: snapshot.header.discountMode,
+    sections: snapshot.sections,
+    items: snapshot.items.map(({ lineTotal, costPrice, ...item }) => item),
+    policies: snapshot.policies,
+  };
+}
+
+/**
+ * Map a quote_templates row to frontend format
+ */
+export function mapQuoteTemplate(template: any): QuoteTemplate {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    itemCount: template.content?.items?.length || 0,
+    createdBy: template.createdby,
+    createdAt: template.createdat,
+    updatedAt: template.updatedat,
+  };
+}
+
+/**
+ * A template in the shape useQuoteStore.loadQuote expects, with each item's product as it
+ * is now. Items whose product no longer exists (and their alternatives) are left out.
+ */
+export function templateToBuilderQuote(content: QuoteTemplateContent, products: any[]) {
+  const productsById = new Map(products.map((product: any) => [product.id, product]));
+
+  const available = content.items.filter((item) => productsById.has(item.productId));
+  const availableIds = new Set(available.map((item) => item.id));
+
+  const items = available
+    // An alternative is only kept while the line it replaces is
+    .filter((item) => item.kind !== 'ALTERNATIVE' || availableIds.has(item.alternativeOfId ?? ''))
+    .map((item) => {
+      const product = productsById.get(item.productId);
+      return {
+        ...item,
+        product: {
+          id: product.id,
+          name: product.name,
+          unit: product.unit,
+          baseRate: product.baserate,
+          taxRate: product.taxrate,
+          hsnCode: product.hsncode,
+          variantAttributes: parseVariantAttributes(product.variantattributes),
+          category: {
+            name: product.category?.name,
+          },
+        },
+      };
+    });
+
+  return {
+    discountMode: content.discountMode,
+    sections: content.sections.map((section, index) => ({ ...section, order: index + 1 })),
+    items,
+    policies: content.policies.map((policy, index) => ({ ...policy, order: index + 1 })),
+    skippedItems: content.items.length - items.length,
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Quote validity: every quote carries a validUntil date, after which any open quote
+ * becomes EXPIRED. Expiry is evaluated whenever a quote is read, and persisted in bulk
+ * by POST /api/quotes/expire.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { QuoteStatus } from './types';
+import { recordStatusTransitions } from './quote-status';
+
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 30;
+
+// Quotes expiring within this many days are flagged as "expiring soon"
+export const EXPIRING_SOON_DAYS = 7;
+
+// Only quotes still awaiting a decision can expire
+export const EXPIRABLE_STATUSES: QuoteStatus[] = ['DRAFT', 'PENDING_APPROVAL', 'SENT'];
+
+/**
+ * Calendar date (YYYY-MM-DD) in local time
+ */
+export function toDateString(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Default validUntil for a quote created on the given date
+ */
+export function defaultValidUntil(
+  validityDays: number = DEFAULT_QUOTE_VALIDITY_DAYS,
+  from: Date = new Date()
+): string {
+  const date = new Date(from);
+  date.setDate(date.getDate() + validityDays);
+  return toDateString(date);
+}
+
+/**
+ * A quote is valid through the whole of its validUntil date
+ */
+export function isQuoteExpired(
+  quote: { status: string; validUntil?: string | null },
+  now: Date = new Date()
+): boolean {
+  if (quote.status === 'EXPIRED') return true;
+  if (!quote.validUntil || !EXPIRABLE_STATUSES.includes(quote.status as QuoteStatus)) return false;
+  return quote.validUntil.slice(0, 10) < toDateString(now);
+}
+
+/**
+ * Status to show for a quote, with expiry applied
+ */
+export function resolveQuoteStatus(
+  quote: { status: string; validUntil?: string | null },
+  now: Date = new Date()
+): QuoteStatus {
+  return isQuoteExpired(quote, now) ? 'EXPIRED' : quote.status as QuoteStatus;
+}
+
+/**
+ * Open quotes whose validity ends within the next EXPIRING_SOON_DAYS days
+ */
+export function isQuoteExpiringSoon(
+  quote: { status: string; validUntil?: string | null },
+  now: Date = new Date(),
+  days: number = EXPIRING_SOON_DAYS
+): boolean {
+  if (!quote.validUntil || isQuoteExpired(quote, now)) return false;
+  if (!EXPIRABLE_STATUSES.includes(quote.status as QuoteStatus)) return false;
+  return quote.validUntil.slice(0, 10) <= defaultValidUntil(days, now);
+}
+
+/**
+ * Look up the default validity period from company settings
+ */
+export async function getQuoteValidityDays(supabase: SupabaseClient): Promise<number> {
+  const { data: company } = await supabase
+    .from('company_settings')
+    .select('quotevaliditydays')
+    .single();
+
+  return company?.quotevaliditydays || DEFAULT_QUOTE_VALIDITY_DAYS;
+}
+
+/**
+ * Mark every open quote past its validity date as EXPIRED and record each change in its
+ * status history; returns the expired quote ids
+ */
+export async function expireQuotes(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('quotes')
+    .select('id, status')
+    .in('status', EXPIRABLE_STATUSES)
+    .lt('validuntil', toDateString(now));
+
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  const { data: expired, error: updateError } = await supabase
+    .from('quotes')
+    .update({
+      status: 'EXPIRED',
+      updatedat: now.toISOString(),
+    })
+    .in('id', data.map((quote: any) => quote.id))
+    .in('status', EXPIRABLE_STATUSES)
+    .select('id');
+
+  if (updateError) throw updateError;
+
+  const expiredIds = (expired || []).map((quote: any) => quote.id);
+
+  await recordStatusTransitions(
+    supabase,
+    data
+      .filter((quote: any) => expiredIds.includes(quote.id))
+      .map((quote: any) => ({ quoteId: quote.id, from: quote.status, to: 'EXPIRED' as const, note: 'Validity date passed' }))
+  );
+
+  return expiredIds;
+}
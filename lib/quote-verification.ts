@@ -0,0 +1,84 @@
+/**
+ * Quote verification: the QR code on a quote PDF opens a public page confirming that the
+ * printed version was issued by us, with its date and total, and whether a newer version
+ * has been issued since. It only needs the quote id and version, so a printed or forwarded
+ * quote can be checked against our records without logging in.
+ *
+ * The QR code does not open the client's share link: a forwarded PDF must not let anyone
+ * accept the quote.
+ */
+
+import { QuoteVerification } from './types';
+import { formatQuoteNumberWithRevision } from './quote-number';
+
+/**
+ * Base URL for links printed on documents: NEXT_PUBLIC_APP_URL, or the origin of the
+ * request being served
+ */
+export function getAppBaseUrl(requestUrl: string): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || new URL(requestUrl).origin).replace(/\/+$/, '');
+}
+
+export function getQuoteVerificationUrl(baseUrl: string, quoteId: string, version: number): string {
+  return `${baseUrl}/verify/${quoteId}?v=${version}`;
+}
+
+/**
+ * Version number from the verification URL, or null if it is not a version
+ */
+export function parseVerificationVersion(value: string | null): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const version = Number(value);
+  return version >= 1 ? version : null;
+}
+
+/**
+ * When each version was issued: exported to PDF (which is also how quotes are emailed) or
+ * shared with the client. Saving a version snapshots it but doesn't issue it.
+ */
+export function getIssuedVersions(
+  revisions: { version: number; exported_at: string | null; snapshot: any }[],
+  shareLinks: { quoteversion: number; createdat: string }[]
+): Map<number, string> {
+  const issued = new Map<number, string>();
+  const record = (version: number, at: string | null) => {
+    if (!at) return;
+    const earliest = issued.get(version);
+    if (!earliest || at < earliest) issued.set(version, at);
+  };
+
+  // Export entries are the rows without a snapshot
+  revisions.filter((revision) => !revision.snapshot).forEach((revision) => record(revision.version, revision.exported_at));
+  shareLinks.forEach((link) => record(link.quoteversion, link.createdat));
+
+  return issued;
+}
+
+/**
+ * What the verification page shows for one issued version, or null if that version was
+ * never issued
+ */
+export function buildQuoteVerification(
+  quote: { quotenumber: string; version: number | null },
+  version: number,
+  revisions: { version: number; exported_at: string | null; snapshot: any }[],
+  shareLinks: { quoteversion: number; createdat: string }[],
+  companyName: string | null
+): QuoteVerification | null {
+  const issued = getIssuedVersions(revisions, shareLinks);
+  const issuedAt = issued.get(version);
+  if (!issuedAt) return null;
+
+  // Every saved version keeps a snapshot of its contents, with its total and validity
+  const snapshot = revisions.find((revision) => revision.version === version && revision.snapshot)?.snapshot;
+
+  return {
+    quoteNumber: formatQuoteNumberWithRevision(quote.quotenumber, version),
+    version,
+    issuedAt,
+    grandTotal: snapshot ? Number(snapshot.header?.grandTotal) : null,
+    validUntil: snapshot?.header?.validUntil || null,
+    isLatest: version >= Math.max(...Array.from(issued.keys())),
+    companyName: companyName || null,
+  };
+}
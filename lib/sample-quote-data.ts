@@ -7,13 +7,19 @@ import {
   QuoteWithDetails,
   QuoteItemWithProduct,
   PolicyClause,
+  PaymentMilestone,
+  QuoteSection,
   Client,
   Category,
   Product,
   DiscountMode,
+  DiscountType,
   QuoteStatus,
+  QuoteItemKind,
   PolicyType,
 } from './types';
+import { calculateQuoteTotals } from './calculations';
+import { defaultValidUntil } from './quote-validity';
 
 /**
  * Generate a realistic sample quote with complete details
@@ -21,36 +27,44 @@ import {
  */
 export function generateSampleQuote(): QuoteWithDetails {
   const sampleClient = generateSampleClient();
+  const sampleSections = generateSampleSections();
   const sampleItems = generateSampleItems();
   const samplePolicies = generateSamplePolicies();
 
   // Calculate totals
-  const subtotal = sampleItems.reduce((sum, item) => sum + item.lineTotal, 0);
   const overallDiscount = 5; // 5% overall discount
-  const discountAmount = (subtotal * overallDiscount) / 100;
-  const taxableAmount = subtotal - discountAmount;
-  const taxRate = 10; // 10% tax
-  const tax = (taxableAmount * taxRate) / 100;
-  const grandTotal = taxableAmount + tax;
+  const taxRate = 18; // Default GST slab; items carry their own rates
+  const { subtotal, discount: discountAmount, tax, grandTotal } = calculateQuoteTotals(
+    sampleItems,
+    'BOTH',
+    overallDiscount,
+    taxRate,
+    undefined,
+    sampleSections
+  );
 
   return {
     id: 'sample-quote-001',
     title: 'Sample Quotation - Office Renovation',
-    quoteNumber: 'QT-2024-001',
+    quoteNumber: 'QT/2024-25/00001',
     clientId: sampleClient.id,
     client: sampleClient,
     discountMode: 'BOTH' as DiscountMode,
     overallDiscount,
+    overallDiscountType: 'PERCENT' as DiscountType,
     taxRate,
     subtotal,
     discount: discountAmount,
     tax,
     grandTotal,
+    validUntil: defaultValidUntil(),
     status: 'DRAFT' as QuoteStatus,
     version: 1,
     isApproved: false,
+    sections: sampleSections,
     items: sampleItems,
     policies: samplePolicies,
+    paymentMilestones: generateSamplePaymentMilestones(),
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   };
@@ -85,10 +99,16 @@ function generateSampleItems(): QuoteItemWithProduct[] {
       id: 'item-001',
       quoteId: 'sample-quote-001',
       productId: products[0].id,
+      sectionId: 'section-001',
+      kind: 'STANDARD' as QuoteItemKind,
+      alternativeOfId: null,
       description: 'Premium ergonomic office chairs with lumbar support',
       quantity: 15,
       rate: 350,
       discount: 10, // 10% line item discount
+      discountType: 'PERCENT' as DiscountType,
+      taxRate: products[0].taxRate ?? 18,
+      hsnCode: products[0].hsnCode,
       lineTotal: 15 * 350 * 0.9, // Apply 10% discount
       order: 0,
       dimensions: null,
@@ -103,10 +123,16 @@ function generateSampleItems(): QuoteItemWithProduct[] {
       id: 'item-002',
       quoteId: 'sample-quote-001',
       productId: products[1].id,
+      sectionId: 'section-001',
+      kind: 'STANDARD' as QuoteItemKind,
+      alternativeOfId: null,
       description: 'Height-adjustable standing desks with electric motor',
       quantity: 10,
       rate: 800,
       discount: 5,
+      discountType: 'PERCENT' as DiscountType,
+      taxRate: products[1].taxRate ?? 18,
+      hsnCode: products[1].hsnCode,
       lineTotal: 10 * 800 * 0.95,
       order: 1,
       dimensions: null,
@@ -121,10 +147,16 @@ function generateSampleItems(): QuoteItemWithProduct[] {
       id: 'item-003',
       quoteId: 'sample-quote-001',
       productId: products[2].id,
+      sectionId: 'section-001',
+      kind: 'STANDARD' as QuoteItemKind,
+      alternativeOfId: null,
       description: '27-inch 4K monitors with adjustable stand',
       quantity: 20,
       rate: 450,
       discount: 0,
+      discountType: 'PERCENT' as DiscountType,
+      taxRate: products[2].taxRate ?? 18,
+      hsnCode: products[2].hsnCode,
       lineTotal: 20 * 450,
       order: 2,
       dimensions: null,
@@ -139,10 +171,16 @@ function generateSampleItems(): QuoteItemWithProduct[] {
       id: 'item-004',
       quoteId: 'sample-quote-001',
       productId: products[3].id,
+      sectionId: 'section-001',
+      kind: 'STANDARD' as QuoteItemKind,
+      alternativeOfId: null,
       description: 'Wireless mechanical keyboards with RGB lighting',
       quantity: 20,
       rate: 120,
       discount: 0,
+      discountType: 'PERCENT' as DiscountType,
+      taxRate: products[3].taxRate ?? 18,
+      hsnCode: products[3].hsnCode,
       lineTotal: 20 * 120,
       order: 3,
       dimensions: null,
@@ -157,10 +195,16 @@ function generateSampleItems(): QuoteItemWithProduct[] {
       id: 'item-005',
       quoteId: 'sample-quote-001',
       productId: products[4].id,
+      sectionId: 'section-001',
+      kind: 'STANDARD' as QuoteItemKind,
+      alternativeOfId: null,
       description: 'Ergonomic wireless mice with precision tracking',
       quantity: 20,
       rate: 45,
       discount: 0,
+      discountType: 'PERCENT' as DiscountType,
+      taxRate: products[4].taxRate ?? 18,
+      hsnCode: products[4].hsnCode,
       lineTotal: 20 * 45,
       order: 4,
       dimensions: null,
@@ -175,10 +219,16 @@ function generateSampleItems(): QuoteItemWithProduct[] {
       id: 'item-006',
       quoteId: 'sample-quote-001',
       productId: products[5].id,
+      sectionId: 'section-002',
+      kind: 'OPTIONAL' as QuoteItemKind,
+      alternativeOfId: null,
       description: 'LED desk lamps with adjustable color temperature',
       quantity: 15,
       rate: 65,
       discount: 0,
+      discountType: 'PERCENT' as DiscountType,
+      taxRate: products[5].taxRate ?? 18,
+      hsnCode: products[5].hsnCode,
       lineTotal: 15 * 65,
       order: 5,
       dimensions: null,
@@ -193,10 +243,16 @@ function generateSampleItems(): QuoteItemWithProduct[] {
       id: 'item-007',
       quoteId: 'sample-quote-001',
       productId: products[6].id,
+      sectionId: 'section-002',
+      kind: 'STANDARD' as QuoteItemKind,
+      alternativeOfId: null,
       description: 'Cable management solutions and under-desk trays',
       quantity: 25,
       rate: 35,
       discount: 0,
+      discountType: 'PERCENT' as DiscountType,
+      taxRate: products[6].taxRate ?? 18,
+      hsnCode: products[6].hsnCode,
       lineTotal: 25 * 35,
       order: 6,
       dimensions: null,
@@ -211,10 +267,16 @@ function generateSampleItems(): QuoteItemWithProduct[] {
       id: 'item-008',
       quoteId: 'sample-quote-001',
       productId: products[7].id,
+      sectionId: 'section-002',
+      kind: 'STANDARD' as QuoteItemKind,
+      alternativeOfId: null,
       description: 'Professional installation and setup service',
       quantity: 1,
       rate: 1500,
       discount: 0,
+      discountType: 'PERCENT' as DiscountType,
+      taxRate: products[7].taxRate ?? 18,
+      hsnCode: products[7].hsnCode,
       lineTotal: 1500,
       order: 7,
       dimensions: null,
@@ -284,6 +346,8 @@ function generateSampleProducts(categories: Category[]): Product[] {
       description: 'Premium ergonomic chair with adjustable lumbar support',
       unit: 'piece',
       baseRate: 350,
+      hsnCode: '9401',
+      taxRate: 18,
       imageUrl: null,
       categoryId: categories[0].id,
       isActive: true,
@@ -297,6 +361,8 @@ function generateSampleProducts(categories: Category[]): Product[] {
       description: 'Height-adjustable standing desk with electric motor',
       unit: 'piece',
       baseRate: 800,
+      hsnCode: '9403',
+      taxRate: 18,
       imageUrl: null,
       categoryId: categories[0].id,
       isActive: true,
@@ -310,6 +376,8 @@ function generateSampleProducts(categories: Category[]): Product[] {
       description: 'Professional 4K monitor with color accuracy',
       unit: 'piece',
       baseRate: 450,
+      hsnCode: '8528',
+      taxRate: 18,
       imageUrl: null,
       categoryId: categories[1].id,
       isActive: true,
@@ -323,6 +391,8 @@ function generateSampleProducts(categories: Category[]): Product[] {
       description: 'Wireless mechanical keyboard with RGB lighting',
       unit: 'piece',
       baseRate: 120,
+      hsnCode: '8471',
+      taxRate: 18,
       imageUrl: null,
       categoryId: categories[1].id,
       isActive: true,
@@ -336,6 +406,8 @@ function generateSampleProducts(categories: Category[]): Product[] {
       description: 'Ergonomic wireless mouse with precision tracking',
       unit: 'piece',
       baseRate: 45,
+      hsnCode: '8471',
+      taxRate: 18,
       imageUrl: null,
       categoryId: categories[1].id,
       isActive: true,
@@ -349,6 +421,8 @@ function generateSampleProducts(categories: Category[]): Product[] {
       description: 'Adjustable LED lamp with color temperature control',
       unit: 'piece',
       baseRate: 65,
+      hsnCode: '9405',
+      taxRate: 12,
       imageUrl: null,
       categoryId: categories[2].id,
       isActive: true,
@@ -362,6 +436,8 @@ function generateSampleProducts(categories: Category[]): Product[] {
       description: 'Complete cable management solution',
       unit: 'set',
       baseRate: 35,
+      hsnCode: '8544',
+      taxRate: 18,
       imageUrl: null,
       categoryId: categories[2].id,
       isActive: true,
@@ -375,6 +451,8 @@ function generateSampleProducts(categories: Category[]): Product[] {
       description: 'Professional installation and setup',
       unit: 'service',
       baseRate: 1500,
+      hsnCode: '9987',
+      taxRate: 18,
       imageUrl: null,
       categoryId: categories[3].id,
       isActive: true,
@@ -384,9 +462,55 @@ function generateSampleProducts(categories: Category[]): Product[] {
   ];
 }
 
+/**
+ * Generate sample rooms/sections
+ */
+function generateSampleSections(): QuoteSection[] {
+  return [
+    {
+      id: 'section-001',
+      quoteId: 'sample-quote-001',
+      name: 'Open Workspace',
+      discount: 0,
+      discountType: 'PERCENT',
+      order: 1,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    },
+    {
+      id: 'section-002',
+      quoteId: 'sample-quote-001',
+      name: 'Reception & Services',
+      discount: 500, // Flat ₹500 off this room
+      discountType: 'AMOUNT',
+      order: 2,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    },
+  ];
+}
+
 /**
  * Generate sample policy clauses
  */
+function generateSamplePaymentMilestones(): PaymentMilestone[] {
+  const milestones: Pick<PaymentMilestone, 'name' | 'valueType' | 'value' | 'trigger'>[] = [
+    { name: 'Booking advance', valueType: 'PERCENT', value: 40, trigger: 'BOOKING' },
+    { name: 'Design sign-off', valueType: 'PERCENT', value: 30, trigger: 'DESIGN_SIGNOFF' },
+    { name: 'Delivery', valueType: 'PERCENT', value: 20, trigger: 'DELIVERY' },
+    { name: 'Handover', valueType: 'PERCENT', value: 10, trigger: 'HANDOVER' },
+  ];
+
+  return milestones.map((milestone, index) => ({
+    ...milestone,
+    id: `milestone-00${index + 1}`,
+    quoteId: 'sample-quote-001',
+    order: index,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  }));
+}
+
 function generateSamplePolicies(): PolicyClause[] {
   return [
     {
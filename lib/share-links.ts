@@ -0,0 +1,110 @@
+/**
+ * Share links: expiring public links to one version of a quote. The client opens the link
+ * without logging in, and can accept the quote (typed name plus drawn signature) or reject
+ * it with a reason. The answer moves the quote through the regular status transitions and
+ * is recorded on the link, against the version the client saw.
+ */
+
+import { QuoteShareLink, QuoteStatus, ShareLinkState, ShareResponse } from './types';
+
+// How long a new link stays open, unless the quote's validity ends first
+export const DEFAULT_SHARE_LINK_DAYS = 30;
+
+// Drawn signatures are PNG data URLs; anything bigger than this is not a signature
+const MAX_SIGNATURE_LENGTH = 500_000;
+
+export function createShareToken(): string {
+  return Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString('base64url');
+}
+
+/**
+ * When a new link expires: after `days`, or at the end of the quote's validity date if
+ * that is sooner
+ */
+export function getShareLinkExpiry(
+  validUntil: string | null | undefined,
+  days: number = DEFAULT_SHARE_LINK_DAYS,
+  now: Date = new Date()
+): Date {
+  const expiry = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+  if (!validUntil) return expiry;
+
+  const validityEnd = new Date(`${String(validUntil).slice(0, 10)}T23:59:59`);
+  return validityEnd < expiry ? validityEnd : expiry;
+}
+
+/**
+ * Map a quote_share_links row to frontend format. The signature image is left out.
+ */
+export function mapShareLink(link: any): QuoteShareLink {
+  return {
+    id: link.id,
+    quoteId: link.quoteid,
+    token: link.token,
+    quoteVersion: link.quoteversion,
+    expiresAt: link.expiresat,
+    revokedAt: link.revokedat,
+    createdBy: link.createdby,
+    createdAt: link.createdat,
+    viewCount: link.viewcount || 0,
+    firstViewedAt: link.firstviewedat,
+    lastViewedAt: link.lastviewedat,
+    response: link.response,
+    signerName: link.signername,
+    rejectionReason: link.rejectionreason,
+    respondedAt: link.respondedat,
+  };
+}
+
+/**
+ * Whether a link can still be answered. A link stops working once it is answered,
+ * revoked or expired, or when the quote has been revised since it was shared.
+ */
+export function getShareLinkState(
+  link: Pick<QuoteShareLink, 'expiresAt' | 'revokedAt' | 'response' | 'quoteVersion'>,
+  quoteVersion: number,
+  now: Date = new Date()
+): ShareLinkState {
+  if (link.response) return 'RESPONDED';
+  if (link.revokedAt) return 'REVOKED';
+  if (new Date(link.expiresAt) <= now) return 'EXPIRED';
+  if (link.quoteVersion !== quoteVersion) return 'SUPERSEDED';
+  return 'ACTIVE';
+}
+
+export const SHARE_LINK_STATE_MESSAGES: Record<Exclude<ShareLinkState, 'ACTIVE'>, string> = {
+  RESPONDED: 'This quote has already been answered',
+  REVOKED: 'This link has been withdrawn',
+  EXPIRED: 'This link has expired',
+  SUPERSEDED: 'This quote has been revised since the link was shared. Please ask for the latest version.',
+};
+
+/**
+ * Status a client's answer moves the quote to
+ */
+export function getShareResponseStatus(response: ShareResponse): QuoteStatus {
+  return response === 'ACCEPTED' ? 'ACCEPTED' : 'REJECTED';
+}
+
+/**
+ * Validate a client's answer. Returns an error message, or null if valid.
+ */
+export function getShareResponseError(answer: {
+  response?: string;
+  signerName?: string;
+  signature?: string;
+  reason?: string;
+}): string | null {
+  if (answer.response !== 'ACCEPTED' && answer.response !== 'REJECTED') {
+    return 'Response must be ACCEPTED or REJECTED';
+  }
+
+  if (answer.response === 'REJECTED') {
+    return answer.reason?.trim() ? null : 'Please tell us why you are rejecting the quote';
+  }
+
+  if (!answer.signerName?.trim()) return 'Please type your full name';
+  if (!answer.signature?.startsWith('data:image/png;base64,')) return 'Please sign in the box';
+  if (answer.signature.length > MAX_SIGNATURE_LENGTH) return 'Signature image is too large';
+  return null;
+}
@@ -1,5 +1,30 @@
 import { create } from 'zustand';
-import { DiscountMode, Product, Client, PolicyType, Category } from './types';
+import {
+  DiscountMode,
+  DiscountType,
+  Product,
+  Client,
+  PolicyType,
+  Category,
+  QuoteCalculations,
+  QuoteItemKind,
+  SupplyType,
+  ItemDimensions,
+  KitComponentSnapshot,
+  SelectedVariantOption,
+} from './types';
+import { acceptItemOption, calculateQuoteTotals } from './calculations';
+import { MilestoneInput } from './payment-schedule';
+import { calculateDimensions, parseDimensions } from './dimensions';
+import { parseKitComponents, toKitSnapshot } from './kits';
+import {
+  applyVariantOptions,
+  changeVariantOptions,
+  getDefaultVariantOptions,
+  parseVariantOptions,
+} from './variants';
+import { PriceListRates, repriceLines } from './price-lists';
+import { determineSupplyType, resolveState } from './gst';
 
 export interface ProductWithCategory extends Product {
   category: Category;
@@ -8,12 +33,33 @@ export interface ProductWithCategory extends Product {
 export interface QuoteItemStore {
   id: string;
   productId: string;
+  sectionId?: string | null;
+  kind?: QuoteItemKind; // Defaults to STANDARD
+  alternativeOfId?: string | null;
   product?: ProductWithCategory;
   quantity: number;
   rate: number;
   discount: number;
+  discountType?: DiscountType; // Defaults to PERCENT
+  taxRate?: number; // GST slab for this line; falls back to the quote default
+  hsnCode?: string | null;
   description?: string;
-  dimensions?: Record<string, any>;
+  dimensions?: ItemDimensions | null;
+  kitComponents?: KitComponentSnapshot[] | null; // Components of a kit, as quoted
+  variantOptions?: SelectedVariantOption[] | null; // Finish and other options for the line
+  costPrice?: number | null; // Product cost per unit when added; only known to roles that see margins
+}
+
+export interface QuoteSectionStore {
+  id: string;
+  name: string;
+  discount?: number;
+  discountType?: DiscountType;
+  order: number;
+}
+
+export interface PaymentMilestoneStore extends MilestoneInput {
+  id: string;
 }
 
 export interface PolicyStore {
@@ -30,9 +76,17 @@ interface QuoteStore {
   title: string;
   clientId?: string;
   client?: Client;
+  companyGST: { state: string; gstin: string }; // With the client's state, decides the GST split
+  priceListRates: PriceListRates; // Rates from the client's price list, by product id
   discountMode: DiscountMode;
   overallDiscount: number;
+  overallDiscountType: DiscountType;
   taxRate: number;
+  validUntil?: string; // YYYY-MM-DD; defaulted from company settings when empty
+
+  // Rooms/sections that items are grouped under
+  sections: QuoteSectionStore[];
+  activeSectionId?: string; // Section that newly added products go into
 
   // Items
   items: QuoteItemStore[];
@@ -40,22 +94,44 @@ interface QuoteStore {
   // Policies
   policies: PolicyStore[];
 
+  // Payment schedule
+  paymentMilestones: PaymentMilestoneStore[];
+
   // Actions
   setTitle: (title: string) => void;
   setClient: (clientId?: string, client?: Client) => void;
+  setCompanyGST: (companyGST: { state: string; gstin: string }) => void;
+  setPriceListRates: (rates: PriceListRates, options?: { reprice?: boolean }) => void;
   setDiscountMode: (mode: DiscountMode) => void;
   setOverallDiscount: (discount: number) => void;
+  setOverallDiscountType: (discountType: DiscountType) => void;
   setTaxRate: (rate: number) => void;
+  setValidUntil: (validUntil?: string) => void;
+
+  addSection: (name: string) => void;
+  renameSection: (id: string, name: string) => void;
+  setSectionDiscount: (id: string, discount: number, discountType: DiscountType) => void;
+  removeSection: (id: string) => void;
+  moveSection: (id: string, direction: 'up' | 'down') => void;
+  setActiveSection: (id?: string) => void;
 
   addItem: (product: ProductWithCategory) => void;
   updateItem: (id: string, updates: Partial<QuoteItemStore>) => void;
   removeItem: (id: string) => void;
+  acceptOption: (id: string) => void;
 
   setPolicy: (type: PolicyType, policy: Partial<PolicyStore>) => void;
   togglePolicy: (type: PolicyType) => void;
   updatePolicyOrder: (type: PolicyType, direction: 'up' | 'down') => void;
 
+  setPaymentMilestones: (milestones: MilestoneInput[]) => void;
+  addPaymentMilestone: () => void;
+  updatePaymentMilestone: (id: string, updates: Partial<MilestoneInput>) => void;
+  removePaymentMilestone: (id: string) => void;
+
   // Computed values
+  getSupplyType: () => SupplyType;
+  getCalculations: () => QuoteCalculations;
   getSubtotal: () => number;
   getDiscountAmount: () => number;
   getTaxAmount: () => number;
@@ -97,29 +173,122 @@ export const useQuoteStore = create<QuoteStore>((set, get) => ({
   title: '',
   clientId: undefined,
   client: undefined,
+  companyGST: { state: '', gstin: '' },
+  priceListRates: {},
   discountMode: 'LINE_ITEM',
   overallDiscount: 0,
+  overallDiscountType: 'PERCENT',
   taxRate: 18,
+  validUntil: undefined,
+  sections: [],
+  activeSectionId: undefined,
   items: [],
   policies: [...defaultPolicies],
+  paymentMilestones: [],
 
   // Actions
   setTitle: (title) => set({ title }),
   setClient: (clientId, client) => set({ clientId, client }),
+  setCompanyGST: (companyGST) => set({ companyGST }),
+  // With reprice, lines still at the old list's rates move to the new ones
+  setPriceListRates: (rates, options = {}) => set((state) => ({
+    priceListRates: rates,
+    ...(options.reprice && { items: repriceLines(state.items, state.priceListRates, rates) }),
+  })),
   setDiscountMode: (mode) => set({ discountMode: mode }),
   setOverallDiscount: (discount) => set({ overallDiscount: discount }),
+  setOverallDiscountType: (discountType) => set({ overallDiscountType: discountType }),
   setTaxRate: (rate) => set({ taxRate: rate }),
+  setValidUntil: (validUntil) => set({ validUntil }),
+
+  addSection: (name) => {
+    const newSection: QuoteSectionStore = {
+      id: Math.random().toString(36).substr(2, 9),
+      name,
+      discount: 0,
+      discountType: 'PERCENT',
+      order: get().sections.length + 1,
+    };
+    set((state) => ({
+      sections: [...state.sections, newSection],
+      activeSectionId: newSection.id,
+    }));
+  },
+
+  renameSection: (id, name) => {
+    set((state) => ({
+      sections: state.sections.map((s) => (s.id === id ? { ...s, name } : s)),
+    }));
+  },
+
+  setSectionDiscount: (id, discount, discountType) => {
+    set((state) => ({
+      sections: state.sections.map((s) =>
+        s.id === id ? { ...s, discount, discountType } : s
+      ),
+    }));
+  },
+
+  removeSection: (id) => {
+    // Items in a removed section stay on the quote, unassigned
+    set((state) => ({
+      sections: state.sections
+        .filter((s) => s.id !== id)
+        .map((s, i) => ({ ...s, order: i + 1 })),
+      items: state.items.map((item) =>
+        item.sectionId === id ? { ...item, sectionId: null } : item
+      ),
+      activeSectionId: state.activeSectionId === id ? undefined : state.activeSectionId,
+    }));
+  },
+
+  moveSection: (id, direction) => {
+    set((state) => {
+      const sections = [...state.sections];
+      const index = sections.findIndex((s) => s.id === id);
+
+      if (index === -1) return state;
+
+      const newIndex = direction === 'up'
+        ? Math.max(0, index - 1)
+        : Math.min(sections.length - 1, index + 1);
+
+      if (index === newIndex) return state;
+
+      const [section] = sections.splice(index, 1);
+      sections.splice(newIndex, 0, section);
+
+      return {
+        sections: sections.map((s, i) => ({ ...s, order: i + 1 })),
+      };
+    });
+  },
+
+  setActiveSection: (id) => set({ activeSectionId: id }),
 
   addItem: (product) => {
+    // New lines start with the first option of each variant attribute, priced from the
+    // client's price list when it has a rate for the product
+    const variantOptions = getDefaultVariantOptions(product.variantAttributes);
+    const baseRate = get().priceListRates[product.id] ?? product.baseRate;
     const newItem: QuoteItemStore = {
       id: Math.random().toString(36).substr(2, 9),
       productId: product.id,
+      sectionId: get().activeSectionId ?? null,
+      kind: 'STANDARD',
+      alternativeOfId: null,
       product: product,
       quantity: 1,
-      rate: product.baseRate,
+      rate: applyVariantOptions(baseRate, variantOptions),
       discount: 0,
+      discountType: 'PERCENT',
+      taxRate: product.taxRate ?? get().taxRate,
+      hsnCode: product.hsnCode,
       description: product.description || '',
-      dimensions: {},
+      dimensions: null,
+      kitComponents: product.isKit ? toKitSnapshot(product.components) : null,
+      variantOptions,
+      costPrice: product.costPrice,
     };
     set((state) => ({ items: [...state.items, newItem] }));
   },
@@ -128,16 +297,20 @@ export const useQuoteStore = create<QuoteStore>((set, get) => ({
     set((state) => ({
       items: state.items.map((item) => {
         if (item.id === id) {
-          // If dimensions are updated and contain length and width, calculate quantity
+          // Measured lines take their quantity from their dimensions
           if (updates.dimensions) {
-            const { length, width } = updates.dimensions;
-            if (length && width) {
-              const calculatedQty = parseFloat(length) * parseFloat(width);
-              if (!isNaN(calculatedQty)) {
-                updates.quantity = calculatedQty;
-              }
+            const breakdown = calculateDimensions(updates.dimensions, item.product?.unit);
+            if (breakdown && breakdown.quantity > 0) {
+              updates = { ...updates, quantity: breakdown.quantity };
             }
           }
+          // Changing the finish/options re-prices the line unless a rate is given too
+          if (updates.variantOptions !== undefined && updates.rate === undefined) {
+            updates = {
+              ...updates,
+              rate: changeVariantOptions(item.rate, item.variantOptions, updates.variantOptions),
+            };
+          }
           return { ...item, ...updates };
         }
         return item;
@@ -146,7 +319,20 @@ export const useQuoteStore = create<QuoteStore>((set, get) => ({
   },
 
   removeItem: (id) => {
-    set((state) => ({ items: state.items.filter((item) => item.id !== id) }));
+    // Alternatives of a removed item have nothing left to replace, so they become optional
+    set((state) => ({
+      items: state.items
+        .filter((item) => item.id !== id)
+        .map((item) =>
+          item.alternativeOfId === id
+            ? { ...item, kind: 'OPTIONAL', alternativeOfId: null }
+            : item
+        ),
+    }));
+  },
+
+  acceptOption: (id) => {
+    set((state) => ({ items: acceptItemOption(state.items, id) }));
   },
 
   setPolicy: (type, policy) => {
@@ -188,40 +374,73 @@ export const useQuoteStore = create<QuoteStore>((set, get) => ({
     });
   },
 
-  // Computed values
-  getSubtotal: () => {
-    const state = get();
-    return state.items.reduce((sum, item) => {
-      const lineTotal = item.quantity * item.rate * (1 - item.discount / 100);
-      return sum + lineTotal;
-    }, 0);
+  setPaymentMilestones: (milestones) => {
+    set({
+      paymentMilestones: milestones.map((milestone) => ({
+        id: Math.random().toString(36).substr(2, 9),
+        name: milestone.name,
+        valueType: milestone.valueType,
+        value: milestone.value,
+        trigger: milestone.trigger,
+      })),
+    });
   },
 
-  getDiscountAmount: () => {
-    const state = get();
-    const subtotal = get().getSubtotal();
+  addPaymentMilestone: () => {
+    const newMilestone: PaymentMilestoneStore = {
+      id: Math.random().toString(36).substr(2, 9),
+      name: '',
+      valueType: 'PERCENT',
+      value: 0,
+      trigger: 'DELIVERY',
+    };
+    set((state) => ({ paymentMilestones: [...state.paymentMilestones, newMilestone] }));
+  },
+
+  updatePaymentMilestone: (id, updates) => {
+    set((state) => ({
+      paymentMilestones: state.paymentMilestones.map((m) =>
+        m.id === id ? { ...m, ...updates } : m
+      ),
+    }));
+  },
 
-    if (state.discountMode === 'OVERALL' || state.discountMode === 'BOTH') {
-      return subtotal * (state.overallDiscount / 100);
-    }
-    return 0;
+  removePaymentMilestone: (id) => {
+    set((state) => ({
+      paymentMilestones: state.paymentMilestones.filter((m) => m.id !== id),
+    }));
   },
 
-  getTaxAmount: () => {
+  // Computed values (shared pricing engine, same numbers the API stores)
+  getSupplyType: () => {
     const state = get();
-    const subtotal = get().getSubtotal();
-    const discount = get().getDiscountAmount();
-    const taxableAmount = subtotal - discount;
-    return taxableAmount * (state.taxRate / 100);
+    return determineSupplyType(
+      resolveState(state.companyGST.state, state.companyGST.gstin),
+      resolveState(state.client?.state, state.client?.gstin)
+    );
   },
 
-  getGrandTotal: () => {
-    const subtotal = get().getSubtotal();
-    const discount = get().getDiscountAmount();
-    const tax = get().getTaxAmount();
-    return subtotal - discount + tax;
+  getCalculations: () => {
+    const state = get();
+    return calculateQuoteTotals(
+      state.items,
+      state.discountMode,
+      state.overallDiscount,
+      state.taxRate,
+      state.getSupplyType(),
+      state.sections,
+      state.overallDiscountType
+    );
   },
 
+  getSubtotal: () => get().getCalculations().subtotal,
+
+  getDiscountAmount: () => get().getCalculations().discount,
+
+  getTaxAmount: () => get().getCalculations().tax,
+
+  getGrandTotal: () => get().getCalculations().grandTotal,
+
   // Reset store
   reset: () => {
     set({
@@ -229,11 +448,17 @@ export const useQuoteStore = create<QuoteStore>((set, get) => ({
       title: '',
       clientId: undefined,
       client: undefined,
+      priceListRates: {},
       discountMode: 'LINE_ITEM',
       overallDiscount: 0,
+      overallDiscountType: 'PERCENT',
       taxRate: 18,
+      validUntil: undefined,
+      sections: [],
+      activeSectionId: undefined,
       items: [],
       policies: [...defaultPolicies],
+      paymentMilestones: [],
     });
   },
 
@@ -246,18 +471,48 @@ export const useQuoteStore = create<QuoteStore>((set, get) => ({
       client: quote.client,
       discountMode: quote.discountMode || 'LINE_ITEM',
       overallDiscount: quote.overallDiscount || 0,
+      overallDiscountType: quote.overallDiscountType || 'PERCENT',
       taxRate: quote.taxRate || 18,
+      validUntil: quote.validUntil ? String(quote.validUntil).slice(0, 10) : undefined,
+      sections: (quote.sections || [])
+        .map((section: any) => ({
+          id: section.id,
+          name: section.name,
+          discount: section.discount || 0,
+          discountType: section.discountType || 'PERCENT',
+          order: section.order,
+        }))
+        .sort((a: QuoteSectionStore, b: QuoteSectionStore) => a.order - b.order),
+      activeSectionId: undefined,
       items: quote.items.map((item: any) => ({
         id: item.id,
         productId: item.productId || item.product?.id,
+        sectionId: item.sectionId ?? null,
+        kind: item.kind || 'STANDARD',
+        alternativeOfId: item.alternativeOfId ?? null,
         product: item.product,
         quantity: item.quantity || 1,
         rate: item.rate || item.product?.baseRate || 0,
         discount: item.discount || 0,
+        discountType: item.discountType || 'PERCENT',
+        taxRate: item.taxRate ?? item.product?.taxRate ?? undefined,
+        hsnCode: item.hsnCode ?? item.product?.hsnCode ?? null,
         description: item.description || '',
-        dimensions: item.dimensions || {},
+        dimensions: parseDimensions(item.dimensions),
+        kitComponents: parseKitComponents(item.kitComponents),
+        variantOptions: parseVariantOptions(item.variantOptions),
+        costPrice: item.costPrice,
       })),
       policies: quote.policies?.length ? quote.policies : [...defaultPolicies],
+      paymentMilestones: (quote.paymentMilestones || [])
+        .sort((a: any, b: any) => a.order - b.order)
+        .map((milestone: any) => ({
+          id: milestone.id,
+          name: milestone.name,
+          valueType: milestone.valueType || 'PERCENT',
+          value: milestone.value,
+          trigger: milestone.trigger,
+        })),
     });
   },
 }));
\ No newline at end of file
@@ -18,13 +18,83 @@ export interface Product {
   unit: string | null;
   categoryId: string | null;
   baseRate: number;
+  costPrice?: number | null; // Cost per unit; only returned to roles that can read margins
+  hsnCode: string | null; // HSN code for goods or SAC code for services
+  taxRate: number | null; // GST slab; null falls back to the quote-level rate
   imageUrl: string | null;
   isActive: boolean;
+  isKit?: boolean; // Assembly of the products in `components`
+  kitRateOverride?: boolean; // Kit rate set by hand instead of derived from components
+  components?: ProductComponent[];
+  variantAttributes?: VariantAttribute[]; // e.g. Finish, Hardware brand
   category?: Category;
   createdAt: Date | string;
   updatedAt: Date | string;
 }
 
+// Named price list for a client tier, e.g. "Builder", "Architect referral", "Retail"
+export interface PriceList {
+  id: string;
+  name: string;
+  description: string | null;
+  isActive: boolean;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+// Rate of a product in a price list between two dates (open-ended if effectiveTo is null)
+export interface PriceListItem {
+  id: string;
+  priceListId: string;
+  productId: string;
+  rate: number;
+  effectiveFrom: string; // YYYY-MM-DD
+  effectiveTo: string | null;
+  createdAt: Date | string;
+}
+
+// How a variant option changes the rate: add a fixed amount per unit, or multiply it
+export type PriceModifierType = 'DELTA' | 'MULTIPLIER';
+
+export interface VariantOption {
+  label: string; // e.g. "PU", "Hettich"
+  modifierType: PriceModifierType;
+  modifier: number; // ₹ per unit for DELTA, factor (e.g. 1.25) for MULTIPLIER
+}
+
+export interface VariantAttribute {
+  name: string; // e.g. "Finish"
+  options: VariantOption[];
+}
+
+// Option chosen on a quote line, with the modifier it was quoted at
+export interface SelectedVariantOption {
+  attribute: string;
+  option: string;
+  modifierType: PriceModifierType;
+  modifier: number;
+}
+
+// One component of a kit product, and how many go into one kit
+export interface ProductComponent {
+  id: string;
+  kitId: string;
+  componentId: string;
+  quantity: number;
+  order: number;
+  component?: Product;
+}
+
+// Kit component as quoted, copied onto the quote line so catalog changes don't alter it
+export interface KitComponentSnapshot {
+  productId: string;
+  itemCode: string;
+  name: string;
+  unit: string | null;
+  quantity: number; // Per one kit
+  rate: number;
+}
+
 export interface Client {
   id: string;
   name: string;
@@ -32,6 +102,9 @@ export interface Client {
   phone: string | null;
   company: string | null;
   address: string | null;
+  state?: string | null;
+  gstin?: string | null;
+  priceListId?: string | null; // Price list the client's quotes are priced from
   isActive: boolean;
   createdAt: Date | string;
   updatedAt: Date | string;
@@ -39,8 +112,14 @@ export interface Client {
 
 // Quote and Policy Types
 export type DiscountMode = 'LINE_ITEM' | 'OVERALL' | 'BOTH';
-export type QuoteStatus = 'DRAFT' | 'PENDING_APPROVAL' | 'SENT' | 'ACCEPTED' | 'REJECTED';
+// PERCENT discounts are a percentage of the amount; AMOUNT discounts are a fixed rupee value
+export type DiscountType = 'PERCENT' | 'AMOUNT';
+// EXPIRED applies to open quotes whose validUntil date has passed
+export type QuoteStatus = 'DRAFT' | 'PENDING_APPROVAL' | 'SENT' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED';
 export type PolicyType = 'WARRANTY' | 'RETURNS' | 'PAYMENT' | 'CUSTOM' | 'TERMS';
+export type SupplyType = 'INTRA_STATE' | 'INTER_STATE';
+// OPTIONAL and ALTERNATIVE items are shown with their own prices but excluded from the total
+export type QuoteItemKind = 'STANDARD' | 'OPTIONAL' | 'ALTERNATIVE';
 
 export interface Quote {
   id: string;
@@ -49,17 +128,140 @@ export interface Quote {
   clientId: string | null;
   discountMode: DiscountMode;
   overallDiscount: number;
+  overallDiscountType: DiscountType;
   taxRate: number;
   subtotal: number;
   discount: number;
   tax: number;
   grandTotal: number;
+  supplyType?: SupplyType;
+  placeOfSupply?: string | null;
+  validUntil?: string | null; // YYYY-MM-DD, last day the quote can be accepted
+  priceListId?: string | null; // Price list the quote was priced from
   status: QuoteStatus;
   version: number;
   isApproved: boolean;
   approvedBy?: string;
   approvedAt?: string;
   approvalNotes?: string;
+  approvalReason?: string | null; // Set when the quote was routed for approval automatically
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+// One status change of a quote; fromStatus is null when the quote was created
+export interface QuoteStatusChange {
+  id: string;
+  quoteId: string;
+  fromStatus: QuoteStatus | null;
+  toStatus: QuoteStatus;
+  changedBy: string | null;
+  changedByName?: string | null;
+  changedAt: string;
+  note: string | null;
+}
+
+// Everything a quote contained at one version, so earlier versions can be compared and restored
+export interface QuoteSnapshot {
+  header: Pick<
+    Quote,
+    | 'title'
+    | 'clientId'
+    | 'discountMode'
+    | 'overallDiscount'
+    | 'overallDiscountType'
+    | 'taxRate'
+    | 'subtotal'
+    | 'discount'
+    | 'tax'
+    | 'grandTotal'
+    | 'validUntil'
+    | 'priceListId'
+  > & {
+    clientName: string | null;
+    templateId: string | null;
+  };
+  sections: Pick<QuoteSection, 'id' | 'name' | 'discount' | 'discountType'>[];
+  items: QuoteSnapshotItem[];
+  policies: PolicyInput[];
+  paymentMilestones: Pick<PaymentMilestone, 'name' | 'valueType' | 'value' | 'trigger'>[];
+}
+
+export type QuoteSnapshotItem = Omit<QuoteItem, 'quoteId' | 'order' | 'createdAt' | 'updatedAt'> & {
+  productName: string | null;
+};
+
+// Reusable quote contents; items keep the rates they were saved with
+export interface QuoteTemplateContent {
+  discountMode: DiscountMode;
+  sections: QuoteSnapshot['sections'];
+  items: Omit<QuoteSnapshotItem, 'lineTotal' | 'costPrice'>[];
+  policies: PolicyInput[];
+}
+
+export interface QuoteTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  itemCount: number;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One entry in a quote's revision history: a saved version (with its snapshot) or a PDF export
+export interface QuoteRevision {
+  id: string;
+  quoteId: string;
+  version: number;
+  status: QuoteStatus;
+  exportedBy: string | null;
+  exportedAt: string;
+  changes: any;
+  notes: string | null;
+  hasSnapshot: boolean;
+  grandTotal: number | null; // From the snapshot, when there is one
+}
+
+export type RevisionLineChange = 'ADDED' | 'REMOVED' | 'CHANGED';
+
+export type RevisionLineValues = Pick<
+  QuoteSnapshotItem,
+  'description' | 'quantity' | 'rate' | 'discount' | 'discountType' | 'taxRate' | 'lineTotal' | 'variantOptions'
+>;
+
+export interface RevisionLineDiff {
+  change: RevisionLineChange;
+  productName: string | null;
+  sectionName: string | null;
+  kind: QuoteItemKind;
+  changedFields: (keyof RevisionLineValues)[];
+  before: RevisionLineValues | null;
+  after: RevisionLineValues | null;
+  lineTotalDelta: number;
+}
+
+export interface RevisionValueChange<T = any> {
+  from: T;
+  to: T;
+}
+
+export interface QuoteRevisionDiff {
+  fromVersion: number;
+  toVersion: number;
+  header: ({ field: string; label: string } & RevisionValueChange)[];
+  lines: RevisionLineDiff[];
+  policies: { added: string[]; removed: string[]; changed: string[] }; // Policy titles
+  totals: Record<'subtotal' | 'discount' | 'tax' | 'grandTotal', RevisionValueChange<number> & { delta: number }>;
+}
+
+export interface QuoteSection {
+  id: string;
+  quoteId: string;
+  name: string; // Room or area, e.g. "Kitchen", "Master Bedroom"
+  discount: number;
+  discountType: DiscountType;
+  order: number;
   createdAt: Date | string;
   updatedAt: Date | string;
 }
@@ -68,17 +270,44 @@ export interface QuoteItem {
   id: string;
   quoteId: string;
   productId: string;
+  sectionId: string | null;
+  kind: QuoteItemKind;
+  alternativeOfId: string | null; // Standard item this one can replace (ALTERNATIVE only)
   description: string | null;
   quantity: number;
   rate: number;
   discount: number;
+  discountType: DiscountType;
+  taxRate: number;
+  hsnCode: string | null;
   lineTotal: number;
   order: number;
-  dimensions: any;
+  dimensions: ItemDimensions | null;
+  kitComponents?: KitComponentSnapshot[] | null; // Set for kit products
+  variantOptions?: SelectedVariantOption[] | null; // Finish and other options chosen for the line
+  costPrice?: number | null; // Product cost per unit when quoted
   createdAt: Date | string;
   updatedAt: Date | string;
 }
 
+// Measurement of one surface (or opening), repeated `count` times.
+// Linear units use length only, area units length × width, volume units length × width × height.
+export interface MeasurementEntry {
+  label: string; // e.g. "North wall", "Door"
+  length: number;
+  width?: number;
+  height?: number;
+  count: number;
+}
+
+// Measurements a line's quantity is calculated from, in the product's unit
+export interface ItemDimensions {
+  unit: string; // Unit the measurements were entered in: ft, in, m, cm or mm
+  surfaces: MeasurementEntry[];
+  deductions: MeasurementEntry[]; // Doors, windows and other openings
+  wastagePercent: number;
+}
+
 export interface PolicyClause {
   id: string;
   quoteId: string | null;
@@ -91,8 +320,37 @@ export interface PolicyClause {
   updatedAt: Date | string;
 }
 
+// Payment Schedule Types
+// When a milestone falls due in the project
+export type PaymentTrigger = 'BOOKING' | 'DESIGN_SIGNOFF' | 'DELIVERY' | 'HANDOVER';
+// PERCENT milestones are a percentage of the grand total; AMOUNT milestones are a fixed rupee value
+export type MilestoneValueType = 'PERCENT' | 'AMOUNT';
+
+export interface PaymentMilestone {
+  id: string;
+  quoteId: string;
+  name: string; // e.g. "Advance", "On design sign-off"
+  valueType: MilestoneValueType;
+  value: number;
+  trigger: PaymentTrigger;
+  order: number;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+// Reusable schedule managed in Settings and copied onto new quotes
+export interface PaymentSchedule {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  milestones: Pick<PaymentMilestone, 'name' | 'valueType' | 'value' | 'trigger'>[];
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
 // User Management Types
-export type PermissionResource = 'categories' | 'products' | 'clients' | 'quotes';
+// 'margins' only uses canRead: whether cost prices and margins are shown
+export type PermissionResource = 'categories' | 'products' | 'clients' | 'quotes' | 'margins';
 export type UserRole = string; // Dynamic roles - can be any string (Admin, Designer, Client, Sales Head, etc.)
 
 export interface Role {
@@ -146,8 +404,10 @@ export interface QuoteItemWithProduct extends QuoteItem {
 
 export interface QuoteWithDetails extends Quote {
   client: Client | null;
+  sections?: QuoteSection[];
   items: QuoteItemWithProduct[];
   policies: PolicyClause[];
+  paymentMilestones?: PaymentMilestone[];
 }
 
 export interface CategoryContribution {
@@ -155,16 +415,271 @@ export interface CategoryContribution {
   total: number;
 }
 
+export interface SectionSubtotal {
+  sectionId: string | null; // null collects items not assigned to a section
+  name: string;
+  subtotal: number;
+  discount: number; // Section-level discount, applied on top of line discounts
+}
+
+export interface TaxBreakdown {
+  supplyType: SupplyType;
+  cgstRate: number | null; // null when the quote mixes several slabs
+  cgst: number;
+  sgstRate: number | null;
+  sgst: number;
+  igstRate: number | null;
+  igst: number;
+}
+
+export interface TaxSlabSummary {
+  hsnCode: string | null;
+  taxRate: number;
+  taxableAmount: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+}
+
 export interface QuoteCalculations {
   subtotal: number;
-  discount: number;
+  sectionDiscount: number;
+  overallDiscount: number;
+  discount: number; // Section + overall discounts
   taxableAmount: number;
   tax: number;
+  taxBreakdown: TaxBreakdown;
+  taxSummary: TaxSlabSummary[];
   grandTotal: number;
+  lineTotals: number[]; // Per-line totals in item order, after line discounts
+  sectionSubtotals: SectionSubtotal[];
   categoryContributions: CategoryContribution[];
 }
 
+// Discount Rule Types
+export type DiscountScope = 'LINE' | 'SECTION' | 'QUOTE';
+
+export interface DiscountRule {
+  id: string;
+  roleId: string;
+  roleName?: string;
+  scope: DiscountScope;
+  maxPercent: number; // Largest discount the role may give, as a percentage of its base
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+// Approval Types
+// GRAND_TOTAL is in rupees; DISCOUNT_PERCENT is every discount as a share of the gross amount
+export type ApprovalMetric = 'GRAND_TOTAL' | 'DISCOUNT_PERCENT';
+export type ApprovalStepStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface ApprovalPolicy {
+  id: string;
+  name: string;
+  metric: ApprovalMetric;
+  threshold: number; // The policy applies when the metric is above this
+  approverRoleIds: string[]; // In approval order
+  approverRoleNames?: string[];
+  isActive: boolean;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+export interface QuoteApprovalStep {
+  id: string;
+  quoteId: string;
+  stepOrder: number;
+  roleId: string | null; // null: anyone who can approve quotes
+  roleName?: string | null;
+  reason: string | null;
+  status: ApprovalStepStatus;
+  actedBy: string | null;
+  actedAt: string | null;
+  notes: string | null;
+}
+
+export type ApprovalEventAction = 'REQUESTED' | 'APPROVED' | 'REJECTED' | 'COMMENTED';
+
+export interface QuoteApprovalEvent {
+  id: string;
+  quoteId: string;
+  action: ApprovalEventAction;
+  userId: string | null;
+  userName?: string | null;
+  userRole?: string | null;
+  notes: string | null;
+  quoteVersion: number;
+  stepOrder: number | null; // Approval step acted on, for APPROVED and REJECTED
+  createdAt: string;
+}
+
 // Settings Types
+// Share links: public, expiring links to one version of a quote
+export type ShareResponse = 'ACCEPTED' | 'REJECTED';
+export type ShareLinkState = 'ACTIVE' | 'EXPIRED' | 'REVOKED' | 'RESPONDED' | 'SUPERSEDED';
+
+export interface QuoteShareLink {
+  id: string;
+  quoteId: string;
+  token: string;
+  quoteVersion: number;
+  expiresAt: string;
+  revokedAt: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  viewCount: number;
+  firstViewedAt: string | null;
+  lastViewedAt: string | null;
+  response: ShareResponse | null;
+  signerName: string | null;
+  rejectionReason: string | null;
+  respondedAt: string | null;
+}
+
+// What the public verification page shows for an issued quote version
+export interface QuoteVerification {
+  quoteNumber: string; // With the revision suffix, as printed
+  version: number;
+  issuedAt: string | null;
+  grandTotal: number | null;
+  validUntil: string | null;
+  isLatest: boolean; // False once a newer version has been issued
+  companyName: string | null;
+}
+
+// What a client sees when opening a share link
+export interface SharedQuoteView {
+  state: ShareLinkState;
+  canRespond: boolean;
+  quoteNumber: string;
+  version: number;
+  status: QuoteStatus;
+  expiresAt: string;
+  company: Pick<CompanySettings, 'companyName' | 'email' | 'phone' | 'website' | 'address' | 'logoUrl' | 'gstin'>;
+  quote: Omit<QuoteSnapshot, 'items'> & { items: Omit<QuoteSnapshotItem, 'costPrice'>[] };
+  response: Pick<QuoteShareLink, 'response' | 'signerName' | 'rejectionReason' | 'respondedAt'> | null;
+}
+
+// PDF Template Types
+// Definition stored in pdf_templates.template_json (see lib/pdf-template.ts)
+export type PdfTemplateSection =
+  | 'letterhead'
+  | 'quoteDetails'
+  | 'client'
+  | 'items'
+  | 'options'
+  | 'taxSummary'
+  | 'totals'
+  | 'paymentSchedule'
+  | 'terms'
+  | 'closing'
+  | 'gallery';
+export type PdfItemColumnKey =
+  | 'image'
+  | 'item'
+  | 'hsn'
+  | 'quantity'
+  | 'unit'
+  | 'rate'
+  | 'discount'
+  | 'gst'
+  | 'total';
+export type PdfFontFamily = 'Inter' | 'Noto Sans Devanagari' | 'Helvetica' | 'Times-Roman' | 'Courier';
+
+export interface PdfItemColumn {
+  key: PdfItemColumnKey;
+  label?: string; // Header text; defaults to the column's standard label
+  width: number; // Percentage of the table width
+}
+
+export interface PdfTemplateDefinition {
+  theme: {
+    primaryColor: string; // Title, rules and grand total
+    accentColor: string; // Background of room headers
+    textColor: string;
+    mutedColor: string;
+    tableHeaderColor: string;
+    fontFamily: PdfFontFamily;
+    headingFontFamily?: PdfFontFamily; // Title, company name, section titles and grand total; defaults to fontFamily
+    fontSize: number; // Table text; headings scale from it
+  };
+  sections: PdfTemplateSection[]; // In print order; sections not listed are left out
+  columns: PdfItemColumn[];
+  show: {
+    logo: boolean;
+    companyDetails: boolean;
+    sectionSubtotals: boolean;
+    measurements: boolean;
+    variantOptions: boolean;
+    footer: boolean;
+    pageNumbers: boolean;
+    qrCode: boolean; // Verification QR code on the first page
+  };
+  labels: {
+    title: string;
+    closing: string;
+  };
+}
+
+export interface PdfTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  category: 'Standard' | 'Premium' | 'Custom' | null;
+  isDefault: boolean;
+  isPublic: boolean;
+  templateJson: Partial<PdfTemplateDefinition>;
+  thumbnail: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  version: number;
+}
+
+// Email Types
+// Subject and body may use merge fields such as {{clientName}} (see lib/quote-email.ts)
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  body: string;
+  isDefault: boolean;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+export type QuoteEmailStatus = 'SENT' | 'FAILED';
+
+// One attempt to email a quote's PDF
+export interface QuoteEmail {
+  id: string;
+  quoteId: string;
+  quoteVersion: number;
+  recipients: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+  status: QuoteEmailStatus;
+  error: string | null;
+  messageId: string | null;
+  sentBy: string | null;
+  sentByName: string | null;
+  sentAt: string;
+}
+
+export interface CompanySettings {
+  companyName: string;
+  email: string;
+  phone: string;
+  website: string;
+  address: string;
+  logoUrl: string | null;
+  state: string;
+  gstin: string;
+}
+
 export interface Setting {
   key: string;
   value: any;
@@ -27,6 +27,8 @@ export const UNIT_CONVERSIONS: UnitConversion[] = [
   { from: 'cm', to: 'm', factor: 0.01 },
   { from: 'in', to: 'cm', factor: 2.54 },
   { from: 'cm', to: 'in', factor: 0.393701 },
+  { from: 'mm', to: 'cm', factor: 0.1 },
+  { from: 'cm', to: 'mm', factor: 10 },
   
   // Volume conversions (cu ft, cu m, cu yd, cu in, liters, gallons)
   { from: 'cu ft', to: 'cu m', factor: 0.0283168 },
@@ -74,6 +76,30 @@ export function getConversionFactor(fromUnit: string, toUnit: string): number |
   
   if (reverseConversion) return 1 / reverseConversion.factor;
   
+  // Chain conversions through intermediate units (e.g. mm -> cm -> m -> ft)
+  return findChainedFactor(fromUnit, toUnit);
+}
+
+// Breadth-first search over the conversion table, multiplying factors along the shortest path
+function findChainedFactor(fromUnit: string, toUnit: string): number | null {
+  const factors = new Map<string, number>([[fromUnit, 1]]);
+  const queue = [fromUnit];
+  
+  while (queue.length > 0) {
+    const unit = queue.shift()!;
+    const factor = factors.get(unit)!;
+    
+    for (const conv of UNIT_CONVERSIONS) {
+      if (conv.from !== unit || factors.has(conv.to)) continue;
+      
+      const next = factor * conv.factor;
+      if (conv.to === toUnit) return next;
+      
+      factors.set(conv.to, next);
+      queue.push(conv.to);
+    }
+  }
+  
   return null;
 }
 
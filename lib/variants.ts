@@ -0,0 +1,168 @@
+/**
+ * Product variants: attributes such as Finish (laminate / veneer / PU / acrylic) or
+ * Hardware brand, whose options adjust a product's rate. Multipliers apply to the base
+ * rate first, then fixed deltas are added, so "+₹200" means the same for every finish.
+ */
+
+import {
+  PriceModifierType,
+  SelectedVariantOption,
+  VariantAttribute,
+  VariantOption,
+} from './types';
+import { fromPaise, toPaise } from './pricing';
+
+export const PRICE_MODIFIER_TYPES: { value: PriceModifierType; label: string }[] = [
+  { value: 'DELTA', label: '+ ₹ per unit' },
+  { value: 'MULTIPLIER', label: '× rate' },
+];
+
+/**
+ * Rate after applying the chosen options, rounded to the paisa
+ */
+export function applyVariantOptions(
+  baseRate: number,
+  options: Pick<SelectedVariantOption, 'modifierType' | 'modifier'>[] | null | undefined
+): number {
+  let paise = toPaise(baseRate);
+
+  for (const option of options || []) {
+    if (option.modifierType === 'MULTIPLIER') paise = Math.round(paise * option.modifier);
+  }
+  for (const option of options || []) {
+    if (option.modifierType === 'DELTA') paise += toPaise(option.modifier);
+  }
+
+  return fromPaise(Math.max(paise, 0));
+}
+
+/**
+ * Re-price a line when its options change. The old options are taken back off the current
+ * rate first, so a rate that was edited by hand or came from a price list is kept.
+ */
+export function changeVariantOptions(
+  rate: number,
+  previous: Pick<SelectedVariantOption, 'modifierType' | 'modifier'>[] | null | undefined,
+  next: Pick<SelectedVariantOption, 'modifierType' | 'modifier'>[] | null | undefined
+): number {
+  let paise = toPaise(rate);
+
+  for (const option of previous || []) {
+    if (option.modifierType === 'DELTA') paise -= toPaise(option.modifier);
+  }
+  for (const option of previous || []) {
+    if (option.modifierType === 'MULTIPLIER' && option.modifier > 0) paise = paise / option.modifier;
+  }
+
+  return applyVariantOptions(fromPaise(Math.round(paise)), next);
+}
+
+/**
+ * Short text for an option's price effect, e.g. "+₹450" or "×1.25"
+ */
+export function formatPriceModifier(option: Pick<VariantOption, 'modifierType' | 'modifier'>): string {
+  if (option.modifierType === 'MULTIPLIER') {
+    return option.modifier === 1 ? '' : `×${option.modifier}`;
+  }
+  if (option.modifier === 0) return '';
+  return `${option.modifier > 0 ? '+' : '-'}₹${Math.abs(option.modifier).toLocaleString('en-IN')}`;
+}
+
+/**
+ * Chosen options as one line of text, e.g. "Finish: PU, Hardware: Hettich"
+ */
+export function formatVariantOptions(options: SelectedVariantOption[] | null | undefined): string {
+  return (options || []).map((o) => `${o.attribute}: ${o.option}`).join(', ');
+}
+
+function toOption(raw: any): VariantOption {
+  const modifierType: PriceModifierType = raw?.modifierType === 'MULTIPLIER' ? 'MULTIPLIER' : 'DELTA';
+  const modifier = Number(raw?.modifier);
+  return {
+    label: typeof raw?.label === 'string' ? raw.label.trim() : '',
+    modifierType,
+    modifier: Number.isFinite(modifier) ? modifier : modifierType === 'MULTIPLIER' ? 1 : 0,
+  };
+}
+
+/**
+ * Read stored variant attributes into the typed schema
+ */
+export function parseVariantAttributes(raw: any): VariantAttribute[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((attribute) => attribute && Array.isArray(attribute.options))
+    .map((attribute) => ({
+      name: typeof attribute.name === 'string' ? attribute.name.trim() : '',
+      options: attribute.options.map(toOption),
+    }));
+}
+
+/**
+ * Read the options stored on a quote line, or null if none were chosen
+ */
+export function parseVariantOptions(raw: any): SelectedVariantOption[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+
+  return raw
+    .filter((o) => o && typeof o.attribute === 'string' && typeof o.option === 'string')
+    .map((o) => {
+      const { modifierType, modifier } = toOption(o);
+      return { attribute: o.attribute, option: o.option, modifierType, modifier };
+    });
+}
+
+/**
+ * Validate a product's variant attributes. Returns an error message, or null if valid.
+ */
+export function getVariantAttributesError(attributes: VariantAttribute[]): string | null {
+  const names = new Set<string>();
+
+  for (const attribute of attributes) {
+    if (!attribute.name) return 'Every variant attribute needs a name';
+    if (names.has(attribute.name.toLowerCase())) return `"${attribute.name}" is listed more than once`;
+    names.add(attribute.name.toLowerCase());
+
+    if (attribute.options.length === 0) return `Add at least one option to "${attribute.name}"`;
+
+    const labels = new Set<string>();
+    for (const option of attribute.options) {
+      if (!option.label) return `Every "${attribute.name}" option needs a label`;
+      if (labels.has(option.label.toLowerCase())) {
+        return `"${option.label}" is listed more than once under "${attribute.name}"`;
+      }
+      labels.add(option.label.toLowerCase());
+
+      if (option.modifierType === 'MULTIPLIER' && !(option.modifier > 0)) {
+        return `The multiplier for "${option.label}" must be greater than zero`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Pick an option of an attribute for a line
+ */
+export function selectVariantOption(attribute: VariantAttribute, option: VariantOption): SelectedVariantOption {
+  return {
+    attribute: attribute.name,
+    option: option.label,
+    modifierType: option.modifierType,
+    modifier: option.modifier,
+  };
+}
+
+/**
+ * Options a new line starts with: the first option of each attribute
+ */
+export function getDefaultVariantOptions(
+  attributes: VariantAttribute[] | null | undefined
+): SelectedVariantOption[] | null {
+  if (!attributes?.length) return null;
+  return attributes
+    .filter((attribute) => attribute.options.length > 0)
+    .map((attribute) => selectVariantOption(attribute, attribute.options[0]));
+}
@@ -0,0 +1,42 @@
+-- Migration: Add approval events
+-- Description: Every approval request, approval, rejection and comment on a quote is kept
+-- as an event with the signed-in user, their notes and the quote version at that moment,
+-- so the whole conversation survives reject-and-resubmit cycles.
+
+CREATE TABLE IF NOT EXISTS quote_approval_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quoteid UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('REQUESTED', 'APPROVED', 'REJECTED', 'COMMENTED')),
+  userid UUID REFERENCES users(id) ON DELETE SET NULL DEFAULT current_user_uuid(),
+  notes TEXT,
+  quoteversion INTEGER NOT NULL,
+  steporder INTEGER,
+  createdat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_approval_events_quote
+  ON quote_approval_events(quoteid, createdat);
+
+COMMENT ON TABLE quote_approval_events IS 'Approval conversation of a quote, oldest first';
+COMMENT ON COLUMN quote_approval_events.userid IS 'User who acted, filled in from the session';
+COMMENT ON COLUMN quote_approval_events.quoteversion IS 'Quote version the event refers to';
+COMMENT ON COLUMN quote_approval_events.steporder IS 'Approval step acted on (APPROVED/REJECTED only)';
+
+-- Events are append-only and always written as the signed-in user. Anyone who can read
+-- quotes can comment; requests need the permission to create or edit quotes, and
+-- approvals and rejections the permission to approve them, so they can't be forged.
+ALTER TABLE quote_approval_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "quote_approval_events_select_permission" ON quote_approval_events
+  FOR SELECT
+  USING (has_permission('quotes', 'canread'));
+
+CREATE POLICY "quote_approval_events_insert_own" ON quote_approval_events
+  FOR INSERT
+  WITH CHECK (
+    userid = current_user_uuid() AND (
+      (action = 'COMMENTED' AND has_permission('quotes', 'canread')) OR
+      (action = 'REQUESTED' AND (has_permission('quotes', 'cancreate') OR has_permission('quotes', 'canedit'))) OR
+      (action IN ('APPROVED', 'REJECTED') AND has_permission('quotes', 'canapprove'))
+    )
+  );
@@ -0,0 +1,74 @@
+-- Migration: Add approval policies and multi-level approval steps
+-- Description: Approval policies say which roles must approve a quote, in order, once a
+-- figure on it passes a threshold (e.g. grand total above 10,00,000 needs Sales Head
+-- then Admin). When approval is requested the matching policies become a chain of
+-- steps on the quote, approved one at a time.
+
+CREATE TABLE IF NOT EXISTS approval_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  metric TEXT NOT NULL CHECK (metric IN ('GRAND_TOTAL', 'DISCOUNT_PERCENT')),
+  threshold NUMERIC(15, 2) NOT NULL CHECK (threshold >= 0),
+  approverroleids UUID[] NOT NULL CHECK (cardinality(approverroleids) > 0),
+  isactive BOOLEAN NOT NULL DEFAULT true,
+  createdat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updatedat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE approval_policies IS 'Roles that must approve a quote whose metric is above the threshold';
+COMMENT ON COLUMN approval_policies.metric IS 'GRAND_TOTAL: quote total in rupees; DISCOUNT_PERCENT: all discounts as a percentage of the gross amount';
+COMMENT ON COLUMN approval_policies.approverroleids IS 'Approving roles in the order they approve';
+
+CREATE TABLE IF NOT EXISTS quote_approval_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quoteid UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  steporder INTEGER NOT NULL,
+  roleid UUID REFERENCES roles(id) ON DELETE SET NULL,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'APPROVED', 'REJECTED')),
+  actedby UUID REFERENCES users(id) ON DELETE SET NULL,
+  actedat TIMESTAMP WITH TIME ZONE,
+  notes TEXT,
+  createdat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (quoteid, steporder)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_approval_steps_pending
+  ON quote_approval_steps(roleid, status);
+
+COMMENT ON TABLE quote_approval_steps IS 'Approval chain of a quote; the lowest PENDING step is the one waiting to be acted on';
+COMMENT ON COLUMN quote_approval_steps.roleid IS 'Role that approves this step; NULL means anyone who can approve quotes';
+COMMENT ON COLUMN quote_approval_steps.reason IS 'Policies (or other checks) that required this step';
+
+-- Everyone can read policies (the quote API evaluates them for the current user)
+ALTER TABLE approval_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "approval_policies_select_all" ON approval_policies
+  FOR SELECT
+  USING (true);
+
+-- Only admins can modify approval policies
+CREATE POLICY "approval_policies_insert_admin" ON approval_policies
+  FOR INSERT
+  WITH CHECK (is_admin());
+
+CREATE POLICY "approval_policies_update_admin" ON approval_policies
+  FOR UPDATE
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "approval_policies_delete_admin" ON approval_policies
+  FOR DELETE
+  USING (is_admin());
+
+-- Quote editors start approval chains; approvers act on their steps
+ALTER TABLE quote_approval_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "quote_approval_steps_select_permission" ON quote_approval_steps
+  FOR SELECT
+  USING (has_permission('quotes', 'canread'));
+
+CREATE POLICY "quote_approval_steps_write_permission" ON quote_approval_steps
+  FOR ALL
+  USING (has_permission('quotes', 'canedit') OR has_permission('quotes', 'canapprove'))
+  WITH CHECK (has_permission('quotes', 'canedit') OR has_permission('quotes', 'canapprove'));
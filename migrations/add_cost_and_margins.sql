@@ -0,0 +1,36 @@
+-- Migration: Cost price and margin-based approvals
+-- Description: Products get a cost price, which is snapshotted onto quote items so a
+-- quote's margin does not change when costs are updated later. Quotes whose margin falls
+-- below the company minimum are routed to PENDING_APPROVAL when saved. Margins are only
+-- shown to roles with read access to the new "margins" permission resource.
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS costprice NUMERIC(12,2) CHECK (costprice IS NULL OR costprice >= 0);
+
+COMMENT ON COLUMN products.costprice IS 'Cost to the company per unit; NULL if not known';
+
+ALTER TABLE quote_items
+ADD COLUMN IF NOT EXISTS costprice NUMERIC(12,2);
+
+COMMENT ON COLUMN quote_items.costprice IS 'Product cost per unit when the line was quoted; lines without a cost are left out of the margin';
+
+-- NULL turns margin-based approvals off
+ALTER TABLE company_settings
+ADD COLUMN IF NOT EXISTS minmarginpercent NUMERIC(5,2) CHECK (minmarginpercent IS NULL OR minmarginpercent BETWEEN 0 AND 100);
+
+COMMENT ON COLUMN company_settings.minmarginpercent IS 'Quotes with a lower margin need approval before they can be sent';
+
+ALTER TABLE quotes
+ADD COLUMN IF NOT EXISTS approvalreason TEXT;
+
+COMMENT ON COLUMN quotes.approvalreason IS 'Why the quote was routed for approval automatically, e.g. a low margin';
+
+-- Margin visibility follows quote approval rights for existing roles
+INSERT INTO role_permissions (roleid, resource, cancreate, canread, canedit, candelete, canapprove, canexport, createdat, updatedat)
+SELECT rp.roleid, 'margins', false, rp.canapprove, false, false, false, false, NOW(), NOW()
+FROM role_permissions rp
+WHERE rp.resource = 'quotes'
+  AND NOT EXISTS (
+    SELECT 1 FROM role_permissions existing
+    WHERE existing.roleid = rp.roleid AND existing.resource = 'margins'
+  );
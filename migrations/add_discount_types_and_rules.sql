@@ -0,0 +1,56 @@
+-- Migration: Add fixed-amount discounts and per-role discount rules
+-- Description: Line, section and overall discounts can be a percentage or a fixed
+-- rupee amount. Discount rules cap the discount each role may give at each level
+-- and are enforced by the quote API routes.
+-- Apply after add_quote_sections.sql (see migrations/README.md).
+
+ALTER TABLE quote_items
+ADD COLUMN IF NOT EXISTS discounttype TEXT NOT NULL DEFAULT 'PERCENT'
+  CHECK (discounttype IN ('PERCENT', 'AMOUNT'));
+
+ALTER TABLE quote_sections
+ADD COLUMN IF NOT EXISTS discount NUMERIC(15, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS discounttype TEXT NOT NULL DEFAULT 'PERCENT'
+  CHECK (discounttype IN ('PERCENT', 'AMOUNT'));
+
+ALTER TABLE quotes
+ADD COLUMN IF NOT EXISTS overalldiscounttype TEXT NOT NULL DEFAULT 'PERCENT'
+  CHECK (overalldiscounttype IN ('PERCENT', 'AMOUNT'));
+
+COMMENT ON COLUMN quote_items.discounttype IS 'PERCENT: discount is a percentage of the line; AMOUNT: a fixed rupee value';
+COMMENT ON COLUMN quote_sections.discount IS 'Discount on the whole section, shared across its items';
+COMMENT ON COLUMN quote_sections.discounttype IS 'PERCENT or AMOUNT, as for quote_items.discounttype';
+COMMENT ON COLUMN quotes.overalldiscounttype IS 'PERCENT or AMOUNT, as for quote_items.discounttype';
+
+CREATE TABLE IF NOT EXISTS discount_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  roleid UUID NOT NULL REFERENCES roles(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL CHECK (scope IN ('LINE', 'SECTION', 'QUOTE')),
+  maxpercent NUMERIC(5, 2) NOT NULL CHECK (maxpercent >= 0 AND maxpercent <= 100),
+  createdat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updatedat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (roleid, scope)
+);
+
+COMMENT ON TABLE discount_rules IS 'Largest discount a role may give per level, as a percentage of the discounted amount';
+
+-- Everyone can read discount rules (the quote API checks them for the current user)
+ALTER TABLE discount_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "discount_rules_select_all" ON discount_rules
+  FOR SELECT
+  USING (true);
+
+-- Only admins can modify discount rules
+CREATE POLICY "discount_rules_insert_admin" ON discount_rules
+  FOR INSERT
+  WITH CHECK (is_admin());
+
+CREATE POLICY "discount_rules_update_admin" ON discount_rules
+  FOR UPDATE
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "discount_rules_delete_admin" ON discount_rules
+  FOR DELETE
+  USING (is_admin());
@@ -0,0 +1,25 @@
+-- Migration: Add GST fields for CGST/SGST vs IGST tax breakdown
+-- Description: Store state and GSTIN for the company and clients so the place of
+-- supply can be determined, and persist the resulting supply type on each quote
+
+-- Company state and GSTIN (supplier)
+ALTER TABLE company_settings
+ADD COLUMN IF NOT EXISTS state TEXT,
+ADD COLUMN IF NOT EXISTS gstin TEXT;
+
+-- Client state and GSTIN (recipient)
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS state TEXT,
+ADD COLUMN IF NOT EXISTS gstin TEXT;
+
+COMMENT ON COLUMN clients.state IS 'Client state, used to determine place of supply for GST';
+COMMENT ON COLUMN clients.gstin IS '15-character GST identification number of the client';
+
+-- Supply type and place of supply recorded when quote totals are calculated
+ALTER TABLE quotes
+ADD COLUMN IF NOT EXISTS supplytype TEXT NOT NULL DEFAULT 'INTRA_STATE'
+  CHECK (supplytype IN ('INTRA_STATE', 'INTER_STATE')),
+ADD COLUMN IF NOT EXISTS placeofsupply TEXT;
+
+COMMENT ON COLUMN quotes.supplytype IS 'INTRA_STATE (CGST + SGST) or INTER_STATE (IGST)';
+COMMENT ON COLUMN quotes.placeofsupply IS 'State name used as the place of supply';
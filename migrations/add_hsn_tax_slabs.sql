@@ -0,0 +1,19 @@
+-- Migration: Add HSN/SAC codes and per-line GST slabs
+-- Description: Products carry an HSN/SAC code and default GST rate, and each quote
+-- line stores the rate it was taxed at so totals can be summarised per slab
+
+-- Product defaults (NULL tax rate falls back to the quote's default rate)
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS hsncode TEXT,
+ADD COLUMN IF NOT EXISTS taxrate NUMERIC(5,2);
+
+COMMENT ON COLUMN products.hsncode IS 'HSN code (goods) or SAC code (services) printed on quotes';
+COMMENT ON COLUMN products.taxrate IS 'Default GST rate for the product, e.g. 5, 12, 18 or 28';
+
+-- Rate and code captured on each quote line
+ALTER TABLE quote_items
+ADD COLUMN IF NOT EXISTS hsncode TEXT,
+ADD COLUMN IF NOT EXISTS taxrate NUMERIC(5,2) NOT NULL DEFAULT 18;
+
+COMMENT ON COLUMN quote_items.hsncode IS 'HSN/SAC code copied from the product when the line was added';
+COMMENT ON COLUMN quote_items.taxrate IS 'GST rate applied to this line';
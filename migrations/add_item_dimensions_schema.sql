@@ -0,0 +1,28 @@
+-- Migration: Structured item measurements
+-- Description: quote_items.dimensions holds the measurements a line's quantity was
+-- calculated from: several surfaces, deductions for openings and a wastage allowance,
+-- entered in any length unit. Older rows stored a single { length, width } in feet
+-- and are upgraded to the new shape.
+
+ALTER TABLE quote_items
+ADD COLUMN IF NOT EXISTS dimensions JSONB;
+
+UPDATE quote_items
+SET dimensions = jsonb_build_object(
+  'unit', 'ft',
+  'surfaces', jsonb_build_array(jsonb_build_object(
+    'label', '',
+    'length', COALESCE((dimensions->>'length')::NUMERIC, 0),
+    'width', COALESCE((dimensions->>'width')::NUMERIC, 0),
+    'height', 0,
+    'count', 1
+  )),
+  'deductions', '[]'::JSONB,
+  'wastagePercent', 0
+)
+WHERE dimensions IS NOT NULL
+  AND jsonb_typeof(dimensions) = 'object'
+  AND NOT dimensions ? 'surfaces'
+  AND (dimensions ? 'length' OR dimensions ? 'width');
+
+COMMENT ON COLUMN quote_items.dimensions IS 'Measurements behind the quantity: { unit, surfaces: [{ label, length, width, height, count }], deductions: [...], wastagePercent }';
@@ -0,0 +1,12 @@
+-- Migration: Add optional and alternative quote items
+-- Description: Items can be STANDARD (counted in the total), OPTIONAL, or an
+-- ALTERNATIVE to another item on the same quote. Optional and alternative items
+-- are priced on the quote but excluded from the grand total until accepted.
+
+ALTER TABLE quote_items
+ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'STANDARD'
+  CHECK (kind IN ('STANDARD', 'OPTIONAL', 'ALTERNATIVE')),
+ADD COLUMN IF NOT EXISTS alternativeof UUID REFERENCES quote_items(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN quote_items.kind IS 'STANDARD, OPTIONAL or ALTERNATIVE; only STANDARD items count towards totals';
+COMMENT ON COLUMN quote_items.alternativeof IS 'For ALTERNATIVE items, the standard item this one can replace';
@@ -0,0 +1,115 @@
+-- Migration: Structured payment milestone schedules
+-- Description: Each quote gets a schedule of payment milestones (percentage of the grand
+-- total or a fixed amount, due at a project trigger). Reusable default schedules are
+-- managed in Settings and copied onto new quotes.
+
+CREATE TABLE IF NOT EXISTS quote_payment_milestones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quoteid UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  valuetype TEXT NOT NULL DEFAULT 'PERCENT' CHECK (valuetype IN ('PERCENT', 'AMOUNT')),
+  value NUMERIC(15, 2) NOT NULL CHECK (value > 0),
+  trigger TEXT NOT NULL CHECK (trigger IN ('BOOKING', 'DESIGN_SIGNOFF', 'DELIVERY', 'HANDOVER')),
+  "order" INTEGER NOT NULL DEFAULT 0,
+  createdat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updatedat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_payment_milestones_quoteid ON quote_payment_milestones(quoteid);
+
+COMMENT ON TABLE quote_payment_milestones IS 'Payment schedule of a quote; amounts are computed from the grand total';
+COMMENT ON COLUMN quote_payment_milestones.valuetype IS 'PERCENT: percentage of the grand total; AMOUNT: a fixed rupee value';
+
+-- Milestones follow the same access rules as quote_items (see enable_rls_policies.sql)
+ALTER TABLE quote_payment_milestones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "quote_payment_milestones_select_permission" ON quote_payment_milestones
+  FOR SELECT
+  USING (
+    has_permission('quotes', 'canread') AND
+    EXISTS (
+      SELECT 1 FROM quotes
+      WHERE quotes.id = quote_payment_milestones.quoteid
+      AND (quotes.createdby = current_user_uuid() OR is_sales_head())
+    )
+  );
+
+CREATE POLICY "quote_payment_milestones_insert_permission" ON quote_payment_milestones
+  FOR INSERT
+  WITH CHECK (
+    has_permission('quotes', 'cancreate') AND
+    EXISTS (
+      SELECT 1 FROM quotes
+      WHERE quotes.id = quote_payment_milestones.quoteid
+      AND (quotes.createdby = current_user_uuid() OR is_sales_head())
+    )
+  );
+
+CREATE POLICY "quote_payment_milestones_update_permission" ON quote_payment_milestones
+  FOR UPDATE
+  USING (
+    has_permission('quotes', 'canedit') AND
+    EXISTS (
+      SELECT 1 FROM quotes
+      WHERE quotes.id = quote_payment_milestones.quoteid
+      AND (quotes.createdby = current_user_uuid() OR is_sales_head())
+      AND (quotes.isapproved = false OR is_admin())
+    )
+  );
+
+CREATE POLICY "quote_payment_milestones_delete_permission" ON quote_payment_milestones
+  FOR DELETE
+  USING (
+    has_permission('quotes', 'canedit') AND
+    EXISTS (
+      SELECT 1 FROM quotes
+      WHERE quotes.id = quote_payment_milestones.quoteid
+      AND (quotes.createdby = current_user_uuid() OR is_sales_head())
+      AND (quotes.isapproved = false OR is_admin())
+    )
+  );
+
+-- Reusable schedules; milestones are stored as [{ name, valueType, value, trigger }]
+CREATE TABLE IF NOT EXISTS payment_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  milestones JSONB NOT NULL DEFAULT '[]'::jsonb,
+  isdefault BOOLEAN NOT NULL DEFAULT false,
+  createdat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updatedat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- At most one default schedule
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_schedules_default ON payment_schedules(isdefault) WHERE isdefault;
+
+COMMENT ON TABLE payment_schedules IS 'Payment milestone schedules that can be applied to quotes; the default one is used for new quotes';
+
+-- Everyone can read schedules (the quote builder applies them)
+ALTER TABLE payment_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "payment_schedules_select_all" ON payment_schedules
+  FOR SELECT
+  USING (true);
+
+-- Only admins can modify schedules
+CREATE POLICY "payment_schedules_insert_admin" ON payment_schedules
+  FOR INSERT
+  WITH CHECK (is_admin());
+
+CREATE POLICY "payment_schedules_update_admin" ON payment_schedules
+  FOR UPDATE
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "payment_schedules_delete_admin" ON payment_schedules
+  FOR DELETE
+  USING (is_admin());
+
+-- Seed the schedule previously written into the PAYMENT policy text
+INSERT INTO payment_schedules (name, milestones, isdefault)
+SELECT
+  'Standard (50/50)',
+  '[{"name": "Advance", "valueType": "PERCENT", "value": 50, "trigger": "BOOKING"},
+    {"name": "Balance", "valueType": "PERCENT", "value": 50, "trigger": "HANDOVER"}]'::jsonb,
+  true
+WHERE NOT EXISTS (SELECT 1 FROM payment_schedules);
@@ -0,0 +1,21 @@
+-- Migration: JSON-defined PDF templates
+-- Description: pdf_templates.template_json now drives the quote PDF: section order,
+-- item table columns, colours, font and visibility toggles (see lib/pdf-template.ts).
+-- Keys left out of the JSON take the standard layout, so '{}' is the standard layout.
+-- A quote is rendered with its templateid, or with the default template.
+
+ALTER TABLE pdf_templates ADD COLUMN IF NOT EXISTS createdby UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE pdf_templates ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- Templates belong to the user who created them (the update/delete policies check this)
+ALTER TABLE pdf_templates ALTER COLUMN createdby SET DEFAULT current_user_uuid();
+
+-- At most one default template
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pdf_templates_default ON pdf_templates(isdefault) WHERE isdefault;
+
+COMMENT ON COLUMN pdf_templates.template_json IS 'PDF layout: theme, sections, columns, show and labels; missing keys use the standard layout';
+
+-- Standard layout as the default when there is none yet
+INSERT INTO pdf_templates (name, description, category, template_json, isdefault, ispublic)
+SELECT 'Standard', 'Letterhead, itemised rooms, GST summary and payment schedule', 'Standard', '{}'::jsonb, true, true
+WHERE NOT EXISTS (SELECT 1 FROM pdf_templates WHERE isdefault);
@@ -0,0 +1,65 @@
+-- Migration: Add price lists and client-tier pricing
+-- Description: Named price lists (Builder, Architect referral, Retail...) hold per-product
+-- rates with effective dates. A client can be assigned a price list; quotes for that
+-- client are priced from the list, falling back to the product's base rate.
+
+CREATE TABLE IF NOT EXISTS price_lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  isactive BOOLEAN NOT NULL DEFAULT true,
+  createdat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updatedat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE price_lists IS 'Named price lists for client tiers';
+COMMENT ON COLUMN price_lists.isactive IS 'Inactive lists can no longer be assigned to clients; clients already on them keep their rates';
+
+CREATE TABLE IF NOT EXISTS price_list_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pricelistid UUID NOT NULL REFERENCES price_lists(id) ON DELETE CASCADE,
+  productid UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  rate NUMERIC(12,2) NOT NULL CHECK (rate >= 0),
+  effectivefrom DATE NOT NULL DEFAULT CURRENT_DATE,
+  effectiveto DATE,
+  createdat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT price_list_items_dates CHECK (effectiveto IS NULL OR effectiveto >= effectivefrom),
+  UNIQUE (pricelistid, productid, effectivefrom)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_list_items_lookup
+  ON price_list_items(pricelistid, productid, effectivefrom DESC);
+
+COMMENT ON TABLE price_list_items IS 'Rate of a product in a price list from effectivefrom until effectiveto (open-ended if NULL)';
+COMMENT ON COLUMN price_list_items.effectivefrom IS 'First day the rate applies; a later entry for the same product takes over from its own date';
+
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS pricelistid UUID REFERENCES price_lists(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN clients.pricelistid IS 'Price list used for this client''s quotes; NULL uses product base rates';
+
+-- Price list a quote was priced from, for reference
+ALTER TABLE quotes
+ADD COLUMN IF NOT EXISTS pricelistid UUID REFERENCES price_lists(id) ON DELETE SET NULL;
+
+-- Anyone who can read products can read prices; only product editors can change them
+ALTER TABLE price_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_list_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "price_lists_select_permission" ON price_lists
+  FOR SELECT
+  USING (has_permission('products', 'canread'));
+
+CREATE POLICY "price_lists_write_permission" ON price_lists
+  FOR ALL
+  USING (has_permission('products', 'canedit'))
+  WITH CHECK (has_permission('products', 'canedit'));
+
+CREATE POLICY "price_list_items_select_permission" ON price_list_items
+  FOR SELECT
+  USING (has_permission('products', 'canread'));
+
+CREATE POLICY "price_list_items_write_permission" ON price_list_items
+  FOR ALL
+  USING (has_permission('products', 'canedit'))
+  WITH CHECK (has_permission('products', 'canedit'));
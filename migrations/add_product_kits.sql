@@ -0,0 +1,56 @@
+-- Migration: Add composite products (kits / bill of materials)
+-- Description: A product can be a kit made up of other products with quantities,
+-- e.g. a modular base unit = carcass + shutters + hardware + handles. A kit's rate is
+-- derived from its components unless it is overridden. Quote lines keep a snapshot of
+-- the components they were quoted with so later catalog changes don't alter them.
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS iskit BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS kitrateoverride BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN products.iskit IS 'True if the product is an assembly of the products in product_components';
+COMMENT ON COLUMN products.kitrateoverride IS 'For kits, true if baserate is set by hand instead of derived from the components';
+
+CREATE TABLE IF NOT EXISTS product_components (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitid UUID NOT NULL,
+  componentid UUID NOT NULL,
+  quantity NUMERIC(12,3) NOT NULL CHECK (quantity > 0),
+  "order" INTEGER NOT NULL DEFAULT 0,
+  createdat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT product_components_kitid_fkey FOREIGN KEY (kitid) REFERENCES products(id) ON DELETE CASCADE,
+  CONSTRAINT product_components_componentid_fkey FOREIGN KEY (componentid) REFERENCES products(id) ON DELETE RESTRICT,
+  CONSTRAINT product_components_not_self CHECK (kitid <> componentid),
+  UNIQUE (kitid, componentid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_components_kitid ON product_components(kitid);
+CREATE INDEX IF NOT EXISTS idx_product_components_componentid ON product_components(componentid);
+
+COMMENT ON TABLE product_components IS 'Components of kit products and how many of each go into one kit';
+
+-- Components follow the same access rules as products (see enable_rls_policies.sql)
+ALTER TABLE product_components ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "product_components_select_permission" ON product_components
+  FOR SELECT
+  USING (has_permission('products', 'canread'));
+
+CREATE POLICY "product_components_insert_permission" ON product_components
+  FOR INSERT
+  WITH CHECK (has_permission('products', 'canedit') OR has_permission('products', 'cancreate'));
+
+CREATE POLICY "product_components_update_permission" ON product_components
+  FOR UPDATE
+  USING (has_permission('products', 'canedit'))
+  WITH CHECK (has_permission('products', 'canedit'));
+
+CREATE POLICY "product_components_delete_permission" ON product_components
+  FOR DELETE
+  USING (has_permission('products', 'canedit'));
+
+-- Components a kit line was quoted with: [{ productId, itemCode, name, unit, quantity, rate }]
+ALTER TABLE quote_items
+ADD COLUMN IF NOT EXISTS kitcomponents JSONB;
+
+COMMENT ON COLUMN quote_items.kitcomponents IS 'Snapshot of the kit components (per one kit) when the line was quoted; NULL for non-kit products';
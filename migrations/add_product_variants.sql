@@ -0,0 +1,16 @@
+-- Migration: Add product variants and finish options
+-- Description: Products can declare variant attributes (Finish, Hardware brand...) whose
+-- options adjust the rate by a fixed delta or a multiplier, instead of keeping a
+-- near-duplicate product per finish. Each quote line stores the options chosen for it.
+
+-- [{ name, options: [{ label, modifierType: 'DELTA' | 'MULTIPLIER', modifier }] }]
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS variantattributes JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+COMMENT ON COLUMN products.variantattributes IS 'Variant attributes and their options with price deltas (per unit) or multipliers';
+
+-- [{ attribute, option, modifierType, modifier }]
+ALTER TABLE quote_items
+ADD COLUMN IF NOT EXISTS variantoptions JSONB;
+
+COMMENT ON COLUMN quote_items.variantoptions IS 'Variant options chosen for the line, with the price modifiers they were quoted at';
@@ -0,0 +1,87 @@
+-- Migration: Email delivery of quote PDFs
+-- Description: Quotes can be emailed to the client straight from the app, with the PDF
+-- attached. Subject and body come from editable templates with merge fields, and every
+-- send (or failed attempt) is logged against the quote version with its recipients.
+-- The SMTP server itself is configured through SMTP_* environment variables.
+
+-- Reusable subject/body templates; {{fields}} are filled in from the quote
+CREATE TABLE IF NOT EXISTS email_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  isdefault BOOLEAN NOT NULL DEFAULT false,
+  createdat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updatedat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- At most one default template
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_templates_default ON email_templates(isdefault) WHERE isdefault;
+
+COMMENT ON TABLE email_templates IS 'Subject and body templates for emailing quotes; the default one is preselected';
+
+-- Everyone can read templates (the send dialog applies them)
+ALTER TABLE email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "email_templates_select_all" ON email_templates
+  FOR SELECT
+  USING (true);
+
+-- Only admins can modify templates
+CREATE POLICY "email_templates_insert_admin" ON email_templates
+  FOR INSERT
+  WITH CHECK (is_admin());
+
+CREATE POLICY "email_templates_update_admin" ON email_templates
+  FOR UPDATE
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "email_templates_delete_admin" ON email_templates
+  FOR DELETE
+  USING (is_admin());
+
+INSERT INTO email_templates (name, subject, body, isdefault)
+SELECT
+  'Quote for client',
+  'Quotation {{quoteNumber}} from {{companyName}}',
+  E'Dear {{clientName}},\n\nPlease find attached our quotation {{quoteNumber}} for {{quoteTitle}}, amounting to {{total}}. It is valid until {{validUntil}}.\n\nDo let us know if you have any questions.\n\nRegards,\n{{senderName}}\n{{companyName}}',
+  true
+WHERE NOT EXISTS (SELECT 1 FROM email_templates);
+
+-- Send log
+CREATE TABLE IF NOT EXISTS quote_emails (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quoteid UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  quoteversion INTEGER NOT NULL,
+  recipients TEXT[] NOT NULL,
+  cc TEXT[] NOT NULL DEFAULT '{}',
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('SENT', 'FAILED')),
+  error TEXT,
+  messageid TEXT,
+  sentby UUID REFERENCES users(id) ON DELETE SET NULL DEFAULT current_user_uuid(),
+  sentat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_emails_quote ON quote_emails(quoteid, sentat);
+
+COMMENT ON TABLE quote_emails IS 'Every attempt to email a quote PDF, newest last';
+COMMENT ON COLUMN quote_emails.quoteversion IS 'Quote version of the attached PDF';
+COMMENT ON COLUMN quote_emails.status IS 'SENT: accepted by the SMTP server; FAILED: see error';
+COMMENT ON COLUMN quote_emails.messageid IS 'Message-ID assigned by the SMTP server';
+
+-- The log is append-only and always written as the signed-in user
+ALTER TABLE quote_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "quote_emails_select_permission" ON quote_emails
+  FOR SELECT
+  USING (has_permission('quotes', 'canread'));
+
+CREATE POLICY "quote_emails_insert_own" ON quote_emails
+  FOR INSERT
+  WITH CHECK (
+    has_permission('quotes', 'canedit') AND
+    sentby = current_user_uuid()
+  );
@@ -0,0 +1,47 @@
+-- Migration: Sequential quote numbers per financial year
+-- Description: Replace random quote numbers with a counter per Indian financial year
+-- (April–March), formatted with a pattern from company settings. Numbers are unique but
+-- not gap-free: a quote insert that fails after taking a number leaves a gap.
+
+-- Pattern such as 'EW/QT/{FY}/{SEQ:5}'; NULL falls back to the application default
+ALTER TABLE company_settings
+ADD COLUMN IF NOT EXISTS quotenumberpattern TEXT;
+
+COMMENT ON COLUMN company_settings.quotenumberpattern IS 'Quote number pattern; {FY} = financial year (2025-26), {SEQ:n} = sequence padded to n digits. Both are required';
+
+-- One counter per financial year
+CREATE TABLE IF NOT EXISTS quote_number_sequences (
+  financialyear TEXT PRIMARY KEY,
+  lastvalue INTEGER NOT NULL DEFAULT 0,
+  updatedat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE quote_number_sequences IS 'Last quote sequence number issued in each financial year';
+
+-- Only reachable through next_quote_sequence()
+ALTER TABLE quote_number_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Atomically increment and return the counter for a financial year. The upsert takes a
+-- row lock, so concurrent callers are serialised and never receive the same number.
+CREATE OR REPLACE FUNCTION next_quote_sequence(financial_year TEXT) RETURNS INTEGER AS $$
+  INSERT INTO quote_number_sequences (financialyear, lastvalue, updatedat)
+  VALUES (financial_year, 1, NOW())
+  ON CONFLICT (financialyear)
+  DO UPDATE SET lastvalue = quote_number_sequences.lastvalue + 1, updatedat = NOW()
+  RETURNING lastvalue
+$$ LANGUAGE SQL VOLATILE SECURITY DEFINER;
+
+-- Quote numbers must stay unique now that they are issued sequentially. Random numbers
+-- issued before this could repeat, so later quotes sharing a number get a suffix first
+-- (the oldest keeps it).
+UPDATE quotes
+SET quotenumber = quotes.quotenumber || '-D' || duplicates.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY quotenumber ORDER BY createdat, id) AS position
+  FROM quotes
+  WHERE quotenumber IS NOT NULL
+) AS duplicates
+WHERE quotes.id = duplicates.id
+  AND duplicates.position > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quotes_quotenumber_unique ON quotes(quotenumber);
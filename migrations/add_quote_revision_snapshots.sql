@@ -0,0 +1,18 @@
+-- Migration: Add quote revision snapshots
+-- Description: Each saved version of a quote keeps a full snapshot of its header, sections,
+-- items, policies and payment milestones (built by lib/quote-revisions.ts), so versions can
+-- be compared and restored. PDF exports still add rows without a snapshot.
+
+ALTER TABLE quote_revisions
+ADD COLUMN IF NOT EXISTS snapshot JSONB;
+
+-- Exports of the same version add a row each; only saved versions need to be unique
+ALTER TABLE quote_revisions
+DROP CONSTRAINT IF EXISTS quote_revisions_quoteid_version_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quote_revisions_snapshot_version
+  ON quote_revisions(quoteid, version)
+  WHERE snapshot IS NOT NULL;
+
+COMMENT ON COLUMN quote_revisions.snapshot IS 'Full quote contents at this version; NULL for export entries';
+COMMENT ON COLUMN quote_revisions.exported_by IS 'User who saved or exported this version';
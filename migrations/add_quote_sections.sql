@@ -0,0 +1,71 @@
+-- Migration: Add room/section grouping for quote items
+-- Description: Quotes can be organised into named sections (Kitchen, Master Bedroom,
+-- Living...) and each quote item may belong to one of them
+
+CREATE TABLE IF NOT EXISTS quote_sections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quoteid UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  "order" INTEGER NOT NULL DEFAULT 0,
+  createdat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updatedat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_sections_quoteid ON quote_sections(quoteid);
+
+COMMENT ON TABLE quote_sections IS 'Named rooms/sections that group quote items';
+
+-- Items keep their place on the quote if their section is removed
+ALTER TABLE quote_items
+ADD COLUMN IF NOT EXISTS sectionid UUID REFERENCES quote_sections(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quote_items_sectionid ON quote_items(sectionid);
+
+-- Sections follow the same access rules as quote_items (see enable_rls_policies.sql)
+ALTER TABLE quote_sections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "quote_sections_select_permission" ON quote_sections
+  FOR SELECT
+  USING (
+    has_permission('quotes', 'canread') AND
+    EXISTS (
+      SELECT 1 FROM quotes
+      WHERE quotes.id = quote_sections.quoteid
+      AND (quotes.createdby = current_user_uuid() OR is_sales_head())
+    )
+  );
+
+CREATE POLICY "quote_sections_insert_permission" ON quote_sections
+  FOR INSERT
+  WITH CHECK (
+    has_permission('quotes', 'cancreate') AND
+    EXISTS (
+      SELECT 1 FROM quotes
+      WHERE quotes.id = quote_sections.quoteid
+      AND (quotes.createdby = current_user_uuid() OR is_sales_head())
+    )
+  );
+
+CREATE POLICY "quote_sections_update_permission" ON quote_sections
+  FOR UPDATE
+  USING (
+    has_permission('quotes', 'canedit') AND
+    EXISTS (
+      SELECT 1 FROM quotes
+      WHERE quotes.id = quote_sections.quoteid
+      AND (quotes.createdby = current_user_uuid() OR is_sales_head())
+      AND (quotes.isapproved = false OR is_admin())
+    )
+  );
+
+CREATE POLICY "quote_sections_delete_permission" ON quote_sections
+  FOR DELETE
+  USING (
+    has_permission('quotes', 'canedit') AND
+    EXISTS (
+      SELECT 1 FROM quotes
+      WHERE quotes.id = quote_sections.quoteid
+      AND (quotes.createdby = current_user_uuid() OR is_sales_head())
+      AND (quotes.isapproved = false OR is_admin())
+    )
+  );
@@ -0,0 +1,56 @@
+-- Migration: Add quote share links
+-- Description: Expiring public links to one version of a quote. Clients open them without
+-- logging in to view the quote, then accept it (typed name and drawn signature) or reject
+-- it with a reason. The public pages are served by API routes that look links up by token
+-- with the service role key; signed-in users manage links through RLS as usual.
+
+CREATE TABLE IF NOT EXISTS quote_share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quoteid UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  quoteversion INTEGER NOT NULL,
+  expiresat TIMESTAMP WITH TIME ZONE NOT NULL,
+  revokedat TIMESTAMP WITH TIME ZONE,
+  createdby UUID REFERENCES users(id) ON DELETE SET NULL DEFAULT current_user_uuid(),
+  createdat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Views by the client
+  viewcount INTEGER NOT NULL DEFAULT 0,
+  firstviewedat TIMESTAMP WITH TIME ZONE,
+  lastviewedat TIMESTAMP WITH TIME ZONE,
+
+  -- The client's answer; a link can be answered once
+  response TEXT CHECK (response IN ('ACCEPTED', 'REJECTED')),
+  signername TEXT,
+  signature TEXT,
+  rejectionreason TEXT,
+  respondedat TIMESTAMP WITH TIME ZONE,
+  respondentip TEXT,
+  respondentuseragent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_share_links_quote ON quote_share_links(quoteid, createdat);
+
+COMMENT ON TABLE quote_share_links IS 'Public links to one version of a quote, and the client''s answer';
+COMMENT ON COLUMN quote_share_links.quoteversion IS 'Quote version the link shows; answers are recorded against it';
+COMMENT ON COLUMN quote_share_links.signature IS 'Drawn signature as a PNG data URL (ACCEPTED only)';
+
+ALTER TABLE quote_share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "quote_share_links_select_permission" ON quote_share_links
+  FOR SELECT
+  USING (has_permission('quotes', 'canread'));
+
+-- New links start unanswered
+CREATE POLICY "quote_share_links_insert_permission" ON quote_share_links
+  FOR INSERT
+  WITH CHECK (has_permission('quotes', 'canedit') AND response IS NULL);
+
+CREATE POLICY "quote_share_links_update_permission" ON quote_share_links
+  FOR UPDATE
+  USING (has_permission('quotes', 'canedit'));
+
+-- Signed-in users can only revoke links; views and answers are written by the public API
+-- with the service role key. RLS can't limit columns, so the grant does.
+REVOKE UPDATE ON quote_share_links FROM authenticated;
+GRANT UPDATE (revokedat) ON quote_share_links TO authenticated;
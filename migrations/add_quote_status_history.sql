@@ -0,0 +1,35 @@
+-- Migration: Add quote status history
+-- Description: Quote status changes are checked by the API routes against a transition
+-- table (lib/quote-status.ts) and every change is recorded here with who made it and when.
+
+CREATE TABLE IF NOT EXISTS quote_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quoteid UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  fromstatus TEXT,
+  tostatus TEXT NOT NULL,
+  changedby UUID REFERENCES users(id) ON DELETE SET NULL DEFAULT current_user_uuid(),
+  changedat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  note TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_status_history_quote
+  ON quote_status_history(quoteid, changedat);
+
+COMMENT ON TABLE quote_status_history IS 'Every status change of a quote, oldest first';
+COMMENT ON COLUMN quote_status_history.fromstatus IS 'Status before the change; NULL when the quote was created';
+COMMENT ON COLUMN quote_status_history.changedby IS 'User who made the change, filled in from the session';
+
+-- History is append-only: readable with the quote, written by anyone who can change quotes
+ALTER TABLE quote_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "quote_status_history_select_permission" ON quote_status_history
+  FOR SELECT
+  USING (has_permission('quotes', 'canread'));
+
+CREATE POLICY "quote_status_history_insert_permission" ON quote_status_history
+  FOR INSERT
+  WITH CHECK (
+    has_permission('quotes', 'cancreate') OR
+    has_permission('quotes', 'canedit') OR
+    has_permission('quotes', 'canapprove')
+  );
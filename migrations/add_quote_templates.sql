@@ -0,0 +1,36 @@
+-- Migration: Add quote templates
+-- Description: Named sets of rooms, items and terms (e.g. "2BHK standard package") that
+-- new quotes can start from. Templates are saved from an existing quote.
+
+CREATE TABLE IF NOT EXISTS quote_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  content JSONB NOT NULL,
+  createdby UUID REFERENCES users(id) ON DELETE SET NULL DEFAULT current_user_uuid(),
+  createdat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updatedat TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE quote_templates IS 'Reusable quote contents new quotes can start from';
+COMMENT ON COLUMN quote_templates.content IS 'Discount mode, sections, items and policies in builder format';
+
+-- Anyone who can read quotes can use templates; anyone who can create quotes can save
+-- them; only their author or an admin can change or delete them
+ALTER TABLE quote_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "quote_templates_select_permission" ON quote_templates
+  FOR SELECT
+  USING (has_permission('quotes', 'canread'));
+
+CREATE POLICY "quote_templates_insert_permission" ON quote_templates
+  FOR INSERT
+  WITH CHECK (has_permission('quotes', 'cancreate'));
+
+CREATE POLICY "quote_templates_update_own" ON quote_templates
+  FOR UPDATE
+  USING (createdby = current_user_uuid() OR is_admin());
+
+CREATE POLICY "quote_templates_delete_own" ON quote_templates
+  FOR DELETE
+  USING (createdby = current_user_uuid() OR is_admin());
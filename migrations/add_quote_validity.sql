@@ -0,0 +1,23 @@
+-- Migration: Quote validity period
+-- Description: Give every quote a validity date and a company-wide default validity
+-- period. Open quotes past their validity date move to the new EXPIRED status.
+
+-- Last day on which the quote can be accepted
+ALTER TABLE quotes
+ADD COLUMN IF NOT EXISTS validuntil DATE;
+
+COMMENT ON COLUMN quotes.validuntil IS 'Last day the quote is valid; open quotes past this date become EXPIRED';
+
+-- Existing quotes get the default 30 days from when they were created
+UPDATE quotes
+SET validuntil = (createdat + INTERVAL '30 days')::DATE
+WHERE validuntil IS NULL;
+
+-- Speeds up the expiry sweep and the "expiring soon" filter
+CREATE INDEX IF NOT EXISTS idx_quotes_status_validuntil ON quotes(status, validuntil);
+
+-- Default validity for new quotes
+ALTER TABLE company_settings
+ADD COLUMN IF NOT EXISTS quotevaliditydays INTEGER NOT NULL DEFAULT 30 CHECK (quotevaliditydays > 0);
+
+COMMENT ON COLUMN company_settings.quotevaliditydays IS 'Number of days a new quote stays valid';
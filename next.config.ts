@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // PDF fonts are read from disk at runtime (lib/pdf-fonts.ts), so ship them with the routes that render PDFs
+  outputFileTracingIncludes: {
+    '/api/quotes/[id]/pdf': ['./public/fonts/**/*'],
+    '/api/quotes/[id]/emails': ['./public/fonts/**/*'],
+    '/api/templates/[id]/preview': ['./public/fonts/**/*'],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,17 @@
+import { defineConfig } from '@playwright/test';
+
+/**
+ * Unit tests for the pure modules in lib/ (pricing, calculations, payment schedules...).
+ * They need no browser, dev server or database: npm run test:unit
+ */
+export default defineConfig({
+  testDir: './tests/unit',
+  testMatch: /.*\.test\.ts$/,
+
+  fullyParallel: true,
+  forbidOnly: !!process.env.CI,
+
+  reporter: [['list']],
+
+  timeout: 10000,
+});
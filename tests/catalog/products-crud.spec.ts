@@ -241,3 +241,56 @@ test.describe('Product Categories', () => {
     await expect(categoriesSection).toBeVisible({ timeout: 5000 });
   });
 });
+
+test.describe('Product Variants', () => {
+  test('should add finish options to a product', async ({ adminPage }) => {
+    await adminPage.goto('/catalog');
+    await adminPage.waitForLoadState('networkidle');
+
+    await adminPage.click('button:has-text("Add"), button:has-text("New Product")');
+    await expect(adminPage.locator('text=Add New Item')).toBeVisible();
+
+    await adminPage.click('[data-testid="add-variant-attribute-button"]');
+    await adminPage.fill('[data-testid="variant-attribute-name-input"]', 'Finish');
+    await adminPage.locator('[data-testid="variant-option-label-input"]').first().fill('Laminate');
+
+    await adminPage.click('[data-testid="add-variant-option-button"]');
+    await adminPage.locator('[data-testid="variant-option-label-input"]').nth(1).fill('PU');
+    await adminPage.locator('[data-testid="variant-option-modifier-input"]').nth(1).fill('450');
+
+    await expect(adminPage.locator('[data-testid="variant-option-row"]')).toHaveCount(2);
+  });
+});
+
+test.describe('Price Lists', () => {
+  test('should set a product rate in a price list', async ({ adminPage }) => {
+    await adminPage.goto('/catalog');
+    await adminPage.waitForLoadState('networkidle');
+
+    await adminPage.click('button:has-text("Price Lists")');
+    await expect(adminPage.locator('[data-testid="price-lists-manager"]')).toBeVisible();
+
+    await adminPage.fill('[data-testid="price-list-name-input"]', `Builder ${Date.now()}`);
+    await adminPage.click('[data-testid="create-price-list-button"]');
+
+    const firstProduct = adminPage.locator('[data-testid="price-list-product-row"]').first();
+    await firstProduct.locator('[data-testid="price-list-set-rate-button"]').click();
+    await adminPage.fill('[data-testid="price-list-rate-input"]', '999');
+    await adminPage.click('[data-testid="price-list-save-rate-button"]');
+
+    await expect(firstProduct.locator('[data-testid="price-list-current-rate"]')).toContainText('999');
+  });
+});
+
+test.describe('Cost Prices', () => {
+  test('should show the cost price field to users who can see margins', async ({ adminPage }) => {
+    await adminPage.goto('/catalog');
+    await adminPage.waitForLoadState('networkidle');
+
+    await adminPage.click('button:has-text("Add"), button:has-text("New Product")');
+    await expect(adminPage.locator('text=Add New Item')).toBeVisible();
+
+    await adminPage.fill('[data-testid="product-cost-price-input"]', '1200');
+    await expect(adminPage.locator('[data-testid="product-cost-price-input"]')).toHaveValue('1200');
+  });
+});
@@ -322,3 +322,48 @@ test.describe('Permission-Based Access Control', () => {
     expect(await approveButtons.count()).toBe(0);
   });
 });
+
+test.describe('Approval Policies', () => {
+  test('should create a two-step approval policy', async ({ page }) => {
+    await login(page, TEST_USERS.admin.email, TEST_USERS.admin.password);
+
+    await page.goto('/settings');
+    await page.click('[role="tab"]:has-text("Approval Policies")');
+
+    await page.fill('[data-testid="approval-policy-name-input"]', `Large orders ${Date.now()}`);
+    await page.fill('[data-testid="approval-policy-threshold-input"]', '1000000');
+    await page.locator('[data-testid="approval-policy-step-role-select"]').first().selectOption({ label: 'Sales Head' });
+    await page.click('[data-testid="add-approval-step-button"]');
+    await page.locator('[data-testid="approval-policy-step-role-select"]').nth(1).selectOption({ label: 'Admin' });
+    await page.click('[data-testid="save-approval-policy-button"]');
+
+    await expect(
+      page.locator('[data-testid="approval-policy-chain"]', { hasText: 'Sales Head → Admin' }).first()
+    ).toBeVisible({ timeout: 5000 });
+  });
+});
+
+test.describe('Approval History', () => {
+  test('should add a comment to the approval history', async ({ page }) => {
+    await login(page, TEST_USERS.admin.email, TEST_USERS.admin.password);
+
+    await page.goto('/quotations');
+    await page.waitForLoadState('networkidle');
+
+    // The test database is seeded with quotes
+    const quoteRows = page.locator('tbody tr');
+    await expect(quoteRows.first()).toBeVisible({ timeout: 5000 });
+    await quoteRows.first().click();
+
+    const timeline = page.locator('[data-testid="approval-timeline"]');
+    await expect(timeline).toBeVisible({ timeout: 5000 });
+
+    const comment = `Checked pricing ${Date.now()}`;
+    await page.fill('[data-testid="approval-comment-input"]', comment);
+    await page.click('[data-testid="approval-comment-button"]');
+
+    await expect(
+      timeline.locator('[data-testid="approval-event"]', { hasText: comment })
+    ).toBeVisible({ timeout: 5000 });
+  });
+});
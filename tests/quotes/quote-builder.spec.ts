@@ -35,6 +35,28 @@ test.describe('Quote Builder - Create New Quote', () => {
     await expect(titleInput).toHaveValue(quoteTitle);
   });
 
+  test('should default the validity date to a future date', async ({ salesExecutivePage }) => {
+    const validUntilInput = salesExecutivePage.locator('[data-testid="valid-until-input"]');
+    await expect(validUntilInput).toHaveValue(/^\d{4}-\d{2}-\d{2}$/);
+
+    // Default validity comes from company settings and always lies in the future
+    const validUntil = await validUntilInput.inputValue();
+    expect(new Date(validUntil).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  test('should start new quotes with a payment schedule', async ({ salesExecutivePage }) => {
+    // The default schedule from settings (or 50/50) is applied to new quotes
+    await expect(salesExecutivePage.locator('[data-testid="payment-milestone-row"]').first()).toBeVisible();
+
+    // Add a milestone and push the schedule past 100%
+    await salesExecutivePage.click('[data-testid="add-milestone-button"]');
+    const row = salesExecutivePage.locator('[data-testid="payment-milestone-row"]').last();
+    await row.locator('[data-testid="milestone-name-input"]').fill('Extra');
+    await row.locator('[data-testid="milestone-value-input"]').fill('150');
+
+    await expect(salesExecutivePage.locator('[data-testid="payment-schedule-error"]')).toBeVisible();
+  });
+
   test('should select client', async ({ salesExecutivePage }) => {
     // Click on select client button
     await salesExecutivePage.click('button:has-text("Select Client"), button:has-text("Choose Client")');
@@ -229,38 +251,16 @@ test.describe('Quote Discount Modes', () => {
       await expect(salesExecutivePage.locator('text=Grand Total')).toBeVisible();
     }
   });
-});
 
-test.describe('Quote Dimensions Calculator', () => {
-  test.beforeEach(async ({ salesExecutivePage }) => {
-    await salesExecutivePage.goto('/quotes/new');
-    await salesExecutivePage.waitForLoadState('networkidle');
-  });
-
-  test('should calculate quantity from dimensions', async ({ salesExecutivePage }) => {
-    // This test assumes a product with area-based unit (sqft) is added
-
-    // Find length input
-    const lengthInput = salesExecutivePage.locator('input[placeholder*="length"], input[id*="length"]').first();
-
-    if (await lengthInput.isVisible()) {
-      // Fill length
-      await lengthInput.fill('10');
+  test('should apply a fixed-amount overall discount', async ({ salesExecutivePage }) => {
+    await salesExecutivePage.click('button:has-text("Overall Discount")');
 
-      // Find width input
-      const widthInput = salesExecutivePage.locator('input[placeholder*="width"], input[id*="width"]').first();
-      await widthInput.fill('8');
+    // Switch the overall discount from % to a rupee amount
+    await salesExecutivePage.selectOption('[data-testid="overall-discount-type-select"]', 'AMOUNT');
+    await expect(salesExecutivePage.locator('[data-testid="overall-discount-type-select"]')).toHaveValue('AMOUNT');
 
-      // Wait for calculation
-      await salesExecutivePage.waitForTimeout(500);
-
-      // Find quantity input and verify it's calculated (10 * 8 = 80)
-      const quantityInput = salesExecutivePage.locator('input[type="number"][placeholder*="quantity"]').first();
-      const quantity = await quantityInput.inputValue();
-
-      // Verify quantity is product of length and width
-      expect(parseFloat(quantity)).toBe(80);
-    }
+    await salesExecutivePage.fill('[data-testid="overall-discount-input"]', '5000');
+    await expect(salesExecutivePage.locator('[data-testid="overall-discount-input"]')).toHaveValue('5000');
   });
 });
 
@@ -297,3 +297,44 @@ test.describe('Quote Summary', () => {
     }
   });
 });
+
+test.describe('Quote Rooms/Sections', () => {
+  test.beforeEach(async ({ salesExecutivePage }) => {
+    await salesExecutivePage.goto('/quotes/new');
+    await salesExecutivePage.waitForLoadState('networkidle');
+  });
+
+  test('should add, rename and remove a room', async ({ salesExecutivePage }) => {
+    // Add a room
+    await salesExecutivePage.click('[data-testid="add-section-button"]');
+
+    const sectionName = salesExecutivePage.locator('[data-testid="section-name-input"]').first();
+    await expect(sectionName).toBeVisible();
+
+    // Rename it
+    await sectionName.fill('Kitchen');
+    await expect(sectionName).toHaveValue('Kitchen');
+
+    // Remove it
+    await salesExecutivePage.click('[data-testid="remove-section-button"]');
+    await expect(salesExecutivePage.locator('[data-testid="section-name-input"]')).toHaveCount(0);
+  });
+});
+
+test.describe('Client Share Link', () => {
+  test('should reject an unknown link without asking to log in', async ({ page }) => {
+    await page.goto('/share/not-a-real-token');
+
+    await expect(page).toHaveURL(/\/share\/not-a-real-token/);
+    await expect(page.locator('h2')).toContainText('This link is not valid');
+  });
+});
+
+test.describe('Quote Verification', () => {
+  test('should report an unknown quote without asking to log in', async ({ page }) => {
+    await page.goto('/verify/not-a-real-quote?v=1');
+
+    await expect(page).toHaveURL(/\/verify\/not-a-real-quote/);
+    await expect(page.locator('[data-testid="quote-verification"] h2')).toContainText('no record');
+  });
+});
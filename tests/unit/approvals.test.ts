@@ -0,0 +1,117 @@
+/**
+ * Approval Chain Tests
+ * Multi-level approval chains, approved one step at a time (lib/approvals.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  buildApprovalSteps,
+  canActOnApprovalStep,
+  getCurrentApprovalStep,
+  getSendApprovalError,
+} from '../../lib/approvals';
+import { getApprovalRouteError } from '../../lib/quote-status';
+import { QuoteApprovalStep } from '../../lib/types';
+
+const policies = [
+  { name: 'Large quotes', metric: 'GRAND_TOTAL' as const, threshold: 500000, approverRoleIds: ['sales-head', 'director'] },
+  { name: 'Deep discounts', metric: 'DISCOUNT_PERCENT' as const, threshold: 15, approverRoleIds: ['sales-head'] },
+];
+
+const toSteps = (drafts: ReturnType<typeof buildApprovalSteps>): Pick<QuoteApprovalStep, 'stepOrder' | 'status' | 'roleId'>[] =>
+  drafts.map((draft, index) => ({ stepOrder: index + 1, status: 'PENDING', roleId: draft.roleId }));
+
+test.describe('buildApprovalSteps', () => {
+  test('should chain the roles of every matching policy in the configured order', () => {
+    const steps = buildApprovalSteps(policies, { grandTotal: 800000, discountPercent: 20 });
+
+    expect(steps).toEqual([
+      { roleId: 'sales-head', reason: 'Large quotes; Deep discounts' },
+      { roleId: 'director', reason: 'Large quotes' },
+    ]);
+  });
+
+  test('should keep each policy\'s order when roles are shared', () => {
+    const steps = buildApprovalSteps(
+      [
+        { name: 'Director sign-off', metric: 'GRAND_TOTAL' as const, threshold: 0, approverRoleIds: ['director'] },
+        policies[0],
+      ],
+      { grandTotal: 800000, discountPercent: 0 }
+    );
+
+    expect(steps).toEqual([
+      { roleId: 'sales-head', reason: 'Large quotes' },
+      { roleId: 'director', reason: 'Director sign-off; Large quotes' },
+    ]);
+  });
+
+  test('should fall back to the order roles first appear when policies disagree', () => {
+    const steps = buildApprovalSteps(
+      [
+        policies[0],
+        { name: 'Director first', metric: 'GRAND_TOTAL' as const, threshold: 0, approverRoleIds: ['director', 'sales-head'] },
+      ],
+      { grandTotal: 800000, discountPercent: 0 }
+    );
+
+    expect(steps.map((step) => step.roleId)).toEqual(['sales-head', 'director']);
+  });
+
+  test('should fall back to a single step for any approver', () => {
+    expect(buildApprovalSteps(policies, { grandTotal: 1000, discountPercent: 0 }, 'Low margin')).toEqual([
+      { roleId: null, reason: 'Low margin' },
+    ]);
+  });
+});
+
+test.describe('Approval chain', () => {
+  const chain = () => toSteps(buildApprovalSteps(policies, { grandTotal: 800000, discountPercent: 0 }));
+
+  test('should move to the next step once a step is approved', () => {
+    const steps = chain();
+    expect(steps).toHaveLength(2);
+    expect(getCurrentApprovalStep(steps)?.roleId).toBe('sales-head');
+
+    steps[0].status = 'APPROVED';
+    expect(getCurrentApprovalStep(steps)?.roleId).toBe('director');
+
+    steps[1].status = 'APPROVED';
+    expect(getCurrentApprovalStep(steps)).toBeNull();
+  });
+
+  test('should only let the current step\'s role act on it', () => {
+    const current = getCurrentApprovalStep(chain())!;
+
+    expect(canActOnApprovalStep(current, 'sales-head', true)).toBe(true);
+    // Approving quotes in general does not let the director skip ahead
+    expect(canActOnApprovalStep(current, 'director', true)).toBe(false);
+  });
+
+  test('should not be shortcut by a status update while steps are pending', () => {
+    const steps = chain();
+    steps[0].status = 'APPROVED';
+    expect(getCurrentApprovalStep(steps)).not.toBeNull();
+
+    // The quote stays PENDING_APPROVAL until /approve finishes the last step
+    for (const to of ['SENT', 'REJECTED'] as const) {
+      expect(getApprovalRouteError('quote-1', 'PENDING_APPROVAL', to)).toEqual(
+        expect.objectContaining({ status: 409 })
+      );
+    }
+  });
+});
+
+test.describe('Sending without an approval round', () => {
+  test('should let an approver send a draft no policy applies to', () => {
+    expect(getSendApprovalError('q1', policies, { grandTotal: 1000, discountPercent: 5 })).toBeNull();
+  });
+
+  test('should refuse a draft that a policy routes for approval', () => {
+    const error = getSendApprovalError('q1', policies, { grandTotal: 800000, discountPercent: 20 });
+
+    expect(error?.status).toBe(409);
+    expect(error?.error).toContain('requires approval (Large quotes, Deep discounts)');
+    expect(error?.error).toContain('/api/quotes/q1/request-approval');
+  });
+});
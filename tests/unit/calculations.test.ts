@@ -0,0 +1,146 @@
+/**
+ * Quote Calculation Tests
+ * Rooms/sections and their subtotals, and optional/alternative items, in lib/calculations.ts
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  UNASSIGNED_SECTION_NAME,
+  acceptItemOption,
+  calculateQuoteTotals,
+  groupItemsBySection,
+} from '../../lib/calculations';
+import { QuoteItemKind } from '../../lib/types';
+
+const sections = [
+  { id: 'kitchen', name: 'Kitchen' },
+  { id: 'bedroom', name: 'Bedroom' },
+];
+
+test.describe('groupItemsBySection', () => {
+  test('should group items in section order, with unassigned items last', () => {
+    const groups = groupItemsBySection(
+      [
+        { id: 'a', sectionId: 'bedroom' },
+        { id: 'b', sectionId: null },
+        { id: 'c', sectionId: 'kitchen' },
+        { id: 'd', sectionId: 'deleted-room' },
+      ],
+      sections
+    );
+
+    expect(groups.map((group) => group.name)).toEqual(['Kitchen', 'Bedroom', UNASSIGNED_SECTION_NAME]);
+    expect(groups.map((group) => group.items.map((item) => item.id))).toEqual([['c'], ['a'], ['b', 'd']]);
+  });
+
+  test('should keep empty sections and leave out an empty unassigned group', () => {
+    const groups = groupItemsBySection([{ id: 'a', sectionId: 'kitchen' }], sections);
+
+    expect(groups.map((group) => group.name)).toEqual(['Kitchen', 'Bedroom']);
+    expect(groups[1].items).toEqual([]);
+  });
+
+  test('should not group quotes without sections', () => {
+    expect(groupItemsBySection([{ id: 'a', sectionId: null }], [])).toEqual([]);
+  });
+});
+
+test.describe('Section subtotals', () => {
+  const items = [
+    { sectionId: 'kitchen', quantity: 1, rate: 1000, discount: 10 },
+    { sectionId: 'kitchen', quantity: 1, rate: 500, discount: 10 },
+    { sectionId: 'bedroom', quantity: 2, rate: 1000 },
+    { sectionId: null, quantity: 1, rate: 100 },
+  ];
+
+  test('should subtotal each section after line discounts', () => {
+    const totals = calculateQuoteTotals(items, 'LINE_ITEM', 0, 18, 'INTRA_STATE', [
+      { ...sections[0], discount: 0 },
+      { ...sections[1], discount: 0 },
+    ]);
+
+    expect(totals.sectionSubtotals).toEqual([
+      { sectionId: 'kitchen', name: 'Kitchen', subtotal: 1350, discount: 0 },
+      { sectionId: 'bedroom', name: 'Bedroom', subtotal: 2000, discount: 0 },
+      { sectionId: null, name: UNASSIGNED_SECTION_NAME, subtotal: 100, discount: 0 },
+    ]);
+    expect(totals.subtotal).toBe(3450);
+  });
+
+  test('should apply a section discount to its own lines only', () => {
+    const totals = calculateQuoteTotals(items, 'LINE_ITEM', 0, 18, 'INTRA_STATE', [
+      { ...sections[0], discount: 10 },
+      { ...sections[1], discount: 0 },
+    ]);
+
+    expect(totals.sectionSubtotals[0]).toEqual({ sectionId: 'kitchen', name: 'Kitchen', subtotal: 1350, discount: 135 });
+    expect(totals.sectionDiscount).toBe(135);
+    expect(totals.taxableAmount).toBe(3315);
+    expect(totals.grandTotal).toBe(3911.7);
+  });
+
+  test('should ignore section discounts in OVERALL mode', () => {
+    const totals = calculateQuoteTotals(items, 'OVERALL', 0, 18, 'INTRA_STATE', [
+      { ...sections[0], discount: 10 },
+      { ...sections[1], discount: 0 },
+    ]);
+
+    expect(totals.sectionDiscount).toBe(0);
+    expect(totals.sectionSubtotals[0].subtotal).toBe(1500);
+  });
+});
+
+test.describe('Optional and alternative items', () => {
+  const items: { id: string; kind: QuoteItemKind; alternativeOfId: string | null; quantity: number; rate: number }[] = [
+    { id: 'sofa', kind: 'STANDARD', alternativeOfId: null, quantity: 1, rate: 40000 },
+    { id: 'leather-sofa', kind: 'ALTERNATIVE', alternativeOfId: 'sofa', quantity: 1, rate: 65000 },
+    { id: 'fabric-sofa', kind: 'ALTERNATIVE', alternativeOfId: 'sofa', quantity: 1, rate: 30000 },
+    { id: 'rug', kind: 'OPTIONAL', alternativeOfId: null, quantity: 1, rate: 8000 },
+  ];
+
+  const kinds = (list: typeof items) =>
+    list.map((item) => [item.id, item.kind, item.alternativeOfId]);
+
+  test('should leave options out of the totals but still price their lines', () => {
+    const totals = calculateQuoteTotals(items, 'LINE_ITEM', 0, 18);
+
+    expect(totals.subtotal).toBe(40000);
+    expect(totals.lineTotals).toEqual([40000, 65000, 30000, 8000]);
+  });
+
+  test('should make an accepted optional item standard', () => {
+    const accepted = acceptItemOption(items, 'rug');
+
+    expect(kinds(accepted)).toEqual([
+      ['sofa', 'STANDARD', null],
+      ['leather-sofa', 'ALTERNATIVE', 'sofa'],
+      ['fabric-sofa', 'ALTERNATIVE', 'sofa'],
+      ['rug', 'STANDARD', null],
+    ]);
+    expect(calculateQuoteTotals(accepted, 'LINE_ITEM', 0, 18).subtotal).toBe(48000);
+  });
+
+  test('should swap an accepted alternative with the item it replaces', () => {
+    const accepted = acceptItemOption(items, 'leather-sofa');
+
+    // The replaced item and its other alternatives now point at the accepted one
+    expect(kinds(accepted)).toEqual([
+      ['sofa', 'ALTERNATIVE', 'leather-sofa'],
+      ['leather-sofa', 'STANDARD', null],
+      ['fabric-sofa', 'ALTERNATIVE', 'leather-sofa'],
+      ['rug', 'OPTIONAL', null],
+    ]);
+    expect(calculateQuoteTotals(accepted, 'LINE_ITEM', 0, 18).subtotal).toBe(65000);
+  });
+
+  test('should let the client switch back to the original item', () => {
+    const switchedBack = acceptItemOption(acceptItemOption(items, 'leather-sofa'), 'sofa');
+
+    expect(kinds(switchedBack)).toEqual(kinds(items));
+  });
+
+  test('should leave standard and unknown items as they are', () => {
+    expect(acceptItemOption(items, 'sofa')).toBe(items);
+    expect(acceptItemOption(items, 'missing')).toBe(items);
+  });
+});
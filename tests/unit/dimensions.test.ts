@@ -0,0 +1,103 @@
+/**
+ * Dimensions Tests
+ * Measurement-based quantities, unit conversion and stored measurements (lib/dimensions.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  calculateDimensions,
+  getMeasureBasis,
+  getMeasurementLines,
+  parseDimensions,
+} from '../../lib/dimensions';
+import { ItemDimensions } from '../../lib/types';
+
+// One 10 × 8 ft surface, less a 3 × 2 ft window
+const wall: ItemDimensions = {
+  unit: 'ft',
+  surfaces: [{ label: 'North wall', length: 10, width: 8, count: 1 }],
+  deductions: [{ label: 'Window', length: 3, width: 2, count: 1 }],
+  wastagePercent: 0,
+};
+
+test.describe('getMeasureBasis', () => {
+  test('should read linear, area and volume units however they are written', () => {
+    expect(getMeasureBasis('Sq. Ft')).toEqual({ kind: 'area', lengthUnit: 'ft' });
+    expect(getMeasureBasis('rft')).toEqual({ kind: 'linear', lengthUnit: 'ft' });
+    expect(getMeasureBasis('cu m')).toEqual({ kind: 'volume', lengthUnit: 'm' });
+  });
+
+  test('should not measure counted units', () => {
+    expect(getMeasureBasis('pcs')).toBeNull();
+    expect(getMeasureBasis(null)).toBeNull();
+  });
+});
+
+test.describe('calculateDimensions', () => {
+  test('should take deductions off the surfaces', () => {
+    const breakdown = calculateDimensions(wall, 'sqft')!;
+
+    expect(breakdown.gross).toBe(80);
+    expect(breakdown.deducted).toBe(6);
+    expect(breakdown.quantity).toBe(74);
+  });
+
+  test('should add wastage and count repeated surfaces', () => {
+    const breakdown = calculateDimensions({
+      ...wall,
+      surfaces: [{ label: 'Wall', length: 10, width: 8, count: 2 }],
+      wastagePercent: 10,
+    }, 'sqft')!;
+
+    expect(breakdown.net).toBe(154);
+    expect(breakdown.wastage).toBe(15.4);
+    expect(breakdown.quantity).toBe(169.4);
+  });
+
+  test('should convert measurements into the product unit', () => {
+    const breakdown = calculateDimensions({
+      unit: 'in',
+      surfaces: [{ label: '', length: 24, width: 12, count: 1 }],
+      deductions: [],
+      wastagePercent: 0,
+    }, 'sq ft')!;
+
+    expect(breakdown.quantity).toBe(2);
+  });
+
+  test('should never go below zero', () => {
+    const breakdown = calculateDimensions({
+      ...wall,
+      deductions: [{ label: 'Opening', length: 20, width: 8, count: 1 }],
+    }, 'sqft')!;
+
+    expect(breakdown.quantity).toBe(0);
+  });
+
+  test('should return null for units that cannot be measured', () => {
+    expect(calculateDimensions(wall, 'pcs')).toBeNull();
+  });
+});
+
+test.describe('Stored measurements', () => {
+  test('should upgrade the older length and width format, which was in feet', () => {
+    expect(parseDimensions({ length: 10, width: 8 })).toEqual({
+      unit: 'ft',
+      surfaces: [{ label: '', length: 10, width: 8, height: 0, count: 1 }],
+      deductions: [],
+      wastagePercent: 0,
+    });
+  });
+
+  test('should treat missing or empty measurements as none', () => {
+    expect(parseDimensions(null)).toBeNull();
+    expect(parseDimensions({ unit: 'ft', surfaces: [] })).toBeNull();
+  });
+
+  test('should print one line per surface and deduction', () => {
+    expect(getMeasurementLines(wall, 'sqft')).toEqual([
+      { label: 'North wall: 10 × 8 ft', value: '80 sqft' },
+      { label: 'Less Window: 3 × 2 ft', value: '-6 sqft' },
+    ]);
+  });
+});
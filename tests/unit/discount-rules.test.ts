@@ -0,0 +1,62 @@
+/**
+ * Discount Rule Tests
+ * Discount values and per-role limits checked by the quote API (lib/discount-rules.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import { findDiscountViolations, getDiscountValueError } from '../../lib/discount-rules';
+
+test.describe('getDiscountValueError', () => {
+  test('should accept percentages from 0 to 100 and amounts of zero or more', () => {
+    expect(getDiscountValueError({
+      items: [{ discount: 0 }, { discount: 100 }, { discount: 5000, discountType: 'AMOUNT' }],
+      sections: [{ name: 'Kitchen', discount: 12.5, discountType: 'PERCENT' }],
+      overallDiscount: 0,
+    })).toBeNull();
+  });
+
+  test('should reject line percentages over 100', () => {
+    expect(getDiscountValueError({ items: [{ discount: 10 }, { discount: 150 }] })).toBe(
+      'Line 2: discount must be between 0 and 100%'
+    );
+  });
+
+  test('should reject negative section and overall discounts', () => {
+    expect(getDiscountValueError({
+      items: [],
+      sections: [{ name: 'Kitchen', discount: -5 }],
+    })).toBe('Kitchen: discount must be between 0 and 100%');
+
+    expect(getDiscountValueError({
+      items: [],
+      overallDiscount: -1000,
+      overallDiscountType: 'AMOUNT',
+    })).toBe('Overall discount: discount amount cannot be negative');
+  });
+
+  test('should reject discounts that are not numbers', () => {
+    expect(getDiscountValueError({ items: [{ discount: 'ten' as any }] })).toBe('Line 1: discount must be a number');
+  });
+});
+
+test.describe('findDiscountViolations', () => {
+  const quote = {
+    items: [{ quantity: 1, rate: 10000, discount: 12 }, { quantity: 1, rate: 10000, discount: 10 }],
+    discountMode: 'BOTH' as const,
+    overallDiscount: 1000,
+    overallDiscountType: 'AMOUNT' as const,
+  };
+
+  test('should flag lines over the limit for the role', () => {
+    const violations = findDiscountViolations([{ scope: 'LINE', maxPercent: 10 }], quote);
+
+    expect(violations).toEqual([{ scope: 'LINE', label: 'Line 1', maxPercent: 10, actualPercent: 12 }]);
+  });
+
+  test('should hold fixed-amount discounts to the same percentage limits', () => {
+    // ₹1,000 off ₹17,800 is 5.62%
+    const violations = findDiscountViolations([{ scope: 'QUOTE', maxPercent: 5 }], quote);
+
+    expect(violations).toEqual([{ scope: 'QUOTE', label: 'Overall discount', maxPercent: 5, actualPercent: 5.62 }]);
+  });
+});
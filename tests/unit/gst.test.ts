@@ -0,0 +1,103 @@
+/**
+ * GST Tests
+ * States, GSTINs and the CGST/SGST or IGST split by place of supply (lib/gst.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  determineSupplyType,
+  findState,
+  formatTaxLabel,
+  getStateFromGSTIN,
+  isValidGSTIN,
+  resolveState,
+} from '../../lib/gst';
+import { useQuoteStore } from '../../lib/store';
+import { Client } from '../../lib/types';
+
+const karnataka = { code: '29', name: 'Karnataka' };
+const maharashtra = { code: '27', name: 'Maharashtra' };
+
+test.describe('GSTINs and states', () => {
+  test('should check the GSTIN format', () => {
+    expect(isValidGSTIN('29ABCDE1234F1Z5')).toBe(true);
+    expect(isValidGSTIN(' 29abcde1234f1z5 ')).toBe(true);
+    expect(isValidGSTIN('29ABCDE1234F1X5')).toBe(false);
+    expect(isValidGSTIN('29ABCDE1234F')).toBe(false);
+  });
+
+  test('should find a state by name or GST code', () => {
+    expect(findState('karnataka')).toEqual(karnataka);
+    expect(findState('27')).toEqual(maharashtra);
+    expect(findState('Atlantis')).toBeUndefined();
+    expect(findState(null)).toBeUndefined();
+  });
+
+  test('should read the state from a GSTIN', () => {
+    expect(getStateFromGSTIN('27ABCDE1234F1Z5')).toEqual(maharashtra);
+    expect(getStateFromGSTIN('9')).toBeUndefined();
+  });
+
+  test('should prefer the explicit state over the GSTIN', () => {
+    expect(resolveState('Karnataka', '27ABCDE1234F1Z5')).toEqual(karnataka);
+    expect(resolveState('', '27ABCDE1234F1Z5')).toEqual(maharashtra);
+    expect(resolveState(null, null)).toBeUndefined();
+  });
+});
+
+test.describe('determineSupplyType', () => {
+  test('should split the tax for a client in the same state', () => {
+    expect(determineSupplyType(karnataka, karnataka)).toBe('INTRA_STATE');
+  });
+
+  test('should charge IGST for a client in another state', () => {
+    expect(determineSupplyType(karnataka, maharashtra)).toBe('INTER_STATE');
+  });
+
+  test('should treat an unknown state as intra-state', () => {
+    expect(determineSupplyType(karnataka, undefined)).toBe('INTRA_STATE');
+    expect(determineSupplyType(undefined, maharashtra)).toBe('INTRA_STATE');
+  });
+
+  test('should only show the rate when there is a single slab', () => {
+    expect(formatTaxLabel('CGST', 9)).toBe('CGST (9%)');
+    expect(formatTaxLabel('IGST', null)).toBe('IGST');
+  });
+});
+
+test.describe('Quote builder totals', () => {
+  const client = (state: string) => ({ id: 'c1', name: 'Client', state }) as Client;
+
+  test.beforeEach(() => {
+    const store = useQuoteStore.getState();
+    store.reset();
+    store.setCompanyGST({ state: 'Karnataka', gstin: '' });
+    store.addItem({
+      id: 'sofa',
+      name: 'Sofa',
+      baseRate: 10000,
+      taxRate: 18,
+      category: { name: 'Living' },
+    } as any);
+  });
+
+  test('should split the tax as CGST and SGST for a client in the company\'s state', () => {
+    const store = useQuoteStore.getState();
+    store.setClient('c1', client('Karnataka'));
+
+    const { taxBreakdown } = useQuoteStore.getState().getCalculations();
+    expect(taxBreakdown.supplyType).toBe('INTRA_STATE');
+    expect(taxBreakdown.cgst).toBe(900);
+    expect(taxBreakdown.sgst).toBe(900);
+  });
+
+  test('should charge IGST for a client in another state', () => {
+    const store = useQuoteStore.getState();
+    store.setClient('c1', client('Maharashtra'));
+
+    const { taxBreakdown } = useQuoteStore.getState().getCalculations();
+    expect(taxBreakdown.supplyType).toBe('INTER_STATE');
+    expect(taxBreakdown.igst).toBe(1800);
+    expect(useQuoteStore.getState().getTaxAmount()).toBe(1800);
+  });
+});
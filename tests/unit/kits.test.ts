@@ -0,0 +1,108 @@
+/**
+ * Kit Tests
+ * Kit rates, component validation and exploding kit lines (lib/kits.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  calculateKitRate,
+  explodeKitLine,
+  getKitComponentsError,
+  parseKitComponents,
+  resolveProductRate,
+} from '../../lib/kits';
+import { KitComponentSnapshot } from '../../lib/types';
+
+const components: KitComponentSnapshot[] = [
+  { productId: 'carcass', itemCode: 'CAR-01', name: 'Carcass', unit: 'nos', quantity: 1, rate: 6000 },
+  { productId: 'shutter', itemCode: 'SHT-01', name: 'Shutter', unit: 'nos', quantity: 2, rate: 1500.5 },
+];
+
+test.describe('Kit rates', () => {
+  test('should sum component rates times quantities', () => {
+    const rate = calculateKitRate([
+      { quantity: 1, component: { baseRate: 6000 } },
+      { quantity: 2, component: { baseRate: 1500.5 } },
+      { quantity: 4, component: { baseRate: 0.1 } },
+    ]);
+    expect(rate).toBe(9001.4);
+  });
+
+  test('should derive a kit rate unless it is overridden', () => {
+    const kit = {
+      baseRate: 5000,
+      isKit: true,
+      components: [
+        { id: 'c1', kitId: 'kit', componentId: 'carcass', quantity: 2, order: 0, component: { baseRate: 3000 } as any },
+      ],
+    };
+
+    expect(resolveProductRate(kit)).toBe(6000);
+    expect(resolveProductRate({ ...kit, kitRateOverride: true })).toBe(5000);
+    expect(resolveProductRate({ ...kit, isKit: false })).toBe(5000);
+    expect(resolveProductRate({ ...kit, components: [] })).toBe(5000);
+  });
+});
+
+test.describe('Kit components', () => {
+  const products = [
+    { id: 'carcass', iskit: false },
+    { id: 'shutter', iskit: false },
+    { id: 'base-unit', iskit: true },
+  ];
+
+  test('should accept components that are plain products', () => {
+    expect(getKitComponentsError('kit', [
+      { componentId: 'carcass', quantity: 1 },
+      { componentId: 'shutter', quantity: 2 },
+    ], products)).toBeNull();
+  });
+
+  test('should reject empty, self-containing, repeated and nested kits', () => {
+    expect(getKitComponentsError('kit', [], products)).toBe('A kit needs at least one component');
+    expect(getKitComponentsError('carcass', [{ componentId: 'carcass', quantity: 1 }], products))
+      .toBe('A kit cannot contain itself');
+    expect(getKitComponentsError('kit', [
+      { componentId: 'carcass', quantity: 1 },
+      { componentId: 'carcass', quantity: 2 },
+    ], products)).toBe('Each product can only be added to a kit once');
+    expect(getKitComponentsError('kit', [{ componentId: 'base-unit', quantity: 1 }], products))
+      .toBe('Kits cannot contain other kits');
+  });
+
+  test('should reject zero quantities and unknown products', () => {
+    expect(getKitComponentsError('kit', [{ componentId: 'carcass', quantity: 0 }], products))
+      .toBe('Component quantities must be greater than zero');
+    expect(getKitComponentsError('kit', [{ componentId: 'missing', quantity: 1 }], products))
+      .toBe('Kit component not found');
+  });
+
+  test('should read stored kit components defensively', () => {
+    expect(parseKitComponents(null)).toBeNull();
+    expect(parseKitComponents([])).toBeNull();
+    expect(parseKitComponents([{ productId: 'carcass', quantity: -1, rate: 'x' }, { name: 'No product' }]))
+      .toEqual([{ productId: 'carcass', itemCode: '', name: '', unit: null, quantity: 0, rate: 0 }]);
+  });
+});
+
+test.describe('Exploding kit lines', () => {
+  test('should multiply quantities and share the line total exactly', () => {
+    const lines = explodeKitLine({ quantity: 3, lineTotal: 1000, kitComponents: components });
+
+    expect(lines.map((line) => line.quantity)).toEqual([3, 6]);
+    // Shared by each component's value (6000 : 3001), in paise
+    expect(lines.map((line) => line.amount)).toEqual([666.59, 333.41]);
+    expect(lines.reduce((sum, line) => sum + Math.round(line.amount * 100), 0)).toBe(100000);
+  });
+
+  test('should share by quantity when components have no rate', () => {
+    const free = components.map((c) => ({ ...c, rate: 0 }));
+    const lines = explodeKitLine({ quantity: 1, lineTotal: 90, kitComponents: free });
+
+    expect(lines.map((line) => line.amount)).toEqual([30, 60]);
+  });
+
+  test('should return nothing for a line that is not a kit', () => {
+    expect(explodeKitLine({ quantity: 1, lineTotal: 100, kitComponents: null })).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Payment Schedule Tests
+ * Milestone amounts and schedule validation in lib/payment-schedule.ts
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  DEFAULT_PAYMENT_MILESTONES,
+  MilestoneInput,
+  calculateMilestoneAmounts,
+  getPaymentScheduleError,
+} from '../../lib/payment-schedule';
+
+const milestone = (overrides: Partial<MilestoneInput>): MilestoneInput => ({
+  name: 'Advance',
+  valueType: 'PERCENT',
+  value: 50,
+  trigger: 'BOOKING',
+  ...overrides,
+});
+
+test.describe('calculateMilestoneAmounts', () => {
+  test('should split a 100% schedule so it matches the grand total exactly', () => {
+    const amounts = calculateMilestoneAmounts(DEFAULT_PAYMENT_MILESTONES, 1000.01);
+
+    // The odd paisa goes to the first milestone
+    expect(amounts).toEqual([500.01, 500]);
+  });
+
+  test('should add up exactly when percentages do not divide evenly', () => {
+    const amounts = calculateMilestoneAmounts(
+      [
+        milestone({ value: 33.33 }),
+        milestone({ value: 33.33 }),
+        milestone({ value: 33.34 }),
+      ],
+      999.99
+    );
+
+    expect(Math.round(amounts.reduce((sum, amount) => sum + amount, 0) * 100)).toBe(99999);
+  });
+
+  test('should take fixed amounts as they are', () => {
+    const amounts = calculateMilestoneAmounts(
+      [
+        milestone({ valueType: 'AMOUNT', value: 10000 }),
+        milestone({ value: 50, trigger: 'HANDOVER' }),
+      ],
+      50000
+    );
+
+    expect(amounts).toEqual([10000, 25000]);
+  });
+});
+
+test.describe('getPaymentScheduleError', () => {
+  test('should accept the default schedule', () => {
+    expect(getPaymentScheduleError(DEFAULT_PAYMENT_MILESTONES, 100000)).toBeNull();
+  });
+
+  test('should accept a schedule below 100%', () => {
+    expect(getPaymentScheduleError([milestone({ value: 40 })], 100000)).toBeNull();
+  });
+
+  test('should reject percentages over 100%', () => {
+    expect(getPaymentScheduleError([milestone({ value: 60 }), milestone({ value: 50 })])).toBe(
+      'Payment milestones add up to 110%, more than 100%'
+    );
+  });
+
+  test('should reject fixed amounts over the grand total', () => {
+    expect(
+      getPaymentScheduleError(
+        [milestone({ valueType: 'AMOUNT', value: 30000 }), milestone({ value: 50 })],
+        50000
+      )
+    ).toBe('Payment milestones add up to more than the grand total');
+  });
+
+  test('should reject milestones without a name, trigger or value', () => {
+    expect(getPaymentScheduleError([milestone({ name: ' ' })])).toBe('Every payment milestone needs a name');
+    expect(getPaymentScheduleError([milestone({ trigger: 'LATER' as any })])).toBe('"Advance" has an invalid trigger');
+    expect(getPaymentScheduleError([milestone({ value: 0 })])).toBe('"Advance" must be more than zero');
+  });
+});
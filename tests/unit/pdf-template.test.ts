@@ -0,0 +1,54 @@
+/**
+ * PDF Template Tests
+ * Validating and resolving PDF template definitions (lib/pdf-template.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import { DEFAULT_PDF_TEMPLATE, getPdfColumnLabel, getPdfTemplateError, resolvePdfTemplate } from '../../lib/pdf-template';
+
+test.describe('getPdfTemplateError', () => {
+  test('should accept the default template and partial templates', () => {
+    expect(getPdfTemplateError(DEFAULT_PDF_TEMPLATE)).toBeNull();
+    expect(getPdfTemplateError({ theme: { primaryColor: '#0a0' } })).toBeNull();
+  });
+
+  test('should reject invalid colours and fonts', () => {
+    expect(getPdfTemplateError({ theme: { primaryColor: 'blue' } })).toBe(
+      'theme.primaryColor must be a hex colour such as #1e40af'
+    );
+    expect(getPdfTemplateError({ theme: { fontSize: 20 } })).toBe('theme.fontSize must be between 6 and 14');
+  });
+
+  test('should require the items section and the item and total columns', () => {
+    expect(getPdfTemplateError({ sections: ['letterhead', 'totals'] })).toBe('The items section is required');
+    expect(getPdfTemplateError({ columns: [{ key: 'item', width: 80 }] })).toBe(
+      'The item and total columns are required'
+    );
+  });
+
+  test('should keep column widths within the page', () => {
+    expect(getPdfTemplateError({
+      columns: [{ key: 'item', width: 70 }, { key: 'total', width: 40 }],
+    })).toBe('Column widths add up to 110%; they must not exceed 100%');
+  });
+});
+
+test.describe('resolvePdfTemplate', () => {
+  test('should fill in what a template leaves out from the default', () => {
+    const template = resolvePdfTemplate({ theme: { primaryColor: '#7c3aed' }, show: { qrCode: false } });
+
+    expect(template.theme).toEqual({ ...DEFAULT_PDF_TEMPLATE.theme, primaryColor: '#7c3aed' });
+    expect(template.show).toEqual({ ...DEFAULT_PDF_TEMPLATE.show, qrCode: false });
+    expect(template.sections).toEqual(DEFAULT_PDF_TEMPLATE.sections);
+  });
+
+  test('should render invalid templates with the default', () => {
+    expect(resolvePdfTemplate({ sections: ['letterhead'] })).toBe(DEFAULT_PDF_TEMPLATE);
+    expect(resolvePdfTemplate(null)).toBe(DEFAULT_PDF_TEMPLATE);
+  });
+
+  test('should label columns with their own label or the standard one', () => {
+    expect(getPdfColumnLabel({ key: 'hsn', width: 10 })).toBe('HSN/SAC');
+    expect(getPdfColumnLabel({ key: 'hsn', width: 10, label: 'SAC' })).toBe('SAC');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Price List Tests
+ * Effective-dated client rates and pricing quote lines from them (lib/price-lists.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  findEffectiveRates,
+  getPriceListItemError,
+  isPriceEffective,
+  repriceLines,
+  resolveLineRate,
+} from '../../lib/price-lists';
+import { SelectedVariantOption } from '../../lib/types';
+
+const walnut: SelectedVariantOption = {
+  attribute: 'Finish',
+  option: 'Walnut',
+  modifierType: 'DELTA',
+  modifier: 500,
+};
+
+test.describe('Effective rates', () => {
+  test('should include both the first and the last day', () => {
+    const item = { effectiveFrom: '2026-04-01', effectiveTo: '2026-06-30' };
+
+    expect(isPriceEffective(item, '2026-03-31')).toBe(false);
+    expect(isPriceEffective(item, '2026-04-01')).toBe(true);
+    expect(isPriceEffective(item, '2026-06-30')).toBe(true);
+    expect(isPriceEffective(item, '2026-07-01')).toBe(false);
+    expect(isPriceEffective({ ...item, effectiveTo: null }, '2030-01-01')).toBe(true);
+  });
+
+  test('should use the entry that started last when entries overlap', () => {
+    const rates = findEffectiveRates([
+      { productId: 'wardrobe', rate: 40000, effectiveFrom: '2026-01-01', effectiveTo: null },
+      { productId: 'wardrobe', rate: 42000, effectiveFrom: '2026-04-01', effectiveTo: null },
+      { productId: 'wardrobe', rate: 39000, effectiveFrom: '2026-02-01', effectiveTo: null },
+      { productId: 'shelf', rate: 1200, effectiveFrom: '2026-05-01', effectiveTo: null },
+    ], '2026-04-15');
+
+    expect(rates).toEqual({ wardrobe: 42000 });
+  });
+});
+
+test.describe('getPriceListItemError', () => {
+  const item = { productId: 'wardrobe', rate: 42000, effectiveFrom: '2026-04-01', effectiveTo: null };
+
+  test('should accept a complete entry', () => {
+    expect(getPriceListItemError(item)).toBeNull();
+    expect(getPriceListItemError({ ...item, rate: 0 })).toBeNull();
+  });
+
+  test('should reject missing products, negative rates and backwards dates', () => {
+    expect(getPriceListItemError({ ...item, productId: '' })).toBe('Product is required');
+    expect(getPriceListItemError({ ...item, rate: -1 })).toBe('Rate must be zero or more');
+    expect(getPriceListItemError({ ...item, effectiveFrom: '01/04/2026' })).toBe('Effective from date is required');
+    expect(getPriceListItemError({ ...item, effectiveTo: '2026-03-31' }))
+      .toBe('Effective to date cannot be before the effective from date');
+  });
+});
+
+test.describe('resolveLineRate', () => {
+  const product = { id: 'wardrobe', baserate: 45000 };
+
+  test('should keep a rate sent with the line', () => {
+    expect(resolveLineRate(41000, product, { wardrobe: 42000 }, null)).toBe(41000);
+    expect(resolveLineRate(0, product, { wardrobe: 42000 }, null)).toBe(0);
+  });
+
+  test('should price a line without a rate from the list, then the base rate', () => {
+    expect(resolveLineRate(undefined, product, { wardrobe: 42000 }, [walnut])).toBe(42500);
+    expect(resolveLineRate(null, product, {}, null)).toBe(45000);
+    expect(resolveLineRate(undefined, undefined, {}, null)).toBe(0);
+  });
+});
+
+test.describe('repriceLines', () => {
+  const line = (rate: number, overrides = {}) => ({
+    productId: 'wardrobe',
+    rate,
+    variantOptions: null as SelectedVariantOption[] | null,
+    product: { baseRate: 45000 },
+    ...overrides,
+  });
+
+  test('should move lines at the base rate to the new list\'s rate', () => {
+    expect(repriceLines([line(45000)], {}, { wardrobe: 42000 })[0].rate).toBe(42000);
+  });
+
+  test('should move lines at the old list\'s rate, with their options', () => {
+    const [repriced] = repriceLines(
+      [line(42500, { variantOptions: [walnut] })],
+      { wardrobe: 42000 },
+      { wardrobe: 40000 }
+    );
+
+    expect(repriced.rate).toBe(40500);
+  });
+
+  test('should go back to the base rate for a client without a list', () => {
+    expect(repriceLines([line(42000)], { wardrobe: 42000 }, {})[0].rate).toBe(45000);
+  });
+
+  test('should keep rates edited by hand', () => {
+    expect(repriceLines([line(43999)], { wardrobe: 42000 }, { wardrobe: 40000 })[0].rate).toBe(43999);
+  });
+
+  test('should keep lines whose base rate is not known', () => {
+    const [kept] = repriceLines([line(45000, { product: null })], {}, { wardrobe: 42000 });
+
+    expect(kept.rate).toBe(45000);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Pricing Engine Tests
+ * Pins the rounding rules of lib/pricing.ts, which the builder, the quote API and the PDF
+ * all price quotes with
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  allocatePaise,
+  discountOfPaise,
+  percentOfPaise,
+  priceLinePaise,
+  priceQuote,
+  roundPaise,
+  splitTaxPaise,
+  toPaise,
+} from '../../lib/pricing';
+
+test.describe('Rounding', () => {
+  test('should round half away from zero', () => {
+    expect(roundPaise(0.5)).toBe(1);
+    expect(roundPaise(2.5)).toBe(3);
+    expect(roundPaise(-0.5)).toBe(-1);
+    expect(roundPaise(2.4999)).toBe(2);
+  });
+
+  test('should convert rupees to paise without floating point drift', () => {
+    // 1.005 * 100 is 100.49999... in floating point
+    expect(toPaise(1.005)).toBe(101);
+    expect(toPaise(0.1 + 0.2)).toBe(30);
+    expect(toPaise(19.99)).toBe(1999);
+  });
+
+  test('should round percentages to the nearest paisa', () => {
+    expect(percentOfPaise(999, 12.5)).toBe(125); // 124.875
+    expect(percentOfPaise(1000, 0)).toBe(0);
+  });
+
+  test('should round the line gross once, after multiplying by the quantity', () => {
+    // 2.5 × ₹33.33 = 8332.5 paise
+    expect(priceLinePaise(2.5, 33.33).grossPaise).toBe(8333);
+  });
+});
+
+test.describe('discountOfPaise', () => {
+  test('should cap fixed amounts at the base', () => {
+    expect(discountOfPaise(10000, 150, 'AMOUNT')).toBe(10000);
+    expect(discountOfPaise(10000, 25.5, 'AMOUNT')).toBe(2550);
+  });
+
+  test('should clamp percentages to 0-100', () => {
+    expect(discountOfPaise(10000, 150)).toBe(10000);
+    expect(discountOfPaise(10000, -20)).toBe(0);
+  });
+
+  test('should never discount by a negative amount', () => {
+    expect(discountOfPaise(10000, -500, 'AMOUNT')).toBe(0);
+  });
+});
+
+test.describe('allocatePaise', () => {
+  test('should give the leftover paise to the largest remainders', () => {
+    expect(allocatePaise(7, [3, 1])).toEqual([5, 2]);
+  });
+
+  test('should break ties in favour of earlier lines', () => {
+    expect(allocatePaise(100, [1, 1, 1])).toEqual([34, 33, 33]);
+  });
+
+  test('should always add up to the amount allocated', () => {
+    const parts = allocatePaise(1001, [333, 127, 989, 1]);
+    expect(parts.reduce((sum, part) => sum + part, 0)).toBe(1001);
+  });
+
+  test('should allocate nothing without weights', () => {
+    expect(allocatePaise(500, [0, 0])).toEqual([0, 0]);
+  });
+});
+
+test.describe('splitTaxPaise', () => {
+  test('should round CGST and give SGST the remainder when paise are odd', () => {
+    expect(splitTaxPaise(1801, 'INTRA_STATE')).toEqual({ cgstPaise: 901, sgstPaise: 900, igstPaise: 0 });
+  });
+
+  test('should split even amounts equally', () => {
+    expect(splitTaxPaise(1800, 'INTRA_STATE')).toEqual({ cgstPaise: 900, sgstPaise: 900, igstPaise: 0 });
+  });
+
+  test('should charge IGST only on inter-state supplies', () => {
+    expect(splitTaxPaise(1801, 'INTER_STATE')).toEqual({ cgstPaise: 0, sgstPaise: 0, igstPaise: 1801 });
+  });
+});
+
+test.describe('priceQuote', () => {
+  test('should ignore line discounts in OVERALL mode', () => {
+    const result = priceQuote({
+      items: [{ quantity: 1, rate: 1000, discount: 10 }],
+      discountMode: 'OVERALL',
+      overallDiscount: 0,
+      taxRate: 18,
+    });
+
+    expect(result.subtotalPaise).toBe(100000);
+    expect(result.grandTotalPaise).toBe(118000);
+  });
+
+  test('should apply line discounts in LINE_ITEM mode', () => {
+    const result = priceQuote({
+      items: [{ quantity: 1, rate: 1000, discount: 10 }],
+      discountMode: 'LINE_ITEM',
+      taxRate: 18,
+    });
+
+    expect(result.lines[0].netPaise).toBe(90000);
+    expect(result.grandTotalPaise).toBe(106200);
+  });
+
+  test('should compute tax once per slab, not per line', () => {
+    // Per line, 5% of 10 paise would round up to 1 paisa each
+    const result = priceQuote({
+      items: [
+        { quantity: 1, rate: 0.1, taxRate: 5 },
+        { quantity: 1, rate: 0.1, taxRate: 5 },
+      ],
+      discountMode: 'LINE_ITEM',
+    });
+
+    expect(result.slabs).toHaveLength(1);
+    expect(result.taxPaise).toBe(1);
+  });
+
+  test('should split odd slab tax into CGST and SGST that add up', () => {
+    // 18% of ₹10.05 = 180.9 paise
+    const result = priceQuote({
+      items: [{ quantity: 1, rate: 10.05, taxRate: 18 }],
+      discountMode: 'LINE_ITEM',
+      supplyType: 'INTRA_STATE',
+    });
+
+    expect(result.taxPaise).toBe(181);
+    expect(result.cgstPaise).toBe(91);
+    expect(result.sgstPaise).toBe(90);
+    expect(result.grandTotalPaise).toBe(1186);
+  });
+
+  test('should allocate the overall discount across lines exactly', () => {
+    const result = priceQuote({
+      items: [
+        { quantity: 1, rate: 100 },
+        { quantity: 1, rate: 100 },
+        { quantity: 1, rate: 100 },
+      ],
+      discountMode: 'OVERALL',
+      overallDiscount: 10,
+      overallDiscountType: 'AMOUNT',
+      taxRate: 18,
+    });
+
+    expect(result.lines.map((line) => line.overallDiscountPaise)).toEqual([334, 333, 333]);
+    expect(result.lines.reduce((sum, line) => sum + line.taxablePaise, 0)).toBe(result.taxablePaise);
+    expect(result.taxablePaise).toBe(29000);
+  });
+
+  test('should not let an out-of-range discount turn a line negative', () => {
+    const result = priceQuote({
+      items: [{ quantity: 1, rate: 1000, discount: 150 }],
+      discountMode: 'LINE_ITEM',
+      taxRate: 18,
+    });
+
+    expect(result.lines[0].netPaise).toBe(0);
+    expect(result.taxPaise).toBe(0);
+    expect(result.grandTotalPaise).toBe(0);
+  });
+
+  test('should leave optional and alternative lines out of every total', () => {
+    const result = priceQuote({
+      items: [
+        { quantity: 1, rate: 100 },
+        { quantity: 1, rate: 50, kind: 'OPTIONAL' },
+        { quantity: 1, rate: 80, kind: 'ALTERNATIVE' },
+      ],
+      discountMode: 'LINE_ITEM',
+      taxRate: 18,
+    });
+
+    expect(result.lines.map((line) => line.included)).toEqual([true, false, false]);
+    expect(result.subtotalPaise).toBe(10000);
+    expect(result.grandTotalPaise).toBe(11800);
+  });
+});
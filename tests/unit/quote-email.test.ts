@@ -0,0 +1,62 @@
+/**
+ * Quote Email Tests
+ * Email templates, recipients and validation for emailing quotes (lib/quote-email.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  DEFAULT_EMAIL_TEMPLATE,
+  getEmailMergeValues,
+  getQuoteEmailError,
+  parseEmailList,
+  renderEmailTemplate,
+} from '../../lib/quote-email';
+
+const values = getEmailMergeValues({
+  clientName: 'Anil Sharma',
+  quoteNumber: 'QT/2026-27/00042',
+  version: 2,
+  quoteTitle: 'Sharma residence',
+  grandTotal: 53100,
+  companyName: 'Elegant Woods',
+  senderName: 'Priya',
+});
+
+test.describe('renderEmailTemplate', () => {
+  test('should fill in merge fields, with the revision in the quote number', () => {
+    expect(renderEmailTemplate(DEFAULT_EMAIL_TEMPLATE.subject, values)).toBe(
+      'Quotation QT/2026-27/00042-R2 from Elegant Woods'
+    );
+    expect(renderEmailTemplate('Dear {{ clientName }},', values)).toBe('Dear Anil Sharma,');
+  });
+
+  test('should leave unknown fields as written', () => {
+    expect(renderEmailTemplate('Total {{total}} {{discount}}', values)).toMatch(/^Total .*53,100.* \{\{discount\}\}$/);
+  });
+
+  test('should address clients without a name politely', () => {
+    expect(getEmailMergeValues({ quoteNumber: 'QT/1', grandTotal: 0 }).clientName).toBe('Sir/Madam');
+  });
+});
+
+test.describe('parseEmailList', () => {
+  test('should split typed lists and drop duplicates', () => {
+    expect(parseEmailList('a@x.com, b@y.com;A@x.com  c@z.com')).toEqual(['a@x.com', 'b@y.com', 'c@z.com']);
+    expect(parseEmailList(null)).toEqual([]);
+  });
+});
+
+test.describe('getQuoteEmailError', () => {
+  const email = { recipients: ['a@x.com'], cc: [], subject: 'Quote', body: 'Please see attached' };
+
+  test('should accept a complete email', () => {
+    expect(getQuoteEmailError(email)).toBeNull();
+  });
+
+  test('should need a valid recipient, a subject and a message', () => {
+    expect(getQuoteEmailError({ ...email, recipients: [] })).toBe('At least one recipient is required');
+    expect(getQuoteEmailError({ ...email, cc: ['not-an-address'] })).toBe('"not-an-address" is not a valid email address');
+    expect(getQuoteEmailError({ ...email, subject: ' ' })).toBe('Subject is required');
+    expect(getQuoteEmailError({ ...email, body: '' })).toBe('Message is required');
+  });
+});
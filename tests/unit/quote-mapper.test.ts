@@ -0,0 +1,66 @@
+/**
+ * Quote Response Tests
+ * What the quote API returns for a quote row (lib/quote-mapper.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import { mapQuote } from '../../lib/quote-mapper';
+
+// A quote row as selected with its relations, including the raw cost columns
+const quoteRow = {
+  id: 'quote-1',
+  quotenumber: 'QT/2026-27/00001',
+  status: 'SENT',
+  validuntil: '2099-12-31',
+  grandtotal: 47200,
+  client: { id: 'client-1', name: 'Anil Sharma', email: 'anil@example.com', isactive: true },
+  items: [
+    {
+      id: 'item-1',
+      productid: 'wardrobe',
+      kind: 'STANDARD',
+      quantity: 1,
+      rate: 40000,
+      discount: 0,
+      linetotal: 40000,
+      costprice: '28000',
+      product: {
+        name: 'Wardrobe',
+        unit: 'pcs',
+        costprice: 28000,
+        category: { name: 'Furniture' },
+      },
+    },
+  ],
+};
+
+test.describe('mapQuote', () => {
+  test('should keep cost prices from users who cannot see margins', () => {
+    const quote = mapQuote(quoteRow, { showCost: false });
+
+    expect(quote.items[0].costPrice).toBeUndefined();
+    expect(JSON.stringify(quote)).not.toContain('costprice');
+    expect(JSON.stringify(quote)).not.toContain('28000');
+  });
+
+  test('should return the line cost to users who can see margins', () => {
+    const quote = mapQuote(quoteRow, { showCost: true });
+
+    expect(quote.items[0].costPrice).toBe(28000);
+    expect(quote.items[0].product).not.toHaveProperty('costprice');
+  });
+
+  test('should keep the quote columns alongside the mapped fields', () => {
+    const quote = mapQuote(quoteRow, { showCost: false });
+
+    expect(quote.quotenumber).toBe('QT/2026-27/00001');
+    expect(quote.quoteNumber).toBe('QT/2026-27/00001');
+    expect(quote.client).toEqual(expect.objectContaining({ id: 'client-1', name: 'Anil Sharma' }));
+    expect(quote.client).not.toHaveProperty('isactive');
+    expect(quote).not.toHaveProperty('approvalSteps');
+  });
+
+  test('should apply expiry to the status', () => {
+    expect(mapQuote({ ...quoteRow, validuntil: '2020-01-31' }, { showCost: false }).status).toBe('EXPIRED');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Quote Number Tests
+ * Financial years and quote number patterns (lib/quote-number.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  formatQuoteNumber,
+  formatQuoteNumberWithRevision,
+  getFinancialYear,
+  isValidQuoteNumberPattern,
+} from '../../lib/quote-number';
+
+test.describe('getFinancialYear', () => {
+  test('should start the financial year in April', () => {
+    expect(getFinancialYear(new Date('2026-03-31T12:00:00+05:30'))).toBe('2025-26');
+    expect(getFinancialYear(new Date('2026-04-01T12:00:00+05:30'))).toBe('2026-27');
+  });
+
+  test('should turn over at midnight on 1 April in India, whatever the server time zone', () => {
+    // 00:00–05:30 IST on 1 April is still 31 March in UTC
+    expect(getFinancialYear(new Date('2026-03-31T18:30:00Z'))).toBe('2026-27');
+    expect(getFinancialYear(new Date('2026-03-31T18:29:59Z'))).toBe('2025-26');
+  });
+
+  test('should pad the end year across a century', () => {
+    expect(getFinancialYear(new Date('2099-06-01T12:00:00+05:30'))).toBe('2099-00');
+  });
+});
+
+test.describe('Quote number patterns', () => {
+  test('should require both the financial year and the sequence', () => {
+    expect(isValidQuoteNumberPattern('EW/QT/{FY}/{SEQ:5}')).toBe(true);
+    expect(isValidQuoteNumberPattern('{SEQ}-{FY}')).toBe(true);
+    // The sequence restarts each year, so a pattern without {FY} would repeat numbers
+    expect(isValidQuoteNumberPattern('EW/QT/{SEQ:5}')).toBe(false);
+    expect(isValidQuoteNumberPattern('EW/QT/{FY}')).toBe(false);
+  });
+
+  test('should fill the tokens and pad the sequence', () => {
+    expect(formatQuoteNumber('EW/QT/{FY}/{SEQ:5}', '2025-26', 42)).toBe('EW/QT/2025-26/00042');
+    expect(formatQuoteNumber('{FY}-{SEQ}', '2025-26', 42)).toBe('2025-26-42');
+  });
+
+  test('should add a revision suffix from the second version', () => {
+    expect(formatQuoteNumberWithRevision('QT/2025-26/00042', 1)).toBe('QT/2025-26/00042');
+    expect(formatQuoteNumberWithRevision('QT/2025-26/00042', 3)).toBe('QT/2025-26/00042-R3');
+  });
+});
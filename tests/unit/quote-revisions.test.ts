@@ -0,0 +1,100 @@
+/**
+ * Quote Revision Tests
+ * Comparing two saved versions of a quote (lib/quote-revisions.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import { buildQuoteSnapshot, diffQuoteSnapshots } from '../../lib/quote-revisions';
+
+const item = (overrides: Record<string, any>) => ({
+  sectionid: 'bedroom',
+  kind: 'STANDARD',
+  alternativeof: null,
+  quantity: 1,
+  discount: 0,
+  discounttype: 'PERCENT',
+  taxrate: 18,
+  hsncode: '9403',
+  costprice: null,
+  ...overrides,
+});
+
+const quote = (overrides: Record<string, any>) => ({
+  title: 'Sharma residence',
+  clientid: 'client-1',
+  client: { name: 'Anil Sharma' },
+  discountmode: 'LINE_ITEM',
+  overalldiscount: 0,
+  taxrate: 18,
+  subtotal: 0,
+  discount: 0,
+  tax: 0,
+  grandtotal: 0,
+  validuntil: '2026-11-30',
+  sections: [],
+  items: [],
+  policies: [],
+  payment_milestones: [],
+  ...overrides,
+});
+
+// Every save re-creates sections and items, so their ids differ between versions
+const version1 = buildQuoteSnapshot(quote({
+  sections: [{ id: 's1', name: 'Bedroom', order: 0 }, { id: 's2', name: 'Kitchen', order: 1 }],
+  items: [
+    item({ id: 'a1', productid: 'wardrobe', product: { name: 'Wardrobe' }, sectionid: 's1', rate: 40000, linetotal: 40000, order: 0 }),
+    item({ id: 'a2', productid: 'lamp', product: { name: 'Lamp' }, sectionid: 's1', rate: 2000, linetotal: 2000, costprice: 1200, order: 1 }),
+    item({ id: 'a3', productid: 'chimney', product: { name: 'Chimney' }, sectionid: 's2', rate: 5000, linetotal: 5000, order: 2 }),
+  ],
+  policies: [{ type: 'WARRANTY', title: 'Warranty', description: '1 year', isactive: true, order: 0 }],
+  subtotal: 47000,
+  grandtotal: 55460,
+}));
+
+const version2 = buildQuoteSnapshot(quote({
+  title: 'Sharma residence - revised',
+  sections: [{ id: 't1', name: 'Bedroom', order: 0 }],
+  items: [
+    item({ id: 'b1', productid: 'wardrobe', product: { name: 'Wardrobe' }, sectionid: 't1', rate: 42000, linetotal: 42000, order: 0 }),
+    item({ id: 'b2', productid: 'lamp', product: { name: 'Lamp' }, sectionid: 't1', rate: 2000, linetotal: 2000, costprice: 1500, order: 1 }),
+    item({ id: 'b3', productid: 'sofa', product: { name: 'Sofa' }, sectionid: 't1', rate: 30000, linetotal: 30000, order: 2 }),
+  ],
+  policies: [
+    { type: 'WARRANTY', title: 'Warranty', description: '2 years', isactive: true, order: 0 },
+    { type: 'PAYMENT', title: 'Payment terms', description: '50% advance', isactive: true, order: 1 },
+  ],
+  subtotal: 74000,
+  grandtotal: 87320,
+}));
+
+test.describe('diffQuoteSnapshots', () => {
+  const diff = diffQuoteSnapshots(version1, version2, 1, 2);
+
+  test('should list changed header fields', () => {
+    expect(diff.header).toEqual([
+      { field: 'title', label: 'Title', from: 'Sharma residence', to: 'Sharma residence - revised' },
+    ]);
+  });
+
+  test('should match lines by product and room across saves', () => {
+    expect(diff.lines.map((line) => [line.change, line.productName, line.lineTotalDelta])).toEqual([
+      ['CHANGED', 'Wardrobe', 2000],
+      ['ADDED', 'Sofa', 30000],
+      ['REMOVED', 'Chimney', -5000],
+    ]);
+    expect(diff.lines[0].changedFields).toEqual(['rate', 'lineTotal']);
+  });
+
+  test('should leave out unchanged lines and never compare cost prices', () => {
+    expect(diff.lines.some((line) => line.productName === 'Lamp')).toBe(false);
+  });
+
+  test('should list added, removed and changed terms', () => {
+    expect(diff.policies).toEqual({ added: ['Payment terms'], removed: [], changed: ['Warranty'] });
+  });
+
+  test('should report the change in totals', () => {
+    expect(diff.totals.subtotal).toEqual({ from: 47000, to: 74000, delta: 27000 });
+    expect(diff.totals.grandTotal.delta).toBe(31860);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Quote Status Tests
+ * The quote status state machine and which moves a plain status update may make
+ * (lib/quote-status.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import { getApprovalRouteError, getNextStatuses, getStatusTransitionError } from '../../lib/quote-status';
+
+test.describe('getStatusTransitionError', () => {
+  test('should allow the moves in the state machine', () => {
+    expect(getStatusTransitionError('DRAFT', 'SENT')).toBeNull();
+    expect(getStatusTransitionError('REJECTED', 'DRAFT')).toBeNull();
+    expect(getStatusTransitionError('SENT', 'SENT')).toBeNull();
+  });
+
+  test('should refuse moves out of final statuses', () => {
+    expect(getNextStatuses('ACCEPTED')).toEqual([]);
+    expect(getStatusTransitionError('ACCEPTED', 'DRAFT')).toEqual({
+      error: 'Cannot move a quote from ACCEPTED to DRAFT. ACCEPTED is a final status.',
+      status: 409,
+    });
+  });
+});
+
+test.describe('getApprovalRouteError', () => {
+  test('should send approval requests to the request-approval route', () => {
+    expect(getApprovalRouteError('quote-1', 'DRAFT', 'PENDING_APPROVAL')).toEqual({
+      error: 'Send a quote for approval with POST /api/quotes/quote-1/request-approval',
+      status: 409,
+    });
+  });
+
+  test('should leave approving and rejecting to the approve route', () => {
+    for (const to of ['SENT', 'REJECTED', 'DRAFT'] as const) {
+      expect(getApprovalRouteError('quote-1', 'PENDING_APPROVAL', to)?.error).toBe(
+        'A quote pending approval can only be approved or rejected with POST /api/quotes/quote-1/approve'
+      );
+    }
+  });
+
+  test('should allow moves that do not touch an approval round', () => {
+    expect(getApprovalRouteError('quote-1', 'DRAFT', 'SENT')).toBeNull();
+    expect(getApprovalRouteError('quote-1', 'SENT', 'ACCEPTED')).toBeNull();
+    expect(getApprovalRouteError('quote-1', 'PENDING_APPROVAL', 'PENDING_APPROVAL')).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Quote Duplication and Template Tests
+ * What a duplicated quote and a quote template carry over (lib/quote-revisions.ts,
+ * lib/quote-templates.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import { buildQuoteSnapshot, snapshotToQuoteUpdate } from '../../lib/quote-revisions';
+import { snapshotToTemplateContent, templateToBuilderQuote } from '../../lib/quote-templates';
+
+// A quote row as loaded with QUOTE_SNAPSHOT_SELECT
+const quoteRow = {
+  title: 'Sharma residence',
+  clientid: 'client-1',
+  client: { name: 'Anil Sharma' },
+  templateid: null,
+  pricelistid: null,
+  discountmode: 'LINE_ITEM',
+  overalldiscount: 0,
+  overalldiscounttype: 'PERCENT',
+  taxrate: 18,
+  subtotal: 45000,
+  discount: 0,
+  tax: 8100,
+  grandtotal: 53100,
+  validuntil: '2026-11-30',
+  sections: [
+    { id: 'room-2', name: 'Bedroom', discount: 0, discounttype: 'PERCENT', order: 1 },
+    { id: 'room-1', name: 'Kitchen', discount: 5, discounttype: 'PERCENT', order: 0 },
+  ],
+  items: [
+    {
+      id: 'item-1', productid: 'wardrobe', product: { name: 'Wardrobe' }, sectionid: 'room-2',
+      kind: 'STANDARD', alternativeof: null, description: 'Sliding wardrobe', quantity: 1,
+      rate: 40000, discount: 0, discounttype: 'PERCENT', taxrate: 18, hsncode: '9403',
+      linetotal: 40000, costprice: 28000, order: 0,
+    },
+    {
+      id: 'item-2', productid: 'mirror', product: { name: 'Mirror' }, sectionid: 'room-2',
+      kind: 'ALTERNATIVE', alternativeof: 'item-1', description: 'Mirror wardrobe', quantity: 1,
+      rate: 45000, discount: 0, discounttype: 'PERCENT', taxrate: 18, hsncode: '9403',
+      linetotal: 45000, costprice: 31000, order: 1,
+    },
+    {
+      id: 'item-3', productid: 'chimney', product: { name: 'Chimney' }, sectionid: 'room-1',
+      kind: 'STANDARD', alternativeof: null, description: 'Kitchen chimney', quantity: 1,
+      rate: 5000, discount: 0, discounttype: 'PERCENT', taxrate: 18, hsncode: '8414',
+      linetotal: 5000, costprice: 3500, order: 2,
+    },
+  ],
+  policies: [
+    { type: 'WARRANTY', title: 'Warranty', description: '1 year', isactive: true, order: 0 },
+  ],
+  payment_milestones: [
+    { name: 'Advance', valuetype: 'PERCENT', value: 50, trigger: 'BOOKING', order: 0 },
+    { name: 'Balance', valuetype: 'PERCENT', value: 50, trigger: 'HANDOVER', order: 1 },
+  ],
+};
+
+const product = (id: string, name: string) => ({
+  id,
+  name,
+  unit: 'pcs',
+  baserate: 1000,
+  taxrate: 18,
+  hsncode: '9403',
+  variantattributes: null,
+  category: { name: 'Furniture' },
+});
+
+test.describe('Duplicate Quote', () => {
+  test('should copy the contents of the quote in order', () => {
+    const copy = snapshotToQuoteUpdate(buildQuoteSnapshot(quoteRow));
+
+    expect(copy.title).toBe('Sharma residence');
+    expect(copy.clientId).toBe('client-1');
+    expect(copy.sections.map((section) => section.name)).toEqual(['Kitchen', 'Bedroom']);
+    expect(copy.items.map((item) => [item.id, item.kind, item.alternativeOfId])).toEqual([
+      ['item-1', 'STANDARD', null],
+      ['item-2', 'ALTERNATIVE', 'item-1'],
+      ['item-3', 'STANDARD', null],
+    ]);
+    expect(copy.paymentMilestones).toHaveLength(2);
+  });
+
+  test('should leave the validity date to the new quote', () => {
+    expect(snapshotToQuoteUpdate(buildQuoteSnapshot(quoteRow))).not.toHaveProperty('validUntil');
+  });
+});
+
+test.describe('Quote Templates', () => {
+  test('should leave cost prices and line totals out of a template', () => {
+    const content = snapshotToTemplateContent(buildQuoteSnapshot(quoteRow));
+
+    expect(content.items).toHaveLength(3);
+    for (const item of content.items) {
+      expect(item).not.toHaveProperty('costPrice');
+      expect(item).not.toHaveProperty('lineTotal');
+    }
+  });
+
+  test('should load a template with the current products', () => {
+    const content = snapshotToTemplateContent(buildQuoteSnapshot(quoteRow));
+    const quote = templateToBuilderQuote(content, [
+      product('wardrobe', 'Wardrobe'),
+      product('mirror', 'Mirror'),
+      product('chimney', 'Kitchen Chimney'),
+    ]);
+
+    expect(quote.skippedItems).toBe(0);
+    expect(quote.items.map((item) => item.product.name)).toEqual(['Wardrobe', 'Mirror', 'Kitchen Chimney']);
+    expect(quote.sections.map((section) => [section.name, section.order])).toEqual([['Kitchen', 1], ['Bedroom', 2]]);
+  });
+
+  test('should skip items whose product is gone, with their alternatives', () => {
+    const content = snapshotToTemplateContent(buildQuoteSnapshot(quoteRow));
+    const quote = templateToBuilderQuote(content, [product('mirror', 'Mirror'), product('chimney', 'Chimney')]);
+
+    // The mirror wardrobe was an alternative of the wardrobe, which no longer exists
+    expect(quote.items.map((item) => item.productId)).toEqual(['chimney']);
+    expect(quote.skippedItems).toBe(2);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Quote Verification Tests
+ * Which quote versions were issued, for the QR code on the PDF (lib/quote-verification.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import { buildQuoteVerification, parseVerificationVersion } from '../../lib/quote-verification';
+
+const quote = { quotenumber: 'QT/2026-27/00042', version: 3 };
+
+const snapshot = (grandTotal: number) => ({ header: { grandTotal, validUntil: '2026-06-30' } });
+
+// Version 1 saved and exported, version 2 saved and shared, version 3 only saved
+const revisions = [
+  { version: 1, exported_at: '2026-05-01T10:00:00Z', snapshot: snapshot(118000) },
+  { version: 1, exported_at: '2026-05-02T09:00:00Z', snapshot: null },
+  { version: 1, exported_at: '2026-05-03T09:00:00Z', snapshot: null },
+  { version: 2, exported_at: '2026-05-10T10:00:00Z', snapshot: snapshot(112100) },
+  { version: 3, exported_at: '2026-05-20T10:00:00Z', snapshot: snapshot(100300) },
+];
+const shareLinks = [{ quoteversion: 2, createdat: '2026-05-11T08:00:00Z' }];
+
+test.describe('buildQuoteVerification', () => {
+  test('should verify an exported version from its first export', () => {
+    expect(buildQuoteVerification(quote, 1, revisions, shareLinks, 'Elite Woodworks')).toEqual({
+      quoteNumber: 'QT/2026-27/00042',
+      version: 1,
+      issuedAt: '2026-05-02T09:00:00Z',
+      grandTotal: 118000,
+      validUntil: '2026-06-30',
+      isLatest: false,
+      companyName: 'Elite Woodworks',
+    });
+  });
+
+  test('should verify a shared version as the latest one issued', () => {
+    const verification = buildQuoteVerification(quote, 2, revisions, shareLinks, null);
+
+    expect(verification?.quoteNumber).toBe('QT/2026-27/00042-R2');
+    expect(verification?.issuedAt).toBe('2026-05-11T08:00:00Z');
+    // Version 3 was saved but never issued, so it doesn't supersede version 2
+    expect(verification?.isLatest).toBe(true);
+  });
+
+  test('should not verify a version that was only saved', () => {
+    expect(buildQuoteVerification(quote, 3, revisions, shareLinks, null)).toBeNull();
+    expect(buildQuoteVerification(quote, 4, revisions, shareLinks, null)).toBeNull();
+  });
+});
+
+test.describe('parseVerificationVersion', () => {
+  test('should only accept positive whole numbers', () => {
+    expect(parseVerificationVersion('2')).toBe(2);
+    expect(parseVerificationVersion('0')).toBeNull();
+    expect(parseVerificationVersion('1.5')).toBeNull();
+    expect(parseVerificationVersion(null)).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Share Link Tests
+ * When a client's share link can still be answered (lib/share-links.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import { getShareLinkExpiry, getShareLinkState, getShareResponseError } from '../../lib/share-links';
+
+const now = new Date('2026-10-18T12:00:00');
+const link = {
+  quoteVersion: 2,
+  expiresAt: '2026-11-17T12:00:00',
+  revokedAt: null,
+  response: null,
+};
+
+test.describe('getShareLinkState', () => {
+  test('should stay active while the quote is at the shared version', () => {
+    expect(getShareLinkState(link, 2, now)).toBe('ACTIVE');
+  });
+
+  test('should be superseded once the quote is edited', () => {
+    expect(getShareLinkState(link, 3, now)).toBe('SUPERSEDED');
+  });
+
+  test('should report answered, revoked and expired links first', () => {
+    expect(getShareLinkState({ ...link, response: 'ACCEPTED' }, 3, now)).toBe('RESPONDED');
+    expect(getShareLinkState({ ...link, revokedAt: '2026-10-01T00:00:00' }, 2, now)).toBe('REVOKED');
+    expect(getShareLinkState(link, 2, new Date('2026-11-18T00:00:00'))).toBe('EXPIRED');
+  });
+});
+
+test.describe('getShareLinkExpiry', () => {
+  test('should end with the quote\'s validity if that is sooner', () => {
+    expect(getShareLinkExpiry('2026-10-25', 30, now)).toEqual(new Date('2026-10-25T23:59:59'));
+    expect(getShareLinkExpiry(null, 30, now)).toEqual(new Date('2026-11-17T12:00:00'));
+  });
+});
+
+test.describe('getShareResponseError', () => {
+  test('should need a reason to reject and a name and signature to accept', () => {
+    expect(getShareResponseError({ response: 'REJECTED' })).toBe('Please tell us why you are rejecting the quote');
+    expect(getShareResponseError({ response: 'ACCEPTED', signerName: 'Anil Sharma' })).toBe('Please sign in the box');
+    expect(getShareResponseError({
+      response: 'ACCEPTED',
+      signerName: 'Anil Sharma',
+      signature: 'data:image/png;base64,iVBORw0KGgo=',
+    })).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Variant Tests
+ * Option price modifiers and variant attribute validation (lib/variants.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  applyVariantOptions,
+  changeVariantOptions,
+  formatPriceModifier,
+  formatVariantOptions,
+  getDefaultVariantOptions,
+  getVariantAttributesError,
+  parseVariantAttributes,
+  parseVariantOptions,
+} from '../../lib/variants';
+import { VariantAttribute } from '../../lib/types';
+
+const pu = { modifierType: 'DELTA' as const, modifier: 450 };
+const hettich = { modifierType: 'DELTA' as const, modifier: 1200.5 };
+const veneer = { modifierType: 'MULTIPLIER' as const, modifier: 1.25 };
+
+const attributes: VariantAttribute[] = [
+  {
+    name: 'Finish',
+    options: [
+      { label: 'Laminate', modifierType: 'DELTA', modifier: 0 },
+      { label: 'PU', ...pu },
+    ],
+  },
+  {
+    name: 'Hardware',
+    options: [{ label: 'Hettich', ...hettich }],
+  },
+];
+
+test.describe('Option prices', () => {
+  test('should add deltas to the rate', () => {
+    expect(applyVariantOptions(10000, [pu, hettich])).toBe(11650.5);
+    expect(applyVariantOptions(10000, null)).toBe(10000);
+  });
+
+  test('should apply multipliers before deltas, whatever order they were chosen in', () => {
+    expect(applyVariantOptions(10000, [pu, veneer])).toBe(12950);
+    expect(applyVariantOptions(10000, [veneer, pu])).toBe(12950);
+  });
+
+  test('should round to the paisa and never go below zero', () => {
+    expect(applyVariantOptions(99.99, [{ modifierType: 'MULTIPLIER', modifier: 1.333 }])).toBe(133.29);
+    expect(applyVariantOptions(300, [{ modifierType: 'DELTA', modifier: -500 }])).toBe(0);
+  });
+
+  test('should swap one option for another without losing a rate edited by hand', () => {
+    // 9,500 was typed in over the Laminate price; switching to PU adds only PU's ₹450
+    expect(changeVariantOptions(9500, [{ modifierType: 'DELTA', modifier: 0 }], [pu])).toBe(9950);
+    expect(changeVariantOptions(12950, [pu, veneer], [hettich])).toBe(11200.5);
+  });
+
+  test('should describe the price effect of an option', () => {
+    expect(formatPriceModifier(pu)).toBe('+₹450');
+    expect(formatPriceModifier({ modifierType: 'DELTA', modifier: -1500 })).toBe('-₹1,500');
+    expect(formatPriceModifier(veneer)).toBe('×1.25');
+    expect(formatPriceModifier({ modifierType: 'MULTIPLIER', modifier: 1 })).toBe('');
+  });
+});
+
+test.describe('Options on a line', () => {
+  test('should start with the first option of each attribute', () => {
+    const options = getDefaultVariantOptions(attributes);
+
+    expect(options).toEqual([
+      { attribute: 'Finish', option: 'Laminate', modifierType: 'DELTA', modifier: 0 },
+      { attribute: 'Hardware', option: 'Hettich', ...hettich },
+    ]);
+    expect(formatVariantOptions(options)).toBe('Finish: Laminate, Hardware: Hettich');
+    expect(getDefaultVariantOptions([])).toBeNull();
+  });
+
+  test('should drop stored options without an attribute or option name', () => {
+    expect(parseVariantOptions([
+      { attribute: 'Finish', option: 'PU', modifierType: 'DELTA', modifier: '450' },
+      { attribute: 'Hardware' },
+      null,
+    ])).toEqual([{ attribute: 'Finish', option: 'PU', modifierType: 'DELTA', modifier: 450 }]);
+    expect(parseVariantOptions([])).toBeNull();
+  });
+});
+
+test.describe('getVariantAttributesError', () => {
+  test('should accept distinct attributes with distinct options', () => {
+    expect(getVariantAttributesError(attributes)).toBeNull();
+  });
+
+  test('should reject an attribute listed twice, in any case', () => {
+    expect(getVariantAttributesError([...attributes, { name: 'finish', options: [{ label: 'PU', ...pu }] }]))
+      .toBe('"finish" is listed more than once');
+  });
+
+  test('should reject the same option twice under one attribute', () => {
+    expect(getVariantAttributesError([
+      { name: 'Finish', options: [{ label: 'PU', ...pu }, { label: 'pu', ...pu }] },
+    ])).toBe('"pu" is listed more than once under "Finish"');
+  });
+
+  test('should reject attributes without a name or options, and options without a label', () => {
+    expect(getVariantAttributesError([{ name: '', options: [{ label: 'PU', ...pu }] }]))
+      .toBe('Every variant attribute needs a name');
+    expect(getVariantAttributesError([{ name: 'Finish', options: [] }]))
+      .toBe('Add at least one option to "Finish"');
+    expect(getVariantAttributesError([{ name: 'Finish', options: [{ label: '', ...pu }] }]))
+      .toBe('Every "Finish" option needs a label');
+  });
+
+  test('should reject multipliers that are not greater than zero', () => {
+    expect(getVariantAttributesError([
+      { name: 'Finish', options: [{ label: 'Veneer', modifierType: 'MULTIPLIER', modifier: 0 }] },
+    ])).toBe('The multiplier for "Veneer" must be greater than zero');
+  });
+
+  test('should read stored attributes with safe modifier defaults', () => {
+    expect(parseVariantAttributes([
+      { name: ' Finish ', options: [{ label: 'Veneer', modifierType: 'MULTIPLIER', modifier: 'x' }, { label: 'PU' }] },
+      { name: 'No options' },
+    ])).toEqual([
+      {
+        name: 'Finish',
+        options: [
+          { label: 'Veneer', modifierType: 'MULTIPLIER', modifier: 1 },
+          { label: 'PU', modifierType: 'DELTA', modifier: 0 },
+        ],
+      },
+    ]);
+  });
+});